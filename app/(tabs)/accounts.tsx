@@ -4,18 +4,24 @@ import {
   StyleSheet, Modal, TextInput, ScrollView, Platform, Image,
 } from 'react-native';
 import { useUser } from '@clerk/clerk-expo';
+import { useRouter } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { useApp } from '@/lib/AppContext';
 import { useColors } from '@/hooks/use-colors';
-import { Account, AccountType } from '@/lib/types';
-import { formatCurrency, todayString } from '@/lib/format';
+import { Account, AccountType, LoanFrequency, LoanTerms, Transaction } from '@/lib/types';
+import { formatCurrency, formatDateHeader, formatMonthYear, getMonthYear, todayString } from '@/lib/format';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { CategoryIcon } from '@/components/CategoryIcon';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import UUID from 'react-native-uuid';
 import * as Haptics from 'expo-haptics';
 import { ACCOUNT_ICONS, ACCOUNT_COLORS } from '@/lib/defaults';
+import { CURRENCIES, accountCurrency, currencySymbol } from '@/lib/currency';
 import AddTransactionModal from '@/components/AddTransactionModal';
+import ReassignModal from '@/components/ReassignModal';
+import { ReassignMode, accountUsage, describeUsage } from '@/lib/reassign';
+import { availableCredit, cardStatement, defaultPaymentAccount, isCreditCard } from '@/lib/credit-cards';
+import { LOAN_FREQUENCIES, loanOwed, paymentAmount, payoffProjection } from '@/lib/loans';
 
 // ─── Account Form Modal ───────────────────────────────────────────────────────
 
@@ -25,6 +31,7 @@ const ACCOUNT_TYPES: { key: AccountType; label: string; icon: string }[] = [
   { key: 'credit_card', label: 'Credit Card', icon: '💳' },
   { key: 'savings', label: 'Savings', icon: '🏧' },
   { key: 'investment', label: 'Investment', icon: '📈' },
+  { key: 'loan', label: 'Loan', icon: '🤝' },
   { key: 'other', label: 'Other', icon: '💰' },
 ];
 
@@ -41,7 +48,7 @@ function AccountFormModal({
 }) {
   const colors = useColors();
   const insets = useSafeAreaInsets();
-  const { addAccount, updateAccount } = useApp();
+  const { state, addAccount, updateAccount } = useApp();
   const isEdit = !!account;
 
   const [name, setName] = useState('');
@@ -49,6 +56,17 @@ function AccountFormModal({
   const [initialBalance, setInitialBalance] = useState('0');
   const [icon, setIcon] = useState('💵');
   const [color, setColor] = useState(ACCOUNT_COLORS[0]);
+  const [currency, setCurrency] = useState(state.baseCurrency);
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [loanDirection, setLoanDirection] = useState<LoanTerms['direction']>('borrowed');
+  const [principal, setPrincipal] = useState('');
+  const [annualRate, setAnnualRate] = useState('');
+  const [loanPayments, setLoanPayments] = useState('');
+  const [loanFrequency, setLoanFrequency] = useState<LoanFrequency>('monthly');
+  const [firstPaymentDate, setFirstPaymentDate] = useState(todayString());
+  const [interestCategoryId, setInterestCategoryId] = useState<string | undefined>();
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   React.useEffect(() => {
@@ -59,34 +77,91 @@ function AccountFormModal({
       setInitialBalance(account.initialBalance.toString());
       setIcon(account.icon);
       setColor(account.color);
+      setCurrency(accountCurrency(account, state.baseCurrency));
+      setClosingDay(account.closingDay?.toString() ?? '');
+      setDueDay(account.dueDay?.toString() ?? '');
+      setCreditLimit(account.creditLimit?.toString() ?? '');
+      setLoanDirection(account.loan?.direction ?? 'borrowed');
+      setPrincipal(account.loan?.principal.toString() ?? '');
+      setAnnualRate(account.loan?.annualRate.toString() ?? '');
+      setLoanPayments(account.loan?.payments.toString() ?? '');
+      setLoanFrequency(account.loan?.frequency ?? 'monthly');
+      setFirstPaymentDate(account.loan?.firstPaymentDate ?? todayString());
+      setInterestCategoryId(account.loan?.interestCategoryId);
     } else {
       setName('');
       setType('cash');
       setInitialBalance('0');
       setIcon('💵');
       setColor(ACCOUNT_COLORS[0]);
+      setCurrency(state.baseCurrency);
+      setClosingDay('');
+      setDueDay('');
+      setCreditLimit('');
+      setLoanDirection('borrowed');
+      setPrincipal('');
+      setAnnualRate('');
+      setLoanPayments('');
+      setLoanFrequency('monthly');
+      setFirstPaymentDate(todayString());
+      setInterestCategoryId(undefined);
     }
     setErrors({});
-  }, [visible, account]);
+  }, [visible, account, state.baseCurrency]);
 
   const validate = () => {
     const e: Record<string, string> = {};
     if (!name.trim()) e.name = 'Account name is required';
+    if (type === 'credit_card') {
+      const badDay = (v: string) => v !== '' && !(Number(v) >= 1 && Number(v) <= 31);
+      if (badDay(closingDay) || badDay(dueDay)) e.cardDays = 'Days must be between 1 and 31';
+      else if (dueDay && !closingDay) e.cardDays = 'Set the closing day to track payments due';
+    }
+    if (type === 'loan') {
+      if (!(parseFloat(principal) > 0)) e.principal = 'Enter the amount borrowed or lent';
+      if (!(parseInt(loanPayments) >= 1)) e.loanTerm = 'Enter the number of payments';
+      else if (!/^\d{4}-\d{2}-\d{2}$/.test(firstPaymentDate)) e.loanTerm = 'Enter the first payment date as YYYY-MM-DD';
+    }
     setErrors(e);
     return Object.keys(e).length === 0;
   };
 
+  const interestType = loanDirection === 'lent' ? 'income' : 'expense';
+  const interestCategories = state.categories.filter(c => c.type === interestType);
+  const interestCategory = interestCategories.find(c => c.id === interestCategoryId) ?? interestCategories[0];
+
+  const loanTerms = (): LoanTerms => ({
+    direction: loanDirection,
+    principal: parseFloat(principal) || 0,
+    annualRate: parseFloat(annualRate) || 0,
+    payments: parseInt(loanPayments) || 1,
+    frequency: loanFrequency,
+    firstPaymentDate,
+    interestCategoryId: interestCategory?.id,
+  });
+
   const handleSave = async () => {
     if (!validate()) return;
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const now = new Date().toISOString();
+    const loan = type === 'loan' ? loanTerms() : undefined;
     const acc: Account = {
       id: account?.id || String(UUID.v4()),
       name: name.trim(),
       type,
-      initialBalance: parseFloat(initialBalance) || 0,
+      // A loan starts out owing its principal
+      initialBalance: loan ? (loan.direction === 'lent' ? loan.principal : -loan.principal) : parseFloat(initialBalance) || 0,
       icon,
       color,
-      createdAt: account?.createdAt || new Date().toISOString(),
+      currency,
+      ...(type === 'credit_card' && {
+        closingDay: closingDay ? parseInt(closingDay) : undefined,
+        dueDay: dueDay ? parseInt(dueDay) : undefined,
+        creditLimit: creditLimit ? parseFloat(creditLimit) || 0 : undefined,
+      }),
+      loan,
+      createdAt: account?.createdAt || now,
+      updatedAt: now,
     };
     if (isEdit) await updateAccount(acc);
     else await addAccount(acc);
@@ -157,19 +232,216 @@ function AccountFormModal({
                 ))}
               </View>
 
-              {/* Initial Balance */}
-              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Initial Balance</Text>
-              <View style={[styles.balanceInput, { backgroundColor: colors.surface, borderColor: colors.border }]}>
-                <Text style={[styles.currencySymbol, { color: colors.primary }]}>$</Text>
-                <TextInput
-                  style={[styles.balanceTextInput, { color: colors.foreground }]}
-                  value={initialBalance}
-                  onChangeText={v => setInitialBalance(v.replace(/[^0-9.-]/g, ''))}
-                  keyboardType="decimal-pad"
-                  returnKeyType="done"
-                />
+              {/* Currency */}
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Currency</Text>
+              <View style={styles.currencyChips}>
+                {CURRENCIES.map(c => {
+                  const selected = currency === c.code;
+                  return (
+                    <Pressable
+                      key={c.code}
+                      style={[
+                        styles.currencyChip,
+                        { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary + '15' : colors.surface },
+                      ]}
+                      onPress={() => setCurrency(c.code)}
+                    >
+                      <Text style={[styles.currencyChipText, { color: selected ? colors.primary : colors.foreground }]}>
+                        {c.symbol} {c.code}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
               </View>
 
+              {/* Initial Balance — a loan's comes from its principal */}
+              {type !== 'loan' && (
+                <>
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Initial Balance</Text>
+                  <View style={[styles.balanceInput, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                    <Text style={[styles.currencySymbol, { color: colors.primary }]}>{currencySymbol(currency)}</Text>
+                    <TextInput
+                      style={[styles.balanceTextInput, { color: colors.foreground }]}
+                      value={initialBalance}
+                      onChangeText={v => setInitialBalance(v.replace(/[^0-9.-]/g, ''))}
+                      keyboardType="decimal-pad"
+                      returnKeyType="done"
+                    />
+                  </View>
+                </>
+              )}
+
+              {/* Loan terms */}
+              {type === 'loan' && (
+                <>
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Direction</Text>
+                  <View style={styles.currencyChips}>
+                    {([['borrowed', 'I borrowed'], ['lent', 'I lent']] as const).map(([key, label]) => {
+                      const selected = loanDirection === key;
+                      return (
+                        <Pressable
+                          key={key}
+                          style={[
+                            styles.currencyChip,
+                            { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary + '15' : colors.surface },
+                          ]}
+                          onPress={() => { setLoanDirection(key); setInterestCategoryId(undefined); }}
+                        >
+                          <Text style={[styles.currencyChipText, { color: selected ? colors.primary : colors.foreground }]}>{label}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Principal *</Text>
+                  <View style={[styles.balanceInput, { backgroundColor: colors.surface, borderColor: errors.principal ? colors.expense : colors.border }]}>
+                    <Text style={[styles.currencySymbol, { color: colors.primary }]}>{currencySymbol(currency)}</Text>
+                    <TextInput
+                      style={[styles.balanceTextInput, { color: colors.foreground }]}
+                      value={principal}
+                      onChangeText={v => setPrincipal(v.replace(/[^0-9.]/g, ''))}
+                      placeholder="0.00"
+                      placeholderTextColor={colors.muted}
+                      keyboardType="decimal-pad"
+                      returnKeyType="done"
+                    />
+                  </View>
+                  {errors.principal && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.principal}</Text>}
+
+                  <View style={styles.cardFieldsRow}>
+                    <View style={styles.cardField}>
+                      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Interest % / Year</Text>
+                      <TextInput
+                        style={[styles.textInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+                        value={annualRate}
+                        onChangeText={v => setAnnualRate(v.replace(/[^0-9.]/g, ''))}
+                        placeholder="0"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="decimal-pad"
+                        returnKeyType="done"
+                      />
+                    </View>
+                    <View style={styles.cardField}>
+                      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Payments *</Text>
+                      <TextInput
+                        style={[styles.textInput, { backgroundColor: colors.surface, borderColor: errors.loanTerm ? colors.expense : colors.border, color: colors.foreground }]}
+                        value={loanPayments}
+                        onChangeText={v => setLoanPayments(v.replace(/[^0-9]/g, ''))}
+                        placeholder="e.g. 60"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="number-pad"
+                        returnKeyType="done"
+                      />
+                    </View>
+                  </View>
+
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Paid</Text>
+                  <View style={styles.currencyChips}>
+                    {LOAN_FREQUENCIES.map(f => {
+                      const selected = loanFrequency === f.key;
+                      return (
+                        <Pressable
+                          key={f.key}
+                          style={[
+                            styles.currencyChip,
+                            { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary + '15' : colors.surface },
+                          ]}
+                          onPress={() => setLoanFrequency(f.key)}
+                        >
+                          <Text style={[styles.currencyChipText, { color: selected ? colors.primary : colors.foreground }]}>{f.label}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>First Payment</Text>
+                  <TextInput
+                    style={[styles.textInput, { backgroundColor: colors.surface, borderColor: errors.loanTerm ? colors.expense : colors.border, color: colors.foreground }]}
+                    value={firstPaymentDate}
+                    onChangeText={setFirstPaymentDate}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={colors.muted}
+                    maxLength={10}
+                    returnKeyType="done"
+                  />
+                  {errors.loanTerm && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.loanTerm}</Text>}
+
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Interest Category</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.currencyChips}>
+                    {interestCategories.map(c => {
+                      const selected = interestCategory?.id === c.id;
+                      return (
+                        <Pressable
+                          key={c.id}
+                          style={[
+                            styles.currencyChip,
+                            { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary + '15' : colors.surface },
+                          ]}
+                          onPress={() => setInterestCategoryId(c.id)}
+                        >
+                          <Text style={[styles.currencyChipText, { color: selected ? colors.primary : colors.foreground }]}>{c.name}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </ScrollView>
+
+                  {parseFloat(principal) > 0 && parseInt(loanPayments) >= 1 && (
+                    <Text style={[styles.loanPaymentHint, { color: colors.muted }]}>
+                      {formatCurrency(paymentAmount(loanTerms()), currencySymbol(currency))} per payment, interest included
+                    </Text>
+                  )}
+                </>
+              )}
+
+              {/* Statement cycle and limit — credit cards only */}
+              {type === 'credit_card' && (
+                <>
+                  <View style={styles.cardFieldsRow}>
+                    <View style={styles.cardField}>
+                      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Statement Closes</Text>
+                      <TextInput
+                        style={[styles.textInput, { backgroundColor: colors.surface, borderColor: errors.cardDays ? colors.expense : colors.border, color: colors.foreground }]}
+                        value={closingDay}
+                        onChangeText={v => setClosingDay(v.replace(/[^0-9]/g, ''))}
+                        placeholder="Day, e.g. 20"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="number-pad"
+                        maxLength={2}
+                        returnKeyType="done"
+                      />
+                    </View>
+                    <View style={styles.cardField}>
+                      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Payment Due</Text>
+                      <TextInput
+                        style={[styles.textInput, { backgroundColor: colors.surface, borderColor: errors.cardDays ? colors.expense : colors.border, color: colors.foreground }]}
+                        value={dueDay}
+                        onChangeText={v => setDueDay(v.replace(/[^0-9]/g, ''))}
+                        placeholder="Day, e.g. 15"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="number-pad"
+                        maxLength={2}
+                        returnKeyType="done"
+                      />
+                    </View>
+                  </View>
+                  {errors.cardDays && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.cardDays}</Text>}
+
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Credit Limit</Text>
+                  <View style={[styles.balanceInput, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                    <Text style={[styles.currencySymbol, { color: colors.primary }]}>{currencySymbol(currency)}</Text>
+                    <TextInput
+                      style={[styles.balanceTextInput, { color: colors.foreground }]}
+                      value={creditLimit}
+                      onChangeText={v => setCreditLimit(v.replace(/[^0-9.]/g, ''))}
+                      placeholder="No limit"
+                      placeholderTextColor={colors.muted}
+                      keyboardType="decimal-pad"
+                      returnKeyType="done"
+                    />
+                  </View>
+                </>
+              )}
+
               {/* Icon Picker */}
               <Text style={[styles.fieldLabel, { color: colors.muted }]}>Icon</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.iconRow}>
@@ -244,7 +516,7 @@ function QuickEditModal({
 }) {
   const colors = useColors();
   const insets = useSafeAreaInsets();
-  const { updateAccount, addTransaction } = useApp();
+  const { state, updateAccount, addTransaction } = useApp();
   const [name, setName] = useState('');
   const [balance, setBalance] = useState('');
   const [nameError, setNameError] = useState('');
@@ -276,7 +548,12 @@ function QuickEditModal({
 
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-    await updateAccount({ ...account, name: name.trim(), initialBalance: newBalance });
+    await updateAccount({
+      ...account,
+      name: name.trim(),
+      initialBalance: newBalance,
+      updatedAt: new Date().toISOString(),
+    });
 
     // Auto-create a transaction for the balance difference
     if (balanceChanged && reasonId) {
@@ -350,7 +627,9 @@ function QuickEditModal({
               backgroundColor: colors.surface,
               borderColor: balanceChanged ? colors.primary : colors.border,
             }]}>
-              <Text style={[qStyles.currSign, { color: colors.primary }]}>$</Text>
+              <Text style={[qStyles.currSign, { color: colors.primary }]}>
+                {currencySymbol(accountCurrency(account ?? undefined, state.baseCurrency))}
+              </Text>
               <TextInput
                 style={[qStyles.balanceInput, { color: colors.foreground }]}
                 value={balance}
@@ -453,16 +732,25 @@ const qStyles = StyleSheet.create({
 
 export default function AccountsScreen() {
   const colors = useColors();
+  const router = useRouter();
   const { user } = useUser();
-  const { accountsWithBalance, removeAccount } = useApp();
+  const { state, accountsWithBalance, removeAccount, reassignAccount } = useApp();
   const [showForm, setShowForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [showAddTx, setShowAddTx] = useState(false);
   const [selectedAccountId, setSelectedAccountId] = useState<string | undefined>();
   const [showQuickEdit, setShowQuickEdit] = useState(false);
   const [quickEditAccount, setQuickEditAccount] = useState<Account | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState<Account | null>(null);
+  const [txPrefill, setTxPrefill] = useState<Partial<Transaction>>();
 
-  const totalBalance = accountsWithBalance.reduce((s, a) => s + a.balance, 0);
+  const today = todayString();
+  const statements = useMemo(() => new Map(
+    state.accounts.filter(isCreditCard).map(a => [a.id, cardStatement(a, state.transactions, today)]),
+  ), [state.accounts, state.transactions, today]);
+
+  // Converted to the base currency; accounts without a rate are added unconverted
+  const totalBalance = accountsWithBalance.reduce((s, a) => s + (a.balanceInBase ?? a.balance), 0);
 
   const cardDate = useMemo(() => {
     const now = new Date();
@@ -470,7 +758,7 @@ export default function AccountsScreen() {
   }, []);
 
   const displayBalance = useMemo(() => {
-    const formatted = formatCurrency(totalBalance);
+    const formatted = formatCurrency(totalBalance, state.currency);
     const digits = (formatted.match(/\d/g) || []).length;
     if (digits <= 8) return formatted;
     let seen = 0;
@@ -479,7 +767,7 @@ export default function AccountsScreen() {
       if (seen === 8) return formatted.slice(0, i + 1) + '..';
     }
     return formatted;
-  }, [totalBalance]);
+  }, [totalBalance, state.currency]);
 
   // ── Dynamic overlay positioning ───────────────────────────────────────────
   const [cardLayout, setCardLayout] = useState({ width: 0, height: 0 });
@@ -523,13 +811,20 @@ export default function AccountsScreen() {
       'What would you like to do?',
       [
         { text: 'Edit', onPress: () => { setEditingAccount(account); setShowForm(true); } },
+        { text: 'Reconcile', onPress: () => router.push({ pathname: '/reconcile', params: { accountId: account.id } }) },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
+            const usage = accountUsage(account.id, state);
+            if (usage.transactions + usage.rules > 0) {
+              // In use — ask where its transactions go first
+              setDeletingAccount(account);
+              return;
+            }
             Alert.alert(
               'Delete Account',
-              `Delete "${account.name}"? All transactions linked to this account will also be deleted.`,
+              `Delete "${account.name}"? It moves to the Trash, where you can restore it.`,
               [
                 { text: 'Cancel', style: 'cancel' },
                 { text: 'Delete', style: 'destructive', onPress: () => removeAccount(account.id) },
@@ -540,13 +835,115 @@ export default function AccountsScreen() {
         { text: 'Cancel', style: 'cancel' },
       ]
     );
-  }, [removeAccount]);
+  }, [state, removeAccount, router]);
+
+  const handleReassign = useCallback(async (targetId: string, mode: ReassignMode) => {
+    if (!deletingAccount) return;
+    setDeletingAccount(null);
+    await reassignAccount(deletingAccount.id, targetId, mode);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [deletingAccount, reassignAccount]);
+
+  const handleDeleteWithTransactions = useCallback(() => {
+    const account = deletingAccount;
+    if (!account) return;
+    Alert.alert(
+      'Delete Account',
+      `Delete "${account.name}"? It moves to the Trash along with all transactions linked to it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => { setDeletingAccount(null); removeAccount(account.id); },
+        },
+      ]
+    );
+  }, [deletingAccount, removeAccount]);
+
+  // Only accounts in the same currency can take over the transactions as they are
+  const reassignTargets = useMemo(() => {
+    if (!deletingAccount) return [];
+    const currency = accountCurrency(deletingAccount, state.baseCurrency);
+    return state.accounts.filter(a =>
+      a.id !== deletingAccount.id && accountCurrency(a, state.baseCurrency) === currency);
+  }, [deletingAccount, state.accounts, state.baseCurrency]);
 
   const handleTapAccount = useCallback((account: Account) => {
     setSelectedAccountId(account.id);
     setShowAddTx(true);
   }, []);
 
+  // Transfer the amount due from the usual bank account; the form opens to confirm it
+  const handlePayCard = useCallback((card: Account, amount: number) => {
+    const from = defaultPaymentAccount(card, state.accounts, state.baseCurrency);
+    if (!from) {
+      Alert.alert('No Account to Pay From', `Add a bank account in ${accountCurrency(card, state.baseCurrency)} to pay this card from.`);
+      return;
+    }
+    setTxPrefill({ type: 'transfer', amount, accountId: from.id, toAccountId: card.id, note: `${card.name} payment` });
+    setShowAddTx(true);
+  }, [state.accounts, state.baseCurrency]);
+
+  const renderCardDetails = (item: typeof accountsWithBalance[0]) => {
+    const symbol = currencySymbol(accountCurrency(item, state.baseCurrency));
+    const statement = statements.get(item.id);
+    const available = availableCredit(item, item.balance);
+    // Without a statement cycle, the whole balance is what's owed
+    const due = statement ? statement.amountDue : Math.max(0, -item.balance);
+    const overdue = !!statement && due > 0 && statement.dueDate < today;
+    const details = [
+      statement && (due > 0
+        ? `${formatCurrency(due, symbol)} due ${formatDateHeader(statement.dueDate)}`
+        : 'Statement paid'),
+      available !== null && `${formatCurrency(available, symbol)} available`,
+    ].filter(Boolean).join(' · ');
+    if (!details && due <= 0) return null;
+    return (
+      <View style={styles.cardDetails}>
+        {!!details && (
+          <Text style={[styles.cardDetailsText, { color: overdue ? colors.expense : colors.muted }]} numberOfLines={2}>
+            {overdue ? 'Overdue · ' : ''}{details}
+          </Text>
+        )}
+        {due > 0 && (
+          <Pressable
+            style={({ pressed }) => [styles.payBtn, { backgroundColor: colors.primary + '15' }, pressed && { opacity: 0.6 }]}
+            onPress={() => handlePayCard(item, due)}
+            hitSlop={6}
+          >
+            <Text style={[styles.payBtnText, { color: colors.primary }]}>Pay</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  const renderLoanDetails = (item: typeof accountsWithBalance[0]) => {
+    if (!item.loan) return null;
+    const symbol = currencySymbol(accountCurrency(item, state.baseCurrency));
+    const owed = loanOwed(item, item.balance);
+    const payoff = payoffProjection(item.loan, owed, today);
+    const { year, month } = getMonthYear(payoff?.payoffDate ?? today);
+    const details = owed <= 0
+      ? 'Paid off'
+      : `${formatCurrency(owed, symbol)} left · ${payoff ? `paid off ${formatMonthYear(year, month)}` : 'payments short of interest'}`;
+    return (
+      <View style={styles.cardDetails}>
+        <Text style={[styles.cardDetailsText, { color: payoff ? colors.muted : colors.expense }]} numberOfLines={2}>
+          {details}
+        </Text>
+        <Pressable
+          style={({ pressed }) => [styles.payBtn, { backgroundColor: colors.primary + '15' }, pressed && { opacity: 0.6 }]}
+          onPress={() => router.push({ pathname: '/loan', params: { accountId: item.id } })}
+          hitSlop={6}
+        >
+          <Text style={[styles.payBtnText, { color: colors.primary }]}>Schedule</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
   const renderAccount = ({ item }: { item: typeof accountsWithBalance[0] }) => {
     const balanceColor = item.balance < 0 ? colors.expense : colors.foreground;
     return (
@@ -567,10 +964,17 @@ export default function AccountsScreen() {
           <Text style={[styles.accountCardName, { color: colors.foreground }]}>{item.name}</Text>
           <Text style={[styles.accountCardType, { color: colors.muted }]}>
             {ACCOUNT_TYPES.find(t => t.key === item.type)?.label || item.type}
+            {accountCurrency(item, state.baseCurrency) !== state.baseCurrency && (
+              item.balanceInBase !== null
+                ? ` · ≈ ${formatCurrency(item.balanceInBase, state.currency)}`
+                : ` · ${accountCurrency(item, state.baseCurrency)}, no rate`
+            )}
           </Text>
+          {isCreditCard(item) && renderCardDetails(item)}
+          {item.type === 'loan' && renderLoanDetails(item)}
         </View>
         <Text style={[styles.accountCardBalance, { color: balanceColor }]}>
-          {item.balance < 0 ? '-' : ''}{formatCurrency(Math.abs(item.balance))}
+          {formatCurrency(item.balance, currencySymbol(accountCurrency(item, state.baseCurrency)))}
         </Text>
         <Pressable
           style={({ pressed }) => [styles.editIconBtn, pressed && { opacity: 0.5 }]}
@@ -626,7 +1030,7 @@ export default function AccountsScreen() {
               >
                 {displayBalance}
               </Text>
-              <Text style={[styles.cardTotalLabel, { marginLeft: overlayPos.labelML }]}>Total Balance</Text>
+              <Text style={[styles.cardTotalLabel, { marginLeft: overlayPos.labelML }]}>Total Balance · {state.baseCurrency}</Text>
             </View>
             <View style={{ position: 'relative' }}>
               <Text style={[styles.cardHolderName, { marginLeft: overlayPos.nameML }]} numberOfLines={1}>
@@ -672,8 +1076,9 @@ export default function AccountsScreen() {
       <AddTransactionModal
         visible={showAddTx}
         defaultAccountId={selectedAccountId}
-        onClose={() => { setShowAddTx(false); setSelectedAccountId(undefined); }}
-        onSaved={() => { setShowAddTx(false); setSelectedAccountId(undefined); }}
+        prefill={txPrefill}
+        onClose={() => { setShowAddTx(false); setSelectedAccountId(undefined); setTxPrefill(undefined); }}
+        onSaved={() => { setShowAddTx(false); setSelectedAccountId(undefined); setTxPrefill(undefined); }}
       />
 
       <QuickEditModal
@@ -682,6 +1087,18 @@ export default function AccountsScreen() {
         onClose={() => { setShowQuickEdit(false); setQuickEditAccount(null); }}
         onSaved={() => { setShowQuickEdit(false); setQuickEditAccount(null); }}
       />
+
+      <ReassignModal
+        visible={!!deletingAccount}
+        title="Delete Account"
+        name={deletingAccount?.name ?? ''}
+        usage={deletingAccount ? describeUsage(accountUsage(deletingAccount.id, state)) : ''}
+        targets={reassignTargets}
+        mergeHint="adds its opening balance to the chosen account's"
+        onConfirm={handleReassign}
+        deleteAll={{ label: 'Delete with its transactions', onPress: handleDeleteWithTransactions }}
+        onClose={() => setDeletingAccount(null)}
+      />
     </ScreenContainer>
   );
 }
@@ -778,6 +1195,25 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '800',
   },
+  cardDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  cardDetailsText: {
+    flexShrink: 1,
+    fontSize: 12,
+  },
+  payBtn: {
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  payBtnText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
   editIconBtn: {
     marginLeft: 10,
     padding: 4,
@@ -885,6 +1321,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  currencyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  currencyChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  currencyChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   balanceInput: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -941,6 +1392,17 @@ const styles = StyleSheet.create({
     marginTop: 4,
     marginLeft: 4,
   },
+  loanPaymentHint: {
+    fontSize: 13,
+    marginTop: 10,
+  },
+  cardFieldsRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  cardField: {
+    flex: 1,
+  },
   saveContainer: {
     paddingHorizontal: 16,
     paddingTop: 12,
@@ -1,19 +1,30 @@
 import React, { useState, useMemo } from 'react';
 import {
-  View, Text, ScrollView, Pressable, StyleSheet,
+  View, Text, ScrollView, Pressable, StyleSheet, TextInput,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import Svg, { G, Path, Text as SvgText } from 'react-native-svg';
 import { ScreenContainer } from '@/components/screen-container';
 import { useApp } from '@/lib/AppContext';
 import { useColors } from '@/hooks/use-colors';
 import {
   formatCurrency, formatMonthYear, isSameMonth, navigateMonth,
-  getDaysInMonth,
+  getDaysInMonth, todayString,
 } from '@/lib/format';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { CategoryIcon } from '@/components/CategoryIcon';
+import { BudgetProgress } from '@/components/BudgetProgress';
 import { CategoryWithTotal } from '@/lib/types';
+import { BudgetStatus, computeBudgetStatus, monthKey } from '@/lib/budgets';
+import { categoryLines } from '@/lib/splits';
+import { categoryPath, rollUpTo } from '@/lib/category-tree';
+import { DATE_RANGE_PRESETS, DateRangePreset, dateRange } from '@/lib/search';
+import { tagTotals } from '@/lib/tags';
+
+type TagRange = DateRangePreset | 'all' | 'custom';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -54,6 +65,7 @@ interface FlowerSlice {
   label: string;
   icon: string;
   percentage: number;
+  drillable?: boolean; // has subcategories to open
 }
 
 // Always render this many slots so the chart is always a full circle
@@ -66,12 +78,15 @@ function FlowerChart({
   size = 280,
   colors,
   currency = '$',
+  onOpenSlice,
 }: {
   slices: FlowerSlice[];
   total: number;
   size?: number;
   colors: ReturnType<typeof useColors>;
   currency?: string;
+  /** Tapping a selected drillable petal again opens it. */
+  onOpenSlice?: (index: number) => void;
 }) {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
 
@@ -91,6 +106,11 @@ function FlowerChart({
   const activeSlice = hasActive ? (topSlices[activeIndex!] ?? null) : null;
 
   const handlePress = (i: number) => {
+    if (activeIndex === i && topSlices[i]?.drillable && onOpenSlice) {
+      setActiveIndex(null);
+      onOpenSlice(i);
+      return;
+    }
     setActiveIndex(prev => (prev === i ? null : i));
   };
 
@@ -202,6 +222,9 @@ function FlowerChart({
             <Text style={{ color: colors.foreground, fontSize: 8, fontWeight: '600', marginTop: 1 }}>
               {activeSlice.percentage.toFixed(0)}%
             </Text>
+            {activeSlice.drillable && (
+              <Text style={{ color: colors.muted, fontSize: 7, marginTop: 1 }}>Tap to open</Text>
+            )}
           </>
         ) : total > 0 ? (
           <>
@@ -261,16 +284,23 @@ function DailyBarChart({
 
 export default function AnalyseScreen() {
   const colors = useColors();
-  const { state, setCurrency } = useApp();
+  const router = useRouter();
+  const { state, baseTransactions, missingRates } = useApp();
   const currency = state.currency;
   const [year, setYear] = useState(() => new Date().getFullYear());
   const [month, setMonth] = useState(() => new Date().getMonth() + 1);
   const [activeType, setActiveType] = useState<'expense' | 'income'>('expense');
+  // Parent category whose subcategories are shown; null = top level
+  const [drillId, setDrillId] = useState<string | null>(null);
   const [showDailyChart, setShowDailyChart] = useState(false);
+  // Tag totals have their own date range, independent of the month shown
+  const [tagRange, setTagRange] = useState<TagRange>('this-month');
+  const [tagFrom, setTagFrom] = useState('');
+  const [tagTo, setTagTo] = useState('');
 
   const monthTransactions = useMemo(() =>
-    state.transactions.filter(t => isSameMonth(t.date, year, month)),
-    [state.transactions, year, month]
+    baseTransactions.filter(t => isSameMonth(t.date, year, month)),
+    [baseTransactions, year, month]
   );
 
   const summary = useMemo(() => {
@@ -282,26 +312,64 @@ export default function AnalyseScreen() {
     return { income, expense, balance: income - expense };
   }, [monthTransactions]);
 
-  // Category breakdown
+  // Category breakdown at the current level: subcategory amounts roll up into
+  // the child of `drillId` they sit under (or into top-level categories)
   const categoryBreakdown = useMemo((): CategoryWithTotal[] => {
     const filtered = monthTransactions.filter(t => t.type === activeType);
-    const total = filtered.reduce((s, t) => s + t.amount, 0);
+    // Split transactions count towards each of their line categories
     const map: Record<string, number> = {};
+    const counts: Record<string, number> = {};
     for (const t of filtered) {
-      map[t.categoryId] = (map[t.categoryId] || 0) + t.amount;
+      const buckets = categoryLines(t)
+        .map(line => ({ id: rollUpTo(state.categories, line.categoryId, drillId), amount: line.amount }))
+        .filter((b): b is { id: string; amount: number } => b.id !== null);
+      for (const b of buckets) {
+        map[b.id] = (map[b.id] || 0) + b.amount;
+      }
+      for (const catId of new Set(buckets.map(b => b.id))) {
+        counts[catId] = (counts[catId] || 0) + 1;
+      }
     }
+    const total = Object.values(map).reduce((sum, v) => sum + v, 0);
     return Object.entries(map)
       .map(([catId, amount]) => {
         const cat = state.categories.find(c => c.id === catId);
+        const base = cat || { id: catId, name: 'Unknown', type: activeType, icon: '❓', color: '#999', isDefault: false, sortOrder: 99, createdAt: '' };
         return {
-          ...(cat || { id: catId, name: 'Unknown', type: activeType, icon: '❓', color: '#999', isDefault: false, sortOrder: 99, createdAt: '' }),
+          ...base,
+          // Booked on the parent itself rather than one of its subcategories
+          name: catId === drillId ? `${base.name} (general)` : base.name,
           total: amount,
           percentage: total > 0 ? (amount / total) * 100 : 0,
-          count: filtered.filter(t => t.categoryId === catId).length,
+          count: counts[catId],
         };
       })
       .sort((a, b) => b.total - a.total);
-  }, [monthTransactions, activeType, state.categories]);
+  }, [monthTransactions, activeType, state.categories, drillId]);
+
+  const isDrillable = (id: string) => id !== drillId && state.categories.some(c => c.parentId === id);
+  const drillCategory = drillId ? state.categories.find(c => c.id === drillId) : undefined;
+
+  const handleTypeChange = (t: 'expense' | 'income') => {
+    setActiveType(t);
+    setDrillId(null);
+  };
+
+  // Budget vs actual (expenses only)
+  const budgetStatuses = useMemo(() => {
+    const map = new Map<string | null, BudgetStatus>();
+    if (activeType !== 'expense') return map;
+    const key = monthKey(year, month);
+    const overall = computeBudgetStatus(state.budgets, baseTransactions, state.categories, null, key);
+    if (overall) map.set(null, overall);
+    for (const cat of categoryBreakdown) {
+      const status = computeBudgetStatus(state.budgets, baseTransactions, state.categories, cat.id, key);
+      if (status) map.set(cat.id, status);
+    }
+    return map;
+  }, [activeType, year, month, state.budgets, baseTransactions, state.categories, categoryBreakdown]);
+
+  const overallBudget = budgetStatuses.get(null);
 
   const flowerSlices: FlowerSlice[] = categoryBreakdown.map(c => ({
     value: c.total,
@@ -309,9 +377,31 @@ export default function AnalyseScreen() {
     label: c.name,
     icon: c.icon,
     percentage: c.percentage,
+    drillable: isDrillable(c.id),
   }));
 
-  const activeTotal = activeType === 'expense' ? summary.expense : summary.income;
+  const activeTotal = drillId
+    ? categoryBreakdown.reduce((sum, c) => sum + c.total, 0)
+    : activeType === 'expense' ? summary.expense : summary.income;
+
+  // Spending per tag over the chosen range (in the base currency)
+  const hasTags = useMemo(() => baseTransactions.some(t => t.tags?.length), [baseTransactions]);
+  const tagBreakdown = useMemo(() => {
+    const range = tagRange === 'all' ? {}
+      : tagRange === 'custom' ? {
+        fromDate: DATE_PATTERN.test(tagFrom) ? tagFrom : undefined,
+        toDate: DATE_PATTERN.test(tagTo) ? tagTo : undefined,
+      }
+      : dateRange(tagRange, todayString());
+    return tagTotals(baseTransactions, activeType, range);
+  }, [baseTransactions, activeType, tagRange, tagFrom, tagTo]);
+  const maxTagTotal = Math.max(...tagBreakdown.map(t => t.total), 0);
+
+  const tagRangeOptions: { key: TagRange; label: string }[] = [
+    ...DATE_RANGE_PRESETS,
+    { key: 'all', label: 'All time' },
+    { key: 'custom', label: 'Custom' },
+  ];
 
   // Daily data
   const dailyData = useMemo(() => {
@@ -361,6 +451,13 @@ export default function AnalyseScreen() {
           <Text style={[styles.statBalance, { color: colors.foreground }]}>
             {formatCurrency(summary.balance, currency)}
           </Text>
+          {missingRates.length > 0 && (
+            <Pressable onPress={() => router.push('/exchange-rates')}>
+              <Text style={[styles.missingRates, { color: colors.warning }]}>
+                No exchange rate for {missingRates.join(', ')} — totals are unconverted
+              </Text>
+            </Pressable>
+          )}
         </View>
 
         {/* ── Income / Expense Cards ── */}
@@ -419,7 +516,7 @@ export default function AnalyseScreen() {
                     overflow: 'hidden',
                   },
                 ]}
-                onPress={() => setActiveType(t)}
+                onPress={() => handleTypeChange(t)}
               >
                 {isActive ? (
                   <LinearGradient
@@ -447,20 +544,56 @@ export default function AnalyseScreen() {
         {/* Flower Chart */}
         <View style={styles.chartContainer}>
           <FlowerChart
+            key={drillId ?? 'top'}
             slices={flowerSlices}
             total={activeTotal}
             size={280}
             colors={colors}
             currency={currency}
+            onOpenSlice={i => setDrillId(categoryBreakdown[i].id)}
           />
         </View>
 
         {/* Category Breakdown */}
         {categoryBreakdown.length > 0 ? (
           <View style={[styles.breakdownContainer, { backgroundColor: colors.background }]}>
-            <Text style={[styles.sectionTitle, { color: colors.foreground }]}>Category Breakdown</Text>
+            <View style={styles.breakdownHeader}>
+              {drillId ? (
+                <Pressable
+                  style={({ pressed }) => [styles.drillBack, pressed && { opacity: 0.5 }]}
+                  onPress={() => setDrillId(drillCategory?.parentId ?? null)}
+                >
+                  <IconSymbol name="chevron.left" size={16} color={colors.primary} />
+                  <Text style={[styles.sectionTitle, { color: colors.foreground }]} numberOfLines={1}>
+                    {categoryPath(state.categories, drillId)}
+                  </Text>
+                </Pressable>
+              ) : (
+                <Text style={[styles.sectionTitle, { color: colors.foreground }]}>Category Breakdown</Text>
+              )}
+              {activeType === 'expense' && (
+                <Pressable
+                  style={({ pressed }) => [styles.budgetsLink, pressed && { opacity: 0.5 }]}
+                  onPress={() => router.push('/budgets')}
+                >
+                  <Text style={[styles.budgetsLinkText, { color: colors.primary }]}>Budgets</Text>
+                  <IconSymbol name="chevron.right" size={14} color={colors.primary} />
+                </Pressable>
+              )}
+            </View>
+            {overallBudget && (
+              <View style={[styles.overallBudget, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                <Text style={[styles.overallBudgetTitle, { color: colors.foreground }]}>Monthly budget</Text>
+                <BudgetProgress status={overallBudget} currency={currency} />
+              </View>
+            )}
             {categoryBreakdown.map(cat => (
-              <View key={cat.id} style={[styles.breakdownRow, { borderBottomColor: colors.border }]}>
+              <Pressable
+                key={cat.id}
+                style={({ pressed }) => [styles.breakdownRow, { borderBottomColor: colors.border }, pressed && isDrillable(cat.id) && { opacity: 0.7 }]}
+                onPress={() => isDrillable(cat.id) && setDrillId(cat.id)}
+                disabled={!isDrillable(cat.id)}
+              >
                 <View style={[styles.breakdownIcon, { backgroundColor: cat.color + '22' }]}>
                   <CategoryIcon icon={cat.icon} size={24} />
                 </View>
@@ -468,7 +601,7 @@ export default function AnalyseScreen() {
                   <View style={styles.breakdownTopRow}>
                     <Text style={[styles.breakdownName, { color: colors.foreground }]}>{cat.name}</Text>
                     <Text style={[styles.breakdownAmount, { color: colors.foreground }]}>
-                      {formatCurrency(cat.total)}
+                      {formatCurrency(cat.total, currency)}
                     </Text>
                   </View>
                   <View style={styles.breakdownBottomRow}>
@@ -479,8 +612,14 @@ export default function AnalyseScreen() {
                       {cat.percentage.toFixed(0)}%
                     </Text>
                   </View>
+                  {budgetStatuses.has(cat.id) && (
+                    <BudgetProgress status={budgetStatuses.get(cat.id)!} currency={currency} compact />
+                  )}
                 </View>
-              </View>
+                {isDrillable(cat.id) && (
+                  <IconSymbol name="chevron.right" size={14} color={colors.muted} style={styles.drillChevron} />
+                )}
+              </Pressable>
             ))}
           </View>
         ) : (
@@ -492,6 +631,86 @@ export default function AnalyseScreen() {
           </View>
         )}
 
+        {/* Tags */}
+        {hasTags && (
+          <View style={[styles.breakdownContainer, styles.tagSection, { borderTopColor: colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: colors.foreground }]}>
+              {activeType === 'expense' ? 'Spending' : 'Income'} by Tag
+            </Text>
+            <View style={styles.tagRangeRow}>
+              {tagRangeOptions.map(opt => {
+                const selected = tagRange === opt.key;
+                return (
+                  <Pressable
+                    key={opt.key}
+                    style={({ pressed }) => [
+                      styles.tagRangeChip,
+                      {
+                        backgroundColor: selected ? colors.primary : colors.surface,
+                        borderColor: selected ? colors.primary : colors.border,
+                      },
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={() => setTagRange(opt.key)}
+                  >
+                    <Text style={[styles.tagRangeText, { color: selected ? '#fff' : colors.foreground }]}>{opt.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            {tagRange === 'custom' && (
+              <View style={styles.tagDateRow}>
+                <TextInput
+                  style={[styles.tagDateInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+                  value={tagFrom}
+                  onChangeText={setTagFrom}
+                  placeholder="From YYYY-MM-DD"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={10}
+                />
+                <Text style={{ color: colors.muted }}>–</Text>
+                <TextInput
+                  style={[styles.tagDateInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+                  value={tagTo}
+                  onChangeText={setTagTo}
+                  placeholder="To YYYY-MM-DD"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={10}
+                />
+              </View>
+            )}
+            {tagBreakdown.length > 0 ? tagBreakdown.map(t => (
+              <View key={t.tag} style={[styles.breakdownRow, { borderBottomColor: colors.border }]}>
+                <View style={styles.breakdownInfo}>
+                  <View style={styles.breakdownTopRow}>
+                    <Text style={[styles.breakdownName, { color: colors.foreground }]} numberOfLines={1}>#{t.tag}</Text>
+                    <Text style={[styles.breakdownAmount, { color: colors.foreground }]}>
+                      {formatCurrency(t.total, currency)}
+                    </Text>
+                  </View>
+                  <View style={styles.breakdownBottomRow}>
+                    <View style={[styles.progressBarBg, { backgroundColor: colors.border }]}>
+                      <View style={[styles.progressBar, {
+                        width: `${maxTagTotal > 0 ? (t.total / maxTagTotal) * 100 : 0}%`,
+                        backgroundColor: activeType === 'expense' ? colors.expense : colors.income,
+                      }]} />
+                    </View>
+                    <Text style={[styles.breakdownPct, { color: colors.muted }]}>
+                      {t.count} {t.count === 1 ? 'entry' : 'entries'}
+                    </Text>
+                  </View>
+                </View>
+              </View>
+            )) : (
+              <Text style={[styles.noDataText, { color: colors.muted, paddingVertical: 12 }]}>
+                No tagged {activeType === 'expense' ? 'spending' : 'income'} in this period
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Daily Bar Chart */}
         <Pressable
           style={[styles.dailyChartToggle, { borderTopColor: colors.border, borderBottomColor: colors.border }]}
@@ -639,6 +858,47 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 12,
   },
+  missingRates: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  drillBack: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 4,
+    flex: 1,
+  },
+  drillChevron: {
+    marginLeft: 8,
+  },
+  budgetsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingTop: 2,
+  },
+  budgetsLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  overallBudget: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  overallBudgetTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   breakdownRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -693,6 +953,41 @@ const styles = StyleSheet.create({
     minWidth: 32,
     textAlign: 'right',
   },
+  tagSection: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 0.5,
+  },
+  tagRangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tagRangeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagRangeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tagDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tagDateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
   noDataContainer: {
     alignItems: 'center',
     paddingVertical: 40,
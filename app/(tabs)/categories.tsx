@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View, Text, FlatList, Pressable, Alert,
   StyleSheet, Modal, TextInput, ScrollView, Platform,
@@ -14,6 +14,9 @@ import * as Haptics from 'expo-haptics';
 import { CATEGORY_ICONS, CATEGORY_COLORS } from '@/lib/defaults';
 import { LinearGradient } from 'expo-linear-gradient';
 import { CategoryIcon, IMAGE_ICONS } from '@/components/CategoryIcon';
+import ReassignModal from '@/components/ReassignModal';
+import { ReassignMode, categoryUsage, describeUsage } from '@/lib/reassign';
+import { flattenTree, parentOptions } from '@/lib/category-tree';
 
 // ─── Category Form Modal ──────────────────────────────────────────────────────
 
@@ -32,13 +35,14 @@ function CategoryFormModal({
 }) {
   const colors = useColors();
   const insets = useSafeAreaInsets();
-  const { addCategory, updateCategory } = useApp();
+  const { state, addCategory, updateCategory } = useApp();
   const isEdit = !!category;
 
   const [name, setName] = useState('');
   const [type, setType] = useState<'expense' | 'income'>(defaultType);
   const [icon, setIcon] = useState(IMAGE_ICONS[0]);
   const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [parentId, setParentId] = useState<string | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showCustomInput, setShowCustomInput] = useState(false);
   const [customEmojiValue, setCustomEmojiValue] = useState('');
@@ -50,11 +54,13 @@ function CategoryFormModal({
       setType(category.type);
       setIcon(category.icon);
       setColor(category.color);
+      setParentId(category.parentId ?? null);
     } else {
       setName('');
       setType(defaultType);
       setIcon(IMAGE_ICONS[0]);
       setColor(CATEGORY_COLORS[0]);
+      setParentId(null);
     }
     setErrors({});
     setShowCustomInput(false);
@@ -71,15 +77,18 @@ function CategoryFormModal({
   const handleSave = async () => {
     if (!validate()) return;
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const now = new Date().toISOString();
     const cat: Category = {
       id: category?.id || String(UUID.v4()),
       name: name.trim(),
       type,
       icon,
       color,
+      parentId: parentId ?? undefined,
       isDefault: category?.isDefault || false,
       sortOrder: category?.sortOrder || 99,
-      createdAt: category?.createdAt || new Date().toISOString(),
+      createdAt: category?.createdAt || now,
+      updatedAt: now,
     };
     if (isEdit) await updateCategory(cat);
     else await addCategory(cat);
@@ -136,7 +145,7 @@ function CategoryFormModal({
                               overflow: 'hidden',
                             },
                           ]}
-                          onPress={() => setType(t)}
+                          onPress={() => { setType(t); setParentId(null); }}
                         >
                           {isActive ? (
                             <LinearGradient
@@ -175,6 +184,29 @@ function CategoryFormModal({
               />
               {errors.name && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.name}</Text>}
 
+              {/* Parent */}
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Parent Category</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.parentRow}>
+                {[null, ...parentOptions(state.categories, category?.id ?? null, type)].map(p => {
+                  const active = (p?.id ?? null) === parentId;
+                  return (
+                    <Pressable
+                      key={p?.id ?? 'none'}
+                      style={[
+                        styles.parentChip,
+                        { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                      ]}
+                      onPress={() => setParentId(p?.id ?? null)}
+                    >
+                      {p && <CategoryIcon icon={p.icon} size={16} />}
+                      <Text style={[styles.parentChipText, { color: active ? colors.primary : colors.foreground }]}>
+                        {p ? p.name : 'None'}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+
               {/* Icon Picker */}
               <Text style={[styles.fieldLabel, { color: colors.muted }]}>Icon</Text>
               <View style={styles.iconGrid}>
@@ -286,12 +318,18 @@ function CategoryFormModal({
 
 export default function CategoriesScreen() {
   const colors = useColors();
-  const { state, removeCategory } = useApp();
+  const { state, removeCategory, reassignCategory } = useApp();
   const [activeType, setActiveType] = useState<'expense' | 'income'>('expense');
   const [showForm, setShowForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
 
-  const filteredCategories = state.categories.filter(c => c.type === activeType);
+  // Parents first, each followed by the categories nested under it
+  const filteredCategories = useMemo(
+    () => flattenTree(state.categories.filter(c => c.type === activeType)).map(o => o.category),
+    [state.categories, activeType],
+  );
+  const parentName = (category: Category) => state.categories.find(c => c.id === category.parentId)?.name;
 
   const handleLongPress = useCallback((category: Category) => {
     if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -308,9 +346,15 @@ export default function CategoriesScreen() {
               Alert.alert('Cannot Delete', 'Default categories cannot be deleted.');
               return;
             }
+            const usage = categoryUsage(category.id, state);
+            if (usage.transactions + usage.budgets + usage.rules > 0) {
+              // In use — ask where its transactions go first
+              setDeletingCategory(category);
+              return;
+            }
             Alert.alert(
               'Delete Category',
-              `Delete "${category.name}"?`,
+              `Delete "${category.name}"? It moves to the Trash, where you can restore it.`,
               [
                 { text: 'Cancel', style: 'cancel' },
                 { text: 'Delete', style: 'destructive', onPress: () => removeCategory(category.id) },
@@ -321,7 +365,14 @@ export default function CategoriesScreen() {
         { text: 'Cancel', style: 'cancel' },
       ]
     );
-  }, [removeCategory]);
+  }, [state, removeCategory]);
+
+  const handleReassign = useCallback(async (targetId: string, mode: ReassignMode) => {
+    if (!deletingCategory) return;
+    setDeletingCategory(null);
+    await reassignCategory(deletingCategory.id, targetId, mode);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [deletingCategory, reassignCategory]);
 
   const renderCategory = ({ item }: { item: Category }) => (
     <Pressable
@@ -340,6 +391,11 @@ export default function CategoriesScreen() {
       <Text style={[styles.categoryName, { color: colors.foreground }]} numberOfLines={1}>
         {item.name}
       </Text>
+      {parentName(item) && (
+        <Text style={[styles.categoryParent, { color: colors.muted }]} numberOfLines={1}>
+          in {parentName(item)}
+        </Text>
+      )}
       {item.isDefault && (
         <View style={[styles.defaultBadge, { backgroundColor: colors.border }]}>
           <Text style={[styles.defaultBadgeText, { color: colors.muted }]}>default</Text>
@@ -432,6 +488,17 @@ export default function CategoriesScreen() {
         onClose={() => { setShowForm(false); setEditingCategory(null); }}
         onSaved={() => { setShowForm(false); setEditingCategory(null); }}
       />
+
+      <ReassignModal
+        visible={!!deletingCategory}
+        title="Delete Category"
+        name={deletingCategory?.name ?? ''}
+        usage={deletingCategory ? describeUsage(categoryUsage(deletingCategory.id, state)) : ''}
+        targets={state.categories.filter(c => c.type === deletingCategory?.type && c.id !== deletingCategory?.id)}
+        mergeHint="adds its budgets to the chosen category's"
+        onConfirm={handleReassign}
+        onClose={() => setDeletingCategory(null)}
+      />
     </ScreenContainer>
   );
 }
@@ -498,6 +565,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  categoryParent: {
+    fontSize: 10,
+    textAlign: 'center',
+    marginTop: 1,
+  },
   defaultBadge: {
     position: 'absolute',
     top: 6,
@@ -669,6 +741,22 @@ const styles = StyleSheet.create({
     marginTop: 4,
     marginLeft: 4,
   },
+  parentRow: {
+    gap: 8,
+  },
+  parentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  parentChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   saveContainer: {
     paddingHorizontal: 16,
     paddingTop: 12,
@@ -1,8 +1,9 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import {
   View, Text, FlatList, Pressable, Alert,
-  RefreshControl, StyleSheet, TouchableOpacity, Image,
+  RefreshControl, StyleSheet, TouchableOpacity, Image, ScrollView,
 } from 'react-native';
+import { useRouter } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { useApp } from '@/lib/AppContext';
 import { useColors } from '@/hooks/use-colors';
@@ -11,11 +12,17 @@ import {
   formatCurrency, formatMonthYear, formatDateHeader,
   isSameMonth, navigateMonth, todayString,
 } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import { isSplit } from '@/lib/splits';
+import { isImageAttachment } from '@/lib/attachments';
+import { hasTag, knownTags, removeTag, sameTag } from '@/lib/tags';
+import { isReconciled } from '@/lib/reconcile';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import AddTransactionModal from '@/components/AddTransactionModal';
 import BalanceSummaryChart from '@/components/BalanceSummaryChart';
 import { useSidebar } from '@/lib/SidebarContext';
 import { CategoryIcon } from '@/components/CategoryIcon';
+import { AttachmentThumbnail } from '@/components/AttachmentPicker';
 import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
 import * as Haptics from 'expo-haptics';
 import { Platform } from 'react-native';
@@ -31,12 +38,14 @@ interface DateGroup {
 
 export default function RecordsScreen() {
   const colors = useColors();
-  const { state, removeTransaction, refresh } = useApp();
+  const router = useRouter();
+  const { state, baseTransactions, removeTransaction, refresh } = useApp();
   const [year, setYear] = useState(() => new Date().getFullYear());
   const [month, setMonth] = useState(() => new Date().getMonth() + 1);
   const [refreshing, setRefreshing] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]); // empty = all
   const { openSidebar } = useSidebar();
 
   // Filter transactions for current month
@@ -45,20 +54,38 @@ export default function RecordsScreen() {
     [state.transactions, year, month]
   );
 
-  // Compute summary
+  // Tags used this month, plus any still selected from another month
+  const monthTags = useMemo(() => {
+    const used = knownTags(monthTransactions);
+    return [...used, ...tagFilter.filter(tag => !used.some(u => sameTag(u, tag)))];
+  }, [monthTransactions, tagFilter]);
+
+  const visibleTransactions = useMemo(() =>
+    tagFilter.length === 0
+      ? monthTransactions
+      : monthTransactions.filter(t => tagFilter.some(tag => hasTag(t, tag))),
+    [monthTransactions, tagFilter]
+  );
+
+  const toggleTag = useCallback((tag: string) => {
+    setTagFilter(prev => (prev.some(t => sameTag(t, tag)) ? removeTag(prev, tag) : [...prev, tag]));
+  }, []);
+
+  // Compute summary (in the base currency)
   const summary = useMemo(() => {
     let income = 0, expense = 0;
-    for (const t of monthTransactions) {
+    for (const t of baseTransactions) {
+      if (!isSameMonth(t.date, year, month)) continue;
       if (t.type === 'income') income += t.amount;
       else if (t.type === 'expense') expense += t.amount;
     }
     return { income, expense, total: income - expense };
-  }, [monthTransactions]);
+  }, [baseTransactions, year, month]);
 
   // Group by date, newest first
   const dateGroups = useMemo((): DateGroup[] => {
     const groups: Record<string, Transaction[]> = {};
-    for (const t of monthTransactions) {
+    for (const t of visibleTransactions) {
       if (!groups[t.date]) groups[t.date] = [];
       groups[t.date].push(t);
     }
@@ -70,7 +97,7 @@ export default function RecordsScreen() {
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
         ),
       }));
-  }, [monthTransactions]);
+  }, [visibleTransactions]);
 
   const handleNavigateMonth = useCallback((dir: 1 | -1) => {
     const next = navigateMonth(year, month, dir);
@@ -87,7 +114,9 @@ export default function RecordsScreen() {
   const handleDelete = useCallback((transaction: Transaction) => {
     Alert.alert(
       'Delete Transaction',
-      'Are you sure you want to delete this transaction?',
+      isReconciled(transaction)
+        ? 'This transaction matches a reconciled bank statement, which will no longer balance without it. Delete it anyway?'
+        : 'Are you sure you want to delete this transaction?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -115,6 +144,9 @@ export default function RecordsScreen() {
   const getAccountById = useCallback((id: string) =>
     state.accounts.find(a => a.id === id), [state.accounts]);
 
+  const getPayeeById = useCallback((id: string | undefined) =>
+    id ? state.payees.find(p => p.id === id) : undefined, [state.payees]);
+
   // ─── Render helpers ───────────────────────────────────────────────────────
 
   const renderRightActions = useCallback((transaction: Transaction) => (
@@ -130,10 +162,12 @@ export default function RecordsScreen() {
   const renderTransaction = useCallback(({ item }: { item: Transaction }) => {
     const category = getCategoryById(item.categoryId);
     const account  = getAccountById(item.accountId);
+    const payee    = getPayeeById(item.payeeId);
     const amountColor = item.type === 'income'  ? colors.income
                       : item.type === 'expense' ? colors.expense
                       : colors.transfer;
     const amountPrefix = item.type === 'income' ? '+' : item.type === 'expense' ? '-' : '';
+    const receipt = item.attachments?.find(isImageAttachment);
 
     return (
       <View style={styles.txCardWrapper}>
@@ -153,21 +187,36 @@ export default function RecordsScreen() {
               <CategoryIcon icon={category?.icon || '💸'} size={26} />
             </View>
             <View style={styles.transactionInfo}>
-              <Text style={[styles.transactionName, { color: colors.foreground }]}>
-                {category?.name || 'Unknown'}
-              </Text>
+              <View style={styles.transactionNameRow}>
+                <Text style={[styles.transactionName, { color: colors.foreground }]}>
+                  {category?.name || 'Unknown'}
+                  {isSplit(item) ? ` +${item.splits!.length - 1}` : ''}
+                </Text>
+                {item.recurringRuleId && (
+                  <IconSymbol name="arrow.clockwise" size={12} color={colors.muted} />
+                )}
+                {!!item.attachments?.length && !receipt && (
+                  <IconSymbol name="paperclip" size={12} color={colors.muted} />
+                )}
+              </View>
               <Text style={[styles.transactionSub, { color: colors.muted }]}>
-                {account?.name || '—'}{item.note ? ` · ${item.note}` : ''}
+                {payee ? `${payee.name} · ` : ''}{account?.name || '—'}{item.note ? ` · ${item.note}` : ''}
+                {item.tags?.length ? ` · ${item.tags.map(tag => `#${tag}`).join(' ')}` : ''}
               </Text>
             </View>
+            {receipt && (
+              <View style={styles.receiptThumb}>
+                <AttachmentThumbnail attachment={receipt} size={32} />
+              </View>
+            )}
             <Text style={[styles.transactionAmount, { color: amountColor }]}>
-              {amountPrefix}{formatCurrency(item.amount)}
+              {amountPrefix}{formatCurrency(item.amount, currencySymbol(accountCurrency(account, state.baseCurrency)))}
             </Text>
           </Pressable>
         </ReanimatedSwipeable>
       </View>
     );
-  }, [colors, getCategoryById, getAccountById, handleEditTransaction, renderRightActions]);
+  }, [colors, getCategoryById, getAccountById, getPayeeById, handleEditTransaction, renderRightActions, state.baseCurrency]);
 
   const renderDateGroup = useCallback(({ item }: { item: DateGroup }) => (
     <View>
@@ -195,7 +244,9 @@ export default function RecordsScreen() {
         Nothing here yet
       </Text> */}
       <Text style={[styles.emptySubtitle, { color: colors.muted }]}>
-        {`No transactions for ${formatMonthYear(year, month)}.\nTap + to record your first one.`}
+        {tagFilter.length > 0
+          ? `No transactions with these tags in ${formatMonthYear(year, month)}.`
+          : `No transactions for ${formatMonthYear(year, month)}.\nTap + to record your first one.`}
       </Text>
       <Text style={[styles.emptyDots, { color: colors.border }]}>• • •</Text>
     </View>
@@ -226,7 +277,7 @@ export default function RecordsScreen() {
           {formatMonthYear(year, month)}
         </Text>
 
-        {/* Right: next + placeholder to balance */}
+        {/* Right: next + search */}
         <View style={[styles.navSide, styles.navSideRight]}>
           <Pressable
             style={({ pressed }) => [styles.navBtn, pressed && { opacity: 0.5 }]}
@@ -234,7 +285,12 @@ export default function RecordsScreen() {
           >
             <IconSymbol name="chevron.right" size={22} color={colors.primary} />
           </Pressable>
-          <View style={styles.navPlaceholder} />
+          <Pressable
+            style={({ pressed }) => [styles.navBtn, pressed && { opacity: 0.5 }]}
+            onPress={() => router.push('/search')}
+          >
+            <IconSymbol name="magnifyingglass" size={22} color={colors.primary} />
+          </Pressable>
         </View>
       </View>
 
@@ -249,13 +305,36 @@ export default function RecordsScreen() {
             <BalanceSummaryChart
               year={year}
               month={month}
-              transactions={state.transactions}
+              transactions={baseTransactions}
               summary={summary}
               currency={state.currency}
             />
             <Text style={[styles.sectionTitle, { color: colors.foreground }]}>
               Recent Transactions
             </Text>
+            {monthTags.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagFilterRow}>
+                {monthTags.map(tag => {
+                  const selected = tagFilter.some(t => sameTag(t, tag));
+                  return (
+                    <Pressable
+                      key={tag}
+                      style={({ pressed }) => [
+                        styles.tagChip,
+                        {
+                          backgroundColor: selected ? colors.primary : colors.surface,
+                          borderColor: selected ? colors.primary : colors.border,
+                        },
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() => toggleTag(tag)}
+                    >
+                      <Text style={[styles.tagChipText, { color: selected ? '#fff' : colors.foreground }]}>#{tag}</Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            )}
           </>
         }
         refreshControl={
@@ -298,9 +377,6 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
-  navPlaceholder: {
-    width: 36,
-  },
   navBtn: {
     padding: 8,
   },
@@ -318,6 +394,20 @@ const styles = StyleSheet.create({
     paddingTop: 20,
     paddingBottom: 8,
   },
+  tagFilterRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   dateHeaderText: {
     fontSize: 12,
     fontWeight: '600',
@@ -353,6 +443,11 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  transactionNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   transactionName: {
     fontSize: 15,
     fontWeight: '600',
@@ -365,6 +460,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  receiptThumb: {
+    marginRight: 10,
+  },
   deleteAction: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -20,6 +20,8 @@ import type { EdgeInsets, Metrics, Rect } from "react-native-safe-area-context";
 import { trpc, createTRPCClient } from "@/lib/trpc";
 import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-runtime";
 import { AppProvider } from "@/lib/AppContext";
+import { UndoSnackbar } from "@/components/UndoSnackbar";
+import { StorageErrorGate } from "@/components/StorageErrorGate";
 import { tokenCache } from "@/lib/clerk-token-cache";
 
 const publishableKey = process.env.EXPO_PUBLIC_CLERK_PUBLISHABLE_KEY!;
@@ -93,12 +95,26 @@ export default function RootLayout() {
                 {/* Default to hiding native headers so raw route segments don't appear (e.g. "(tabs)", "products/[id]"). */}
                 {/* If a screen needs the native header, explicitly enable it and set a human title via Stack.Screen options. */}
                 {/* in order for ios apps tab switching to work properly, use presentation: "fullScreenModal" for login page, whenever you decide to use presentation: "modal*/}
-                <Stack screenOptions={{ headerShown: false }}>
-                  <Stack.Screen name="index" />
-                  <Stack.Screen name="sign-in" />
-                  <Stack.Screen name="(tabs)" />
-                  <Stack.Screen name="oauth/callback" />
-                </Stack>
+                <StorageErrorGate>
+                  <Stack screenOptions={{ headerShown: false }}>
+                    <Stack.Screen name="index" />
+                    <Stack.Screen name="sign-in" />
+                    <Stack.Screen name="(tabs)" />
+                    <Stack.Screen name="recurring" />
+                    <Stack.Screen name="budgets" />
+                    <Stack.Screen name="payees" />
+                    <Stack.Screen name="rules" />
+                    <Stack.Screen name="duplicates" />
+                    <Stack.Screen name="reconcile" />
+                    <Stack.Screen name="loan" />
+                    <Stack.Screen name="exchange-rates" />
+                    <Stack.Screen name="search" />
+                    <Stack.Screen name="sync-conflicts" />
+                    <Stack.Screen name="trash" />
+                    <Stack.Screen name="oauth/callback" />
+                  </Stack>
+                  <UndoSnackbar />
+                </StorageErrorGate>
                 <StatusBar style="light" />
               </QueryClientProvider>
             </trpc.Provider>
@@ -0,0 +1,460 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Modal, TextInput, Switch, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import UUID from 'react-native-uuid';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { BudgetProgress } from '@/components/BudgetProgress';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { Budget } from '@/lib/types';
+import { formatMonthYear, navigateMonth } from '@/lib/format';
+import { computeBudgetStatus, effectiveBudget, monthKey } from '@/lib/budgets';
+
+// ─── Budget Form Modal ───────────────────────────────────────────────────────
+
+interface BudgetTarget {
+  categoryId: string | null;
+  name: string;
+  icon: string;
+  color: string;
+}
+
+function BudgetFormModal({
+  visible,
+  target,
+  budget,
+  monthLabel,
+  currency,
+  onSave,
+  onRemove,
+  onClose,
+}: {
+  visible: boolean;
+  target: BudgetTarget | null;
+  budget?: Budget;
+  monthLabel: string;
+  currency: string;
+  onSave: (amount: number, rollover: boolean) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount(budget ? budget.amount.toString() : '');
+    setRollover(budget?.rollover ?? false);
+    setError('');
+  }, [visible, budget]);
+
+  const handleAmountInput = (text: string) => {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    const parts = cleaned.split('.');
+    if (parts.length > 2) return;
+    if (parts[1]?.length > 2) return;
+    setAmount(cleaned);
+  };
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSave(value, rollover);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>{target?.name ?? 'Budget'}</Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <View style={styles.formContent}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Monthly limit</Text>
+            <View style={[styles.amountRow, { backgroundColor: colors.surface, borderColor: error ? colors.expense : colors.border }]}>
+              <Text style={[styles.amountSymbol, { color: colors.muted }]}>{currency}</Text>
+              <TextInput
+                style={[styles.amountInput, { color: colors.foreground }]}
+                value={amount}
+                onChangeText={handleAmountInput}
+                placeholder="0.00"
+                placeholderTextColor={colors.muted}
+                keyboardType="decimal-pad"
+                autoFocus
+              />
+            </View>
+            {!!error && <Text style={[styles.errorText, { color: colors.expense }]}>{error}</Text>}
+            <Text style={[styles.hint, { color: colors.muted }]}>
+              Applies from {monthLabel} onwards.
+            </Text>
+
+            <View style={[styles.switchRow, { borderColor: colors.border }]}>
+              <View style={styles.switchText}>
+                <Text style={[styles.switchLabel, { color: colors.foreground }]}>Roll over unspent</Text>
+                <Text style={[styles.hint, { color: colors.muted }]}>Money left at month end is added to next month.</Text>
+              </View>
+              <Switch
+                value={rollover}
+                onValueChange={setRollover}
+                trackColor={{ true: colors.primary, false: colors.border }}
+              />
+            </View>
+          </View>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            <Pressable
+              style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary }, pressed && { opacity: 0.85 }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveBtnText}>SAVE</Text>
+            </Pressable>
+            {budget && (
+              <Pressable
+                style={({ pressed }) => [styles.removeBtn, { borderColor: colors.expense }, pressed && { opacity: 0.7 }]}
+                onPress={onRemove}
+              >
+                <Text style={[styles.removeBtnText, { color: colors.expense }]}>REMOVE BUDGET</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ─── Budgets Screen ──────────────────────────────────────────────────────────
+
+export default function BudgetsScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, baseTransactions, addBudget, updateBudget, removeBudget } = useApp();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [month, setMonth] = useState(() => new Date().getMonth() + 1);
+  const [editing, setEditing] = useState<BudgetTarget | null>(null);
+
+  const key = monthKey(year, month);
+
+  const targets: BudgetTarget[] = useMemo(() => [
+    { categoryId: null, name: 'All expenses', icon: 'img:money', color: colors.primary },
+    ...state.categories
+      .filter(c => c.type === 'expense')
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map(c => ({ categoryId: c.id, name: c.name, icon: c.icon, color: c.color })),
+  ], [state.categories, colors.primary]);
+
+  const statuses = useMemo(() => {
+    const map = new Map<string | null, ReturnType<typeof computeBudgetStatus>>();
+    for (const t of targets) {
+      map.set(t.categoryId, computeBudgetStatus(state.budgets, baseTransactions, state.categories, t.categoryId, key));
+    }
+    return map;
+  }, [targets, state.budgets, baseTransactions, state.categories, key]);
+
+  const handleNavigateMonth = (dir: 1 | -1) => {
+    const next = navigateMonth(year, month, dir);
+    setYear(next.year);
+    setMonth(next.month);
+  };
+
+  const editingBudget = editing ? effectiveBudget(state.budgets, editing.categoryId, key) : undefined;
+
+  const handleSave = useCallback(async (amount: number, rollover: boolean) => {
+    if (!editing) return;
+    const now = new Date().toISOString();
+    // Edit this month's entry in place; otherwise start a new entry from this month
+    const current = state.budgets.find(b => b.categoryId === editing.categoryId && b.month === key);
+    if (current) {
+      await updateBudget({ ...current, amount, rollover, updatedAt: now });
+    } else {
+      await addBudget({
+        id: String(UUID.v4()),
+        categoryId: editing.categoryId,
+        month: key,
+        amount,
+        rollover,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    setEditing(null);
+  }, [editing, key, state.budgets, addBudget, updateBudget]);
+
+  const handleRemove = useCallback(async () => {
+    if (!editing) return;
+    const current = state.budgets.find(b => b.categoryId === editing.categoryId && b.month === key);
+    const others = state.budgets.filter(b => b !== current);
+    if (current) await removeBudget(current.id);
+    // An earlier entry would take over again — end it with a zero entry for this month
+    if (effectiveBudget(others, editing.categoryId, key)) {
+      const now = new Date().toISOString();
+      await addBudget({
+        id: String(UUID.v4()),
+        categoryId: editing.categoryId,
+        month: key,
+        amount: 0,
+        rollover: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    setEditing(null);
+  }, [editing, key, state.budgets, addBudget, removeBudget]);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Pressable style={({ pressed }) => [styles.navBtn, pressed && { opacity: 0.5 }]} onPress={() => handleNavigateMonth(-1)}>
+          <IconSymbol name="chevron.left" size={20} color={colors.primary} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>
+          Budgets · {formatMonthYear(year, month)}
+        </Text>
+        <Pressable style={({ pressed }) => [styles.navBtn, pressed && { opacity: 0.5 }]} onPress={() => handleNavigateMonth(1)}>
+          <IconSymbol name="chevron.right" size={20} color={colors.primary} />
+        </Pressable>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {targets.map((t, i) => {
+          const status = statuses.get(t.categoryId);
+          return (
+            <Pressable
+              key={t.categoryId ?? 'overall'}
+              style={({ pressed }) => [
+                styles.row,
+                { borderBottomColor: colors.border },
+                i === 0 && { backgroundColor: colors.surface },
+                pressed && { opacity: 0.75 },
+              ]}
+              onPress={() => setEditing(t)}
+            >
+              <View style={[styles.rowIcon, { backgroundColor: t.color + '22' }]}>
+                <CategoryIcon icon={t.icon} size={24} />
+              </View>
+              <View style={styles.rowInfo}>
+                <View style={styles.rowTop}>
+                  <Text style={[styles.rowName, { color: colors.foreground }]} numberOfLines={1}>{t.name}</Text>
+                  {!status && (
+                    <Text style={[styles.rowEmpty, { color: colors.primary }]}>Set budget</Text>
+                  )}
+                </View>
+                {status && <BudgetProgress status={status} currency={state.currency} />}
+              </View>
+            </Pressable>
+          );
+        })}
+        <View style={{ height: 32 }} />
+      </ScrollView>
+
+      <BudgetFormModal
+        visible={!!editing}
+        target={editing}
+        budget={editingBudget}
+        monthLabel={formatMonthYear(year, month)}
+        currency={state.currency}
+        onSave={handleSave}
+        onRemove={handleRemove}
+        onClose={() => setEditing(null)}
+      />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  navBtn: {
+    padding: 6,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  rowIcon: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 6,
+  },
+  rowTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowEmpty: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  // Form modal
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  formContent: {
+    padding: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  amountSymbol: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    padding: 0,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: 0.5,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  removeBtn: {
+    borderWidth: 1.5,
+    borderRadius: 14,
+    paddingVertical: 13,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  removeBtnText: {
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
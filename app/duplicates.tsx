@@ -0,0 +1,376 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Alert, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { formatCurrency, formatDateFull } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicatePair, findDuplicatePairs, pairKey } from '@/lib/duplicates';
+import { Transaction } from '@/lib/types';
+
+const DAY_OPTIONS = [0, 1, 3, 7];
+
+const dayLabel = (days: number) => (days === 0 ? 'Same day' : `±${days} day${days === 1 ? '' : 's'}`);
+
+// ─── Transaction Line ────────────────────────────────────────────────────────
+
+function TransactionLine({ tx, label, muted }: { tx: Transaction; label: string; muted?: boolean }) {
+  const colors = useColors();
+  const { state } = useApp();
+  const category = state.categories.find(c => c.id === tx.categoryId);
+  const account = state.accounts.find(a => a.id === tx.accountId);
+  const payee = tx.payeeId ? state.payees.find(p => p.id === tx.payeeId) : undefined;
+  const title = tx.type === 'transfer' ? 'Transfer' : category?.name ?? 'Unknown';
+  const amount = formatCurrency(tx.amount, currencySymbol(accountCurrency(account, state.baseCurrency)));
+  const details = [formatDateFull(tx.date), account?.name, payee?.name, tx.note].filter(Boolean).join(' · ');
+  const extras = [
+    tx.fitId ? 'bank import' : '',
+    tx.attachments?.length ? `${tx.attachments.length} attachment${tx.attachments.length === 1 ? '' : 's'}` : '',
+    tx.tags?.length ? tx.tags.map(t => `#${t}`).join(' ') : '',
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <View style={[styles.line, muted && { opacity: 0.6 }]}>
+      <View style={[styles.lineIcon, { backgroundColor: (category?.color ?? colors.primary) + '20' }]}>
+        <CategoryIcon icon={tx.type === 'transfer' ? '🔄' : category?.icon ?? '🏷️'} size={16} />
+      </View>
+      <View style={styles.lineInfo}>
+        <Text style={[styles.lineTitle, { color: colors.foreground }]} numberOfLines={1}>
+          <Text style={[styles.lineLabel, { color: muted ? colors.expense : colors.success }]}>{label}  </Text>
+          {title} · {amount}
+        </Text>
+        <Text style={[styles.lineSub, { color: colors.muted }]} numberOfLines={1}>{details}</Text>
+        {!!extras && <Text style={[styles.lineSub, { color: colors.muted }]} numberOfLines={1}>{extras}</Text>}
+      </View>
+    </View>
+  );
+}
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function DuplicatesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, resolveDuplicates, dismissDuplicates } = useApp();
+  const [maxDays, setMaxDays] = useState(DEFAULT_DUPLICATE_OPTIONS.maxDays);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Pairs where the user chose to keep the other side
+  const [swapped, setSwapped] = useState<Set<string>>(new Set());
+
+  const pairs = useMemo(() => {
+    const found = findDuplicatePairs(
+      state.transactions,
+      { ...DEFAULT_DUPLICATE_OPTIONS, maxDays },
+      new Set(state.dismissedDuplicates),
+    );
+    return found.map(p => {
+      const key = pairKey(p.keep.id, p.duplicate.id);
+      return { key, pair: swapped.has(key) ? { keep: p.duplicate, duplicate: p.keep } : p };
+    });
+  }, [state.transactions, state.dismissedDuplicates, maxDays, swapped]);
+
+  // Selection only counts pairs still on screen
+  const chosen = pairs.filter(p => selected.has(p.key)).map(p => p.pair);
+  const allSelected = pairs.length > 0 && chosen.length === pairs.length;
+
+  const toggle = (set: Set<string>, key: string) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  };
+
+  const handleSelectAll = () => {
+    setSelected(allSelected ? new Set() : new Set(pairs.map(p => p.key)));
+  };
+
+  const handleResolve = useCallback((mode: 'merge' | 'discard', targets: DuplicatePair[]) => {
+    if (targets.length === 0) return;
+    const n = targets.length;
+    const message = mode === 'merge'
+      ? `Fill in notes, payees, tags and attachments from ${n === 1 ? 'the duplicate' : `${n} duplicates`} and move ${n === 1 ? 'it' : 'them'} to the trash?`
+      : `Move ${n === 1 ? 'the duplicate' : `${n} duplicates`} to the trash?`;
+    Alert.alert(mode === 'merge' ? 'Merge Duplicates' : 'Discard Duplicates', `${message} You can undo this.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: mode === 'merge' ? 'Merge' : 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          await resolveDuplicates(targets, mode);
+          if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          setSelected(new Set());
+        },
+      },
+    ]);
+  }, [resolveDuplicates]);
+
+  const handleDismiss = useCallback(async (key: string, pair: DuplicatePair) => {
+    await dismissDuplicates([pair]);
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+  }, [dismissDuplicates]);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Find Duplicates</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        <Text style={[styles.hint, { color: colors.muted }]}>
+          Transactions on the same account with the same amount, close dates and similar notes.
+        </Text>
+        <View style={styles.chips}>
+          {DAY_OPTIONS.map(days => {
+            const active = maxDays === days;
+            return (
+              <Pressable
+                key={days}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                ]}
+                onPress={() => setMaxDays(days)}
+              >
+                <Text style={[styles.chipText, { color: active ? colors.primary : colors.foreground }]}>
+                  {dayLabel(days)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {pairs.length === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol name="checkmark.circle.fill" size={40} color={colors.success} />
+            <Text style={[styles.emptyText, { color: colors.muted }]}>No likely duplicates found.</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.sectionRow}>
+              <Text style={[styles.sectionLabel, { color: colors.muted }]}>
+                {pairs.length} LIKELY DUPLICATE{pairs.length === 1 ? '' : 'S'}
+              </Text>
+              <Pressable onPress={handleSelectAll} hitSlop={8}>
+                <Text style={[styles.selectAll, { color: colors.primary }]}>{allSelected ? 'Select none' : 'Select all'}</Text>
+              </Pressable>
+            </View>
+
+            {pairs.map(({ key, pair }) => {
+              const active = selected.has(key);
+              return (
+                <View
+                  key={key}
+                  style={[styles.card, { backgroundColor: colors.surface, borderColor: active ? colors.primary : colors.border }]}
+                >
+                  <Pressable style={styles.cardBody} onPress={() => setSelected(prev => toggle(prev, key))}>
+                    <IconSymbol
+                      name={active ? 'checkmark.circle.fill' : 'doc.on.doc'}
+                      size={20}
+                      color={active ? colors.primary : colors.muted}
+                    />
+                    <View style={styles.cardLines}>
+                      <TransactionLine tx={pair.keep} label="KEEP" />
+                      <TransactionLine tx={pair.duplicate} label="DUPLICATE" muted />
+                    </View>
+                  </Pressable>
+                  <View style={[styles.cardActions, { borderTopColor: colors.border }]}>
+                    <Pressable onPress={() => setSwapped(prev => toggle(prev, key))} hitSlop={6}>
+                      <Text style={[styles.cardAction, { color: colors.primary }]}>Keep other</Text>
+                    </Pressable>
+                    <Pressable onPress={() => handleDismiss(key, pair)} hitSlop={6}>
+                      <Text style={[styles.cardAction, { color: colors.muted }]}>Not duplicates</Text>
+                    </Pressable>
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+
+      {chosen.length > 0 && (
+        <View style={[styles.footer, { borderTopColor: colors.border, backgroundColor: colors.background }]}>
+          <Pressable
+            style={({ pressed }) => [styles.footerBtn, { borderColor: colors.expense }, pressed && { opacity: 0.7 }]}
+            onPress={() => handleResolve('discard', chosen)}
+          >
+            <Text style={[styles.footerBtnText, { color: colors.expense }]}>DISCARD {chosen.length}</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.footerBtn, { backgroundColor: colors.primary, borderColor: colors.primary }, pressed && { opacity: 0.85 }]}
+            onPress={() => handleResolve('merge', chosen)}
+          >
+            <Text style={[styles.footerBtnText, { color: '#fff' }]}>MERGE {chosen.length}</Text>
+          </Pressable>
+        </View>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 19,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingRight: 16,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  selectAll: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingTop: 8,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  cardBody: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+  },
+  cardLines: {
+    flex: 1,
+    gap: 10,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  cardAction: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  lineIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  lineInfo: {
+    flex: 1,
+    gap: 1,
+  },
+  lineLabel: {
+    fontSize: 10,
+    fontWeight: '800',
+    letterSpacing: 0.6,
+  },
+  lineTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lineSub: {
+    fontSize: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 16,
+    borderTopWidth: 0.5,
+  },
+  footerBtn: {
+    flex: 1,
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  footerBtnText: {
+    fontSize: 14,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
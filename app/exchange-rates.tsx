@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, TextInput, Alert, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import {
+  CURRENCIES, accountCurrency, convertAmount, currencySymbol, parseRates, setRate,
+} from '@/lib/currency';
+
+function formatRate(value: number): string {
+  return String(parseFloat(value.toPrecision(6)));
+}
+
+export default function ExchangeRatesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, missingRates, setExchangeRates } = useApp();
+  const base = state.baseCurrency;
+  const table = state.exchangeRates;
+
+  // Currencies held by accounts first, then every other known or rated code
+  const rows = useMemo(() => {
+    const used = new Map<string, number>();
+    for (const a of state.accounts) {
+      const code = accountCurrency(a, base);
+      used.set(code, (used.get(code) ?? 0) + 1);
+    }
+    const codes = new Set<string>([
+      ...used.keys(),
+      ...CURRENCIES.map(c => c.code),
+      table.pivot,
+      ...Object.keys(table.rates),
+    ]);
+    codes.delete(base);
+    return Array.from(codes)
+      .map(code => ({
+        code,
+        accounts: used.get(code) ?? 0,
+        rate: convertAmount(1, code, base, table),
+      }))
+      .sort((a, b) => (b.accounts > 0 ? 1 : 0) - (a.accounts > 0 ? 1 : 0) || a.code.localeCompare(b.code));
+  }, [state.accounts, base, table]);
+
+  // Draft text per code while the user is typing
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [importText, setImportText] = useState('');
+
+  useEffect(() => {
+    setDrafts({});
+  }, [table, base]);
+
+  const saveRate = async (code: string) => {
+    const text = drafts[code];
+    if (text === undefined) return;
+    const value = parseFloat(text);
+    if (!(value > 0)) {
+      setDrafts(d => {
+        const next = { ...d };
+        delete next[code];
+        return next;
+      });
+      return;
+    }
+    await setExchangeRates(setRate(table, code, value, base, new Date().toISOString()));
+  };
+
+  const handleImport = async () => {
+    const { rates, errors } = parseRates(importText);
+    const codes = Object.keys(rates).filter(code => code !== base);
+    if (codes.length === 0) {
+      Alert.alert('Nothing to import', 'Paste one rate per line, e.g. "EUR, 1.08".');
+      return;
+    }
+    const now = new Date().toISOString();
+    let next = table;
+    for (const code of codes) next = setRate(next, code, rates[code], base, now);
+    await setExchangeRates(next);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setImportText('');
+    Alert.alert(
+      'Rates imported',
+      `${codes.length} rate${codes.length === 1 ? '' : 's'} updated.`
+        + (errors.length ? `\n\nSkipped:\n${errors.join('\n')}` : ''),
+    );
+  };
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Exchange Rates</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={[styles.baseCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.baseLabel, { color: colors.muted }]}>Base currency</Text>
+          <Text style={[styles.baseValue, { color: colors.foreground }]}>
+            {base} ({currencySymbol(base).trim()})
+          </Text>
+          <Text style={[styles.hint, { color: colors.muted }]}>
+            Totals are converted to the base currency. Change it from the menu.
+          </Text>
+        </View>
+
+        {missingRates.length > 0 && (
+          <View style={styles.warningRow}>
+            <IconSymbol name="exclamationmark.triangle.fill" size={14} color={colors.warning} />
+            <Text style={[styles.warningText, { color: colors.warning }]}>
+              Missing rates for {missingRates.join(', ')}; those amounts are not converted.
+            </Text>
+          </View>
+        )}
+
+        <Text style={[styles.sectionLabel, { color: colors.muted }]}>RATES</Text>
+        {rows.map(row => (
+          <View key={row.code} style={[styles.rateRow, { borderBottomColor: colors.border }]}>
+            <View style={styles.rateInfo}>
+              <Text style={[styles.rateCode, { color: colors.foreground }]}>1 {row.code}</Text>
+              {row.accounts > 0 && (
+                <Text style={[styles.rateSub, { color: colors.muted }]}>
+                  {row.accounts} account{row.accounts === 1 ? '' : 's'}
+                </Text>
+              )}
+            </View>
+            <Text style={[styles.rateEquals, { color: colors.muted }]}>=</Text>
+            <TextInput
+              style={[
+                styles.rateInput,
+                {
+                  color: colors.foreground,
+                  backgroundColor: colors.surface,
+                  borderColor: row.accounts > 0 && row.rate === null ? colors.warning : colors.border,
+                },
+              ]}
+              value={drafts[row.code] ?? (row.rate !== null ? formatRate(row.rate) : '')}
+              onChangeText={text => setDrafts(d => ({ ...d, [row.code]: text.replace(/[^0-9.]/g, '') }))}
+              onEndEditing={() => saveRate(row.code)}
+              onSubmitEditing={() => saveRate(row.code)}
+              placeholder="—"
+              placeholderTextColor={colors.muted}
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+            />
+            <Text style={[styles.rateBase, { color: colors.muted }]}>{base}</Text>
+          </View>
+        ))}
+
+        <Text style={[styles.sectionLabel, { color: colors.muted }]}>IMPORT</Text>
+        <View style={styles.importSection}>
+          <Text style={[styles.hint, { color: colors.muted }]}>
+            Paste one rate per line in {base}, e.g. &quot;EUR, 1.08&quot;, or a JSON object.
+          </Text>
+          <TextInput
+            style={[styles.importInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+            value={importText}
+            onChangeText={setImportText}
+            placeholder={'EUR, 1.08\nGBP, 1.27'}
+            placeholderTextColor={colors.muted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            multiline
+          />
+          <Pressable
+            style={({ pressed }) => [
+              styles.importBtn,
+              { backgroundColor: colors.primary },
+              !importText.trim() && { opacity: 0.5 },
+              pressed && { opacity: 0.85 },
+            ]}
+            onPress={handleImport}
+            disabled={!importText.trim()}
+          >
+            <Text style={styles.importBtnText}>IMPORT RATES</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  baseCard: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 4,
+  },
+  baseLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  baseValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 10,
+  },
+  rateInfo: {
+    flex: 1,
+  },
+  rateCode: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rateSub: {
+    fontSize: 12,
+  },
+  rateEquals: {
+    fontSize: 15,
+  },
+  rateInput: {
+    width: 110,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    textAlign: 'right',
+  },
+  rateBase: {
+    width: 36,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  importSection: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+    gap: 10,
+  },
+  importInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  importBtn: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  importBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
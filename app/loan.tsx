@@ -0,0 +1,297 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ScrollView, Alert, Platform } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { formatCurrency, formatDateHeader, formatMonthYear, getMonthYear, todayString } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import { defaultPaymentAccount } from '@/lib/credit-cards';
+import {
+  LOAN_FREQUENCIES, amortizationSchedule, loanOwed, paymentAmount, payoffProjection, splitPayment,
+} from '@/lib/loans';
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function LoanScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { accountId } = useLocalSearchParams<{ accountId?: string }>();
+  const { state, accountsWithBalance, recordLoanPayment } = useApp();
+
+  const loan = accountsWithBalance.find(a => a.id === accountId);
+  const terms = loan?.loan;
+  const symbol = currencySymbol(accountCurrency(loan, state.baseCurrency));
+  const today = todayString();
+  const lent = terms?.direction === 'lent';
+
+  // Where payments go to (lent) or come from (borrowed): same currency, not another loan
+  const payAccounts = useMemo(() => state.accounts.filter(a =>
+    a.id !== accountId && a.type !== 'loan'
+    && accountCurrency(a, state.baseCurrency) === accountCurrency(loan, state.baseCurrency)),
+  [state.accounts, state.baseCurrency, accountId, loan]);
+  const [payAccountId, setPayAccountId] = useState(() =>
+    (loan && defaultPaymentAccount(loan, state.accounts, state.baseCurrency)?.id) ?? payAccounts[0]?.id);
+  const payAccount = payAccounts.find(a => a.id === payAccountId);
+
+  const schedule = useMemo(() => (terms ? amortizationSchedule(terms) : []), [terms]);
+  const owed = loan ? loanOwed(loan, loan.balance) : 0;
+  const payoff = terms ? payoffProjection(terms, owed, today) : null;
+  const next = terms && owed > 0 ? splitPayment(terms, owed) : null;
+
+  const handleRecord = useCallback(() => {
+    if (!loan || !next || !payAccount) return;
+    Alert.alert(
+      lent ? 'Record Repayment' : 'Record Payment',
+      `${formatCurrency(next.payment, symbol)} ${lent ? 'into' : 'from'} ${payAccount.name}: ` +
+        `${formatCurrency(next.principal, symbol)} principal and ${formatCurrency(next.interest, symbol)} interest.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Record',
+          onPress: async () => {
+            await recordLoanPayment(loan.id, payAccount.id, todayString());
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ],
+    );
+  }, [loan, next, payAccount, lent, symbol, recordLoanPayment]);
+
+  const header = (
+    <View style={[styles.header, { borderBottomColor: colors.border }]}>
+      <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+        <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+      </Pressable>
+      <Text style={[styles.headerTitle, { color: colors.foreground }]} numberOfLines={1}>{loan?.name ?? 'Loan'}</Text>
+      <View style={styles.backBtn} />
+    </View>
+  );
+
+  if (!loan || !terms) {
+    return (
+      <ScreenContainer containerClassName="bg-background">
+        {header}
+        <Text style={[styles.empty, { color: colors.muted }]}>This account has no loan terms. Edit it and set its type to Loan.</Text>
+      </ScreenContainer>
+    );
+  }
+
+  const frequency = LOAN_FREQUENCIES.find(f => f.key === terms.frequency)?.label.toLowerCase() ?? terms.frequency;
+  const payoffMonth = payoff && getMonthYear(payoff.payoffDate);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      {header}
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        {/* Where the loan stands */}
+        <View style={[styles.summary, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.summaryLabel, { color: colors.muted }]}>{lent ? 'Still owed to you' : 'Still owed'}</Text>
+          <Text style={[styles.owed, { color: colors.foreground }]}>{formatCurrency(owed, symbol)}</Text>
+          <Text style={[styles.summaryLine, { color: colors.muted }]}>
+            {formatCurrency(paymentAmount(terms), symbol)} {frequency} · {terms.annualRate}% a year · {terms.payments} payments
+          </Text>
+          <Text style={[styles.summaryLine, { color: payoff ? colors.muted : colors.expense }]}>
+            {owed <= 0
+              ? 'Paid off'
+              : payoffMonth
+                ? `Paid off ${formatMonthYear(payoffMonth.year, payoffMonth.month)} · ${payoff.paymentsLeft} payment${payoff.paymentsLeft === 1 ? '' : 's'} left`
+                : 'The scheduled payment no longer covers the interest'}
+          </Text>
+        </View>
+
+        {/* Account the payment moves through */}
+        {next && (
+          <>
+            <Text style={[styles.sectionLabel, { color: colors.muted }]}>{lent ? 'REPAID INTO' : 'PAID FROM'}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+              {payAccounts.map(a => {
+                const active = a.id === payAccountId;
+                return (
+                  <Pressable
+                    key={a.id}
+                    style={[
+                      styles.chip,
+                      { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                    ]}
+                    onPress={() => setPayAccountId(a.id)}
+                  >
+                    <Text style={[styles.chipText, { color: active ? colors.primary : colors.foreground }]}>{a.icon} {a.name}</Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+            <Text style={[styles.nextLine, { color: colors.muted }]}>
+              Next: {formatCurrency(next.principal, symbol)} principal + {formatCurrency(next.interest, symbol)} interest
+            </Text>
+          </>
+        )}
+
+        {/* Schedule as agreed */}
+        <Text style={[styles.sectionLabel, { color: colors.muted }]}>AMORTIZATION SCHEDULE</Text>
+        <View style={[styles.table, { borderColor: colors.border }]}>
+          <View style={[styles.row, { borderBottomColor: colors.border, backgroundColor: colors.surface }]}>
+            <Text style={[styles.cellDate, styles.headCell, { color: colors.muted }]}>Date</Text>
+            <Text style={[styles.cell, styles.headCell, { color: colors.muted }]}>Principal</Text>
+            <Text style={[styles.cell, styles.headCell, { color: colors.muted }]}>Interest</Text>
+            <Text style={[styles.cell, styles.headCell, { color: colors.muted }]}>Balance</Text>
+          </View>
+          {schedule.map(r => {
+            const past = r.date < today;
+            return (
+              <View key={r.number} style={[styles.row, { borderBottomColor: colors.border }, past && { opacity: 0.45 }]}>
+                <Text style={[styles.cellDate, { color: colors.foreground }]}>{r.number}. {formatDateHeader(r.date)}</Text>
+                <Text style={[styles.cell, { color: colors.foreground }]}>{formatCurrency(r.principal, symbol)}</Text>
+                <Text style={[styles.cell, { color: lent ? colors.income : colors.expense }]}>{formatCurrency(r.interest, symbol)}</Text>
+                <Text style={[styles.cell, { color: colors.foreground }]}>{formatCurrency(r.balance, symbol)}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+
+      {next && (
+        <View style={[styles.footer, { borderTopColor: colors.border, backgroundColor: colors.background }]}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.footerBtn,
+              { backgroundColor: colors.primary },
+              !payAccount && { opacity: 0.5 },
+              pressed && { opacity: 0.85 },
+            ]}
+            onPress={handleRecord}
+            disabled={!payAccount}
+          >
+            <Text style={styles.footerBtnText}>
+              {lent ? 'RECORD REPAYMENT' : 'RECORD PAYMENT'} · {formatCurrency(next.payment, symbol)}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  empty: {
+    fontSize: 14,
+    padding: 24,
+    textAlign: 'center',
+  },
+  summary: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    gap: 4,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  owed: {
+    fontSize: 28,
+    fontWeight: '800',
+    marginBottom: 4,
+  },
+  summaryLine: {
+    fontSize: 13,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  nextLine: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  table: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headCell: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  cellDate: {
+    flex: 1.3,
+    fontSize: 12,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 16,
+    borderTopWidth: 0.5,
+  },
+  footerBtn: {
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  footerBtnText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,434 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Alert, Modal, TextInput,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { formatCurrency, formatDateFull, todayString } from '@/lib/format';
+import { currencySymbol } from '@/lib/currency';
+import { DATE_RANGE_PRESETS, DateRangePreset, dateRange } from '@/lib/search';
+import { findPayeeByName, normalizePayeeName, payeeDefaults, payeeTotals } from '@/lib/payees';
+import { Payee } from '@/lib/types';
+
+type PayeeRange = DateRangePreset | 'all';
+
+// ─── Rename Modal ────────────────────────────────────────────────────────────
+
+function RenamePayeeModal({
+  payee, onSave, onClose,
+}: {
+  payee: Payee | null;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (payee) setName(payee.name);
+  }, [payee]);
+
+  const trimmed = normalizePayeeName(name);
+
+  return (
+    <Modal visible={!!payee} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>Rename Payee</Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <View style={styles.formContent}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Name</Text>
+            <TextInput
+              style={[styles.textField, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Starbucks"
+              placeholderTextColor={colors.muted}
+              returnKeyType="done"
+              onSubmitEditing={() => trimmed && onSave(trimmed)}
+              autoFocus
+            />
+          </View>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveBtn,
+                { backgroundColor: colors.primary },
+                !trimmed && { opacity: 0.5 },
+                pressed && { opacity: 0.85 },
+              ]}
+              onPress={() => onSave(trimmed)}
+              disabled={!trimmed}
+            >
+              <Text style={styles.saveBtnText}>SAVE</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function PayeesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, baseTransactions, updatePayee, removePayee } = useApp();
+  const [range, setRange] = useState<PayeeRange>('this-month');
+  const [renaming, setRenaming] = useState<Payee | null>(null);
+  const symbol = currencySymbol(state.baseCurrency);
+
+  const totals = useMemo(
+    () => payeeTotals(baseTransactions, state.payees, range === 'all' ? {} : dateRange(range, todayString())),
+    [baseTransactions, state.payees, range],
+  );
+
+  // Payees with nothing booked in the range are still listed, so they can be managed
+  const idle = useMemo(() => {
+    const listed = new Set(totals.map(t => t.payee.id));
+    return state.payees
+      .filter(p => !listed.has(p.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [totals, state.payees]);
+
+  const totalSpent = totals.reduce((sum, t) => sum + t.spent, 0);
+
+  const handleRename = useCallback(async (name: string) => {
+    if (!renaming) return;
+    const clash = findPayeeByName(state.payees, name);
+    if (clash && clash.id !== renaming.id) {
+      Alert.alert('Name in use', `There is already a payee called "${clash.name}".`);
+      return;
+    }
+    await updatePayee({ ...renaming, name, updatedAt: new Date().toISOString() });
+    setRenaming(null);
+  }, [renaming, state.payees, updatePayee]);
+
+  const handleDelete = useCallback((payee: Payee) => {
+    const used = state.transactions.filter(t => t.payeeId === payee.id).length;
+    Alert.alert(
+      'Delete Payee',
+      used > 0
+        ? `Delete "${payee.name}"? Its ${used} transaction${used === 1 ? '' : 's'} will be kept without a payee.`
+        : `Delete "${payee.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => removePayee(payee.id) },
+      ],
+    );
+  }, [state.transactions, removePayee]);
+
+  const renderActions = (payee: Payee) => (
+    <>
+      <Pressable
+        style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.5 }]}
+        onPress={() => setRenaming(payee)}
+        hitSlop={6}
+      >
+        <IconSymbol name="pencil" size={18} color={colors.primary} />
+      </Pressable>
+      <Pressable
+        style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.5 }]}
+        onPress={() => handleDelete(payee)}
+        hitSlop={6}
+      >
+        <IconSymbol name="trash.fill" size={18} color={colors.expense} />
+      </Pressable>
+    </>
+  );
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Payees</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        <View style={styles.chips}>
+          {[...DATE_RANGE_PRESETS, { key: 'all' as const, label: 'All time' }].map(option => {
+            const active = range === option.key;
+            return (
+              <Pressable
+                key={option.key}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                ]}
+                onPress={() => setRange(option.key)}
+              >
+                <Text style={[styles.chipText, { color: active ? colors.primary : colors.foreground }]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {state.payees.length === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol name="storefront.fill" size={40} color={colors.muted} />
+            <Text style={[styles.emptyText, { color: colors.muted }]}>
+              No payees yet. Enter who you paid when adding a transaction and it shows up here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={[styles.sectionLabel, { color: colors.muted }]}>
+              SPENDING BY PAYEE · {formatCurrency(totalSpent, symbol)}
+            </Text>
+            {totals.length === 0 && (
+              <Text style={[styles.noneText, { color: colors.muted }]}>Nothing booked with a payee in this period.</Text>
+            )}
+            {totals.map(t => {
+              const defaults = payeeDefaults(t.payee.id, state.transactions);
+              const category = state.categories.find(c => c.id === defaults.categoryId);
+              const share = totalSpent > 0 ? t.spent / totalSpent : 0;
+              return (
+                <View key={t.payee.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+                  <View style={[styles.rowIcon, { backgroundColor: (category?.color ?? colors.primary) + '20' }]}>
+                    <CategoryIcon icon={category?.icon ?? '🏪'} size={20} />
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, { color: colors.foreground }]} numberOfLines={1}>{t.payee.name}</Text>
+                    <Text style={[styles.rowSub, { color: colors.muted }]} numberOfLines={1}>
+                      {t.count} transaction{t.count === 1 ? '' : 's'} · last {formatDateFull(t.lastDate)}
+                      {category ? ` · ${category.name}` : ''}
+                    </Text>
+                    {t.spent > 0 && (
+                      <View style={[styles.bar, { backgroundColor: colors.border }]}>
+                        <View style={[styles.barFill, { backgroundColor: colors.expense, width: `${Math.round(share * 100)}%` }]} />
+                      </View>
+                    )}
+                  </View>
+                  <View style={styles.rowAmounts}>
+                    {t.spent > 0 && (
+                      <Text style={[styles.rowAmount, { color: colors.expense }]}>-{formatCurrency(t.spent, symbol)}</Text>
+                    )}
+                    {t.received > 0 && (
+                      <Text style={[styles.rowAmount, { color: colors.income }]}>+{formatCurrency(t.received, symbol)}</Text>
+                    )}
+                  </View>
+                  {renderActions(t.payee)}
+                </View>
+              );
+            })}
+
+            {idle.length > 0 && (
+              <Text style={[styles.sectionLabel, { color: colors.muted }]}>NO TRANSACTIONS IN THIS PERIOD</Text>
+            )}
+            {idle.map(p => (
+              <View key={p.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+                <View style={styles.rowInfo}>
+                  <Text style={[styles.rowTitle, { color: colors.foreground }]} numberOfLines={1}>{p.name}</Text>
+                </View>
+                {renderActions(p)}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      <RenamePayeeModal payee={renaming} onSave={handleRename} onClose={() => setRenaming(null)} />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  noneText: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  rowIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowSub: {
+    fontSize: 12,
+  },
+  bar: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 4,
+    borderRadius: 2,
+  },
+  rowAmounts: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  rowAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  iconBtn: {
+    padding: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  formContent: {
+    padding: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  textField: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,515 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, TextInput, Alert, Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { formatCurrency, formatDateFull, todayString } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import {
+  amountIn, clearedBalance, reconcileCandidates, reconcileDifference, reconciledBalance, reconciliationsFor, statusIn,
+} from '@/lib/reconcile';
+import { Transaction } from '@/lib/types';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Leftover differences are booked like the Accounts tab's quick balance edit
+const ADJUSTMENT_CATEGORY_ID = 'cat-unexpected';
+
+/** Ids of the account's transactions already marked cleared. */
+function clearedIn(transactions: Transaction[], accountId: string): Set<string> {
+  return new Set(transactions.filter(t => statusIn(t, accountId) === 'cleared').map(t => t.id));
+}
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function ReconcileScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ accountId?: string }>();
+  const { state, saveClearedTransactions, reconcileAccount, undoReconciliation } = useApp();
+
+  const [accountId, setAccountId] = useState(() =>
+    state.accounts.find(a => a.id === params.accountId)?.id ?? state.accounts[0]?.id ?? '');
+  const [statementDate, setStatementDate] = useState(todayString());
+  const [statementBalance, setStatementBalance] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(() => clearedIn(state.transactions, accountId));
+
+  const account = state.accounts.find(a => a.id === accountId);
+  const symbol = currencySymbol(accountCurrency(account, state.baseCurrency));
+  const validDate = DATE_RE.test(statementDate);
+  const balance = parseFloat(statementBalance);
+  const hasBalance = statementBalance.trim() !== '' && !isNaN(balance);
+
+  const candidates = useMemo(
+    () => (validDate ? reconcileCandidates(state.transactions, accountId, statementDate) : []),
+    [state.transactions, accountId, statementDate, validDate],
+  );
+  const history = useMemo(
+    () => reconciliationsFor(state.reconciliations, accountId),
+    [state.reconciliations, accountId],
+  );
+
+  // Only transactions still listed count as ticked
+  const ticked = candidates.filter(t => selected.has(t.id)).map(t => t.id);
+  const tickedSet = new Set(ticked);
+  const opening = account ? reconciledBalance(account, state.transactions) : 0;
+  const cleared = account ? clearedBalance(account, state.transactions, tickedSet) : 0;
+  const difference = hasBalance ? reconcileDifference(balance, cleared) : null;
+  const allTicked = candidates.length > 0 && ticked.length === candidates.length;
+
+  const handleAccount = (id: string) => {
+    setAccountId(id);
+    setSelected(clearedIn(state.transactions, id));
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSelectAll = () => {
+    setSelected(allTicked ? new Set() : new Set(candidates.map(t => t.id)));
+  };
+
+  const handleSaveForLater = useCallback(async () => {
+    await saveClearedTransactions(accountId, ticked);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.back();
+  }, [accountId, ticked, saveClearedTransactions, router]);
+
+  const finish = useCallback(async (adjustmentCategoryId?: string) => {
+    await reconcileAccount(accountId, { date: statementDate, balance }, ticked, adjustmentCategoryId);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setStatementBalance('');
+    setSelected(new Set());
+  }, [accountId, statementDate, balance, ticked, reconcileAccount]);
+
+  const handleFinish = useCallback(() => {
+    if (!account || difference === null) return;
+    const n = ticked.length;
+    const what = `${n} transaction${n === 1 ? '' : 's'}`;
+    if (difference === 0) {
+      Alert.alert('Finish Reconciling', `Lock ${what} as reconciled with the statement of ${formatDateFull(statementDate)}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Finish', onPress: () => finish() },
+      ]);
+      return;
+    }
+    const category = state.categories.find(c => c.id === ADJUSTMENT_CATEGORY_ID)
+      ?? state.categories.find(c => c.type === (difference > 0 ? 'income' : 'expense'));
+    Alert.alert(
+      'Statement Doesn’t Balance',
+      `The cleared balance is ${formatCurrency(Math.abs(difference), symbol)} ${difference > 0 ? 'below' : 'above'} the statement. ` +
+        `Look for missing or mistyped transactions, or post an adjustment for the difference and lock ${what}.`,
+      [
+        { text: 'Keep Looking', style: 'cancel' },
+        ...(category ? [{ text: 'Post Adjustment', onPress: () => finish(category.id) }] : []),
+      ],
+    );
+  }, [account, difference, ticked.length, statementDate, state.categories, symbol, finish]);
+
+  const handleUndo = useCallback((id: string, date: string) => {
+    Alert.alert(
+      'Undo Reconciliation',
+      `Unlock the transactions reconciled with the statement of ${formatDateFull(date)}? They stay cleared, and an adjustment posted for it moves to the trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Unlock', style: 'destructive', onPress: () => undoReconciliation(id) },
+      ],
+    );
+  }, [undoReconciliation]);
+
+  const renderTransaction = (tx: Transaction) => {
+    const active = tickedSet.has(tx.id);
+    const category = state.categories.find(c => c.id === tx.categoryId);
+    const payee = tx.payeeId ? state.payees.find(p => p.id === tx.payeeId) : undefined;
+    const other = tx.type === 'transfer'
+      ? state.accounts.find(a => a.id === (tx.accountId === accountId ? tx.toAccountId : tx.accountId))
+      : undefined;
+    const title = tx.type === 'transfer'
+      ? `Transfer ${tx.accountId === accountId ? 'to' : 'from'} ${other?.name ?? 'another account'}`
+      : payee?.name ?? category?.name ?? 'Unknown';
+    const amount = amountIn(tx, accountId);
+    const late = tx.date > statementDate;
+    return (
+      <Pressable
+        key={tx.id}
+        style={({ pressed }) => [styles.txRow, { borderBottomColor: colors.border }, pressed && { opacity: 0.7 }]}
+        onPress={() => toggle(tx.id)}
+      >
+        <IconSymbol
+          name={active ? 'checkmark.circle.fill' : 'circle'}
+          size={22}
+          color={active ? colors.success : colors.muted}
+        />
+        <View style={[styles.txIcon, { backgroundColor: (category?.color ?? colors.primary) + '20' }]}>
+          <CategoryIcon icon={tx.type === 'transfer' ? '🔄' : category?.icon ?? '🏷️'} size={16} />
+        </View>
+        <View style={styles.txInfo}>
+          <Text style={[styles.txTitle, { color: colors.foreground }]} numberOfLines={1}>{title}</Text>
+          <Text style={[styles.txSub, { color: late ? colors.warning : colors.muted }]} numberOfLines={1}>
+            {[formatDateFull(tx.date), late ? 'after statement' : '', tx.note].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+        <Text style={[styles.txAmount, { color: amount < 0 ? colors.expense : colors.income }]}>
+          {formatCurrency(amount, symbol)}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Reconcile</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {state.accounts.map(a => {
+            const active = a.id === accountId;
+            return (
+              <Pressable
+                key={a.id}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                ]}
+                onPress={() => handleAccount(a.id)}
+              >
+                <Text style={[styles.chipText, { color: active ? colors.primary : colors.foreground }]}>
+                  {a.icon} {a.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        {/* Statement */}
+        <Text style={[styles.sectionLabel, { color: colors.muted }]}>STATEMENT</Text>
+        <View style={styles.fields}>
+          <View style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Ending date</Text>
+            <TextInput
+              style={[styles.input, {
+                backgroundColor: colors.surface,
+                borderColor: validDate ? colors.border : colors.expense,
+                color: colors.foreground,
+              }]}
+              value={statementDate}
+              onChangeText={setStatementDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.muted}
+              maxLength={10}
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Ending balance</Text>
+            <View style={[styles.input, styles.balanceInput, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <Text style={[styles.currencySign, { color: colors.primary }]}>{symbol}</Text>
+              <TextInput
+                style={[styles.balanceText, { color: colors.foreground }]}
+                value={statementBalance}
+                onChangeText={v => setStatementBalance(v.replace(/[^0-9.-]/g, ''))}
+                placeholder="0.00"
+                placeholderTextColor={colors.muted}
+                keyboardType="numbers-and-punctuation"
+                returnKeyType="done"
+              />
+            </View>
+          </View>
+        </View>
+
+        {/* Running totals */}
+        <View style={[styles.summary, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: colors.muted }]}>Reconciled before</Text>
+            <Text style={[styles.summaryValue, { color: colors.foreground }]}>{formatCurrency(opening, symbol)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: colors.muted }]}>Cleared balance</Text>
+            <Text style={[styles.summaryValue, { color: colors.foreground }]}>{formatCurrency(cleared, symbol)}</Text>
+          </View>
+          <View style={[styles.summaryRow, styles.summaryTotal, { borderTopColor: colors.border }]}>
+            <Text style={[styles.summaryLabel, { color: colors.foreground }]}>Difference</Text>
+            <Text style={[
+              styles.differenceValue,
+              { color: difference === null ? colors.muted : difference === 0 ? colors.success : colors.expense },
+            ]}>
+              {difference === null ? 'Enter the ending balance' : formatCurrency(difference, symbol)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Transactions to tick off */}
+        <View style={styles.sectionRow}>
+          <Text style={[styles.sectionLabel, { color: colors.muted }]}>
+            {ticked.length} OF {candidates.length} CLEARED
+          </Text>
+          {candidates.length > 0 && (
+            <Pressable onPress={handleSelectAll} hitSlop={8}>
+              <Text style={[styles.selectAll, { color: colors.primary }]}>{allTicked ? 'Clear all' : 'Tick all'}</Text>
+            </Pressable>
+          )}
+        </View>
+        {candidates.length === 0 ? (
+          <Text style={[styles.empty, { color: colors.muted }]}>
+            {validDate ? 'Nothing left to reconcile up to this date.' : 'Enter the statement date as YYYY-MM-DD.'}
+          </Text>
+        ) : (
+          <View style={[styles.txList, { borderColor: colors.border }]}>{candidates.map(renderTransaction)}</View>
+        )}
+
+        {/* Past statements */}
+        {history.length > 0 && (
+          <>
+            <Text style={[styles.sectionLabel, { color: colors.muted }]}>HISTORY</Text>
+            {history.map((r, i) => (
+              <View key={r.id} style={[styles.historyRow, { borderBottomColor: colors.border }]}>
+                <IconSymbol name="lock.fill" size={16} color={colors.muted} />
+                <View style={styles.txInfo}>
+                  <Text style={[styles.txTitle, { color: colors.foreground }]}>{formatDateFull(r.statementDate)}</Text>
+                  <Text style={[styles.txSub, { color: colors.muted }]}>
+                    {r.transactionIds.length} transaction{r.transactionIds.length === 1 ? '' : 's'}
+                    {r.adjustmentId ? ' · with adjustment' : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.txAmount, { color: colors.foreground }]}>{formatCurrency(r.statementBalance, symbol)}</Text>
+                {/* Only the latest statement can be reopened; older ones are built on */}
+                {i === 0 && (
+                  <Pressable onPress={() => handleUndo(r.id, r.statementDate)} hitSlop={8}>
+                    <IconSymbol name="arrow.uturn.backward" size={18} color={colors.primary} />
+                  </Pressable>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={[styles.footer, { borderTopColor: colors.border, backgroundColor: colors.background }]}>
+        <Pressable
+          style={({ pressed }) => [styles.footerBtn, { borderColor: colors.primary }, pressed && { opacity: 0.7 }]}
+          onPress={handleSaveForLater}
+          disabled={!account}
+        >
+          <Text style={[styles.footerBtnText, { color: colors.primary }]}>SAVE FOR LATER</Text>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [
+            styles.footerBtn,
+            { backgroundColor: colors.primary, borderColor: colors.primary },
+            (difference === null || !validDate) && { opacity: 0.5 },
+            pressed && { opacity: 0.85 },
+          ]}
+          onPress={handleFinish}
+          disabled={difference === null || !validDate}
+        >
+          <Text style={[styles.footerBtnText, { color: '#fff' }]}>FINISH</Text>
+        </Pressable>
+      </View>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingRight: 16,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  selectAll: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingTop: 8,
+  },
+  fields: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingHorizontal: 16,
+  },
+  field: {
+    flex: 1,
+    gap: 4,
+  },
+  fieldLabel: {
+    fontSize: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  balanceInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  currencySign: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginRight: 6,
+  },
+  balanceText: {
+    flex: 1,
+    fontSize: 15,
+    padding: 0,
+  },
+  summary: {
+    marginHorizontal: 16,
+    marginTop: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryTotal: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 8,
+    marginTop: 2,
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  differenceValue: {
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  empty: {
+    fontSize: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  txList: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  txRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  txIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  txInfo: {
+    flex: 1,
+    gap: 1,
+  },
+  txTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  txSub: {
+    fontSize: 12,
+  },
+  txAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 16,
+    borderTopWidth: 0.5,
+  },
+  footerBtn: {
+    flex: 1,
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  footerBtnText: {
+    fontSize: 14,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
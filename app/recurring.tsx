@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, FlatList, Alert, Platform, Modal, TextInput,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { RecurringRule } from '@/lib/types';
+import { formatAmount, formatDateHeader } from '@/lib/format';
+import {
+  RecurringOccurrence, addDays, describeRecurrence, isRuleActive, nextOccurrence, withOverride,
+} from '@/lib/recurrence';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+
+// ─── Occurrence Form Modal ───────────────────────────────────────────────────
+
+function OccurrenceFormModal({
+  occurrence,
+  currency,
+  onSave,
+  onClose,
+}: {
+  occurrence: RecurringOccurrence | null;
+  currency: string;
+  onSave: (amount: number, note: string) => void;
+  onClose: () => void;
+}) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!occurrence) return;
+    setAmount(occurrence.amount.toString());
+    setNote(occurrence.note ?? '');
+    setError('');
+  }, [occurrence]);
+
+  const handleAmountInput = (text: string) => {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    const parts = cleaned.split('.');
+    if (parts.length > 2) return;
+    if (parts[1]?.length > 2) return;
+    setAmount(cleaned);
+  };
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSave(value, note.trim());
+  };
+
+  return (
+    <Modal visible={!!occurrence} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>
+              {occurrence ? formatDateHeader(occurrence.date) : ''}
+            </Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <View style={styles.formContent}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Amount</Text>
+            <View style={[styles.amountRow, { backgroundColor: colors.surface, borderColor: error ? colors.expense : colors.border }]}>
+              <Text style={[styles.amountSymbol, { color: colors.muted }]}>{currency}</Text>
+              <TextInput
+                style={[styles.amountInput, { color: colors.foreground }]}
+                value={amount}
+                onChangeText={handleAmountInput}
+                placeholder="0.00"
+                placeholderTextColor={colors.muted}
+                keyboardType="decimal-pad"
+                autoFocus
+              />
+            </View>
+            {!!error && <Text style={[styles.errorText, { color: colors.expense }]}>{error}</Text>}
+
+            <Text style={[styles.fieldLabel, styles.noteLabel, { color: colors.muted }]}>Note</Text>
+            <TextInput
+              style={[styles.noteInput, { color: colors.foreground, backgroundColor: colors.surface, borderColor: colors.border }]}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Add a note"
+              placeholderTextColor={colors.muted}
+            />
+            <Text style={[styles.hint, { color: colors.muted }]}>
+              Only this occurrence changes; the rest of the series stays as it is.
+            </Text>
+          </View>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            <Pressable
+              style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary }, pressed && { opacity: 0.85 }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveBtnText}>SAVE</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ─── Recurring Screen ────────────────────────────────────────────────────────
+
+export default function RecurringScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, updateRecurringRule, removeRecurringRule } = useApp();
+  const [editing, setEditing] = useState<{ rule: RecurringRule; occurrence: RecurringOccurrence } | null>(null);
+
+  // Active rules first, each group ordered by its next date
+  const rules = useMemo(() => {
+    const withNext = state.recurringRules.map(rule => ({
+      rule,
+      active: isRuleActive(rule),
+      next: nextOccurrence(rule, rule.lastGeneratedDate ?? addDays(rule.startDate, -1)),
+    }));
+    return withNext.sort((a, b) => {
+      if (a.active !== b.active) return a.active ? -1 : 1;
+      return (a.next?.date ?? '').localeCompare(b.next?.date ?? '');
+    });
+  }, [state.recurringRules]);
+
+  const handlePress = useCallback((rule: RecurringRule, next: RecurringOccurrence | null) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const now = new Date().toISOString();
+    const buttons: Parameters<typeof Alert.alert>[2] = [];
+
+    if (next) {
+      buttons.push({
+        text: 'Change next',
+        onPress: () => setEditing({ rule, occurrence: next }),
+      });
+      buttons.push({
+        text: 'Skip next',
+        onPress: () => updateRecurringRule({ ...rule, skipDates: [...rule.skipDates, next.date], updatedAt: now }),
+      });
+      buttons.push({
+        text: 'Stop repeating',
+        // Ends the series after the last generated occurrence; existing transactions stay
+        onPress: () => updateRecurringRule({
+          ...rule,
+          endDate: rule.lastGeneratedDate ?? addDays(rule.startDate, -1),
+          updatedAt: now,
+        }),
+      });
+    }
+    buttons.push({
+      text: 'Delete',
+      style: 'destructive',
+      onPress: () => removeRecurringRule(rule.id),
+    });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert(
+      'Repeating transaction',
+      next ? `Next on ${formatDateHeader(next.date)}` : 'This series has ended.',
+      buttons,
+    );
+  }, [updateRecurringRule, removeRecurringRule]);
+
+  const handleSaveOccurrence = useCallback(async (amount: number, note: string) => {
+    if (!editing) return;
+    const { rule, occurrence } = editing;
+    setEditing(null);
+    // An empty note clears the rule's note for this occurrence only
+    await updateRecurringRule({
+      ...withOverride(rule, { date: occurrence.date, amount, note: note || (rule.note ? '' : undefined) }),
+      updatedAt: new Date().toISOString(),
+    });
+  }, [editing, updateRecurringRule]);
+
+  const editingAccount = editing ? state.accounts.find(a => a.id === editing.rule.accountId) : undefined;
+
+  const renderRule = ({ item }: { item: typeof rules[0] }) => {
+    const { rule, active, next } = item;
+    const category = state.categories.find(c => c.id === rule.categoryId);
+    const account = state.accounts.find(a => a.id === rule.accountId);
+    const toAccount = state.accounts.find(a => a.id === rule.toAccountId);
+    const title = rule.note
+      || (rule.type === 'transfer' ? `${account?.name ?? '?'} → ${toAccount?.name ?? '?'}` : category?.name)
+      || 'Transaction';
+    const amountColor = rule.type === 'income' ? colors.income
+      : rule.type === 'expense' ? colors.expense : colors.transfer;
+
+    return (
+      <Pressable
+        style={({ pressed }) => [
+          styles.ruleRow,
+          { borderBottomColor: colors.border },
+          !active && { opacity: 0.5 },
+          pressed && { backgroundColor: colors.surface },
+        ]}
+        onPress={() => handlePress(rule, next)}
+      >
+        <View style={[styles.ruleIcon, { backgroundColor: (category?.color ?? colors.primary) + '20' }]}>
+          {rule.type === 'transfer'
+            ? <IconSymbol name="arrow.left.arrow.right" size={20} color={colors.transfer} />
+            : <CategoryIcon icon={category?.icon ?? '🏷️'} size={22} />}
+        </View>
+        <View style={styles.ruleInfo}>
+          <Text style={[styles.ruleTitle, { color: colors.foreground }]} numberOfLines={1}>{title}</Text>
+          <Text style={[styles.ruleSubtitle, { color: colors.muted }]} numberOfLines={1}>
+            {describeRecurrence(rule)}
+            {next ? ` · Next ${formatDateHeader(next.date)}` : ' · Ended'}
+          </Text>
+        </View>
+        <Text style={[styles.ruleAmount, { color: amountColor }]}>
+          {formatAmount(next?.amount ?? rule.amount, rule.type, currencySymbol(accountCurrency(account, state.baseCurrency)))}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Recurring</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <FlatList
+        data={rules}
+        keyExtractor={item => item.rule.id}
+        renderItem={renderRule}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>🔁</Text>
+            <Text style={[styles.emptyText, { color: colors.muted }]}>No repeating transactions</Text>
+            <Text style={[styles.emptyHint, { color: colors.muted }]}>
+              Choose a Repeat option when adding a transaction.
+            </Text>
+          </View>
+        }
+      />
+
+      <OccurrenceFormModal
+        occurrence={editing?.occurrence ?? null}
+        currency={currencySymbol(accountCurrency(editingAccount, state.baseCurrency))}
+        onSave={handleSaveOccurrence}
+        onClose={() => setEditing(null)}
+      />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  ruleIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ruleInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  ruleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  ruleSubtitle: {
+    fontSize: 12,
+  },
+  ruleAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 32,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+  },
+  emptyHint: {
+    fontSize: 13,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  formContent: {
+    padding: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  noteLabel: {
+    marginTop: 20,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  amountSymbol: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    padding: 0,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
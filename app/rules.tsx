@@ -0,0 +1,716 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Modal, TextInput, Switch, Alert, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import UUID from 'react-native-uuid';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { CategoryRule, RuleConditions } from '@/lib/types';
+import { formatCurrency, formatDateFull } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import { flattenTree } from '@/lib/category-tree';
+import { addTag, removeTag } from '@/lib/tags';
+import { previewRule, validateRule } from '@/lib/rules';
+
+const PREVIEW_LIMIT = 5;
+
+type RuleType = '' | 'expense' | 'income'; // '' = both
+
+type RuleDraft = Pick<CategoryRule, 'name' | 'conditions' | 'categoryId' | 'tags'>;
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const colors = useColors();
+  return (
+    <Pressable
+      style={[
+        styles.chip,
+        { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary + '15' : colors.surface },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.primary : colors.foreground }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/** Plain-language summary of a rule's conditions, e.g. "Payee ~ starbucks · ≤ 20". */
+function describeConditions(c: RuleConditions, accountName: (id: string) => string | undefined): string {
+  const parts: string[] = [];
+  if (c.type) parts.push(c.type === 'expense' ? 'Expenses' : 'Income');
+  if (c.payee?.trim()) parts.push(`Payee ~ ${c.payee.trim()}`);
+  if (c.note?.trim()) parts.push(`Note ~ ${c.note.trim()}`);
+  if (c.minAmount !== undefined && c.maxAmount !== undefined) parts.push(`${c.minAmount}–${c.maxAmount}`);
+  else if (c.minAmount !== undefined) parts.push(`≥ ${c.minAmount}`);
+  else if (c.maxAmount !== undefined) parts.push(`≤ ${c.maxAmount}`);
+  if (c.accountId) parts.push(accountName(c.accountId) ?? 'Unknown account');
+  return parts.join(' · ');
+}
+
+// ─── Rule Form Modal ─────────────────────────────────────────────────────────
+
+function RuleFormModal({
+  visible,
+  rule,
+  onSave,
+  onRemove,
+  onClose,
+}: {
+  visible: boolean;
+  rule: CategoryRule | null; // null = new rule
+  onSave: (draft: RuleDraft) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const { state } = useApp();
+  const [name, setName] = useState('');
+  const [type, setType] = useState<RuleType>('');
+  const [payee, setPayee] = useState('');
+  const [note, setNote] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    const c = rule?.conditions ?? {};
+    setName(rule?.name ?? '');
+    setType(c.type ?? '');
+    setPayee(c.payee ?? '');
+    setNote(c.note ?? '');
+    setMinAmount(c.minAmount !== undefined ? c.minAmount.toString() : '');
+    setMaxAmount(c.maxAmount !== undefined ? c.maxAmount.toString() : '');
+    setAccountId(c.accountId ?? '');
+    setCategoryId(rule?.categoryId ?? '');
+    setTags(rule?.tags ?? []);
+    setTagInput('');
+    setError('');
+  }, [visible, rule]);
+
+  const categoryOptions = useMemo(
+    () => flattenTree(state.categories.filter(c => !type || c.type === type)),
+    [state.categories, type],
+  );
+
+  const parseAmount = (text: string) => (text.trim() && !isNaN(parseFloat(text)) ? parseFloat(text) : undefined);
+
+  const draft = useMemo((): RuleDraft => {
+    const conditions: RuleConditions = {
+      type: type || undefined,
+      payee: payee.trim() || undefined,
+      note: note.trim() || undefined,
+      minAmount: parseAmount(minAmount),
+      maxAmount: parseAmount(maxAmount),
+      accountId: accountId || undefined,
+    };
+    const pending = addTag(tags, tagInput);
+    return {
+      name: name.trim(),
+      conditions,
+      categoryId: categoryId || undefined,
+      tags: pending.length > 0 ? pending : undefined,
+    };
+  }, [name, type, payee, note, minAmount, maxAmount, accountId, categoryId, tags, tagInput]);
+
+  // Test the rule as it stands against everything already booked
+  const preview = useMemo(() => {
+    if (validateRule({ ...draft, name: draft.name || 'preview' })) return null;
+    const now = new Date().toISOString();
+    return previewRule(
+      { ...draft, id: '', enabled: true, sortOrder: 0, createdAt: now, updatedAt: now },
+      state.transactions,
+      state.payees,
+    );
+  }, [draft, state.transactions, state.payees]);
+
+  const handleTypeChange = (next: RuleType) => {
+    // Keep the category only if it can still be set
+    const category = state.categories.find(c => c.id === categoryId);
+    if (next && category && category.type !== next) setCategoryId('');
+    setType(next);
+  };
+
+  const commitTag = () => {
+    setTags(current => addTag(current, tagInput));
+    setTagInput('');
+  };
+
+  const handleSave = () => {
+    const problem = validateRule(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSave(draft);
+  };
+
+  const inputStyle = [styles.textField, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>{rule ? 'Edit Rule' : 'New Rule'}</Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <View style={styles.formContent}>
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Name</Text>
+              <TextInput
+                style={inputStyle}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Coffee shops"
+                placeholderTextColor={colors.muted}
+              />
+
+              <Text style={[styles.sectionTitle, { color: colors.foreground }]}>If</Text>
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Type</Text>
+              <View style={styles.chips}>
+                <Chip label="Any" selected={type === ''} onPress={() => handleTypeChange('')} />
+                <Chip label="Expense" selected={type === 'expense'} onPress={() => handleTypeChange('expense')} />
+                <Chip label="Income" selected={type === 'income'} onPress={() => handleTypeChange('income')} />
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Payee contains</Text>
+              <TextInput
+                style={inputStyle}
+                value={payee}
+                onChangeText={setPayee}
+                placeholder="e.g. starbucks"
+                placeholderTextColor={colors.muted}
+                autoCapitalize="none"
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Note contains</Text>
+              <TextInput
+                style={inputStyle}
+                value={note}
+                onChangeText={setNote}
+                placeholder="e.g. amzn*mktp"
+                placeholderTextColor={colors.muted}
+                autoCapitalize="none"
+              />
+              <Text style={[styles.hint, { color: colors.muted }]}>
+                Case doesn&apos;t matter; * matches anything in between.
+              </Text>
+
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Amount between</Text>
+              <View style={styles.amountRange}>
+                <TextInput
+                  style={[inputStyle, styles.amountField]}
+                  value={minAmount}
+                  onChangeText={t => setMinAmount(t.replace(/[^0-9.]/g, ''))}
+                  placeholder="Min"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={[styles.rangeDash, { color: colors.muted }]}>–</Text>
+                <TextInput
+                  style={[inputStyle, styles.amountField]}
+                  value={maxAmount}
+                  onChangeText={t => setMaxAmount(t.replace(/[^0-9.]/g, ''))}
+                  placeholder="Max"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Account</Text>
+              <View style={styles.chips}>
+                <Chip label="Any" selected={accountId === ''} onPress={() => setAccountId('')} />
+                {state.accounts.map(a => (
+                  <Chip key={a.id} label={a.name} selected={accountId === a.id} onPress={() => setAccountId(a.id)} />
+                ))}
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: colors.foreground }]}>Then</Text>
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Set category</Text>
+              <View style={styles.chips}>
+                <Chip label="Leave as is" selected={categoryId === ''} onPress={() => setCategoryId('')} />
+                {categoryOptions.map(({ category, depth }) => (
+                  <Chip
+                    key={category.id}
+                    label={`${depth > 0 ? '↳ ' : ''}${category.name}`}
+                    selected={categoryId === category.id}
+                    onPress={() => setCategoryId(category.id)}
+                  />
+                ))}
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: colors.muted }]}>Add tags</Text>
+              {tags.length > 0 && (
+                <View style={styles.chips}>
+                  {tags.map(tag => (
+                    <Chip key={tag} label={`#${tag} ✕`} selected onPress={() => setTags(current => removeTag(current, tag))} />
+                  ))}
+                </View>
+              )}
+              <TextInput
+                style={inputStyle}
+                value={tagInput}
+                onChangeText={text => {
+                  if (text.endsWith(',')) {
+                    setTags(current => addTag(current, text.slice(0, -1)));
+                    setTagInput('');
+                  } else {
+                    setTagInput(text);
+                  }
+                }}
+                onSubmitEditing={commitTag}
+                onBlur={commitTag}
+                placeholder="Type a tag, then comma"
+                placeholderTextColor={colors.muted}
+                returnKeyType="done"
+              />
+
+              <Text style={[styles.sectionTitle, { color: colors.foreground }]}>Test against history</Text>
+              {!preview ? (
+                <Text style={[styles.hint, { color: colors.muted }]}>
+                  Add a condition and something to set to see which transactions match.
+                </Text>
+              ) : (
+                <>
+                  <Text style={[styles.previewSummary, { color: colors.foreground }]}>
+                    Matches {preview.matches.length} transaction{preview.matches.length === 1 ? '' : 's'}
+                    {draft.categoryId ? ` · ${preview.recategorized} in another category` : ''}
+                  </Text>
+                  {preview.matches.slice(0, PREVIEW_LIMIT).map(t => {
+                    const category = state.categories.find(c => c.id === t.categoryId);
+                    const account = state.accounts.find(a => a.id === t.accountId);
+                    const payeeName = state.payees.find(p => p.id === t.payeeId)?.name;
+                    return (
+                      <View key={t.id} style={[styles.previewRow, { borderBottomColor: colors.border }]}>
+                        <CategoryIcon icon={category?.icon ?? '🏷️'} size={18} />
+                        <Text style={[styles.previewText, { color: colors.foreground }]} numberOfLines={1}>
+                          {formatDateFull(t.date)}
+                          {payeeName ? ` · ${payeeName}` : ''}
+                          {t.note ? ` · ${t.note}` : ''}
+                        </Text>
+                        <Text style={[styles.previewAmount, { color: colors.muted }]}>
+                          {formatCurrency(t.amount, currencySymbol(accountCurrency(account, state.baseCurrency)))}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                  {preview.matches.length > PREVIEW_LIMIT && (
+                    <Text style={[styles.hint, { color: colors.muted }]}>
+                      and {preview.matches.length - PREVIEW_LIMIT} more
+                    </Text>
+                  )}
+                  <Text style={[styles.hint, { color: colors.muted }]}>
+                    Rules apply to new and imported transactions; past ones are not changed.
+                  </Text>
+                </>
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            {!!error && <Text style={[styles.errorText, { color: colors.expense }]}>{error}</Text>}
+            <Pressable
+              style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary }, pressed && { opacity: 0.85 }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveBtnText}>SAVE</Text>
+            </Pressable>
+            {rule && (
+              <Pressable
+                style={({ pressed }) => [styles.removeBtn, { borderColor: colors.expense }, pressed && { opacity: 0.7 }]}
+                onPress={onRemove}
+              >
+                <Text style={[styles.removeBtnText, { color: colors.expense }]}>DELETE RULE</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ─── Rules Screen ────────────────────────────────────────────────────────────
+
+export default function RulesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const {
+    state, addCategoryRule, updateCategoryRule, removeCategoryRule, reorderCategoryRules,
+  } = useApp();
+  const [editing, setEditing] = useState<CategoryRule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // Disabled rules keep their place so they can be switched back on
+  const rules = useMemo(
+    () => [...state.categoryRules].sort((a, b) => a.sortOrder - b.sortOrder || a.createdAt.localeCompare(b.createdAt)),
+    [state.categoryRules],
+  );
+
+  const accountName = useCallback(
+    (id: string) => state.accounts.find(a => a.id === id)?.name,
+    [state.accounts],
+  );
+
+  const openForm = (rule: CategoryRule | null) => {
+    setEditing(rule);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSave = useCallback(async (draft: RuleDraft) => {
+    const now = new Date().toISOString();
+    if (editing) {
+      await updateCategoryRule({ ...editing, ...draft, updatedAt: now });
+    } else {
+      await addCategoryRule({
+        ...draft,
+        id: String(UUID.v4()),
+        enabled: true,
+        sortOrder: rules.length > 0 ? rules[rules.length - 1].sortOrder + 1 : 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    closeForm();
+  }, [editing, rules, addCategoryRule, updateCategoryRule]);
+
+  const handleRemove = useCallback(() => {
+    if (!editing) return;
+    Alert.alert(
+      'Delete Rule',
+      `Delete "${editing.name}"? Transactions it already categorized are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await removeCategoryRule(editing.id);
+            closeForm();
+          },
+        },
+      ],
+    );
+  }, [editing, removeCategoryRule]);
+
+  const handleMove = useCallback((index: number, dir: -1 | 1) => {
+    const ids = rules.map(r => r.id);
+    const target = index + dir;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderCategoryRules(ids);
+  }, [rules, reorderCategoryRules]);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Rules</Text>
+        <Pressable style={({ pressed }) => [styles.backBtn, styles.addBtn, pressed && { opacity: 0.5 }]} onPress={() => openForm(null)}>
+          <IconSymbol name="plus" size={24} color={colors.primary} />
+        </Pressable>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        {rules.length === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol name="wand.and.stars" size={40} color={colors.muted} />
+            <Text style={[styles.emptyText, { color: colors.muted }]}>
+              Rules set the category and tags of new and imported transactions, e.g. everything from
+              Starbucks goes to Food. Tap + to add one.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={[styles.listHint, { color: colors.muted }]}>
+              Rules run from top to bottom; the first one that matches wins.
+            </Text>
+            {rules.map((rule, i) => {
+              const category = state.categories.find(c => c.id === rule.categoryId);
+              const then = [
+                category ? `→ ${category.name}` : rule.categoryId ? '→ deleted category' : '',
+                ...(rule.tags ?? []).map(tag => `#${tag}`),
+              ].filter(Boolean).join(' ');
+              return (
+                <Pressable
+                  key={rule.id}
+                  style={({ pressed }) => [
+                    styles.row,
+                    { borderBottomColor: colors.border },
+                    !rule.enabled && { opacity: 0.5 },
+                    pressed && { backgroundColor: colors.surface },
+                  ]}
+                  onPress={() => openForm(rule)}
+                >
+                  <View style={styles.moveBtns}>
+                    <Pressable onPress={() => handleMove(i, -1)} disabled={i === 0} hitSlop={4}>
+                      <IconSymbol name="chevron.up" size={18} color={i === 0 ? colors.border : colors.muted} />
+                    </Pressable>
+                    <Pressable onPress={() => handleMove(i, 1)} disabled={i === rules.length - 1} hitSlop={4}>
+                      <IconSymbol name="chevron.down" size={18} color={i === rules.length - 1 ? colors.border : colors.muted} />
+                    </Pressable>
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowName, { color: colors.foreground }]} numberOfLines={1}>{rule.name}</Text>
+                    <Text style={[styles.rowSub, { color: colors.muted }]} numberOfLines={1}>
+                      {describeConditions(rule.conditions, accountName)}
+                    </Text>
+                    <Text style={[styles.rowSub, { color: colors.primary }]} numberOfLines={1}>{then}</Text>
+                  </View>
+                  <Switch
+                    value={rule.enabled}
+                    onValueChange={enabled => updateCategoryRule({ ...rule, enabled, updatedAt: new Date().toISOString() })}
+                    trackColor={{ true: colors.primary, false: colors.border }}
+                  />
+                </Pressable>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+
+      <RuleFormModal
+        visible={showForm}
+        rule={editing}
+        onSave={handleSave}
+        onRemove={handleRemove}
+        onClose={closeForm}
+      />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  addBtn: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingBottom: 32,
+  },
+  listHint: {
+    fontSize: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  moveBtns: {
+    gap: 2,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowSub: {
+    fontSize: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  // Form modal
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  formContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  textField: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  amountRange: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  amountField: {
+    flex: 1,
+  },
+  rangeDash: {
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  previewSummary: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  previewAmount: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  removeBtn: {
+    borderWidth: 1.5,
+    borderRadius: 14,
+    paddingVertical: 13,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  removeBtnText: {
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
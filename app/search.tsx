@@ -0,0 +1,829 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, FlatList, ScrollView, Modal, TextInput, Alert, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import UUID from 'react-native-uuid';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import AddTransactionModal from '@/components/AddTransactionModal';
+import ExportModal from '@/components/ExportModal';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { FilterPreset, Transaction, TransactionFilter, TransactionType } from '@/lib/types';
+import { formatAmount, formatCurrency, formatDateHeader, todayString } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import {
+  DATE_RANGE_PRESETS, activeFilterCount, dateRange, emptyFilter, filterTransactions, isFilterEmpty,
+} from '@/lib/search';
+import { knownTags, removeTag, sameTag } from '@/lib/tags';
+
+const TYPE_OPTIONS: { key: TransactionType; label: string }[] = [
+  { key: 'expense', label: 'Expense' },
+  { key: 'income', label: 'Income' },
+  { key: 'transfer', label: 'Transfer' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+}
+
+// ─── Chip ────────────────────────────────────────────────────────────────────
+
+function Chip({
+  label, selected, onPress, onLongPress, colors,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  onLongPress?: () => void;
+  colors: ReturnType<typeof useColors>;
+}) {
+  return (
+    <Pressable
+      style={({ pressed }) => [
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.primary : colors.surface,
+          borderColor: selected ? colors.primary : colors.border,
+        },
+        pressed && { opacity: 0.7 },
+      ]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#fff' : colors.foreground }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+// ─── Save Preset Modal ───────────────────────────────────────────────────────
+
+function SavePresetModal({
+  visible, initialName, onSave, onClose,
+}: {
+  visible: boolean;
+  initialName: string;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (visible) setName(initialName);
+  }, [visible, initialName]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>Save Search</Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <View style={styles.formContent}>
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Name</Text>
+            <TextInput
+              style={[styles.textField, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Uber rides"
+              placeholderTextColor={colors.muted}
+              returnKeyType="done"
+              onSubmitEditing={() => name.trim() && onSave(name.trim())}
+              autoFocus
+            />
+            <Text style={[styles.hint, { color: colors.muted }]}>
+              Saving under an existing name replaces that search.
+            </Text>
+          </View>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveBtn,
+                { backgroundColor: colors.primary },
+                !name.trim() && { opacity: 0.5 },
+                pressed && { opacity: 0.85 },
+              ]}
+              onPress={() => onSave(name.trim())}
+              disabled={!name.trim()}
+            >
+              <Text style={styles.saveBtnText}>SAVE</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ─── Search Screen ───────────────────────────────────────────────────────────
+
+export default function SearchScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, baseTransactions, addFilterPreset, updateFilterPreset, removeFilterPreset } = useApp();
+
+  const [filter, setFilter] = useState<TransactionFilter>(emptyFilter);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showSavePreset, setShowSavePreset] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  // Amount inputs are kept as text so partial input like "12." survives re-renders
+  const [minText, setMinText] = useState('');
+  const [maxText, setMaxText] = useState('');
+
+  const activePreset = state.filterPresets.find(p => p.id === activePresetId);
+
+  const updateFilter = (patch: Partial<TransactionFilter>) => {
+    setFilter(f => ({ ...f, ...patch }));
+    setActivePresetId(null);
+  };
+
+  const applyPreset = (preset: FilterPreset) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (preset.id === activePresetId) {
+      setFilter(emptyFilter());
+      setMinText('');
+      setMaxText('');
+      setActivePresetId(null);
+      return;
+    }
+    setFilter(preset.filter);
+    setMinText(preset.filter.minAmount !== undefined ? String(preset.filter.minAmount) : '');
+    setMaxText(preset.filter.maxAmount !== undefined ? String(preset.filter.maxAmount) : '');
+    setActivePresetId(preset.id);
+  };
+
+  const handlePresetLongPress = (preset: FilterPreset) => {
+    Alert.alert(preset.name, 'Delete this saved search?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await removeFilterPreset(preset.id);
+          if (preset.id === activePresetId) setActivePresetId(null);
+        },
+      },
+    ]);
+  };
+
+  const handleSavePreset = async (name: string) => {
+    const now = new Date().toISOString();
+    const existing = state.filterPresets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      await updateFilterPreset({ ...existing, name, filter, updatedAt: now });
+      setActivePresetId(existing.id);
+    } else {
+      const preset: FilterPreset = { id: String(UUID.v4()), name, filter, createdAt: now, updatedAt: now };
+      await addFilterPreset(preset);
+      setActivePresetId(preset.id);
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setShowSavePreset(false);
+  };
+
+  const handleAmountText = (text: string, bound: 'min' | 'max') => {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    if (cleaned.split('.').length > 2) return;
+    const value = cleaned ? parseFloat(cleaned) : undefined;
+    if (bound === 'min') {
+      setMinText(cleaned);
+      updateFilter({ minAmount: value });
+    } else {
+      setMaxText(cleaned);
+      updateFilter({ maxAmount: value });
+    }
+  };
+
+  const handleDateText = (text: string, bound: 'from' | 'to') => {
+    const value = text.trim() || undefined;
+    updateFilter(bound === 'from' ? { fromDate: value } : { toDate: value });
+  };
+
+  const clearFilters = () => {
+    setFilter(f => ({ ...emptyFilter(), query: f.query }));
+    setMinText('');
+    setMaxText('');
+    setActivePresetId(null);
+  };
+
+  // Half-typed dates are ignored until they are complete
+  const effectiveFilter = useMemo(() => ({
+    ...filter,
+    fromDate: filter.fromDate && DATE_PATTERN.test(filter.fromDate) ? filter.fromDate : undefined,
+    toDate: filter.toDate && DATE_PATTERN.test(filter.toDate) ? filter.toDate : undefined,
+  }), [filter]);
+
+  const results = useMemo(
+    () => isFilterEmpty(effectiveFilter)
+      ? []
+      : filterTransactions(state.transactions, effectiveFilter, state.categories, state.accounts, state.payees),
+    [effectiveFilter, state.transactions, state.categories, state.accounts, state.payees],
+  );
+
+  // Totals in the base currency
+  const totals = useMemo(() => {
+    const ids = new Set(results.map(t => t.id));
+    let income = 0, expense = 0;
+    for (const t of baseTransactions) {
+      if (!ids.has(t.id)) continue;
+      if (t.type === 'income') income += t.amount;
+      else if (t.type === 'expense') expense += t.amount;
+    }
+    return { income, expense };
+  }, [results, baseTransactions]);
+
+  const filterCount = activeFilterCount(filter);
+  const hasFilter = !isFilterEmpty(effectiveFilter);
+
+  const categoryOptions = useMemo(() => {
+    const types = filter.types.filter(t => t !== 'transfer');
+    return state.categories
+      .filter(c => types.length === 0 || types.includes(c.type))
+      .sort((a, b) => a.type.localeCompare(b.type) || a.sortOrder - b.sortOrder);
+  }, [state.categories, filter.types]);
+
+  const tagOptions = useMemo(() => knownTags(state.transactions), [state.transactions]);
+
+  const toggleTag = (tag: string) => {
+    const tags = filter.tags ?? [];
+    updateFilter({ tags: tags.some(t => sameTag(t, tag)) ? removeTag(tags, tag) : [...tags, tag] });
+  };
+
+  const renderResult = useCallback(({ item }: { item: Transaction }) => {
+    const category = state.categories.find(c => c.id === item.categoryId);
+    const account = state.accounts.find(a => a.id === item.accountId);
+    const toAccount = state.accounts.find(a => a.id === item.toAccountId);
+    const payee = state.payees.find(p => p.id === item.payeeId);
+    const isTransfer = item.type === 'transfer';
+    const title = isTransfer
+      ? `${account?.name ?? '?'} → ${toAccount?.name ?? '?'}`
+      : category?.name ?? 'Unknown';
+    const amountColor = item.type === 'income' ? colors.income
+      : item.type === 'expense' ? colors.expense : colors.transfer;
+
+    return (
+      <Pressable
+        style={({ pressed }) => [
+          styles.resultRow,
+          { borderBottomColor: colors.border },
+          pressed && { backgroundColor: colors.surface },
+        ]}
+        onPress={() => setEditingTransaction(item)}
+      >
+        <View style={[styles.resultIcon, { backgroundColor: (category?.color ?? colors.primary) + '20' }]}>
+          {isTransfer
+            ? <IconSymbol name="arrow.left.arrow.right" size={20} color={colors.transfer} />
+            : <CategoryIcon icon={category?.icon ?? '🏷️'} size={22} />}
+        </View>
+        <View style={styles.resultInfo}>
+          <Text style={[styles.resultTitle, { color: colors.foreground }]} numberOfLines={1}>{title}</Text>
+          <Text style={[styles.resultSubtitle, { color: colors.muted }]} numberOfLines={1}>
+            {formatDateHeader(item.date)}
+            {payee ? ` · ${payee.name}` : ''}
+            {!isTransfer && account ? ` · ${account.name}` : ''}
+            {item.note ? ` · ${item.note}` : ''}
+            {item.tags?.length ? ` · ${item.tags.map(tag => `#${tag}`).join(' ')}` : ''}
+          </Text>
+        </View>
+        <Text style={[styles.resultAmount, { color: amountColor }]}>
+          {formatAmount(item.amount, item.type, currencySymbol(accountCurrency(account, state.baseCurrency)))}
+        </Text>
+      </Pressable>
+    );
+  }, [colors, state.categories, state.accounts, state.payees, state.baseCurrency]);
+
+  const renderFilters = () => (
+    <View style={[styles.filterPanel, { borderBottomColor: colors.border }]}>
+      <View style={styles.filterHeader}>
+        <Text style={[styles.fieldLabel, { color: colors.muted }]}>Type</Text>
+        {filterCount > 0 && (
+          <Pressable onPress={clearFilters} style={({ pressed }) => pressed && { opacity: 0.5 }}>
+            <Text style={[styles.clearText, { color: colors.primary }]}>Clear filters</Text>
+          </Pressable>
+        )}
+      </View>
+      <View style={styles.chipWrap}>
+        {TYPE_OPTIONS.map(opt => (
+          <Chip
+            key={opt.key}
+            label={opt.label}
+            selected={filter.types.includes(opt.key)}
+            onPress={() => updateFilter({ types: toggle(filter.types, opt.key) })}
+            colors={colors}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Accounts</Text>
+      <View style={styles.chipWrap}>
+        {state.accounts.map(a => (
+          <Chip
+            key={a.id}
+            label={`${a.icon} ${a.name}`}
+            selected={filter.accountIds.includes(a.id)}
+            onPress={() => updateFilter({ accountIds: toggle(filter.accountIds, a.id) })}
+            colors={colors}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Categories</Text>
+      <View style={styles.chipWrap}>
+        {categoryOptions.map(c => (
+          <Chip
+            key={c.id}
+            label={c.name}
+            selected={filter.categoryIds.includes(c.id)}
+            onPress={() => updateFilter({ categoryIds: toggle(filter.categoryIds, c.id) })}
+            colors={colors}
+          />
+        ))}
+      </View>
+
+      {tagOptions.length > 0 && (
+        <>
+          <Text style={[styles.fieldLabel, { color: colors.muted }]}>Tags</Text>
+          <View style={styles.chipWrap}>
+            {tagOptions.map(tag => (
+              <Chip
+                key={tag}
+                label={`#${tag}`}
+                selected={!!filter.tags?.some(t => sameTag(t, tag))}
+                onPress={() => toggleTag(tag)}
+                colors={colors}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Amount</Text>
+      <View style={styles.rangeRow}>
+        <TextInput
+          style={[styles.rangeInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+          value={minText}
+          onChangeText={text => handleAmountText(text, 'min')}
+          placeholder="Min"
+          placeholderTextColor={colors.muted}
+          keyboardType="decimal-pad"
+        />
+        <Text style={[styles.rangeDash, { color: colors.muted }]}>–</Text>
+        <TextInput
+          style={[styles.rangeInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+          value={maxText}
+          onChangeText={text => handleAmountText(text, 'max')}
+          placeholder="Max"
+          placeholderTextColor={colors.muted}
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Date</Text>
+      <View style={styles.chipWrap}>
+        {DATE_RANGE_PRESETS.map(opt => {
+          const range = dateRange(opt.key, todayString());
+          const selected = filter.fromDate === range.fromDate && filter.toDate === range.toDate;
+          return (
+            <Chip
+              key={opt.key}
+              label={opt.label}
+              selected={selected}
+              onPress={() => updateFilter(selected ? { fromDate: undefined, toDate: undefined } : range)}
+              colors={colors}
+            />
+          );
+        })}
+      </View>
+      <View style={styles.rangeRow}>
+        <TextInput
+          style={[styles.rangeInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+          value={filter.fromDate ?? ''}
+          onChangeText={text => handleDateText(text, 'from')}
+          placeholder="From YYYY-MM-DD"
+          placeholderTextColor={colors.muted}
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+        />
+        <Text style={[styles.rangeDash, { color: colors.muted }]}>–</Text>
+        <TextInput
+          style={[styles.rangeInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+          value={filter.toDate ?? ''}
+          onChangeText={text => handleDateText(text, 'to')}
+          placeholder="To YYYY-MM-DD"
+          placeholderTextColor={colors.muted}
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Search</Text>
+        <Pressable
+          style={({ pressed }) => [styles.backBtn, styles.headerRight, pressed && { opacity: 0.5 }]}
+          onPress={() => setShowExport(true)}
+          disabled={results.length === 0}
+        >
+          <IconSymbol name="arrow.down.circle.fill" size={22} color={results.length > 0 ? colors.primary : colors.border} />
+        </Pressable>
+      </View>
+
+      {/* Search box */}
+      <View style={styles.searchRow}>
+        <View style={[styles.searchBox, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <IconSymbol name="magnifyingglass" size={18} color={colors.muted} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.foreground }]}
+            value={filter.query}
+            onChangeText={query => updateFilter({ query })}
+            placeholder="Notes, categories, accounts"
+            placeholderTextColor={colors.muted}
+            autoCorrect={false}
+            returnKeyType="search"
+            autoFocus
+          />
+          {!!filter.query && (
+            <Pressable onPress={() => updateFilter({ query: '' })}>
+              <IconSymbol name="xmark.circle.fill" size={18} color={colors.muted} />
+            </Pressable>
+          )}
+        </View>
+        <Pressable
+          style={({ pressed }) => [
+            styles.filterBtn,
+            { backgroundColor: showFilters || filterCount > 0 ? colors.primary : colors.surface, borderColor: colors.border },
+            pressed && { opacity: 0.7 },
+          ]}
+          onPress={() => setShowFilters(v => !v)}
+        >
+          <IconSymbol
+            name="line.3.horizontal.decrease.circle"
+            size={20}
+            color={showFilters || filterCount > 0 ? '#fff' : colors.foreground}
+          />
+          {filterCount > 0 && <Text style={styles.filterBadge}>{filterCount}</Text>}
+        </Pressable>
+      </View>
+
+      {/* Saved searches */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.presetScroll}
+        contentContainerStyle={styles.presetRow}
+        keyboardShouldPersistTaps="handled"
+      >
+        {state.filterPresets.map(preset => (
+          <Chip
+            key={preset.id}
+            label={preset.name}
+            selected={preset.id === activePresetId}
+            onPress={() => applyPreset(preset)}
+            onLongPress={() => handlePresetLongPress(preset)}
+            colors={colors}
+          />
+        ))}
+        {hasFilter && !activePreset && (
+          <Pressable
+            style={({ pressed }) => [styles.chip, styles.saveChip, { borderColor: colors.primary }, pressed && { opacity: 0.7 }]}
+            onPress={() => setShowSavePreset(true)}
+          >
+            <IconSymbol name="plus" size={14} color={colors.primary} />
+            <Text style={[styles.chipText, { color: colors.primary }]}>Save search</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+
+      <FlatList
+        data={results}
+        keyExtractor={item => item.id}
+        renderItem={renderResult}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <>
+            {showFilters && renderFilters()}
+            {hasFilter && results.length > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryText, { color: colors.muted }]}>
+                  {results.length} result{results.length === 1 ? '' : 's'}
+                </Text>
+                <Text style={[styles.summaryText, { color: colors.income }]}>
+                  +{formatCurrency(totals.income, state.currency)}
+                </Text>
+                <Text style={[styles.summaryText, { color: colors.expense }]}>
+                  -{formatCurrency(totals.expense, state.currency)}
+                </Text>
+              </View>
+            )}
+          </>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>🔍</Text>
+            <Text style={[styles.emptyText, { color: colors.muted }]}>
+              {hasFilter ? 'No matching transactions' : 'Search your transactions'}
+            </Text>
+            {!hasFilter && (
+              <Text style={[styles.emptyHint, { color: colors.muted }]}>
+                Type a note, payee, category or account, or tap the filter button.
+              </Text>
+            )}
+          </View>
+        }
+      />
+
+      <SavePresetModal
+        visible={showSavePreset}
+        initialName={filter.query.trim()}
+        onSave={handleSavePreset}
+        onClose={() => setShowSavePreset(false)}
+      />
+      <ExportModal
+        visible={showExport}
+        transactions={results}
+        onClose={() => setShowExport(false)}
+      />
+      <AddTransactionModal
+        visible={!!editingTransaction}
+        transaction={editingTransaction}
+        onClose={() => setEditingTransaction(null)}
+        onSaved={() => setEditingTransaction(null)}
+      />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+  },
+  filterBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 9,
+  },
+  filterBadge: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  presetScroll: {
+    flexGrow: 0,
+  },
+  presetRow: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  saveChip: {
+    borderStyle: 'dashed',
+  },
+  filterPanel: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  filterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 14,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 14,
+  },
+  rangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    fontSize: 14,
+  },
+  rangeDash: {
+    fontSize: 15,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  resultIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resultInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  resultSubtitle: {
+    fontSize: 12,
+  },
+  resultAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 32,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+  },
+  emptyHint: {
+    fontSize: 13,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  formContent: {
+    padding: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  textField: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
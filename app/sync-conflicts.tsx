@@ -0,0 +1,364 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { Account, Budget, Category, Payee, Transaction } from '@/lib/types';
+import { ConflictChoice, SyncConflict, SyncRecord, differingFields } from '@/lib/conflicts';
+import { formatCurrency, formatDateFull } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = {
+  transactions: 'Transaction',
+  accounts: 'Account',
+  categories: 'Category',
+  budgets: 'Budget',
+  payees: 'Payee',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  type: 'Type',
+  amount: 'Amount',
+  categoryId: 'Category',
+  accountId: 'Account',
+  toAccountId: 'To account',
+  toAmount: 'Amount received',
+  date: 'Date',
+  note: 'Note',
+  tags: 'Tags',
+  payeeId: 'Payee',
+  fitId: 'Bank reference',
+  splits: 'Split',
+  attachments: 'Attachments',
+  recurringRuleId: 'Recurring rule',
+  name: 'Name',
+  initialBalance: 'Initial balance',
+  icon: 'Icon',
+  color: 'Color',
+  currency: 'Currency',
+  parentId: 'Parent',
+  isDefault: 'Default',
+  sortOrder: 'Order',
+  month: 'Starts',
+  rollover: 'Rollover',
+  deletedAt: 'Deleted',
+};
+
+// ─── Conflict Card ───────────────────────────────────────────────────────────
+
+function ConflictCard({
+  conflict,
+  onResolve,
+}: {
+  conflict: SyncConflict;
+  onResolve: (resolution: ConflictChoice | Record<string, ConflictChoice>) => void;
+}) {
+  const colors = useColors();
+  const { state } = useApp();
+  const fields = differingFields(conflict.local, conflict.remote);
+  const [picks, setPicks] = useState<Record<string, ConflictChoice>>({});
+  const merging = Object.keys(picks).length > 0;
+
+  const categoryName = (id: string | null | undefined) =>
+    id ? state.categories.find(c => c.id === id)?.name ?? 'Unknown' : 'All expenses';
+  const accountName = (id: string | undefined) =>
+    id ? state.accounts.find(a => a.id === id)?.name ?? 'Unknown' : '—';
+
+  const symbolFor = (record: SyncRecord) => {
+    if (conflict.entity === 'transactions') {
+      const account = state.accounts.find(a => a.id === (record as Transaction).accountId);
+      return currencySymbol(accountCurrency(account, state.baseCurrency));
+    }
+    if (conflict.entity === 'accounts') {
+      return currencySymbol(accountCurrency(record as Account, state.baseCurrency));
+    }
+    return state.currency;
+  };
+
+  const formatValue = (record: SyncRecord, field: string): string => {
+    const value = (record as unknown as Record<string, unknown>)[field];
+    if (value === undefined || value === null || value === '') return '—';
+    switch (field) {
+      case 'amount':
+      case 'toAmount':
+      case 'initialBalance':
+        return formatCurrency(value as number, symbolFor(record));
+      case 'categoryId':
+      case 'parentId': return categoryName(value as string);
+      case 'accountId':
+      case 'toAccountId': return accountName(value as string);
+      case 'payeeId': return state.payees.find(p => p.id === value)?.name ?? 'Unknown';
+      case 'date': return formatDateFull(value as string);
+      case 'deletedAt': return formatDateFull((value as string).slice(0, 10));
+      case 'splits': return (value as Transaction['splits'])!
+        .map(s => `${categoryName(s.categoryId)} ${formatCurrency(s.amount, symbolFor(record))}`)
+        .join(', ');
+      case 'tags': return (value as string[]).join(', ') || '—';
+      case 'attachments': {
+        const count = (value as unknown[]).length;
+        return `${count} file${count === 1 ? '' : 's'}`;
+      }
+      default:
+        return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+    }
+  };
+
+  const title = (() => {
+    switch (conflict.entity) {
+      case 'transactions': {
+        const tx = conflict.local as Transaction;
+        return `${categoryName(tx.categoryId)} · ${tx.date}`;
+      }
+      case 'budgets': {
+        const b = conflict.local as Budget;
+        return `${categoryName(b.categoryId)} · ${b.month}`;
+      }
+      default:
+        return (conflict.local as Account | Category | Payee).name;
+    }
+  })();
+
+  const pick = (field: string, choice: ConflictChoice) => {
+    setPicks(p => ({ ...p, [field]: choice }));
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={styles.cardHeader}>
+        <Text style={[styles.entityLabel, { color: colors.warning }]}>{ENTITY_LABELS[conflict.entity].toUpperCase()}</Text>
+        <Text style={[styles.cardTitle, { color: colors.foreground }]} numberOfLines={1}>{title}</Text>
+      </View>
+
+      <View style={[styles.columnHeader, { borderBottomColor: colors.border }]}>
+        <View style={styles.fieldName} />
+        <Text style={[styles.columnLabel, { color: colors.muted }]}>This device</Text>
+        <Text style={[styles.columnLabel, { color: colors.muted }]}>Other device</Text>
+      </View>
+
+      {fields.map(field => (
+        <View key={field} style={[styles.fieldRow, { borderBottomColor: colors.border }]}>
+          <Text style={[styles.fieldName, { color: colors.muted }]}>{FIELD_LABELS[field] ?? field}</Text>
+          {(['local', 'remote'] as const).map(side => {
+            const selected = (picks[field] ?? (merging ? 'remote' : null)) === side;
+            return (
+              <Pressable
+                key={side}
+                style={[
+                  styles.valueChip,
+                  { borderColor: selected ? colors.primary : colors.border },
+                  selected && { backgroundColor: colors.primary + '18' },
+                ]}
+                onPress={() => pick(field, side)}
+              >
+                <Text style={[styles.valueText, { color: colors.foreground }]} numberOfLines={3}>
+                  {formatValue(side === 'local' ? conflict.local : conflict.remote, field)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+
+      <Text style={[styles.hint, { color: colors.muted }]}>
+        {merging ? 'Fields you have not picked keep the other device’s value.' : 'Tap values to merge field by field.'}
+      </Text>
+
+      <View style={styles.actions}>
+        {merging ? (
+          <>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border }, pressed && { opacity: 0.7 }]}
+              onPress={() => setPicks({})}
+            >
+              <Text style={[styles.actionText, { color: colors.muted }]}>Reset</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, styles.primaryBtn, { backgroundColor: colors.primary }, pressed && { opacity: 0.85 }]}
+              onPress={() => onResolve(picks)}
+            >
+              <Text style={[styles.actionText, { color: '#fff' }]}>Apply Merge</Text>
+            </Pressable>
+          </>
+        ) : (
+          <>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border }, pressed && { opacity: 0.7 }]}
+              onPress={() => onResolve('local')}
+            >
+              <Text style={[styles.actionText, { color: colors.foreground }]}>Keep This Device</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border }, pressed && { opacity: 0.7 }]}
+              onPress={() => onResolve('remote')}
+            >
+              <Text style={[styles.actionText, { color: colors.foreground }]}>Keep Other Device</Text>
+            </Pressable>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function SyncConflictsScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, resolveSyncConflict } = useApp();
+  const conflicts = state.syncConflicts;
+
+  const handleResolve = useCallback(async (key: string, resolution: ConflictChoice | Record<string, ConflictChoice>) => {
+    await resolveSyncConflict(key, resolution);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [resolveSyncConflict]);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Sync Conflicts</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      {conflicts.length === 0 ? (
+        <View style={styles.emptyState}>
+          <IconSymbol name="checkmark.circle.fill" size={40} color={colors.success} />
+          <Text style={[styles.emptyText, { color: colors.muted }]}>
+            No conflicts. Edits from your other devices merged cleanly.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+          <Text style={[styles.intro, { color: colors.muted }]}>
+            These records were changed here and on another device before they could sync.
+            Pick which version to keep, or tap values to combine them.
+          </Text>
+          {conflicts.map(c => (
+            <ConflictCard key={c.key} conflict={c} onResolve={r => handleResolve(c.key, r)} />
+          ))}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    padding: 16,
+    gap: 14,
+  },
+  intro: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+  },
+  cardHeader: {
+    gap: 2,
+    marginBottom: 8,
+  },
+  entityLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingBottom: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  columnLabel: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  fieldName: {
+    width: 80,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  valueChip: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  valueText: {
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  actionBtn: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 11,
+    alignItems: 'center',
+  },
+  primaryBtn: {
+    borderWidth: 0,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
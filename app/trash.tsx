@@ -0,0 +1,316 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Alert, Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ScreenContainer } from '@/components/screen-container';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { formatCurrency, formatDateFull } from '@/lib/format';
+import { accountCurrency, currencySymbol } from '@/lib/currency';
+import { TRASH_RETENTION_OPTIONS, TrashEntity, daysUntilPurge } from '@/lib/trash';
+
+const retentionLabel = (days: number) => (days === 0 ? 'Never' : `${days} days`);
+
+// ─── Trash Row ───────────────────────────────────────────────────────────────
+
+function TrashRow({
+  icon,
+  title,
+  subtitle,
+  deletedAt,
+  onRestore,
+  onPurge,
+}: {
+  icon: string;
+  title: string;
+  subtitle?: string;
+  deletedAt: string;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const colors = useColors();
+  const { state } = useApp();
+  const days = daysUntilPurge({ id: '', deletedAt }, state.trashRetentionDays, new Date());
+  const detail = `Deleted ${formatDateFull(deletedAt.slice(0, 10))}`
+    + (days === null ? '' : days === 0 ? ' · purged on next launch' : ` · purged in ${days} day${days === 1 ? '' : 's'}`);
+
+  return (
+    <View style={[styles.row, { borderBottomColor: colors.border }]}>
+      <View style={[styles.rowIcon, { backgroundColor: colors.surface }]}>
+        <CategoryIcon icon={icon} size={20} />
+      </View>
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: colors.foreground }]} numberOfLines={1}>{title}</Text>
+        {subtitle ? (
+          <Text style={[styles.rowSub, { color: colors.muted }]} numberOfLines={1}>{subtitle}</Text>
+        ) : null}
+        <Text style={[styles.rowSub, { color: colors.muted }]} numberOfLines={1}>{detail}</Text>
+      </View>
+      <Pressable
+        style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.5 }]}
+        onPress={onRestore}
+        hitSlop={6}
+      >
+        <IconSymbol name="arrow.uturn.backward" size={20} color={colors.primary} />
+      </Pressable>
+      <Pressable
+        style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.5 }]}
+        onPress={onPurge}
+        hitSlop={6}
+      >
+        <IconSymbol name="trash.fill" size={18} color={colors.expense} />
+      </Pressable>
+    </View>
+  );
+}
+
+// ─── Screen ──────────────────────────────────────────────────────────────────
+
+export default function TrashScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { state, restoreFromTrash, purgeFromTrash, clearTrash, setTrashRetention } = useApp();
+  const { trash } = state;
+  const total = trash.transactions.length + trash.accounts.length + trash.categories.length;
+
+  // Trashed records still show their account and category, trashed or not
+  const allCategories = useMemo(() => [...state.categories, ...trash.categories], [state.categories, trash.categories]);
+  const allAccounts = useMemo(() => [...state.accounts, ...trash.accounts], [state.accounts, trash.accounts]);
+  const newestFirst = <T extends { deletedAt?: string }>(list: T[]) =>
+    [...list].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
+  const handleRestore = useCallback(async (entity: TrashEntity, id: string) => {
+    await restoreFromTrash(entity, id);
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [restoreFromTrash]);
+
+  const handlePurge = useCallback((entity: TrashEntity, id: string, name: string) => {
+    Alert.alert(
+      'Delete Forever',
+      entity === 'accounts'
+        ? `Permanently delete "${name}" and the transactions deleted with it? This cannot be undone.`
+        : `Permanently delete "${name}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => purgeFromTrash(entity, [id]) },
+      ],
+    );
+  }, [purgeFromTrash]);
+
+  const handleEmpty = useCallback(() => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${total} item${total === 1 ? '' : 's'}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Empty', style: 'destructive', onPress: () => clearTrash() },
+      ],
+    );
+  }, [total, clearTrash]);
+
+  return (
+    <ScreenContainer containerClassName="bg-background">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable style={({ pressed }) => [styles.backBtn, pressed && { opacity: 0.5 }]} onPress={() => router.back()}>
+          <IconSymbol name="chevron.left" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.foreground }]}>Trash</Text>
+        <View style={styles.backBtn} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        <Text style={[styles.sectionLabel, { color: colors.muted }]}>DELETE AUTOMATICALLY AFTER</Text>
+        <View style={styles.chips}>
+          {TRASH_RETENTION_OPTIONS.map(days => {
+            const active = state.trashRetentionDays === days;
+            return (
+              <Pressable
+                key={days}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                ]}
+                onPress={() => setTrashRetention(days)}
+              >
+                <Text style={[styles.chipText, { color: active ? colors.primary : colors.foreground }]}>
+                  {retentionLabel(days)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {total === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol name="trash.fill" size={40} color={colors.muted} />
+            <Text style={[styles.emptyText, { color: colors.muted }]}>
+              The trash is empty. Deleted transactions, accounts and categories show up here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {trash.accounts.length > 0 && (
+              <Text style={[styles.sectionLabel, { color: colors.muted }]}>ACCOUNTS</Text>
+            )}
+            {newestFirst(trash.accounts).map(a => (
+              <TrashRow
+                key={a.id}
+                icon={a.icon}
+                title={a.name}
+                deletedAt={a.deletedAt!}
+                onRestore={() => handleRestore('accounts', a.id)}
+                onPurge={() => handlePurge('accounts', a.id, a.name)}
+              />
+            ))}
+
+            {trash.categories.length > 0 && (
+              <Text style={[styles.sectionLabel, { color: colors.muted }]}>CATEGORIES</Text>
+            )}
+            {newestFirst(trash.categories).map(c => (
+              <TrashRow
+                key={c.id}
+                icon={c.icon}
+                title={c.name}
+                deletedAt={c.deletedAt!}
+                onRestore={() => handleRestore('categories', c.id)}
+                onPurge={() => handlePurge('categories', c.id, c.name)}
+              />
+            ))}
+
+            {trash.transactions.length > 0 && (
+              <Text style={[styles.sectionLabel, { color: colors.muted }]}>TRANSACTIONS</Text>
+            )}
+            {newestFirst(trash.transactions).map(t => {
+              const category = allCategories.find(c => c.id === t.categoryId);
+              const account = allAccounts.find(a => a.id === t.accountId);
+              const amount = formatCurrency(t.amount, currencySymbol(accountCurrency(account, state.baseCurrency)));
+              const title = t.type === 'transfer' ? 'Transfer' : category?.name ?? 'Unknown';
+              return (
+                <TrashRow
+                  key={t.id}
+                  icon={t.type === 'transfer' ? '🔄' : category?.icon ?? '🏷️'}
+                  title={`${title} · ${amount}`}
+                  subtitle={`${formatDateFull(t.date)}${account ? ` · ${account.name}` : ''}${t.note ? ` · ${t.note}` : ''}`}
+                  deletedAt={t.deletedAt!}
+                  onRestore={() => handleRestore('transactions', t.id)}
+                  onPurge={() => handlePurge('transactions', t.id, `${title} ${amount}`)}
+                />
+              );
+            })}
+
+            <Pressable
+              style={({ pressed }) => [styles.emptyBtn, { borderColor: colors.expense }, pressed && { opacity: 0.7 }]}
+              onPress={handleEmpty}
+            >
+              <Text style={[styles.emptyBtnText, { color: colors.expense }]}>EMPTY TRASH</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backBtn: {
+    width: 40,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  list: {
+    paddingBottom: 32,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  rowIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowSub: {
+    fontSize: 12,
+  },
+  iconBtn: {
+    padding: 6,
+  },
+  emptyBtn: {
+    marginHorizontal: 16,
+    marginTop: 24,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  emptyBtnText: {
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -6,10 +6,22 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useColors } from '@/hooks/use-colors';
 import { useApp } from '@/lib/AppContext';
-import { Transaction, TransactionType, Category, Account } from '@/lib/types';
+import {
+  Transaction, TransactionType, TransactionSplit, Category, Account, RecurrenceFrequency, RecurringRule, Attachment, Payee,
+} from '@/lib/types';
 import { todayString, formatCurrency } from '@/lib/format';
+import { describeRecurrence } from '@/lib/recurrence';
+import { accountCurrency, convertAmount, currencySymbol } from '@/lib/currency';
+import { isSplit, primaryCategory, splitRemainder, validateSplits } from '@/lib/splits';
+import { flattenTree } from '@/lib/category-tree';
+import { addTag, knownTags, removeTag, suggestTags } from '@/lib/tags';
+import { findPayeeByName, normalizePayeeName, payeeDefaults, suggestPayees } from '@/lib/payees';
+import { findMatchingRule, ruleCategory } from '@/lib/rules';
+import { isReconciled, withEdits } from '@/lib/reconcile';
+import { storeAttachmentFile } from '@/lib/attachment-files';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { CategoryIcon } from '@/components/CategoryIcon';
+import { AttachmentPicker } from '@/components/AttachmentPicker';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import UUID from 'react-native-uuid';
@@ -20,6 +32,7 @@ interface AddTransactionModalProps {
   visible: boolean;
   transaction?: Transaction | null; // if provided, edit mode
   defaultAccountId?: string;
+  prefill?: Partial<Pick<Transaction, 'type' | 'amount' | 'accountId' | 'toAccountId' | 'note'>>; // starting values for a new transaction
   onClose: () => void;
   onSaved: () => void;
 }
@@ -130,6 +143,11 @@ function CategoryPicker({
                 <Text style={[styles.categoryGridName, { color: colors.foreground }]} numberOfLines={1}>
                   {item.name}
                 </Text>
+                {item.parentId && categories.some(c => c.id === item.parentId) && (
+                  <Text style={[styles.categoryGridParent, { color: colors.muted }]} numberOfLines={1}>
+                    in {categories.find(c => c.id === item.parentId)!.name}
+                  </Text>
+                )}
                 {selected && (
                   <View style={[styles.categorySelectedDot, { backgroundColor: item.color }]} />
                 )}
@@ -307,18 +325,395 @@ function SimpleDatePicker({
   );
 }
 
+// ─── Repeat Section ──────────────────────────────────────────────────────────
+
+type RepeatValue = RecurrenceFrequency | 'never';
+type RepeatEnd = 'never' | 'date' | 'count';
+
+interface RepeatSettings {
+  frequency: RepeatValue;
+  interval: string;
+  end: RepeatEnd;
+  endDate: string;
+  count: string;
+}
+
+const REPEAT_OPTIONS: { key: RepeatValue; label: string }[] = [
+  { key: 'never', label: 'Never' },
+  { key: 'daily', label: 'Daily' },
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+  { key: 'yearly', label: 'Yearly' },
+];
+
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const REPEAT_END_OPTIONS: { key: RepeatEnd; label: string }[] = [
+  { key: 'never', label: 'Never' },
+  { key: 'date', label: 'On date' },
+  { key: 'count', label: 'After' },
+];
+
+function RepeatSection({
+  value,
+  onChange,
+  error,
+  colors,
+}: {
+  value: RepeatSettings;
+  onChange: (v: RepeatSettings) => void;
+  error?: string;
+  colors: ReturnType<typeof useColors>;
+}) {
+  const chip = (active: boolean) => [
+    styles.quickDateBtn,
+    { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '20' : colors.surface },
+  ];
+  const chipText = (active: boolean) => [styles.quickDateText, { color: active ? colors.primary : colors.foreground }];
+  const inputStyle = [styles.repeatInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }];
+
+  return (
+    <>
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Repeat</Text>
+      <View style={styles.repeatChips}>
+        {REPEAT_OPTIONS.map(o => (
+          <Pressable key={o.key} style={chip(value.frequency === o.key)} onPress={() => onChange({ ...value, frequency: o.key })}>
+            <Text style={chipText(value.frequency === o.key)}>{o.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {value.frequency !== 'never' && (
+        <>
+          <View style={styles.repeatRow}>
+            <Text style={[styles.repeatLabel, { color: colors.foreground }]}>Every</Text>
+            <TextInput
+              style={inputStyle}
+              value={value.interval}
+              onChangeText={t => onChange({ ...value, interval: t.replace(/[^0-9]/g, '') })}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={[styles.repeatLabel, { color: colors.muted }]}>
+              {REPEAT_UNITS[value.frequency]}{(parseInt(value.interval) || 1) > 1 ? 's' : ''}
+            </Text>
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: colors.muted }]}>Ends</Text>
+          <View style={styles.repeatChips}>
+            {REPEAT_END_OPTIONS.map(o => (
+              <Pressable key={o.key} style={chip(value.end === o.key)} onPress={() => onChange({ ...value, end: o.key })}>
+                <Text style={chipText(value.end === o.key)}>{o.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          {value.end === 'date' && (
+            <TextInput
+              style={[inputStyle, styles.repeatEndInput]}
+              value={value.endDate}
+              onChangeText={t => onChange({ ...value, endDate: t })}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.muted}
+              maxLength={10}
+            />
+          )}
+          {value.end === 'count' && (
+            <View style={styles.repeatRow}>
+              <TextInput
+                style={inputStyle}
+                value={value.count}
+                onChangeText={t => onChange({ ...value, count: t.replace(/[^0-9]/g, '') })}
+                keyboardType="number-pad"
+                maxLength={4}
+              />
+              <Text style={[styles.repeatLabel, { color: colors.muted }]}>times</Text>
+            </View>
+          )}
+        </>
+      )}
+      {error && <Text style={[styles.errorText, { color: colors.expense }]}>{error}</Text>}
+    </>
+  );
+}
+
+const DEFAULT_REPEAT: RepeatSettings = {
+  frequency: 'never',
+  interval: '1',
+  end: 'never',
+  endDate: '',
+  count: '12',
+};
+
+// ─── Split Section ───────────────────────────────────────────────────────────
+
+interface SplitDraft {
+  key: string;
+  categoryId: string;
+  amount: string;
+  note: string;
+}
+
+function newSplitDraft(categoryId = '', amount = ''): SplitDraft {
+  return { key: String(UUID.v4()), categoryId, amount, note: '' };
+}
+
+function parseSplitDrafts(drafts: SplitDraft[]): TransactionSplit[] {
+  return drafts.map(d => ({
+    categoryId: d.categoryId,
+    amount: parseFloat(d.amount) || 0,
+    note: d.note.trim() || undefined,
+  }));
+}
+
+function SplitSection({
+  lines,
+  total,
+  symbol,
+  categories,
+  onChange,
+  onPickCategory,
+  error,
+  colors,
+}: {
+  lines: SplitDraft[];
+  total: number;
+  symbol: string;
+  categories: Category[];
+  onChange: (lines: SplitDraft[]) => void;
+  onPickCategory: (index: number) => void;
+  error?: string;
+  colors: ReturnType<typeof useColors>;
+}) {
+  const remainder = splitRemainder(total, parseSplitDrafts(lines));
+  const update = (index: number, patch: Partial<SplitDraft>) =>
+    onChange(lines.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  const handleAmount = (index: number, text: string) => {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    const parts = cleaned.split('.');
+    if (parts.length > 2 || parts[1]?.length > 2) return;
+    update(index, { amount: cleaned });
+  };
+
+  return (
+    <>
+      {lines.map((line, index) => {
+        const category = categories.find(c => c.id === line.categoryId);
+        return (
+          <View key={line.key} style={[styles.splitLine, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <View style={styles.splitRow}>
+              <Pressable style={styles.splitCategory} onPress={() => onPickCategory(index)}>
+                <Text style={styles.splitEmoji}>{category?.icon || '🏷️'}</Text>
+                <Text style={[styles.splitCategoryText, { color: category ? colors.foreground : colors.muted }]} numberOfLines={1}>
+                  {category?.name || 'Category'}
+                </Text>
+              </Pressable>
+              <Text style={[styles.splitSymbol, { color: colors.muted }]}>{symbol}</Text>
+              <TextInput
+                style={[styles.splitAmount, { color: colors.foreground, borderColor: colors.border }]}
+                value={line.amount}
+                onChangeText={t => handleAmount(index, t)}
+                placeholder="0.00"
+                placeholderTextColor={colors.muted}
+                keyboardType="decimal-pad"
+              />
+              {lines.length > 2 && (
+                <Pressable onPress={() => onChange(lines.filter((_, i) => i !== index))} hitSlop={8}>
+                  <IconSymbol name="xmark.circle.fill" size={18} color={colors.muted} />
+                </Pressable>
+              )}
+            </View>
+            <TextInput
+              style={[styles.splitNote, { color: colors.foreground }]}
+              value={line.note}
+              onChangeText={t => update(index, { note: t })}
+              placeholder="Line note (optional)"
+              placeholderTextColor={colors.muted}
+            />
+          </View>
+        );
+      })}
+
+      <View style={styles.splitFooter}>
+        <Pressable
+          style={({ pressed }) => [styles.splitAddBtn, pressed && { opacity: 0.6 }]}
+          // Pre-fill the new line with whatever is still unallocated
+          onPress={() => onChange([...lines, newSplitDraft('', remainder > 0 ? remainder.toFixed(2) : '')])}
+        >
+          <IconSymbol name="plus.circle.fill" size={18} color={colors.primary} />
+          <Text style={[styles.splitAddText, { color: colors.primary }]}>Add line</Text>
+        </Pressable>
+        <Text style={[styles.splitRemainder, { color: remainder === 0 ? colors.income : colors.expense }]}>
+          {remainder === 0
+            ? 'Fully allocated'
+            : remainder > 0
+              ? `${symbol}${remainder.toFixed(2)} left`
+              : `${symbol}${(-remainder).toFixed(2)} over`}
+        </Text>
+      </View>
+      {error && <Text style={[styles.errorText, { color: colors.expense }]}>{error}</Text>}
+    </>
+  );
+}
+
+// ─── Payee Section ───────────────────────────────────────────────────────────
+
+function PayeeSection({
+  value,
+  onChange,
+  onPick,
+  payees,
+  transactions,
+  colors,
+}: {
+  value: string;
+  onChange: (name: string) => void;
+  /** A known payee was chosen, from the suggestions or by typing its name. */
+  onPick: (payee: Payee) => void;
+  payees: Payee[];
+  transactions: Transaction[];
+  colors: ReturnType<typeof useColors>;
+}) {
+  const [focused, setFocused] = useState(false);
+  const suggestions = useMemo(
+    () => (focused ? suggestPayees(payees, transactions, value) : [])
+      .filter(p => p.name !== normalizePayeeName(value)),
+    [focused, payees, transactions, value],
+  );
+
+  const handleBlur = () => {
+    setFocused(false);
+    const match = findPayeeByName(payees, value);
+    if (match) onPick(match);
+  };
+
+  return (
+    <>
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Payee (optional)</Text>
+      <TextInput
+        style={[styles.tagInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+        value={value}
+        onChangeText={onChange}
+        onFocus={() => setFocused(true)}
+        onBlur={handleBlur}
+        placeholder="Who was it? e.g. Starbucks"
+        placeholderTextColor={colors.muted}
+        returnKeyType="done"
+        autoCapitalize="words"
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.tagChips}>
+          {suggestions.map(p => (
+            <Pressable
+              key={p.id}
+              style={[styles.tagChip, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => onPick(p)}
+            >
+              <Text style={[styles.tagChipText, { color: colors.foreground }]}>{p.name}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </>
+  );
+}
+
+// ─── Tags Section ────────────────────────────────────────────────────────────
+
+function TagsSection({
+  tags,
+  onChange,
+  known,
+  colors,
+}: {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  known: string[]; // tags already in use, most used first
+  colors: ReturnType<typeof useColors>;
+}) {
+  const [input, setInput] = useState('');
+  const suggestions = useMemo(() => suggestTags(known, input, tags), [known, input, tags]);
+
+  const commit = (raw: string) => {
+    onChange(addTag(tags, raw));
+    setInput('');
+  };
+
+  // Typing a comma finishes the tag
+  const handleText = (text: string) => {
+    if (!text.includes(',')) {
+      setInput(text);
+      return;
+    }
+    const parts = text.split(',');
+    onChange(parts.slice(0, -1).reduce(addTag, tags));
+    setInput(parts[parts.length - 1]);
+  };
+
+  return (
+    <>
+      <Text style={[styles.fieldLabel, { color: colors.muted }]}>Tags (optional)</Text>
+      {tags.length > 0 && (
+        <View style={styles.tagChips}>
+          {tags.map(tag => (
+            <Pressable
+              key={tag}
+              style={[styles.tagChip, { backgroundColor: colors.primary + '20', borderColor: colors.primary }]}
+              onPress={() => onChange(removeTag(tags, tag))}
+            >
+              <Text style={[styles.tagChipText, { color: colors.primary }]}>#{tag}</Text>
+              <IconSymbol name="xmark" size={10} color={colors.primary} />
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={[styles.tagInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+        value={input}
+        onChangeText={handleText}
+        onSubmitEditing={() => commit(input)}
+        onBlur={() => input.trim() && commit(input)}
+        placeholder="Add a tag, e.g. Trip to Tokyo"
+        placeholderTextColor={colors.muted}
+        returnKeyType="done"
+        blurOnSubmit={false}
+        autoCapitalize="sentences"
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.tagChips}>
+          {suggestions.map(tag => (
+            <Pressable
+              key={tag}
+              style={[styles.tagChip, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => commit(tag)}
+            >
+              <Text style={[styles.tagChipText, { color: colors.foreground }]}>#{tag}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </>
+  );
+}
+
 // ─── Main Modal ───────────────────────────────────────────────────────────────
 
 export default function AddTransactionModal({
   visible,
   transaction,
   defaultAccountId,
+  prefill,
   onClose,
   onSaved,
 }: AddTransactionModalProps) {
   const colors = useColors();
   const insets = useSafeAreaInsets();
-  const { state, addTransaction, updateTransaction, removeTransaction } = useApp();
+  const { state, addTransaction, updateTransaction, removeTransaction, addRecurringRule, addPayee } = useApp();
 
   const isEdit = !!transaction;
 
@@ -328,14 +723,23 @@ export default function AddTransactionModal({
   const [categoryId, setCategoryId] = useState('');
   const [accountId, setAccountId] = useState('');
   const [toAccountId, setToAccountId] = useState('');
+  const [toAmount, setToAmount] = useState('');
   const [date, setDate] = useState(todayString());
   const [note, setNote] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [payeeName, setPayeeName] = useState('');
+  const [repeat, setRepeat] = useState<RepeatSettings>(DEFAULT_REPEAT);
+  const [splits, setSplits] = useState<SplitDraft[]>([]); // empty = not split
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [categoryTouched, setCategoryTouched] = useState(false); // picked by hand, rules leave it alone
+  const [appliedRuleId, setAppliedRuleId] = useState<string | null>(null);
 
   // Picker visibility
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [showAccountPicker, setShowAccountPicker] = useState(false);
   const [showToAccountPicker, setShowToAccountPicker] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [splitPickerIndex, setSplitPickerIndex] = useState<number | null>(null);
 
   // Errors
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -349,19 +753,34 @@ export default function AddTransactionModal({
       setCategoryId(transaction.categoryId);
       setAccountId(transaction.accountId);
       setToAccountId(transaction.toAccountId || '');
+      setToAmount(transaction.toAmount !== undefined ? transaction.toAmount.toString() : '');
       setDate(transaction.date);
       setNote(transaction.note || '');
+      setTags(transaction.tags ?? []);
+      setPayeeName(state.payees.find(p => p.id === transaction.payeeId)?.name ?? '');
+      setSplits(isSplit(transaction)
+        ? transaction.splits!.map(s => ({ ...newSplitDraft(s.categoryId, s.amount.toString()), note: s.note ?? '' }))
+        : []);
+      setAttachments(transaction.attachments ?? []);
+      setCategoryTouched(true);
     } else {
-      setType('expense');
-      setAmount('');
+      setType(prefill?.type ?? 'expense');
+      setAmount(prefill?.amount !== undefined ? prefill.amount.toFixed(2) : '');
       setCategoryId('');
-      setAccountId(defaultAccountId || (state.accounts[0]?.id || ''));
-      setToAccountId('');
+      setAccountId(prefill?.accountId || defaultAccountId || (state.accounts[0]?.id || ''));
+      setToAccountId(prefill?.toAccountId ?? '');
+      setToAmount('');
       setDate(todayString());
-      setNote('');
+      setNote(prefill?.note ?? '');
+      setTags([]);
+      setPayeeName('');
+      setSplits([]);
+      setCategoryTouched(false);
+      setAttachments([]);
     }
+    setRepeat(DEFAULT_REPEAT);
     setErrors({});
-  }, [visible, transaction, defaultAccountId, state.accounts]);
+  }, [visible, transaction, defaultAccountId, prefill, state.accounts, state.payees]);
 
   // Auto-select first category when type changes
   useEffect(() => {
@@ -371,50 +790,235 @@ export default function AddTransactionModal({
     }
   }, [type]);
 
+  // Tree order, so subcategories follow their parent in the picker
   const filteredCategories = useMemo(() =>
-    state.categories.filter(c => c.type === (type === 'transfer' ? 'expense' : type)),
+    flattenTree(state.categories.filter(c => c.type === (type === 'transfer' ? 'expense' : type))).map(o => o.category),
     [state.categories, type]
   );
 
+  const tagOptions = useMemo(() => knownTags(state.transactions), [state.transactions]);
+
   const selectedCategory = state.categories.find(c => c.id === categoryId);
   const selectedAccount = state.accounts.find(a => a.id === accountId);
   const selectedToAccount = state.accounts.find(a => a.id === toAccountId);
 
+  const fromCurrency = accountCurrency(selectedAccount, state.baseCurrency);
+  const toCurrency = accountCurrency(selectedToAccount, state.baseCurrency);
+  const isCrossCurrency = type === 'transfer' && !!selectedToAccount && fromCurrency !== toCurrency;
+
+  // Suggest the received amount from the rate table until the user types one
+  const [toAmountTouched, setToAmountTouched] = useState(false);
+  useEffect(() => {
+    if (!visible) return;
+    setToAmountTouched(transaction?.toAmount !== undefined);
+  }, [visible, transaction]);
+  useEffect(() => {
+    if (!isCrossCurrency || toAmountTouched) return;
+    const value = parseFloat(amount);
+    const converted = value > 0 ? convertAmount(value, fromCurrency, toCurrency, state.exchangeRates) : null;
+    setToAmount(converted !== null ? converted.toFixed(2) : '');
+  }, [isCrossCurrency, toAmountTouched, amount, fromCurrency, toCurrency, state.exchangeRates]);
+
+  const sourceRule = transaction?.recurringRuleId
+    ? state.recurringRules.find(r => r.id === transaction.recurringRuleId)
+    : undefined;
+
+  const isSplitting = type !== 'transfer' && splits.length > 0;
+
+  // Categorization rules fill in new transactions as the details are typed
+  const matchedRule = useMemo(
+    () => (isEdit ? undefined : findMatchingRule(state.categoryRules, {
+      type,
+      amount: parseFloat(amount) || 0,
+      accountId,
+      note,
+      payeeName: normalizePayeeName(payeeName),
+    })),
+    [isEdit, state.categoryRules, type, amount, accountId, note, payeeName],
+  );
+  const ruleSetsCategory = !!matchedRule && !categoryTouched && !isSplitting
+    && !!ruleCategory(matchedRule, type, state.categories);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAppliedRuleId(null);
+  }, [visible, transaction]);
+
+  useEffect(() => {
+    if (!matchedRule || matchedRule.id === appliedRuleId) return;
+    setAppliedRuleId(matchedRule.id);
+    const category = ruleCategory(matchedRule, type, state.categories);
+    if (category && !categoryTouched && !isSplitting) setCategoryId(category.id);
+    // Each rule adds its tags once, so removing one by hand sticks
+    if (matchedRule.tags?.length) setTags(current => matchedRule.tags!.reduce(addTag, current));
+  }, [matchedRule, appliedRuleId, type, state.categories, categoryTouched, isSplitting]);
+
+  const handleTypeChange = (next: TransactionType) => {
+    // Split lines use categories of the old type
+    if (next !== type) setSplits([]);
+    setType(next);
+  };
+
+  // Fill in what this payee is usually booked as; edits keep their values
+  const handlePickPayee = (payee: Payee) => {
+    setPayeeName(payee.name);
+    if (isEdit) return;
+    const defaults = payeeDefaults(payee.id, state.transactions);
+    if (defaults.type) handleTypeChange(defaults.type);
+    const nextSplitting = isSplitting && defaults.type === type;
+    // A matching rule's category beats the learned one
+    if (!nextSplitting && !ruleSetsCategory && defaults.categoryId && state.categories.some(c => c.id === defaults.categoryId)) {
+      setCategoryId(defaults.categoryId);
+    }
+    if (defaults.accountId && state.accounts.some(a => a.id === defaults.accountId)) {
+      setAccountId(defaults.accountId);
+    }
+  };
+
+  /** The payee to link, created on first use; none for transfers. */
+  const resolvePayee = async (now: string): Promise<string | undefined> => {
+    const name = normalizePayeeName(payeeName);
+    if (type === 'transfer' || !name) return undefined;
+    const existing = findPayeeByName(state.payees, name);
+    if (existing) return existing.id;
+    const payee: Payee = { id: String(UUID.v4()), name, createdAt: now, updatedAt: now };
+    await addPayee(payee);
+    return payee.id;
+  };
+
+  const toggleSplit = () => {
+    if (isSplitting) {
+      setCategoryId(primaryCategory(parseSplitDrafts(splits)) || categoryId);
+      setSplits([]);
+    } else {
+      setSplits([newSplitDraft(categoryId, amount), newSplitDraft()]);
+    }
+  };
+
   const typeColor = type === 'income' ? colors.income : type === 'expense' ? colors.expense : colors.transfer;
 
   const validate = () => {
     const newErrors: Record<string, string> = {};
     if (!amount || parseFloat(amount) <= 0) newErrors.amount = 'Please enter a valid amount';
-    if (!categoryId && type !== 'transfer') newErrors.category = 'Please select a category';
+    if (!categoryId && type !== 'transfer' && !isSplitting) newErrors.category = 'Please select a category';
+    if (isSplitting) {
+      const splitError = validateSplits(parseFloat(amount) || 0, parseSplitDrafts(splits));
+      if (splitError) newErrors.splits = splitError;
+    }
     if (!accountId) newErrors.account = 'Please select an account';
     if (type === 'transfer' && !toAccountId) newErrors.toAccount = 'Please select destination account';
     if (type === 'transfer' && accountId === toAccountId) newErrors.toAccount = 'Source and destination must differ';
+    if (isCrossCurrency && !(parseFloat(toAmount) > 0)) newErrors.toAmount = 'Please enter the amount received';
+    if (repeat.frequency !== 'never') {
+      if (repeat.end === 'date' && (!/^\d{4}-\d{2}-\d{2}$/.test(repeat.endDate) || repeat.endDate < date)) {
+        newErrors.repeat = 'End date must be YYYY-MM-DD and not before the first date';
+      }
+      if (repeat.end === 'count' && !(parseInt(repeat.count) >= 1)) {
+        newErrors.repeat = 'Please enter how many times to repeat';
+      }
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   const handleSave = async () => {
     if (!validate()) return;
+    if (transaction && isReconciled(transaction) && !isReconciled(withEdits(transaction, draftTransaction()))) {
+      Alert.alert(
+        'Reconciled Transaction',
+        'This transaction matches a reconciled bank statement. Changing its amount or account unlocks it, and it will need reconciling again.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Unlock & Save', style: 'destructive', onPress: save },
+        ]
+      );
+      return;
+    }
+    await save();
+  };
+
+  /** The form's amounts and accounts as a transaction, to compare against the saved one. */
+  const draftTransaction = (): Transaction => ({
+    ...transaction!,
+    type,
+    amount: parseFloat(amount),
+    accountId,
+    toAccountId: type === 'transfer' ? toAccountId : undefined,
+    toAmount: isCrossCurrency ? parseFloat(toAmount) : undefined,
+  });
+
+  const save = async () => {
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
     const now = new Date().toISOString();
-    const tx: Transaction = {
-      id: transaction?.id || String(UUID.v4()),
+    const txSplits = isSplitting ? parseSplitDrafts(splits) : undefined;
+    const txCategoryId = txSplits ? primaryCategory(txSplits)
+      : type === 'transfer' ? (categoryId || 'cat-food') : categoryId;
+    const payeeId = await resolvePayee(now);
+
+    if (!isEdit && repeat.frequency !== 'never') {
+      // The rule's first occurrence is the entered date; the context posts it
+      // (and any other due occurrences) as soon as the rule is saved.
+      const rule: RecurringRule = {
+        id: String(UUID.v4()),
+        type,
+        amount: parseFloat(amount),
+        categoryId: txCategoryId,
+        accountId,
+        toAccountId: type === 'transfer' ? toAccountId : undefined,
+        toAmount: isCrossCurrency ? parseFloat(toAmount) : undefined,
+        splits: txSplits,
+        payeeId,
+        note: note.trim() || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        frequency: repeat.frequency,
+        interval: Math.max(1, parseInt(repeat.interval) || 1),
+        startDate: date,
+        endDate: repeat.end === 'date' ? repeat.endDate : undefined,
+        count: repeat.end === 'count' ? parseInt(repeat.count) : undefined,
+        skipDates: [],
+        overrides: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await addRecurringRule(rule);
+      onSaved();
+      return;
+    }
+
+    // Newly picked files still live in the picker's cache; keep a copy
+    const saved = new Set((transaction?.attachments ?? []).map(a => a.id));
+    let txAttachments: Attachment[];
+    try {
+      txAttachments = attachments.map(a => (saved.has(a.id) || !a.localUri
+        ? a
+        : { ...a, localUri: storeAttachmentFile(a.localUri, a) }));
+    } catch (e) {
+      Alert.alert('Could not save attachment', e instanceof Error ? e.message : 'Unknown error');
+      return;
+    }
+
+    // Every field the form shows, set even when cleared so an edit clears it
+    const fields = {
       type,
       amount: parseFloat(amount),
-      categoryId: type === 'transfer' ? (categoryId || 'cat-food') : categoryId,
+      categoryId: txCategoryId,
       accountId,
       toAccountId: type === 'transfer' ? toAccountId : undefined,
+      toAmount: isCrossCurrency ? parseFloat(toAmount) : undefined,
+      splits: txSplits,
       date,
+      payeeId,
       note: note.trim() || undefined,
-      createdAt: transaction?.createdAt || now,
+      tags: tags.length > 0 ? tags : undefined,
+      attachments: txAttachments.length > 0 ? txAttachments : undefined,
       updatedAt: now,
     };
 
-    if (isEdit) {
-      await updateTransaction(tx);
+    if (transaction) {
+      await updateTransaction(withEdits(transaction, fields));
     } else {
-      await addTransaction(tx);
+      await addTransaction({ ...fields, id: String(UUID.v4()), createdAt: now });
     }
     onSaved();
   };
@@ -422,7 +1026,9 @@ export default function AddTransactionModal({
   const handleDelete = () => {
     Alert.alert(
       'Delete Transaction',
-      'Are you sure you want to delete this transaction?',
+      transaction && isReconciled(transaction)
+        ? 'This transaction matches a reconciled bank statement, which will no longer balance without it. Delete it anyway?'
+        : 'Are you sure you want to delete this transaction?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -439,13 +1045,25 @@ export default function AddTransactionModal({
     );
   };
 
-  const handleAmountInput = (text: string) => {
+  const cleanAmount = (text: string): string | null => {
     // Allow only numbers and one decimal point
     const cleaned = text.replace(/[^0-9.]/g, '');
     const parts = cleaned.split('.');
-    if (parts.length > 2) return;
-    if (parts[1]?.length > 2) return;
-    setAmount(cleaned);
+    if (parts.length > 2) return null;
+    if (parts[1]?.length > 2) return null;
+    return cleaned;
+  };
+
+  const handleAmountInput = (text: string) => {
+    const cleaned = cleanAmount(text);
+    if (cleaned !== null) setAmount(cleaned);
+  };
+
+  const handleToAmountInput = (text: string) => {
+    const cleaned = cleanAmount(text);
+    if (cleaned === null) return;
+    setToAmount(cleaned);
+    setToAmountTouched(true);
   };
 
   return (
@@ -486,12 +1104,21 @@ export default function AddTransactionModal({
 
           <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
             <View style={styles.formContent}>
+              {transaction && isReconciled(transaction) && (
+                <View style={[styles.repeatInfo, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                  <IconSymbol name="lock.fill" size={16} color={colors.muted} />
+                  <Text style={[styles.repeatInfoText, { color: colors.muted }]}>
+                    Reconciled · changing the amount or account unlocks it
+                  </Text>
+                </View>
+              )}
+
               {/* Type Selector */}
-              <TypeSelector value={type} onChange={setType} colors={colors} />
+              <TypeSelector value={type} onChange={handleTypeChange} colors={colors} />
 
               {/* Amount */}
               <View style={[styles.amountContainer, { borderColor: typeColor, backgroundColor: colors.surface }]}>
-                <Text style={[styles.currencySymbol, { color: typeColor }]}>$</Text>
+                <Text style={[styles.currencySymbol, { color: typeColor }]}>{currencySymbol(fromCurrency)}</Text>
                 <TextInput
                   style={[styles.amountInput, { color: typeColor }]}
                   value={amount}
@@ -504,21 +1131,58 @@ export default function AddTransactionModal({
               </View>
               {errors.amount && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.amount}</Text>}
 
-              {/* Category (not shown for transfer) */}
+              {/* Payee (not shown for transfer) */}
+              {type !== 'transfer' && (
+                <PayeeSection
+                  value={payeeName}
+                  onChange={setPayeeName}
+                  onPick={handlePickPayee}
+                  payees={state.payees}
+                  transactions={state.transactions}
+                  colors={colors}
+                />
+              )}
+
+              {/* Category or split lines (not shown for transfer) */}
               {type !== 'transfer' && (
                 <>
-                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Category</Text>
-                  <Pressable
-                    style={[styles.pickerRow, { backgroundColor: colors.surface, borderColor: errors.category ? colors.expense : colors.border }]}
-                    onPress={() => setShowCategoryPicker(true)}
-                  >
-                    <Text style={styles.pickerEmoji}>{selectedCategory?.icon || '🏷️'}</Text>
-                    <Text style={[styles.pickerText, { color: selectedCategory ? colors.foreground : colors.muted }]}>
-                      {selectedCategory?.name || 'Select Category'}
+                  <View style={styles.fieldLabelRow}>
+                    <Text style={[styles.fieldLabel, { color: colors.muted }]}>
+                      {isSplitting ? 'Split' : 'Category'}
                     </Text>
-                    <IconSymbol name="chevron.right" size={16} color={colors.muted} />
-                  </Pressable>
+                    <Pressable onPress={toggleSplit} hitSlop={8} style={({ pressed }) => pressed && { opacity: 0.5 }}>
+                      <Text style={[styles.fieldLabelAction, { color: colors.primary }]}>
+                        {isSplitting ? 'Single category' : 'Split'}
+                      </Text>
+                    </Pressable>
+                  </View>
+                  {isSplitting ? (
+                    <SplitSection
+                      lines={splits}
+                      total={parseFloat(amount) || 0}
+                      symbol={currencySymbol(fromCurrency)}
+                      categories={filteredCategories}
+                      onChange={setSplits}
+                      onPickCategory={setSplitPickerIndex}
+                      error={errors.splits}
+                      colors={colors}
+                    />
+                  ) : (
+                    <Pressable
+                      style={[styles.pickerRow, { backgroundColor: colors.surface, borderColor: errors.category ? colors.expense : colors.border }]}
+                      onPress={() => setShowCategoryPicker(true)}
+                    >
+                      <Text style={styles.pickerEmoji}>{selectedCategory?.icon || '🏷️'}</Text>
+                      <Text style={[styles.pickerText, { color: selectedCategory ? colors.foreground : colors.muted }]}>
+                        {selectedCategory?.name || 'Select Category'}
+                      </Text>
+                      <IconSymbol name="chevron.right" size={16} color={colors.muted} />
+                    </Pressable>
+                  )}
                   {errors.category && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.category}</Text>}
+                  {ruleSetsCategory && (
+                    <Text style={[styles.ruleHint, { color: colors.muted }]}>Set by rule “{matchedRule!.name}”</Text>
+                  )}
                 </>
               )}
 
@@ -556,6 +1220,25 @@ export default function AddTransactionModal({
                 </>
               )}
 
+              {/* Received amount (transfers between currencies) */}
+              {isCrossCurrency && (
+                <>
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Amount Received ({toCurrency})</Text>
+                  <View style={[styles.toAmountRow, { backgroundColor: colors.surface, borderColor: errors.toAmount ? colors.expense : colors.border }]}>
+                    <Text style={[styles.toAmountSymbol, { color: colors.transfer }]}>{currencySymbol(toCurrency)}</Text>
+                    <TextInput
+                      style={[styles.toAmountInput, { color: colors.foreground }]}
+                      value={toAmount}
+                      onChangeText={handleToAmountInput}
+                      placeholder="0.00"
+                      placeholderTextColor={colors.muted}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  {errors.toAmount && <Text style={[styles.errorText, { color: colors.expense }]}>{errors.toAmount}</Text>}
+                </>
+              )}
+
               {/* Date */}
               <Text style={[styles.fieldLabel, { color: colors.muted }]}>Date</Text>
               <Pressable
@@ -578,6 +1261,39 @@ export default function AddTransactionModal({
                 multiline
                 returnKeyType="done"
               />
+
+              {/* Tags */}
+              <TagsSection tags={tags} onChange={setTags} known={tagOptions} colors={colors} />
+
+              {/* Attachments (receipts belong to one transaction, not a rule) */}
+              {repeat.frequency === 'never' && (
+                <>
+                  <Text style={[styles.fieldLabel, { color: colors.muted }]}>Attachments</Text>
+                  <AttachmentPicker attachments={attachments} onChange={setAttachments} />
+                </>
+              )}
+
+              {/* Repeat (new transactions only; edits change a single occurrence). A rule
+                  cannot carry attachments, so attaching and repeating exclude each other */}
+              {isEdit ? (
+                sourceRule && (
+                  <View style={[styles.repeatInfo, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                    <IconSymbol name="arrow.clockwise" size={16} color={colors.muted} />
+                    <Text style={[styles.repeatInfoText, { color: colors.muted }]}>
+                      Repeating · {describeRecurrence(sourceRule)}
+                    </Text>
+                  </View>
+                )
+              ) : attachments.length > 0 ? (
+                <View style={[styles.repeatInfo, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                  <IconSymbol name="arrow.clockwise" size={16} color={colors.muted} />
+                  <Text style={[styles.repeatInfoText, { color: colors.muted }]}>
+                    Remove the attachments to repeat this transaction
+                  </Text>
+                </View>
+              ) : (
+                <RepeatSection value={repeat} onChange={setRepeat} error={errors.repeat} colors={colors} />
+              )}
             </View>
           </ScrollView>
 
@@ -615,10 +1331,21 @@ export default function AddTransactionModal({
         visible={showCategoryPicker}
         categories={filteredCategories}
         selectedId={categoryId}
-        onSelect={setCategoryId}
+        onSelect={id => {
+          setCategoryId(id);
+          setCategoryTouched(true);
+        }}
         onClose={() => setShowCategoryPicker(false)}
         colors={colors}
       />
+      <CategoryPicker
+        visible={splitPickerIndex !== null}
+        categories={filteredCategories}
+        selectedId={splitPickerIndex !== null ? splits[splitPickerIndex]?.categoryId ?? '' : ''}
+        onSelect={id => setSplits(lines => lines.map((l, i) => (i === splitPickerIndex ? { ...l, categoryId: id } : l)))}
+        onClose={() => setSplitPickerIndex(null)}
+        colors={colors}
+      />
       <AccountPicker
         visible={showAccountPicker}
         accounts={state.accounts}
@@ -742,6 +1469,77 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 6,
   },
+  fieldLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  fieldLabelAction: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  splitLine: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  splitCategory: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  splitEmoji: {
+    fontSize: 18,
+    marginRight: 8,
+  },
+  splitCategoryText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  splitSymbol: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  splitAmount: {
+    width: 90,
+    borderBottomWidth: 1,
+    paddingVertical: 4,
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  splitNote: {
+    fontSize: 13,
+    paddingVertical: 4,
+    marginTop: 4,
+  },
+  splitFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  splitAddBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  splitAddText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  splitRemainder: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   pickerRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -759,6 +1557,24 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '500',
   },
+  toAmountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+  },
+  toAmountSymbol: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  toAmountInput: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    paddingVertical: 12,
+  },
   noteInput: {
     borderWidth: 1,
     borderRadius: 10,
@@ -768,11 +1584,85 @@ const styles = StyleSheet.create({
     minHeight: 60,
     textAlignVertical: 'top',
   },
+  tagChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tagInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    marginBottom: 8,
+  },
   errorText: {
     fontSize: 12,
     marginTop: 4,
     marginLeft: 4,
   },
+  ruleHint: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  repeatChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 10,
+  },
+  repeatLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  repeatInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  repeatEndInput: {
+    marginTop: 10,
+    textAlign: 'left',
+  },
+  repeatInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  repeatInfoText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   saveContainer: {
     paddingHorizontal: 16,
     paddingTop: 12,
@@ -853,6 +1743,10 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
   },
+  categoryGridParent: {
+    fontSize: 9,
+    textAlign: 'center',
+  },
   categorySelectedDot: {
     position: 'absolute',
     top: 8,
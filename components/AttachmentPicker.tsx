@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import {
+  View, Text, Pressable, StyleSheet, Modal, ScrollView, Alert, Linking, Platform,
+} from 'react-native';
+import { Image } from 'expo-image';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import UUID from 'react-native-uuid';
+import { useColors } from '@/hooks/use-colors';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Attachment } from '@/lib/types';
+import {
+  ATTACHMENT_MIME_TYPES, MAX_ATTACHMENT_BYTES, attachmentUri, formatFileSize, isImageAttachment,
+} from '@/lib/attachments';
+
+// ─── Thumbnail ───────────────────────────────────────────────────────────────
+
+/** Square preview: the image itself, or a document badge for PDFs. */
+export function AttachmentThumbnail({ attachment, size }: { attachment: Attachment; size: number }) {
+  const colors = useColors();
+  const uri = attachmentUri(attachment);
+  const box = { width: size, height: size, borderRadius: size / 6, borderColor: colors.border };
+
+  if (uri && isImageAttachment(attachment)) {
+    return <Image source={{ uri }} style={[styles.thumb, box]} contentFit="cover" />;
+  }
+  return (
+    <View style={[styles.thumb, styles.docThumb, box, { backgroundColor: colors.surface }]}>
+      <IconSymbol name="doc.text.fill" size={size * 0.5} color={colors.muted} />
+    </View>
+  );
+}
+
+// ─── Picker ──────────────────────────────────────────────────────────────────
+
+/**
+ * Attachment strip for the transaction form. New picks point at the picker's
+ * cache; the caller copies them into app storage when the form is saved.
+ */
+export function AttachmentPicker({
+  attachments,
+  onChange,
+}: {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+}) {
+  const colors = useColors();
+  const [previewing, setPreviewing] = useState<Attachment | null>(null);
+
+  const handleAdd = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ATTACHMENT_MIME_TYPES,
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const now = new Date().toISOString();
+      const tooLarge = result.assets.filter(a => (a.size ?? 0) > MAX_ATTACHMENT_BYTES);
+      const added: Attachment[] = result.assets
+        .filter(a => (a.size ?? 0) <= MAX_ATTACHMENT_BYTES)
+        .map(a => ({
+          id: String(UUID.v4()),
+          name: a.name,
+          mimeType: a.mimeType ?? 'application/octet-stream',
+          size: a.size ?? 0,
+          localUri: a.uri,
+          createdAt: now,
+        }));
+      if (added.length > 0) onChange([...attachments, ...added]);
+      if (tooLarge.length > 0) {
+        Alert.alert(
+          'File too large',
+          `${tooLarge.map(a => a.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_BYTES)} limit.`,
+        );
+      }
+    } catch (e) {
+      Alert.alert('Could not attach file', e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    if (isImageAttachment(attachment)) {
+      setPreviewing(attachment);
+      return;
+    }
+    try {
+      if (attachment.localUri && Platform.OS !== 'web' && await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(attachment.localUri, { mimeType: attachment.mimeType, dialogTitle: attachment.name });
+      } else if (attachment.remoteUrl) {
+        await Linking.openURL(attachment.remoteUrl);
+      } else {
+        Alert.alert('File unavailable', 'This file is not on this device and has not been uploaded yet.');
+      }
+    } catch {
+      Alert.alert('Could not open file', attachment.name);
+    }
+  };
+
+  const handleRemove = (attachment: Attachment) => {
+    Alert.alert('Remove Attachment', `Remove "${attachment.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => onChange(attachments.filter(a => a.id !== attachment.id)),
+      },
+    ]);
+  };
+
+  return (
+    <>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {attachments.map(a => (
+          <Pressable
+            key={a.id}
+            style={({ pressed }) => [styles.item, pressed && { opacity: 0.7 }]}
+            onPress={() => handleOpen(a)}
+            onLongPress={() => handleRemove(a)}
+          >
+            <AttachmentThumbnail attachment={a} size={64} />
+            <Pressable style={[styles.removeBtn, { backgroundColor: colors.background }]} onPress={() => handleRemove(a)} hitSlop={6}>
+              <IconSymbol name="xmark.circle.fill" size={18} color={colors.muted} />
+            </Pressable>
+            <Text style={[styles.itemName, { color: colors.muted }]} numberOfLines={1}>{a.name}</Text>
+          </Pressable>
+        ))}
+        <Pressable
+          style={({ pressed }) => [styles.addBtn, { borderColor: colors.border, backgroundColor: colors.surface }, pressed && { opacity: 0.7 }]}
+          onPress={handleAdd}
+        >
+          <IconSymbol name="paperclip" size={22} color={colors.primary} />
+          <Text style={[styles.addText, { color: colors.primary }]}>Attach</Text>
+        </Pressable>
+      </ScrollView>
+
+      {/* Full-screen image preview */}
+      <Modal visible={!!previewing} transparent animationType="fade" onRequestClose={() => setPreviewing(null)}>
+        <Pressable style={styles.previewOverlay} onPress={() => setPreviewing(null)}>
+          {previewing && (
+            <Image source={{ uri: attachmentUri(previewing) }} style={styles.previewImage} contentFit="contain" />
+          )}
+          <Text style={styles.previewName} numberOfLines={1}>
+            {previewing?.name} · {previewing ? formatFileSize(previewing.size) : ''}
+          </Text>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    gap: 10,
+    paddingVertical: 2,
+  },
+  thumb: {
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  docThumb: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  item: {
+    width: 64,
+  },
+  itemName: {
+    fontSize: 10,
+    marginTop: 4,
+  },
+  removeBtn: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    borderRadius: 9,
+  },
+  addBtn: {
+    width: 64,
+    height: 64,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  previewOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.92)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
+  previewName: {
+    color: '#fff',
+    fontSize: 13,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+import { formatCurrency } from '@/lib/format';
+import { BudgetStatus } from '@/lib/budgets';
+
+// Bar turns amber from this share of the budget, red once it is exceeded
+const WARNING_THRESHOLD = 0.8;
+
+interface BudgetProgressProps {
+  status: BudgetStatus;
+  currency: string;
+  compact?: boolean; // single line, used inside the Analyse breakdown rows
+}
+
+export function BudgetProgress({ status, currency, compact }: BudgetProgressProps) {
+  const colors = useColors();
+  const barColor = status.progress > 1 ? colors.expense
+    : status.progress >= WARNING_THRESHOLD ? colors.warning
+    : colors.income;
+  const width = `${Math.min(status.progress, 1) * 100}%` as const;
+
+  const label = status.remaining >= 0
+    ? `${formatCurrency(status.remaining, currency)} left`
+    : `${formatCurrency(-status.remaining, currency)} over`;
+
+  return (
+    <View style={compact ? styles.compactRow : styles.container}>
+      <View style={[styles.barBg, { backgroundColor: colors.border }]}>
+        <View style={[styles.bar, { width, backgroundColor: barColor }]} />
+      </View>
+      {compact ? (
+        <Text style={[styles.compactText, { color: status.progress > 1 ? colors.expense : colors.muted }]}>
+          {`of ${formatCurrency(status.available, currency)}`}
+        </Text>
+      ) : (
+        <View style={styles.textRow}>
+          <Text style={[styles.text, { color: colors.muted }]}>
+            {formatCurrency(status.spent, currency)} of {formatCurrency(status.available, currency)}
+            {status.carriedOver > 0 ? ` (+${formatCurrency(status.carriedOver, currency)} rolled over)` : ''}
+          </Text>
+          <Text style={[styles.text, styles.textStrong, { color: status.progress > 1 ? colors.expense : colors.foreground }]}>
+            {label}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  compactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  barBg: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  textRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  text: {
+    fontSize: 12,
+  },
+  textStrong: {
+    fontWeight: '700',
+  },
+  compactText: {
+    fontSize: 11,
+    fontWeight: '600',
+    minWidth: 32,
+    textAlign: 'right',
+  },
+});
@@ -7,6 +7,8 @@ import { useColors } from '@/hooks/use-colors';
 import { useApp } from '@/lib/AppContext';
 import { formatMonthYear, navigateMonth } from '@/lib/format';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Transaction } from '@/lib/types';
+import { transactionsToCsv } from '@/lib/csv-export';
 import * as Sharing from 'expo-sharing';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -14,6 +16,8 @@ import * as Sharing from 'expo-sharing';
 interface ExportModalProps {
   visible: boolean;
   onClose: () => void;
+  /** Exports exactly these (e.g. search results) instead of a month range. */
+  transactions?: Transaction[];
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -23,18 +27,6 @@ const SHORT_MONTHS_ABBR = [
   'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
 ];
 
-function formatExportTime(isoString: string): string {
-  const date = new Date(isoString);
-  const month = SHORT_MONTHS_ABBR[date.getMonth()];
-  const day = String(date.getDate()).padStart(2, '0');
-  const year = date.getFullYear();
-  let hours = date.getHours();
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12 || 12;
-  return `${month} ${day}, ${year} ${hours}:${minutes} ${ampm}`;
-}
-
 function isInRange(
   dateStr: string,
   fromYear: number, fromMonth: number,
@@ -88,7 +80,7 @@ function MonthYearNavigator({
 
 // ─── ExportModal ──────────────────────────────────────────────────────────────
 
-export default function ExportModal({ visible, onClose }: ExportModalProps) {
+export default function ExportModal({ visible, onClose, transactions }: ExportModalProps) {
   const colors = useColors();
   const { state } = useApp();
 
@@ -101,49 +93,21 @@ export default function ExportModal({ visible, onClose }: ExportModalProps) {
   const [toMonth, setToMonth] = useState(now.getMonth() + 1);
   const [isExporting, setIsExporting] = useState(false);
 
-  const isInvalidRange = (fromYear * 12 + fromMonth) > (toYear * 12 + toMonth);
+  const isInvalidRange = !transactions && (fromYear * 12 + fromMonth) > (toYear * 12 + toMonth);
 
   const generateCSV = useCallback(() => {
-    const filtered = state.transactions.filter(t =>
+    const filtered = transactions ?? state.transactions.filter(t =>
       isInRange(t.date, fromYear, fromMonth, toYear, toMonth)
     );
-    const sorted = [...filtered].sort(
-      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-    );
-
-    // Always quote every field — guarantees commas inside values never break columns
-    const q = (val: string | number): string =>
-      `"${String(val).replace(/"/g, '""')}"`;
-
-    const header = [q('index'), q('TIME'), q('TYPE'), q('AMOUNT'), q('CATEGORY'), q('ACCOUNT'), q('NOTES')].join(',');
-    const rows = sorted.map((t, i) => {
-      const category = state.categories.find(c => c.id === t.categoryId);
-      const account = state.accounts.find(a => a.id === t.accountId);
-      const time = formatExportTime(t.createdAt);
-      const type =
-        t.type === 'expense' ? '(-) Expense' :
-        t.type === 'income' ? '(+) Income' :
-        '(=) Transfer';
-      return [
-        q(i + 1),
-        q(time),
-        q(type),
-        q(t.amount),
-        q(category?.name ?? ''),
-        q(account?.name ?? ''),
-        q(t.note ?? ''),
-      ].join(',');
-    });
-
-    // UTF-8 BOM (\ufeff) + CRLF line endings for proper Excel/Sheets recognition
-    return '\ufeff' + [header, ...rows].join('\r\n');
-  }, [state, fromYear, fromMonth, toYear, toMonth]);
+    return transactionsToCsv(filtered, state.accounts, state.categories);
+  }, [state, transactions, fromYear, fromMonth, toYear, toMonth]);
 
   const getFileName = useCallback(() => {
+    if (transactions) return `transactions_search_${new Date().toISOString().slice(0, 10)}.csv`;
     const from = `${SHORT_MONTHS_ABBR[fromMonth - 1]}${fromYear}`;
     const to = `${SHORT_MONTHS_ABBR[toMonth - 1]}${toYear}`;
     return `transactions_${from}_${to}.csv`;
-  }, [fromMonth, fromYear, toMonth, toYear]);
+  }, [transactions, fromMonth, fromYear, toMonth, toYear]);
 
   const handleExport = useCallback(async () => {
     setIsExporting(true);
@@ -186,7 +150,7 @@ export default function ExportModal({ visible, onClose }: ExportModalProps) {
     }
   }, [generateCSV, getFileName, onClose]);
 
-  const btnDisabled = isInvalidRange || isExporting;
+  const btnDisabled = isInvalidRange || isExporting || transactions?.length === 0;
 
   return (
     <Modal
@@ -209,26 +173,36 @@ export default function ExportModal({ visible, onClose }: ExportModalProps) {
             </Pressable>
           </View>
 
-          {/* Date range pickers */}
+          {/* Date range pickers (or a summary of the given transactions) */}
           <View style={styles.body}>
-            <MonthYearNavigator
-              label="From"
-              year={fromYear}
-              month={fromMonth}
-              colors={colors}
-              onChange={(y, m) => { setFromYear(y); setFromMonth(m); }}
-            />
-            <MonthYearNavigator
-              label="To"
-              year={toYear}
-              month={toMonth}
-              colors={colors}
-              onChange={(y, m) => { setToYear(y); setToMonth(m); }}
-            />
-            {isInvalidRange && (
-              <Text style={[styles.warning, { color: colors.expense }]}>
-                {'"From" must be before or equal to "To".'}
+            {transactions ? (
+              <Text style={[styles.summary, { color: colors.foreground }]}>
+                {transactions.length === 0
+                  ? 'No matching transactions to export.'
+                  : `${transactions.length} matching transaction${transactions.length === 1 ? '' : 's'} will be exported.`}
               </Text>
+            ) : (
+              <>
+                <MonthYearNavigator
+                  label="From"
+                  year={fromYear}
+                  month={fromMonth}
+                  colors={colors}
+                  onChange={(y, m) => { setFromYear(y); setFromMonth(m); }}
+                />
+                <MonthYearNavigator
+                  label="To"
+                  year={toYear}
+                  month={toMonth}
+                  colors={colors}
+                  onChange={(y, m) => { setToYear(y); setToMonth(m); }}
+                />
+                {isInvalidRange && (
+                  <Text style={[styles.warning, { color: colors.expense }]}>
+                    {'"From" must be before or equal to "To".'}
+                  </Text>
+                )}
+              </>
             )}
           </View>
 
@@ -331,6 +305,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     textAlign: 'center',
   },
+  summary: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
   footer: {
     borderTopWidth: 0.5,
     padding: 20,
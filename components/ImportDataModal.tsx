@@ -1,6 +1,6 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
-  View, Text, Pressable, StyleSheet, Modal, ScrollView,
+  View, Text, Pressable, StyleSheet, Modal, ScrollView, TextInput, Switch, Alert,
   ActivityIndicator, Platform,
 } from 'react-native';
 import * as DocumentPicker from 'expo-document-picker';
@@ -13,87 +13,121 @@ import * as Haptics from 'expo-haptics';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { LinearGradient } from 'expo-linear-gradient';
 import { CategoryIcon } from '@/components/CategoryIcon';
+import { findByPath } from '@/lib/category-tree';
+import { primaryCategory } from '@/lib/splits';
+import { addTag, parseTags } from '@/lib/tags';
+import { findMatchingRule, ruleCategory } from '@/lib/rules';
+import { findPayeeByName, normalizePayeeName } from '@/lib/payees';
+import { BankStatement, guessStatementAccount, parseStatement, splitNewLines } from '@/lib/bank-statements';
+import { findImportDuplicates } from '@/lib/duplicates';
+import {
+  CSV_DELIMITERS, CSV_FIELDS, DATE_FORMATS, MappedRow, assignColumn, columnNames, columnSamples,
+  detectDateFormat, detectDelimiter, detectHeaderRow, findProfileForHeaders, groupSplitRows, guessMapping, mapRows,
+  mappingProblem, parseDateWithFormat, parseDelimited,
+} from '@/lib/csv-mapping';
+import { formatDateFull } from '@/lib/format';
+import { Account, CsvField, CsvMapping, CsvProfile, Payee, Transaction } from '@/lib/types';
 
 // ─── Column config ────────────────────────────────────────────────────────────
 
-const COLUMNS = [
-  { key: 'time',     label: 'TIME',     width: 155 },
-  { key: 'type',     label: 'TYPE',     width: 110 },
+type PreviewKey = 'date' | 'type' | 'amount' | 'category' | 'account' | 'payee' | 'note' | 'tags';
+
+const COLUMNS: { key: PreviewKey; label: string; width: number }[] = [
+  { key: 'date',     label: 'DATE',     width: 95  },
+  { key: 'type',     label: 'TYPE',     width: 80  },
   { key: 'amount',   label: 'AMOUNT',   width: 80  },
   { key: 'category', label: 'CATEGORY', width: 100 },
   { key: 'account',  label: 'ACCOUNT',  width: 100 },
-  { key: 'notes',    label: 'NOTES',    width: 110 },
-] as const;
-
-type ColKey = typeof COLUMNS[number]['key'];
-
-interface RawRow {
-  time: string;
-  type: string;
-  amount: string;
-  category: string;
-  account: string;
-  notes: string;
-}
+  { key: 'payee',    label: 'PAYEE',    width: 110 },
+  { key: 'note',     label: 'NOTES',    width: 110 },
+  { key: 'tags',     label: 'TAGS',     width: 110 },
+];
 
-// ─── Parsing helpers ──────────────────────────────────────────────────────────
-
-/** Proper quoted-CSV parser — handles commas inside "..." fields */
-function splitCSVLine(line: string): string[] {
-  if (line.includes('\t')) return line.split('\t').map(s => s.trim());
-  const result: string[] = [];
-  let cur = '';
-  let inQ = false;
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-    if (ch === '"') {
-      if (inQ && line[i + 1] === '"') { cur += '"'; i++; } // escaped ""
-      else inQ = !inQ;
-    } else if (ch === ',' && !inQ) {
-      result.push(cur.trim());
-      cur = '';
-    } else {
-      cur += ch;
-    }
-  }
-  result.push(cur.trim());
-  return result;
-}
+/** Preview columns for bank statements; the account is picked above the table. */
+const STATEMENT_COLUMNS: { key: PreviewKey; label: string; width: number }[] = [
+  { key: 'date',   label: 'DATE',   width: 95  },
+  { key: 'type',   label: 'TYPE',   width: 80  },
+  { key: 'amount', label: 'AMOUNT', width: 80  },
+  { key: 'payee',  label: 'PAYEE',  width: 140 },
+  { key: 'note',   label: 'MEMO',   width: 160 },
+];
 
-function parseCSV(text: string): RawRow[] {
-  const lines = text.split(/\r?\n/).filter(l => l.trim());
-  const rows: RawRow[] = [];
-  for (const line of lines) {
-    const cells = splitCSVLine(line);
-    const [time = '', type = '', amount = '', category = '', account = '', notes = ''] = cells;
-    if (time.toUpperCase() === 'TIME') continue;
-    if (!time && !amount) continue;
-    rows.push({ time, type, amount, category, account, notes });
-  }
-  return rows;
-}
+const TYPE_LABELS: Record<Transaction['type'], string> = { expense: 'Expense', income: 'Income', transfer: 'Transfer' };
+
+const DECIMAL_OPTIONS: { value: CsvMapping['decimalSeparator']; label: string }[] = [
+  { value: '.', label: '1,234.56' },
+  { value: ',', label: '1.234,56' },
+];
 
-function parseDate(s: string): string {
-  try {
-    const d = new Date(s);
-    if (!isNaN(d.getTime())) return d.toISOString().split('T')[0];
-  } catch {}
-  return new Date().toISOString().split('T')[0];
+const SIGN_OPTIONS: { value: CsvMapping['amountSign']; label: string }[] = [
+  { value: 'expense-negative', label: 'Money out is negative' },
+  { value: 'expense-positive', label: 'Money out is positive' },
+];
+
+/** A row ready to import: a mapped CSV row or a bank statement line. */
+type ImportRow = MappedRow & {
+  // Bank statement lines only
+  accountId?: string;
+  fitId?: string;
+};
+
+function cellText(row: ImportRow, key: PreviewKey): string {
+  if (key === 'amount') return row.amount.toFixed(2);
+  if (key === 'type') return TYPE_LABELS[row.type];
+  if (key === 'category' && row.lines) return `Split · ${row.lines.length} lines`;
+  return row[key];
 }
 
-function parseType(s: string): 'expense' | 'income' | 'transfer' {
-  const l = s.toLowerCase();
-  if (l.includes('income') || l.includes('(+)')) return 'income';
-  if (l.includes('transfer') || l.includes('(*)') || l.includes('→')) return 'transfer';
-  return 'expense';
+/** Accounts a row books into: its own for statement lines, else matched by name ("From->To" for transfers). */
+function rowAccounts(row: ImportRow, accounts: Account[]): { acc?: Account; toAcc?: Account } {
+  if (row.accountId) return { acc: accounts.find(a => a.id === row.accountId) };
+  const [fromAccName, toAccName] = row.account.includes('->')
+    ? row.account.split('->').map(s => s.trim())
+    : [row.account, ''];
+
+  const findAcc = (name: string) =>
+    accounts.find(
+      a => a.name.toLowerCase().includes(name.toLowerCase()) ||
+           name.toLowerCase().includes(a.name.toLowerCase())
+    ) ?? accounts[0];
+
+  return { acc: findAcc(fromAccName), toAcc: toAccName ? findAcc(toAccName) : undefined };
 }
 
-// ─── Sample rows shown in idle step ───────────────────────────────────────────
+// ─── Option chips ─────────────────────────────────────────────────────────────
 
-const SAMPLE_ROWS: RawRow[] = [
-  { time: 'Feb 01, 2026 9:18 PM', type: '(-) Expense', amount: '6.50',   category: 'Food',   account: 'Card',   notes: '' },
-  { time: 'Feb 27, 2026 11:36 PM', type: '(+) Income',  amount: '332.65', category: 'Salary', account: 'Card', notes: '' },
-];
+function OptionChips<T extends string | null>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  const colors = useColors();
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={iStyles.accountChips}>
+      {options.map(option => {
+        const active = option.value === value;
+        return (
+          <Pressable
+            key={option.value ?? ''}
+            style={[
+              iStyles.accountChip,
+              { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+            ]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text style={[iStyles.accountChipText, { color: active ? colors.primary : colors.foreground }]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
@@ -106,18 +140,182 @@ export default function ImportDataModal({
 }) {
   const colors = useColors();
   const insets = useSafeAreaInsets();
-  const { state, addTransaction } = useApp();
-
-  const [step, setStep] = useState<'idle' | 'preview' | 'importing' | 'done'>('idle');
-  const [rows, setRows] = useState<RawRow[]>([]);
+  const { state, addTransaction, addPayee, addCsvProfile, updateCsvProfile, removeCsvProfile } = useApp();
+
+  const [step, setStep] = useState<'idle' | 'mapping' | 'preview' | 'importing' | 'done'>('idle');
+  const [csvText, setCsvText] = useState('');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [targetAccountId, setTargetAccountId] = useState('');
   const [importCount, setImportCount] = useState(0);
   const [pickError, setPickError] = useState('');
+  // Likely duplicates are skipped unless picked here (indexes into previewRows)
+  const [keptDuplicates, setKeptDuplicates] = useState<Set<number>>(new Set());
 
   const reset = () => {
     setStep('idle');
-    setRows([]);
+    setCsvText('');
+    setMapping(null);
+    setProfileId(null);
+    setProfileName('');
+    setStatement(null);
+    setTargetAccountId('');
     setPickError('');
     setImportCount(0);
+    setKeptDuplicates(new Set());
+  };
+
+  // ── CSV column mapping
+
+  const delimiter = mapping?.delimiter;
+  const csvRows = useMemo(
+    () => (delimiter !== undefined ? parseDelimited(csvText, delimiter) : []),
+    [csvText, delimiter],
+  );
+  const headers = useMemo(() => (mapping ? columnNames(csvRows, mapping) : []), [csvRows, mapping]);
+  const problem = mapping ? mappingProblem(mapping) : null;
+  const mapped = useMemo(
+    () => (mapping && !mappingProblem(mapping) ? mapRows(csvRows, mapping) : []),
+    [csvRows, mapping],
+  );
+  const invalidRows = mapped.filter(r => r.errors.length > 0);
+  // CSV rows or statement entries that can't be read, and why
+  const unreadable = statement
+    ? statement.unreadable.map(u => ({ key: u.entry, text: `Entry ${u.entry}: ${u.problem}` }))
+    : invalidRows.map(r => ({ key: r.line, text: `Row ${r.line}: ${r.errors.join('; ')}` }));
+  const csvImportRows = useMemo(() => groupSplitRows(mapped.flatMap(r => (r.row ? [r.row] : []))), [mapped]);
+
+  const dateSample = mapping?.columns.date !== undefined
+    ? columnSamples(csvRows, mapping.headerRow, mapping.columns.date, 1)[0]
+    : undefined;
+  const parsedSample = dateSample && mapping ? parseDateWithFormat(dateSample, mapping.dateFormat) : null;
+
+  const handleDelimiter = (value: string) => {
+    setMapping(guessMapping(parseDelimited(csvText, value), value));
+  };
+
+  const handleHeader = (on: boolean) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, headerRow: on ? Math.max(detectHeaderRow(csvRows), 0) : -1 });
+  };
+
+  const handleAssign = (index: number, field: CsvField | null) => {
+    if (!mapping) return;
+    const next = { ...mapping, columns: assignColumn(mapping.columns, index, field) };
+    if (field === 'date') {
+      next.dateFormat = detectDateFormat(columnSamples(csvRows, mapping.headerRow, index)) ?? mapping.dateFormat;
+    }
+    setMapping(next);
+  };
+
+  const handleApplyProfile = (profile: CsvProfile) => {
+    setMapping({ ...profile.mapping });
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+  };
+
+  const handleDeleteProfile = (profile: CsvProfile) => {
+    Alert.alert('Delete Profile', `Delete the "${profile.name}" column mapping?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await removeCsvProfile(profile.id);
+          if (profileId === profile.id) setProfileId(null);
+        },
+      },
+    ]);
+  };
+
+  const handleSaveProfile = useCallback(async () => {
+    const name = profileName.trim();
+    if (!name || !mapping) return;
+    const now = new Date().toISOString();
+    const fileHeaders = mapping.headerRow >= 0 ? csvRows[mapping.headerRow] : undefined;
+    const existing = state.csvProfiles.find(p => p.id === profileId)
+      ?? state.csvProfiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      await updateCsvProfile({ ...existing, name, mapping, headers: fileHeaders, updatedAt: now });
+      setProfileId(existing.id);
+    } else {
+      const profile: CsvProfile = {
+        id: String(UUID.v4()), name, mapping, headers: fileHeaders, createdAt: now, updatedAt: now,
+      };
+      await addCsvProfile(profile);
+      setProfileId(profile.id);
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [profileName, mapping, csvRows, profileId, state.csvProfiles, addCsvProfile, updateCsvProfile]);
+
+  // Statement lines not yet imported into the chosen account, as preview rows
+  const statementPreview = useMemo(() => {
+    if (!statement) return null;
+    const account = state.accounts.find(a => a.id === targetAccountId);
+    const { fresh, duplicates } = splitNewLines(
+      statement.lines,
+      [...state.transactions, ...state.trash.transactions],
+      targetAccountId,
+    );
+    const lines = fresh.filter(line => line.amount !== 0);
+    return {
+      duplicates,
+      rows: lines.map((line): ImportRow => ({
+        date: line.date,
+        type: line.amount < 0 ? 'expense' : 'income',
+        amount: Math.abs(line.amount),
+        category: '',
+        account: account?.name ?? '',
+        payee: line.payee ?? '',
+        note: line.memo ?? '',
+        tags: '',
+        accountId: targetAccountId,
+        fitId: line.fitId,
+      })),
+    };
+  }, [statement, targetAccountId, state.accounts, state.transactions, state.trash.transactions]);
+
+  const previewRows: ImportRow[] = statementPreview ? statementPreview.rows : csvImportRows;
+  const previewColumns = statement ? STATEMENT_COLUMNS : COLUMNS;
+
+  // Rows that look like transactions already in the ledger, with the one each matches
+  const duplicateOf = useMemo(() => {
+    const candidates = previewRows.map(row => {
+      const { acc, toAcc } = rowAccounts(row, state.accounts);
+      return {
+        type: row.type,
+        amount: row.amount,
+        accountId: acc?.id ?? '',
+        toAccountId: toAcc?.id,
+        date: row.date,
+        note: row.note,
+        fitId: row.fitId,
+      };
+    });
+    return findImportDuplicates(candidates, state.transactions);
+  }, [previewRows, state.accounts, state.transactions]);
+
+  const skippedCount = duplicateOf.size - [...keptDuplicates].filter(i => duplicateOf.has(i)).length;
+  const importableCount = previewRows.length - skippedCount;
+
+  const toggleDuplicate = (index: number) => {
+    setKeptDuplicates(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const toggleAllDuplicates = () => {
+    setKeptDuplicates(skippedCount > 0 ? new Set(duplicateOf.keys()) : new Set());
+  };
+
+  const describeMatch = (tx: Transaction) => {
+    const payee = tx.payeeId ? state.payees.find(p => p.id === tx.payeeId)?.name : undefined;
+    return [tx.date, payee ?? tx.note].filter(Boolean).join(' · ');
   };
 
   const handleClose = () => { reset(); onClose(); };
@@ -143,62 +341,109 @@ export default function ImportDataModal({
         content = await resp.text();
       }
 
-      const parsed = parseCSV(content);
-      if (parsed.length === 0) {
-        setPickError('No data rows found. Make sure the file matches the expected format.');
+      // Bank statements go through the same preview, into an account picked there
+      const parsedStatement = parseStatement(content);
+      if (parsedStatement) {
+        if (parsedStatement.lines.length === 0) {
+          const { unreadable } = parsedStatement;
+          setPickError(unreadable.length > 0
+            ? `None of the statement's transactions could be read (${unreadable[0].problem}).`
+            : 'The statement has no booked transactions.');
+          return;
+        }
+        const guess = guessStatementAccount(parsedStatement, state.accounts, state.baseCurrency);
+        setStatement(parsedStatement);
+        setTargetAccountId(guess?.id ?? state.accounts[0]?.id ?? '');
+        setStep('preview');
+        return;
+      }
+
+      // Anything else is read as CSV: guess its layout, or reuse the profile saved for these columns
+      const detected = detectDelimiter(content);
+      const table = parseDelimited(content, detected);
+      if (table.length === 0) {
+        setPickError('No data rows found. Pick a CSV file or a bank statement.');
         return;
       }
-      setRows(parsed);
-      setStep('preview');
+      const guessed = guessMapping(table, detected);
+      const profile = guessed.headerRow >= 0
+        ? findProfileForHeaders(state.csvProfiles, table[guessed.headerRow])
+        : undefined;
+      setCsvText(content);
+      setMapping(profile ? { ...profile.mapping } : guessed);
+      setProfileId(profile?.id ?? null);
+      setProfileName(profile?.name ?? '');
+      setStep('mapping');
     } catch (e) {
       setPickError(`Could not read file: ${e instanceof Error ? e.message : 'unknown error'}`);
     }
-  }, []);
+  }, [state.accounts, state.baseCurrency, state.csvProfiles]);
+
+  /** The payee called `name`, created on first use; `payees` collects the new ones. */
+  const resolvePayee = useCallback(async (name: string | undefined, payees: Payee[]) => {
+    const clean = normalizePayeeName(name ?? '');
+    if (!clean) return undefined;
+    const existing = findPayeeByName(payees, clean);
+    if (existing) return existing;
+    const now = new Date().toISOString();
+    const payee: Payee = { id: String(UUID.v4()), name: clean, createdAt: now, updatedAt: now };
+    await addPayee(payee);
+    payees.push(payee);
+    return payee;
+  }, [addPayee]);
 
   const handleImport = useCallback(async () => {
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     setStep('importing');
     let count = 0;
-
-    for (const row of rows) {
-      const date   = parseDate(row.time);
-      const type   = parseType(row.type);
-      const amount = Math.abs(parseFloat(row.amount) || 0);
-      if (amount === 0) continue;
-
-      // For transfers the account field is "FromAccount->ToAccount"
-      const [fromAccName, toAccName] = row.account.includes('->')
-        ? row.account.split('->').map(s => s.trim())
-        : [row.account, ''];
-
-      const findAcc = (name: string) =>
-        state.accounts.find(
-          a => a.name.toLowerCase().includes(name.toLowerCase()) ||
-               name.toLowerCase().includes(a.name.toLowerCase())
-        ) ?? state.accounts[0];
-
-      const acc   = findAcc(fromAccName);
-      const toAcc = toAccName ? findAcc(toAccName) : undefined;
-
-      // Match category; transfers may have "  -  " so fall back gracefully
-      const catName = row.category.trim().replace(/-/g, '').trim();
-      const cat =
-        (catName ? state.categories.find(c => c.name.toLowerCase() === catName.toLowerCase()) : undefined) ??
-        state.categories.find(c => c.type === (type === 'transfer' ? 'expense' : type)) ??
-        state.categories[0];
+    const payees = [...state.payees];
+
+    for (const [index, row] of previewRows.entries()) {
+      if (duplicateOf.has(index) && !keptDuplicates.has(index)) continue;
+      const { type, amount } = row;
+      const { acc, toAcc } = rowAccounts(row, state.accounts);
+
+      // A categorization rule picks the category when the file names none we know,
+      // and always adds its tags
+      const rule = acc
+        ? findMatchingRule(state.categoryRules, { type, amount, accountId: acc.id, note: row.note, payeeName: row.payee })
+        : undefined;
+
+      // Match category, or a "Food > Coffee" path down to the deepest known level;
+      // transfers may have "  -  " so fall back gracefully
+      const matchCategory = (name: string) => {
+        const catName = name.trim().replace(/-/g, '').trim();
+        return (catName ? findByPath(state.categories, catName) : undefined) ??
+          (rule ? ruleCategory(rule, type, state.categories) : undefined) ??
+          state.categories.find(c => c.type === (type === 'transfer' ? 'expense' : type)) ??
+          state.categories[0];
+      };
+      const cat = matchCategory(row.category);
 
       if (!cat || !acc) continue;
 
+      const splits = row.lines?.map(line => ({
+        categoryId: matchCategory(line.category).id,
+        amount: line.amount,
+        note: line.note || undefined,
+      }));
+
       const now = new Date().toISOString();
+      const tags = (rule?.tags ?? []).reduce(addTag, parseTags(row.tags));
+      const payee = type === 'transfer' ? undefined : await resolvePayee(row.payee, payees);
       await addTransaction({
         id: String(UUID.v4()),
         type,
         amount,
-        categoryId:  cat.id,
+        categoryId:  splits ? primaryCategory(splits) : cat.id,
         accountId:   acc.id,
         toAccountId: toAcc?.id,
-        date,
-        note: row.notes || '',
+        date: row.date,
+        note: row.note,
+        splits,
+        tags: tags.length > 0 ? tags : undefined,
+        payeeId: payee?.id,
+        fitId: row.fitId,
         createdAt: now,
         updatedAt: now,
       });
@@ -207,7 +452,10 @@ export default function ImportDataModal({
 
     setImportCount(count);
     setStep('done');
-  }, [rows, state.categories, state.accounts, addTransaction]);
+  }, [
+    previewRows, duplicateOf, keptDuplicates, state.categories, state.accounts, state.categoryRules, state.payees,
+    resolvePayee, addTransaction,
+  ]);
 
   return (
     <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
@@ -234,37 +482,11 @@ export default function ImportDataModal({
           {step === 'idle' && (
             <ScrollView contentContainerStyle={iStyles.body} showsVerticalScrollIndicator={false}>
               <Text style={[iStyles.hint, { color: colors.muted }]}>
-                Select a CSV or tab-separated file. Example format:
+                Select a bank statement (OFX, QFX or CAMT.053 XML) or a CSV file. Files exported from
+                this app are recognized as they are; for others you match the columns to fields next,
+                and can save that as a profile for the next file laid out the same way.
               </Text>
 
-              {/* Sample table — 2 example rows */}
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                <View>
-                  <View style={[iStyles.row, iStyles.headRow, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-                    {COLUMNS.map(col => (
-                      <Text key={col.key} style={[iStyles.headCell, { width: col.width, color: colors.primary }]}>
-                        {col.label}
-                      </Text>
-                    ))}
-                  </View>
-                  {SAMPLE_ROWS.map((row, i) => (
-                    <View key={i} style={[iStyles.row, {
-                      borderBottomColor: colors.border + '50',
-                      backgroundColor: i % 2 === 0 ? 'transparent' : colors.surface + '60',
-                    }]}>
-                      {COLUMNS.map(col => (
-                        <Text key={col.key} style={[iStyles.dataCell, {
-                          width: col.width,
-                          color: col.key === 'amount' ? colors.expense : colors.muted,
-                        }]} numberOfLines={1}>
-                          {row[col.key as ColKey]}
-                        </Text>
-                      ))}
-                    </View>
-                  ))}
-                </View>
-              </ScrollView>
-
               {!!pickError && (
                 <View style={[iStyles.errorBox, { backgroundColor: colors.expense + '15', borderColor: colors.expense + '40' }]}>
                   <Text style={[iStyles.errorMsg, { color: colors.expense }]}>{pickError}</Text>
@@ -285,12 +507,231 @@ export default function ImportDataModal({
             </ScrollView>
           )}
 
+          {/* ── MAPPING ── */}
+          {step === 'mapping' && mapping && (
+            <>
+              <ScrollView contentContainerStyle={iStyles.mapBody} showsVerticalScrollIndicator={false}>
+                {state.csvProfiles.length > 0 && (
+                  <>
+                    <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>SAVED PROFILES</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={iStyles.accountChips}>
+                      {state.csvProfiles.map(p => {
+                        const active = p.id === profileId;
+                        return (
+                          <Pressable
+                            key={p.id}
+                            style={[
+                              iStyles.accountChip,
+                              { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                            ]}
+                            onPress={() => handleApplyProfile(p)}
+                            onLongPress={() => handleDeleteProfile(p)}
+                          >
+                            <Text style={[iStyles.accountChipText, { color: active ? colors.primary : colors.foreground }]}>
+                              {p.name}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </ScrollView>
+                  </>
+                )}
+
+                <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>SEPARATOR</Text>
+                <OptionChips options={CSV_DELIMITERS} value={mapping.delimiter} onChange={handleDelimiter} />
+
+                <View style={[iStyles.switchRow, { borderColor: colors.border }]}>
+                  <Text style={[iStyles.switchLabel, { color: colors.foreground }]}>
+                    {mapping.headerRow > 0 ? `Column names in row ${mapping.headerRow + 1}` : 'First row has column names'}
+                  </Text>
+                  <Switch
+                    value={mapping.headerRow >= 0}
+                    onValueChange={handleHeader}
+                    trackColor={{ true: colors.primary, false: colors.border }}
+                  />
+                </View>
+
+                <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>COLUMNS</Text>
+                {headers.map((name, i) => {
+                  const field = (Object.entries(mapping.columns) as [CsvField, number][])
+                    .find(([, index]) => index === i)?.[0] ?? null;
+                  const samples = columnSamples(csvRows, mapping.headerRow, i, 3);
+                  return (
+                    <View key={i} style={[iStyles.mapColumn, { borderColor: field ? colors.primary + '60' : colors.border }]}>
+                      <Text style={[iStyles.mapColumnName, { color: colors.foreground }]} numberOfLines={1}>{name}</Text>
+                      <Text style={[iStyles.mapSamples, { color: colors.muted }]} numberOfLines={1}>
+                        {samples.length > 0 ? samples.join(' · ') : 'Empty'}
+                      </Text>
+                      <OptionChips<CsvField | null>
+                        options={[{ value: null, label: 'Skip' }, ...CSV_FIELDS.map(f => ({ value: f.key, label: f.label }))]}
+                        value={field}
+                        onChange={value => handleAssign(i, value)}
+                      />
+                    </View>
+                  );
+                })}
+
+                {mapping.columns.date !== undefined && (
+                  <>
+                    <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>DATE FORMAT</Text>
+                    <OptionChips
+                      options={DATE_FORMATS.map(f => ({ value: f, label: f }))}
+                      value={mapping.dateFormat}
+                      onChange={dateFormat => setMapping({ ...mapping, dateFormat })}
+                    />
+                    {!!dateSample && (
+                      <Text style={[iStyles.mapExample, { color: parsedSample ? colors.muted : colors.expense }]}>
+                        {dateSample} → {parsedSample ? formatDateFull(parsedSample) : 'doesn’t match this format'}
+                      </Text>
+                    )}
+                  </>
+                )}
+
+                <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>NUMBERS</Text>
+                <OptionChips
+                  options={DECIMAL_OPTIONS}
+                  value={mapping.decimalSeparator}
+                  onChange={decimalSeparator => setMapping({ ...mapping, decimalSeparator })}
+                />
+                {mapping.columns.amount !== undefined && (
+                  <>
+                    <View style={iStyles.chipGap} />
+                    <OptionChips
+                      options={SIGN_OPTIONS}
+                      value={mapping.amountSign}
+                      onChange={amountSign => setMapping({ ...mapping, amountSign })}
+                    />
+                    <Text style={[iStyles.mapExample, { color: colors.muted }]}>
+                      {mapping.columns.type !== undefined
+                        ? 'Rows whose type column names a type keep it; the sign decides the rest.'
+                        : 'The sign of each amount tells expenses from income.'}
+                    </Text>
+                  </>
+                )}
+
+                <Text style={[iStyles.sectionLabel, { color: colors.muted }]}>SAVE AS PROFILE</Text>
+                <View style={iStyles.profileRow}>
+                  <TextInput
+                    style={[iStyles.profileInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.foreground }]}
+                    value={profileName}
+                    onChangeText={setProfileName}
+                    placeholder="e.g. My bank"
+                    placeholderTextColor={colors.muted}
+                    returnKeyType="done"
+                    onSubmitEditing={handleSaveProfile}
+                  />
+                  <Pressable
+                    style={({ pressed }) => [
+                      iStyles.profileBtn,
+                      { borderColor: colors.primary },
+                      !profileName.trim() && { opacity: 0.5 },
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={handleSaveProfile}
+                    disabled={!profileName.trim()}
+                  >
+                    <Text style={[iStyles.profileBtnText, { color: colors.primary }]}>
+                      {profileId ? 'Update' : 'Save'}
+                    </Text>
+                  </Pressable>
+                </View>
+              </ScrollView>
+
+              <View style={[iStyles.footer, { borderTopColor: colors.border }]}>
+                {!!problem && (
+                  <Text style={[iStyles.footerNote, { color: colors.expense }]}>{problem}</Text>
+                )}
+                <Pressable
+                  style={({ pressed }) => [
+                    iStyles.actionBtn,
+                    { backgroundColor: colors.primary },
+                    !!problem && { opacity: 0.5 },
+                    pressed && { opacity: 0.85 },
+                  ]}
+                  onPress={() => { setKeptDuplicates(new Set()); setStep('preview'); }}
+                  disabled={!!problem}
+                >
+                  <Text style={iStyles.actionBtnText}>Continue</Text>
+                </Pressable>
+              </View>
+            </>
+          )}
+
           {/* ── PREVIEW ── */}
           {step === 'preview' && (
             <>
-              <Text style={[iStyles.previewMeta, { color: colors.muted }]}>
-                {rows.length} row{rows.length !== 1 ? 's' : ''} found — review before importing
-              </Text>
+              <View style={iStyles.previewHead}>
+                <Text style={[iStyles.previewMeta, { color: colors.muted }]}>
+                  {previewRows.length} row{previewRows.length !== 1 ? 's' : ''} found — review before importing
+                  {statementPreview && statementPreview.duplicates > 0
+                    ? ` · ${statementPreview.duplicates} already imported, skipped`
+                    : ''}
+                </Text>
+                {!statement && (
+                  <Pressable onPress={() => setStep('mapping')} hitSlop={8}>
+                    <Text style={[iStyles.editLink, { color: colors.primary }]}>Edit mapping</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              {/* Rows that can't be read, and why */}
+              {unreadable.length > 0 && (
+                <View style={[iStyles.invalidBox, { backgroundColor: colors.expense + '10', borderColor: colors.expense + '40' }]}>
+                  <Text style={[iStyles.invalidTitle, { color: colors.expense }]}>
+                    {unreadable.length} row{unreadable.length !== 1 ? 's' : ''} won’t be imported
+                  </Text>
+                  <ScrollView style={iStyles.invalidList} nestedScrollEnabled>
+                    {unreadable.map(r => (
+                      <Text key={r.key} style={[iStyles.invalidText, { color: colors.foreground }]} numberOfLines={2}>
+                        {r.text}
+                      </Text>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {duplicateOf.size > 0 && (
+                <View style={[iStyles.dupBar, { backgroundColor: colors.warning + '15', borderColor: colors.warning + '40' }]}>
+                  <IconSymbol name="doc.on.doc" size={16} color={colors.warning} />
+                  <Text style={[iStyles.dupBarText, { color: colors.foreground }]}>
+                    {duplicateOf.size} row{duplicateOf.size !== 1 ? 's look' : ' looks'} already recorded
+                    {skippedCount > 0 ? ` — ${skippedCount} will be skipped. Tap a row to import it anyway.` : ' — importing all.'}
+                  </Text>
+                  <Pressable onPress={toggleAllDuplicates} hitSlop={8}>
+                    <Text style={[iStyles.dupBarAction, { color: colors.primary }]}>
+                      {skippedCount > 0 ? 'Import all' : 'Skip all'}
+                    </Text>
+                  </Pressable>
+                </View>
+              )}
+
+              {/* Bank statements: the account the lines are booked into */}
+              {statement && (
+                <View>
+                  <Text style={[iStyles.previewMeta, { color: colors.muted }]}>
+                    Import into{statement.accountRef ? ` (statement for ${statement.accountRef})` : ''}:
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={iStyles.accountChips}>
+                    {state.accounts.map(a => {
+                      const active = a.id === targetAccountId;
+                      return (
+                        <Pressable
+                          key={a.id}
+                          style={[
+                            iStyles.accountChip,
+                            { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                          ]}
+                          onPress={() => { setTargetAccountId(a.id); setKeptDuplicates(new Set()); }}
+                        >
+                          <Text style={[iStyles.accountChipText, { color: active ? colors.primary : colors.foreground }]}>
+                            {a.icon} {a.name}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </ScrollView>
+                </View>
+              )}
 
               {/* Table: vertical + horizontal scroll */}
               <ScrollView style={iStyles.tableOuter} showsVerticalScrollIndicator={false}>
@@ -301,7 +742,8 @@ export default function ImportDataModal({
                       backgroundColor: colors.surface,
                       borderBottomColor: colors.border,
                     }]}>
-                      {COLUMNS.map(col => (
+                      <View style={iStyles.flagCell} />
+                      {previewColumns.map(col => (
                         <Text
                           key={col.key}
                           style={[iStyles.headCell, { width: col.width, color: colors.primary }]}
@@ -312,34 +754,56 @@ export default function ImportDataModal({
                     </View>
 
                     {/* Data rows */}
-                    {rows.map((row, i) => (
-                      <View
-                        key={i}
-                        style={[
-                          iStyles.row,
-                          {
-                            borderBottomColor: colors.border + '50',
-                            backgroundColor: i % 2 === 0 ? 'transparent' : colors.surface + '60',
-                          },
-                        ]}
-                      >
-                        {COLUMNS.map(col => (
-                          <Text
-                            key={col.key}
-                            style={[
-                              iStyles.dataCell,
-                              {
-                                width: col.width,
-                                color: col.key === 'amount' ? colors.expense : colors.foreground,
-                              },
-                            ]}
-                            numberOfLines={1}
-                          >
-                            {row[col.key as ColKey]}
-                          </Text>
-                        ))}
-                      </View>
-                    ))}
+                    {previewRows.map((row, i) => {
+                      const match = duplicateOf.get(i);
+                      const skipped = !!match && !keptDuplicates.has(i);
+                      return (
+                        <Pressable
+                          key={i}
+                          disabled={!match}
+                          onPress={() => toggleDuplicate(i)}
+                          style={[
+                            iStyles.row,
+                            {
+                              borderBottomColor: colors.border + '50',
+                              backgroundColor: match
+                                ? colors.warning + (skipped ? '10' : '25')
+                                : i % 2 === 0 ? 'transparent' : colors.surface + '60',
+                            },
+                          ]}
+                        >
+                          <View style={iStyles.flagCell}>
+                            {match && (
+                              <IconSymbol
+                                name={skipped ? 'doc.on.doc' : 'checkmark'}
+                                size={14}
+                                color={skipped ? colors.warning : colors.success}
+                              />
+                            )}
+                          </View>
+                          {previewColumns.map(col => (
+                            <Text
+                              key={col.key}
+                              style={[
+                                iStyles.dataCell,
+                                {
+                                  width: col.width,
+                                  color: col.key === 'amount' ? colors.expense : colors.foreground,
+                                },
+                              ]}
+                              numberOfLines={1}
+                            >
+                              {cellText(row, col.key)}
+                            </Text>
+                          ))}
+                          {match && (
+                            <Text style={[iStyles.dataCell, { color: colors.muted }]} numberOfLines={1}>
+                              {skipped ? 'Skipped — matches ' : 'Importing anyway — matches '}{describeMatch(match)}
+                            </Text>
+                          )}
+                        </Pressable>
+                      );
+                    })}
                   </View>
                 </ScrollView>
               </ScrollView>
@@ -352,9 +816,10 @@ export default function ImportDataModal({
                     pressed && { opacity: 0.85 },
                   ]}
                   onPress={handleImport}
+                  disabled={importableCount === 0}
                 >
                   <IconSymbol name="square.and.arrow.down" size={20} color="#fff" />
-                  <Text style={iStyles.actionBtnText}>Import {rows.length} Records</Text>
+                  <Text style={iStyles.actionBtnText}>Import {importableCount} Records</Text>
                 </Pressable>
               </View>
             </>
@@ -442,9 +907,43 @@ const iStyles = StyleSheet.create({
   },
   actionBtnText: { color: '#fff', fontSize: 15, fontWeight: '700' },
 
+  // ── Mapping
+  mapBody:      { paddingVertical: 8, paddingBottom: 16 },
+  sectionLabel: { fontSize: 11, fontWeight: '700', letterSpacing: 1, paddingHorizontal: 18, paddingTop: 14, paddingBottom: 8 },
+  chipGap:      { height: 8 },
+  switchRow: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    marginHorizontal: 18, marginTop: 6, paddingVertical: 8, borderTopWidth: 0.5, borderBottomWidth: 0.5,
+  },
+  switchLabel:   { fontSize: 14, fontWeight: '500' },
+  mapColumn:     { marginHorizontal: 18, marginBottom: 8, borderWidth: 1, borderRadius: 12, paddingTop: 10, gap: 4 },
+  mapColumnName: { fontSize: 14, fontWeight: '700', paddingHorizontal: 12 },
+  mapSamples:    { fontSize: 12, paddingHorizontal: 12, paddingBottom: 4 },
+  mapExample:    { fontSize: 12, paddingHorizontal: 18 },
+  profileRow:    { flexDirection: 'row', gap: 8, paddingHorizontal: 18 },
+  profileInput:  { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, fontSize: 14 },
+  profileBtn:    { borderWidth: 1.5, borderRadius: 10, paddingHorizontal: 16, justifyContent: 'center' },
+  profileBtnText: { fontSize: 14, fontWeight: '700' },
+
   // ── Preview
-  previewMeta: { paddingHorizontal: 18, paddingTop: 10, paddingBottom: 4, fontSize: 13 },
+  previewHead: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingRight: 18 },
+  previewMeta: { flexShrink: 1, paddingHorizontal: 18, paddingTop: 10, paddingBottom: 4, fontSize: 13 },
+  editLink:    { fontSize: 13, fontWeight: '700', paddingTop: 6 },
+  invalidBox:  { marginHorizontal: 18, marginVertical: 6, padding: 10, borderRadius: 10, borderWidth: 1, gap: 4 },
+  invalidTitle: { fontSize: 13, fontWeight: '700' },
+  invalidList: { maxHeight: 90 },
+  invalidText: { fontSize: 12, lineHeight: 17 },
   tableOuter:  { flex: 1 },
+  accountChips: { paddingHorizontal: 18, paddingBottom: 8, gap: 8 },
+  accountChip:  { borderWidth: 1, borderRadius: 16, paddingHorizontal: 12, paddingVertical: 6 },
+  accountChipText: { fontSize: 13, fontWeight: '600' },
+  dupBar: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    marginHorizontal: 18, marginVertical: 6, padding: 10, borderRadius: 10, borderWidth: 1,
+  },
+  dupBarText:   { flex: 1, fontSize: 12, lineHeight: 17 },
+  dupBarAction: { fontSize: 13, fontWeight: '700' },
+  flagCell:     { width: 24, alignItems: 'center', justifyContent: 'center' },
   row:         { flexDirection: 'row', borderBottomWidth: 0.5 },
   headRow:     { borderBottomWidth: 1 },
   headCell: {
@@ -455,7 +954,8 @@ const iStyles = StyleSheet.create({
     fontSize: 12,
     paddingHorizontal: 10, paddingVertical: 9,
   },
-  footer: { paddingHorizontal: 16, paddingTop: 12, borderTopWidth: 0.5 },
+  footer:     { paddingHorizontal: 16, paddingTop: 12, borderTopWidth: 0.5, gap: 8 },
+  footerNote: { fontSize: 13, fontWeight: '500', textAlign: 'center' },
 
   // ── Center states
   centerBody:  { flex: 1, minHeight: 260, alignItems: 'center', justifyContent: 'center', padding: 32, gap: 10 },
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal, View, Text, Pressable, StyleSheet, ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useColors } from '@/hooks/use-colors';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { ReassignMode } from '@/lib/reassign';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ReassignTarget {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+}
+
+interface ReassignModalProps {
+  visible: boolean;
+  title: string; // e.g. "Delete Category"
+  name: string; // the record being deleted
+  usage: string; // what uses it, from describeUsage
+  targets: ReassignTarget[];
+  /** What merging adds on top of moving the transactions. */
+  mergeHint: string;
+  onConfirm: (targetId: string, mode: ReassignMode) => void;
+  /** Offered when deleting without moving anything is allowed. */
+  deleteAll?: { label: string; onPress: () => void };
+  onClose: () => void;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Asks where the transactions of a category or account go before it is
+ * deleted: moved to another one ("reassign"), or combined with it ("merge").
+ */
+export default function ReassignModal({
+  visible, title, name, usage, targets, mergeHint, onConfirm, deleteAll, onClose,
+}: ReassignModalProps) {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [mode, setMode] = useState<ReassignMode>('reassign');
+
+  useEffect(() => {
+    if (!visible) return;
+    setTargetId(null);
+    setMode('reassign');
+  }, [visible]);
+
+  const target = targets.find(t => t.id === targetId);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalSheet, { backgroundColor: colors.background, paddingBottom: Math.max(insets.bottom, 16) }]}>
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <Pressable style={styles.headerBtn} onPress={onClose}>
+              <Text style={[styles.headerBtnText, { color: colors.muted }]}>Cancel</Text>
+            </Pressable>
+            <Text style={[styles.modalTitle, { color: colors.foreground }]}>{title}</Text>
+            <View style={styles.headerBtn} />
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={[styles.summary, { color: colors.foreground }]}>
+              &quot;{name}&quot; is used by {usage}. Choose where they go before it moves to the Trash.
+            </Text>
+
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Action</Text>
+            <View style={styles.modeRow}>
+              {(['reassign', 'merge'] as const).map(m => {
+                const active = mode === m;
+                return (
+                  <Pressable
+                    key={m}
+                    style={[
+                      styles.modeBtn,
+                      { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary + '15' : colors.surface },
+                    ]}
+                    onPress={() => setMode(m)}
+                  >
+                    <Text style={[styles.modeText, { color: active ? colors.primary : colors.foreground }]}>
+                      {m === 'reassign' ? 'Reassign' : 'Merge'}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={[styles.hint, { color: colors.muted }]}>
+              {mode === 'reassign'
+                ? 'Moves the transactions and recurring rules, then deletes it.'
+                : `Moves the transactions and recurring rules, and ${mergeHint}, then deletes it.`}
+            </Text>
+
+            <Text style={[styles.fieldLabel, { color: colors.muted }]}>Move to</Text>
+            {targets.length === 0 ? (
+              <Text style={[styles.hint, { color: colors.muted }]}>Nothing to move them to.</Text>
+            ) : targets.map(t => {
+              const active = t.id === targetId;
+              return (
+                <Pressable
+                  key={t.id}
+                  style={({ pressed }) => [
+                    styles.targetRow,
+                    { borderColor: active ? colors.primary : colors.border },
+                    pressed && { opacity: 0.7 },
+                  ]}
+                  onPress={() => setTargetId(t.id)}
+                >
+                  <View style={[styles.targetIcon, { backgroundColor: t.color + '20' }]}>
+                    <CategoryIcon icon={t.icon} size={20} />
+                  </View>
+                  <Text style={[styles.targetName, { color: colors.foreground }]} numberOfLines={1}>{t.name}</Text>
+                  {active && <IconSymbol name="checkmark.circle.fill" size={20} color={colors.primary} />}
+                </Pressable>
+              );
+            })}
+
+            {deleteAll && (
+              <Pressable style={({ pressed }) => [styles.deleteAllBtn, pressed && { opacity: 0.6 }]} onPress={deleteAll.onPress}>
+                <Text style={[styles.deleteAllText, { color: colors.expense }]}>{deleteAll.label}</Text>
+              </Pressable>
+            )}
+          </ScrollView>
+
+          <View style={[styles.saveContainer, { borderTopColor: colors.border }]}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveBtn,
+                { backgroundColor: colors.expense },
+                !target && { opacity: 0.5 },
+                pressed && { opacity: 0.85 },
+              ]}
+              onPress={() => target && onConfirm(target.id, mode)}
+              disabled={!target}
+            >
+              <Text style={styles.saveBtnText}>
+                {!target ? 'CHOOSE WHERE TO MOVE THEM' : mode === 'merge' ? `MERGE INTO ${target.name.toUpperCase()}` : 'MOVE AND DELETE'}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalSheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '92%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  headerBtn: {
+    minWidth: 60,
+  },
+  headerBtnText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  content: {
+    padding: 16,
+  },
+  summary: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeBtn: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginTop: 8,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+  },
+  targetIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  targetName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  deleteAllBtn: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  deleteAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+  },
+  saveBtn: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+});
@@ -10,17 +10,8 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useApp } from '@/lib/AppContext';
 import { CategoryIcon } from '@/components/CategoryIcon';
 import { upsertSupabaseUser } from '@/lib/supabase-sync';
-
-const CURRENCIES = [
-  { symbol: '$',  label: 'USD' },
-  { symbol: '€',  label: 'EUR' },
-  { symbol: '£',  label: 'GBP' },
-  { symbol: '₹',  label: 'INR' },
-  { symbol: '¥',  label: 'JPY' },
-  { symbol: '฿',  label: 'THB' },
-  { symbol: '₩',  label: 'KRW' },
-  { symbol: '₦',  label: 'NGN' },
-];
+import { isRuleActive } from '@/lib/recurrence';
+import { CURRENCIES } from '@/lib/currency';
 
 const SIDEBAR_WIDTH = 280;
 
@@ -37,8 +28,13 @@ export default function Sidebar({ visible, onClose, onOpenExport, onOpenImport }
   const { isSignedIn, signOut } = useAuth();
   const { user } = useUser();
   const insets = useSafeAreaInsets();
-  const { state, setCurrency } = useApp();
+  const { state, setBaseCurrency, missingRates, undo, redo } = useApp();
   const currency = state.currency;
+  const activeRuleCount = state.recurringRules.filter(isRuleActive).length;
+  const conflictCount = state.syncConflicts.length;
+  const trashCount = state.trash.transactions.length + state.trash.accounts.length + state.trash.categories.length;
+  const lastDone = state.history.undo[state.history.undo.length - 1];
+  const lastUndone = state.history.redo[state.history.redo.length - 1];
 
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingName, setEditingName] = useState(false);
@@ -91,6 +87,51 @@ export default function Sidebar({ visible, onClose, onOpenExport, onOpenImport }
     setTimeout(() => router.push('/sign-in'), 250);
   }, [onClose, router]);
 
+  const handleRecurring = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/recurring'), 250);
+  }, [onClose, router]);
+
+  const handleBudgets = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/budgets'), 250);
+  }, [onClose, router]);
+
+  const handlePayees = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/payees'), 250);
+  }, [onClose, router]);
+
+  const handleRules = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/rules'), 250);
+  }, [onClose, router]);
+
+  const handleDuplicates = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/duplicates'), 250);
+  }, [onClose, router]);
+
+  const handleReconcile = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/reconcile'), 250);
+  }, [onClose, router]);
+
+  const handleRates = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/exchange-rates'), 250);
+  }, [onClose, router]);
+
+  const handleConflicts = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/sync-conflicts'), 250);
+  }, [onClose, router]);
+
+  const handleTrash = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/trash'), 250);
+  }, [onClose, router]);
+
   const handleExport = useCallback(() => {
     onOpenExport();
     onClose();
@@ -233,27 +274,27 @@ export default function Sidebar({ visible, onClose, onOpenExport, onOpenImport }
             <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
               <CategoryIcon icon="img:money" size={27} />
             </View>
-            <Text style={[styles.currencyTitle, { color: colors.foreground }]}>Currency</Text>
+            <Text style={[styles.currencyTitle, { color: colors.foreground }]}>Base Currency</Text>
             <Text style={[styles.currencyActive, { color: colors.primary }]}>{currency}</Text>
           </View>
           <View style={styles.currencyChips}>
-            {CURRENCIES.map(({ symbol, label }) => {
-              const isSelected = currency === symbol;
+            {CURRENCIES.map(({ code, symbol }) => {
+              const isSelected = state.baseCurrency === code;
               return (
                 <Pressable
-                  key={symbol}
+                  key={code}
                   style={[
                     styles.chip,
                     { borderColor: isSelected ? colors.primary : colors.border },
                     isSelected && { backgroundColor: colors.primary },
                   ]}
-                  onPress={() => setCurrency(symbol)}
+                  onPress={() => setBaseCurrency(code)}
                 >
                   <Text style={[styles.chipSymbol, { color: isSelected ? '#fff' : colors.foreground }]}>
                     {symbol}
                   </Text>
                   <Text style={[styles.chipLabel, { color: isSelected ? 'rgba(255,255,255,0.75)' : colors.muted }]}>
-                    {label}
+                    {code}
                   </Text>
                 </Pressable>
               );
@@ -263,6 +304,169 @@ export default function Sidebar({ visible, onClose, onOpenExport, onOpenImport }
 
         {/* ── Menu Items ── */}
         <View style={styles.menu}>
+          {(lastDone || lastUndone) && (
+            <View style={[styles.historyRow, { borderBottomColor: colors.border }]}>
+              <Pressable
+                style={({ pressed }) => [styles.historyBtn, !lastDone && { opacity: 0.35 }, pressed && { backgroundColor: colors.surface }]}
+                onPress={() => undo()}
+                disabled={!lastDone}
+              >
+                <IconSymbol name="arrow.uturn.backward" size={18} color={colors.primary} />
+                <View style={styles.historyText}>
+                  <Text style={[styles.historyLabel, { color: colors.foreground }]}>Undo</Text>
+                  {lastDone && (
+                    <Text style={[styles.historyDetail, { color: colors.muted }]} numberOfLines={1}>{lastDone.label}</Text>
+                  )}
+                </View>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [styles.historyBtn, !lastUndone && { opacity: 0.35 }, pressed && { backgroundColor: colors.surface }]}
+                onPress={() => redo()}
+                disabled={!lastUndone}
+              >
+                <IconSymbol name="arrow.uturn.forward" size={18} color={colors.primary} />
+                <View style={styles.historyText}>
+                  <Text style={[styles.historyLabel, { color: colors.foreground }]}>Redo</Text>
+                  {lastUndone && (
+                    <Text style={[styles.historyDetail, { color: colors.muted }]} numberOfLines={1}>{lastUndone.label}</Text>
+                  )}
+                </View>
+              </Pressable>
+            </View>
+          )}
+
+          {conflictCount > 0 && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.menuItem,
+                { borderBottomColor: colors.border },
+                pressed && { backgroundColor: colors.surface },
+              ]}
+              onPress={handleConflicts}
+            >
+              <View style={[styles.menuIconBg, { backgroundColor: colors.warning + '20' }]}>
+                <IconSymbol name="exclamationmark.triangle.fill" size={20} color={colors.warning} />
+              </View>
+              <Text style={[styles.menuLabel, { color: colors.foreground }]}>Sync Conflicts</Text>
+              <Text style={[styles.menuCount, { color: colors.warning }]}>{conflictCount}</Text>
+              <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+            </Pressable>
+          )}
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleBudgets}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="chart.pie.fill" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Budgets</Text>
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handlePayees}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="storefront.fill" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Payees</Text>
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleRules}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="wand.and.stars" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Rules</Text>
+            {state.categoryRules.length > 0 && (
+              <Text style={[styles.menuCount, { color: colors.muted }]}>{state.categoryRules.length}</Text>
+            )}
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleDuplicates}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="doc.on.doc" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Find Duplicates</Text>
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleReconcile}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="checkmark.seal.fill" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Reconcile</Text>
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleRates}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="arrow.left.arrow.right" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Exchange Rates</Text>
+            {missingRates.length > 0 && (
+              <IconSymbol name="exclamationmark.triangle.fill" size={16} color={colors.warning} />
+            )}
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleRecurring}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="arrow.clockwise" size={20} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Recurring</Text>
+            {activeRuleCount > 0 && (
+              <Text style={[styles.menuCount, { color: colors.muted }]}>{activeRuleCount}</Text>
+            )}
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
           <Pressable
             style={({ pressed }) => [
               styles.menuItem,
@@ -293,6 +497,24 @@ export default function Sidebar({ visible, onClose, onOpenExport, onOpenImport }
             <IconSymbol name="chevron.right" size={14} color={colors.muted} />
           </Pressable>
 
+          <Pressable
+            style={({ pressed }) => [
+              styles.menuItem,
+              { borderBottomColor: colors.border },
+              pressed && { backgroundColor: colors.surface },
+            ]}
+            onPress={handleTrash}
+          >
+            <View style={[styles.menuIconBg, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="trash.fill" size={18} color={colors.primary} />
+            </View>
+            <Text style={[styles.menuLabel, { color: colors.foreground }]}>Trash</Text>
+            {trashCount > 0 && (
+              <Text style={[styles.menuCount, { color: colors.muted }]}>{trashCount}</Text>
+            )}
+            <IconSymbol name="chevron.right" size={14} color={colors.muted} />
+          </Pressable>
+
           {isSignedIn && (
             <Pressable
               style={({ pressed }) => [
@@ -438,6 +660,33 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '500',
   },
+  menuCount: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  historyBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  historyDetail: {
+    fontSize: 12,
+    marginTop: 1,
+  },
   nameRow: {
     flexDirection: 'row',
     alignItems: 'center',
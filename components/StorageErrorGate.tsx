@@ -0,0 +1,75 @@
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+
+/**
+ * Shows the app only once stored data is at the current version. When the
+ * upgrade fails, the data stays untouched behind this screen until a retry
+ * succeeds.
+ */
+export function StorageErrorGate({ children }: { children: React.ReactNode }) {
+  const colors = useColors();
+  const { state, refresh } = useApp();
+  const [retrying, setRetrying] = useState(false);
+
+  const retry = useCallback(async () => {
+    setRetrying(true);
+    try {
+      await refresh();
+    } finally {
+      setRetrying(false);
+    }
+  }, [refresh]);
+
+  if (!state.storageError) return <>{children}</>;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Text style={[styles.title, { color: colors.foreground }]}>Your data needs attention</Text>
+      <Text style={[styles.message, { color: colors.muted }]}>
+        {state.storageError} Nothing has been changed. Try again, or update the app if this keeps happening.
+      </Text>
+      <Pressable
+        style={({ pressed }) => [styles.button, { backgroundColor: colors.primary }, pressed && { opacity: 0.7 }]}
+        onPress={retry}
+        disabled={retrying}
+      >
+        {retrying
+          ? <ActivityIndicator color={colors.background} />
+          : <Text style={[styles.buttonText, { color: colors.background }]}>Try again</Text>}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 8,
+    minWidth: 140,
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Animated, Platform, Pressable, StyleSheet, Text } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useColors } from '@/hooks/use-colors';
+import { useApp } from '@/lib/AppContext';
+import { HistoryEntry } from '@/lib/history';
+
+const VISIBLE_MS = 5000;
+
+/**
+ * Offers "Undo" for a few seconds after a delete. Only entries recorded while
+ * the app is open are offered; ones restored from storage at launch and ones
+ * brought back by redo are not.
+ */
+export function UndoSnackbar() {
+  const colors = useColors();
+  const insets = useSafeAreaInsets();
+  const { state, undo } = useApp();
+  const latest = state.history.undo[state.history.undo.length - 1] as HistoryEntry | undefined;
+
+  const [entry, setEntry] = useState<HistoryEntry | null>(null);
+  const seenAtRef = useRef<string | null>(null);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (state.loading) return;
+    const at = latest?.at ?? '';
+    if (seenAtRef.current !== null && latest && at > seenAtRef.current) {
+      setEntry(latest.destructive ? latest : null);
+    } else {
+      // Undone from elsewhere (e.g. the sidebar): the offer no longer applies
+      setEntry(current => (current && current.id !== latest?.id ? null : current));
+    }
+    if (seenAtRef.current === null || at > seenAtRef.current) seenAtRef.current = at;
+  }, [state.loading, latest]);
+
+  useEffect(() => {
+    if (!entry) {
+      opacity.setValue(0);
+      return;
+    }
+    Animated.timing(opacity, { toValue: 1, duration: 150, useNativeDriver: true }).start();
+    const timer = setTimeout(() => {
+      Animated.timing(opacity, { toValue: 0, duration: 200, useNativeDriver: true })
+        .start(() => setEntry(current => (current === entry ? null : current)));
+    }, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [entry, opacity]);
+
+  const handleUndo = useCallback(async () => {
+    setEntry(null);
+    await undo();
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  }, [undo]);
+
+  if (!entry) return null;
+
+  const tabBarHeight = 60 + (Platform.OS === 'web' ? 12 : Math.max(insets.bottom, 8));
+
+  return (
+    <Animated.View
+      style={[styles.container, { bottom: tabBarHeight + 12, backgroundColor: colors.foreground, opacity }]}
+      pointerEvents="box-none"
+    >
+      <Text style={[styles.label, { color: colors.background }]} numberOfLines={1}>{entry.label}</Text>
+      <Pressable
+        style={({ pressed }) => [styles.undoBtn, pressed && { opacity: 0.6 }]}
+        onPress={handleUndo}
+        hitSlop={8}
+      >
+        <Text style={[styles.undoText, { color: colors.primary }]}>UNDO</Text>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingLeft: 16,
+    paddingRight: 8,
+    paddingVertical: 6,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  undoBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
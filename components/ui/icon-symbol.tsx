@@ -24,6 +24,8 @@ const MAPPING = {
   // Actions
   "chevron.left": "chevron-left",
   "chevron.right": "chevron-right",
+  "chevron.up": "keyboard-arrow-up",
+  "chevron.down": "keyboard-arrow-down",
   "chevron.left.forwardslash.chevron.right": "code",
   "paperplane.fill": "send",
   "trash.fill": "delete",
@@ -32,9 +34,12 @@ const MAPPING = {
   "xmark.circle.fill": "cancel",
   "checkmark": "check",
   "checkmark.circle.fill": "check-circle",
+  "circle": "radio-button-unchecked",
   "arrow.left": "arrow-back",
   "arrow.right": "arrow-forward",
   "arrow.left.arrow.right": "swap-horiz",
+  "arrow.uturn.backward": "undo",
+  "arrow.uturn.forward": "redo",
   // UI
   "ellipsis": "more-horiz",
   "ellipsis.circle": "more-horiz",
@@ -47,6 +52,7 @@ const MAPPING = {
   "exclamationmark.triangle.fill": "warning",
   "doc.text.fill": "description",
   "photo": "photo",
+  "paperclip": "attach-file",
   "camera.fill": "camera-alt",
   "square.and.arrow.up": "share",
   "arrow.clockwise": "refresh",
@@ -55,7 +61,12 @@ const MAPPING = {
   "line.3.horizontal.decrease.circle": "filter-list",
   "line.3.horizontal": "menu",
   "person.fill": "person",
+  "storefront.fill": "storefront",
+  "wand.and.stars": "auto-fix-high",
+  "doc.on.doc": "content-copy",
   "rectangle.portrait.and.arrow.right": "logout",
+  "checkmark.seal.fill": "verified",
+  "lock.fill": "lock",
 } as IconMapping;
 
 /**
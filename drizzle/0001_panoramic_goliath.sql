@@ -0,0 +1,72 @@
+CREATE TABLE `accounts` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`createdAt` timestamp(3) NOT NULL,
+	`updatedAt` timestamp(3) NOT NULL,
+	`deletedAt` timestamp(3),
+	`syncedAt` timestamp(3) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` enum('cash','bank','credit_card','savings','investment','other') NOT NULL,
+	`initialBalance` double NOT NULL,
+	`icon` varchar(64) NOT NULL,
+	`color` varchar(32) NOT NULL,
+	`currency` varchar(3),
+	CONSTRAINT `accounts_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `budgets` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`createdAt` timestamp(3) NOT NULL,
+	`updatedAt` timestamp(3) NOT NULL,
+	`deletedAt` timestamp(3),
+	`syncedAt` timestamp(3) NOT NULL,
+	`categoryId` varchar(64),
+	`month` varchar(7) NOT NULL,
+	`amount` double NOT NULL,
+	`rollover` boolean NOT NULL DEFAULT false,
+	CONSTRAINT `budgets_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `categories` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`createdAt` timestamp(3) NOT NULL,
+	`updatedAt` timestamp(3) NOT NULL,
+	`deletedAt` timestamp(3),
+	`syncedAt` timestamp(3) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` enum('expense','income') NOT NULL,
+	`icon` varchar(64) NOT NULL,
+	`color` varchar(32) NOT NULL,
+	`isDefault` boolean NOT NULL DEFAULT false,
+	`sortOrder` int NOT NULL DEFAULT 0,
+	CONSTRAINT `categories_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `transactions` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`createdAt` timestamp(3) NOT NULL,
+	`updatedAt` timestamp(3) NOT NULL,
+	`deletedAt` timestamp(3),
+	`syncedAt` timestamp(3) NOT NULL,
+	`type` enum('expense','income','transfer') NOT NULL,
+	`amount` double NOT NULL,
+	`categoryId` varchar(64) NOT NULL,
+	`accountId` varchar(64) NOT NULL,
+	`toAccountId` varchar(64),
+	`toAmount` double,
+	`date` varchar(10) NOT NULL,
+	`note` text,
+	`recurringRuleId` varchar(64),
+	`splits` json,
+	`attachments` json,
+	CONSTRAINT `transactions_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `accounts_user_synced_idx` ON `accounts` (`userId`,`syncedAt`,`id`);--> statement-breakpoint
+CREATE INDEX `budgets_user_synced_idx` ON `budgets` (`userId`,`syncedAt`,`id`);--> statement-breakpoint
+CREATE INDEX `categories_user_synced_idx` ON `categories` (`userId`,`syncedAt`,`id`);--> statement-breakpoint
+CREATE INDEX `transactions_user_synced_idx` ON `transactions` (`userId`,`syncedAt`,`id`);--> statement-breakpoint
+CREATE INDEX `transactions_user_date_idx` ON `transactions` (`userId`,`date`);
@@ -0,0 +1 @@
+ALTER TABLE `accounts` MODIFY COLUMN `type` enum('cash','bank','credit_card','savings','investment','loan','other') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE `accounts` ADD `closingDay` int;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `dueDay` int;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `creditLimit` double;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `loan` json;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `trashedAt` timestamp(3);--> statement-breakpoint
+ALTER TABLE `categories` ADD `parentId` varchar(64);--> statement-breakpoint
+ALTER TABLE `categories` ADD `trashedAt` timestamp(3);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `payeeId` varchar(64);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `tags` json;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `fitId` varchar(255);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `status` enum('cleared','reconciled');--> statement-breakpoint
+ALTER TABLE `transactions` ADD `toStatus` enum('cleared','reconciled');--> statement-breakpoint
+ALTER TABLE `transactions` ADD `trashedAt` timestamp(3);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `payees` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`createdAt` timestamp(3) NOT NULL,
+	`updatedAt` timestamp(3) NOT NULL,
+	`deletedAt` timestamp(3),
+	`syncedAt` timestamp(3) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	CONSTRAINT `payees_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `payees_user_synced_idx` ON `payees` (`userId`,`syncedAt`,`id`);
\ No newline at end of file
@@ -1,4 +1,16 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  boolean,
+  double,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  primaryKey,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -25,4 +37,162 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
+// ─── Finance ─────────────────────────────────────────────────────────────────
+
+/**
+ * Columns shared by every synced finance table. Rows keep the app's string ids,
+ * which are only unique per user (default categories share ids across users).
+ * `createdAt` / `updatedAt` come from the device; `syncedAt` is set by the server
+ * on every write and orders the changes feed. Deleted rows stay as tombstones
+ * (`deletedAt` set) so other devices learn about the delete. The app's trash is
+ * a separate `trashedAt` column: a trashed row is still live and restorable.
+ */
+const syncedColumns = () => ({
+  userId: int("userId").notNull(),
+  id: varchar("id", { length: 64 }).notNull(),
+  createdAt: timestamp("createdAt", { fsp: 3 }).notNull(),
+  updatedAt: timestamp("updatedAt", { fsp: 3 }).notNull(),
+  deletedAt: timestamp("deletedAt", { fsp: 3 }),
+  syncedAt: timestamp("syncedAt", { fsp: 3 }).notNull(),
+});
+
+/** Loan terms as stored in `accounts.loan`. */
+export type StoredLoan = {
+  direction: "borrowed" | "lent";
+  principal: number;
+  annualRate: number;
+  payments: number;
+  frequency: "weekly" | "biweekly" | "monthly" | "yearly";
+  firstPaymentDate: string;
+  interestCategoryId?: string;
+};
+
+export const accounts = mysqlTable(
+  "accounts",
+  {
+    ...syncedColumns(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: mysqlEnum("type", ["cash", "bank", "credit_card", "savings", "investment", "loan", "other"]).notNull(),
+    initialBalance: double("initialBalance").notNull(),
+    icon: varchar("icon", { length: 64 }).notNull(),
+    color: varchar("color", { length: 32 }).notNull(),
+    /** ISO 4217 code; null means the user's base currency. */
+    currency: varchar("currency", { length: 3 }),
+    /** Credit cards: days of the month the statement closes and payment is due. */
+    closingDay: int("closingDay"),
+    dueDay: int("dueDay"),
+    creditLimit: double("creditLimit"),
+    /** Loan accounts only. */
+    loan: json("loan").$type<StoredLoan>(),
+    trashedAt: timestamp("trashedAt", { fsp: 3 }),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index("accounts_user_synced_idx").on(t.userId, t.syncedAt, t.id),
+  ],
+);
+
+export const categories = mysqlTable(
+  "categories",
+  {
+    ...syncedColumns(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: mysqlEnum("type", ["expense", "income"]).notNull(),
+    icon: varchar("icon", { length: 64 }).notNull(),
+    color: varchar("color", { length: 32 }).notNull(),
+    isDefault: boolean("isDefault").default(false).notNull(),
+    sortOrder: int("sortOrder").default(0).notNull(),
+    parentId: varchar("parentId", { length: 64 }),
+    trashedAt: timestamp("trashedAt", { fsp: 3 }),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index("categories_user_synced_idx").on(t.userId, t.syncedAt, t.id),
+  ],
+);
+
+/** Split line as stored in `transactions.splits`. */
+export type SplitLine = { categoryId: string; amount: number; note?: string };
+
+/** Uploaded file as stored in `transactions.attachments`; device-local paths are never stored. */
+export type StoredAttachment = {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  remoteKey: string;
+  remoteUrl?: string;
+  createdAt: string;
+};
+
+export const transactions = mysqlTable(
+  "transactions",
+  {
+    ...syncedColumns(),
+    type: mysqlEnum("type", ["expense", "income", "transfer"]).notNull(),
+    amount: double("amount").notNull(),
+    categoryId: varchar("categoryId", { length: 64 }).notNull(),
+    accountId: varchar("accountId", { length: 64 }).notNull(),
+    toAccountId: varchar("toAccountId", { length: 64 }),
+    toAmount: double("toAmount"),
+    /** YYYY-MM-DD, as entered on the device (no time zone). */
+    date: varchar("date", { length: 10 }).notNull(),
+    note: text("note"),
+    recurringRuleId: varchar("recurringRuleId", { length: 64 }),
+    payeeId: varchar("payeeId", { length: 64 }),
+    splits: json("splits").$type<SplitLine[]>(),
+    attachments: json("attachments").$type<StoredAttachment[]>(),
+    tags: json("tags").$type<string[]>(),
+    /** The bank's id for the statement line the transaction was imported from. */
+    fitId: varchar("fitId", { length: 255 }),
+    /** Cleared or reconciled in accountId / toAccountId; null = not cleared. */
+    status: mysqlEnum("status", ["cleared", "reconciled"]),
+    toStatus: mysqlEnum("toStatus", ["cleared", "reconciled"]),
+    trashedAt: timestamp("trashedAt", { fsp: 3 }),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index("transactions_user_synced_idx").on(t.userId, t.syncedAt, t.id),
+    index("transactions_user_date_idx").on(t.userId, t.date),
+  ],
+);
+
+export const budgets = mysqlTable(
+  "budgets",
+  {
+    ...syncedColumns(),
+    /** Null for the overall limit across all expenses. */
+    categoryId: varchar("categoryId", { length: 64 }),
+    /** YYYY-MM the limit starts in. */
+    month: varchar("month", { length: 7 }).notNull(),
+    amount: double("amount").notNull(),
+    rollover: boolean("rollover").default(false).notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index("budgets_user_synced_idx").on(t.userId, t.syncedAt, t.id),
+  ],
+);
+
+export const payees = mysqlTable(
+  "payees",
+  {
+    ...syncedColumns(),
+    name: varchar("name", { length: 255 }).notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index("payees_user_synced_idx").on(t.userId, t.syncedAt, t.id),
+  ],
+);
+
+export type AccountRow = typeof accounts.$inferSelect;
+export type InsertAccountRow = typeof accounts.$inferInsert;
+export type CategoryRow = typeof categories.$inferSelect;
+export type InsertCategoryRow = typeof categories.$inferInsert;
+export type TransactionRow = typeof transactions.$inferSelect;
+export type InsertTransactionRow = typeof transactions.$inferInsert;
+export type BudgetRow = typeof budgets.$inferSelect;
+export type InsertBudgetRow = typeof budgets.$inferInsert;
+export type PayeeRow = typeof payees.$inferSelect;
+export type InsertPayeeRow = typeof payees.$inferInsert;
@@ -1,13 +1,18 @@
 import React, {
   createContext, useContext, useEffect, useReducer,
-  useCallback, useRef,
+  useCallback, useMemo, useRef,
 } from 'react';
 import { AppState } from 'react-native';
 import { useAuth, useUser } from '@clerk/clerk-expo';
-import { Account, Category, Transaction } from './types';
+import UUID from 'react-native-uuid';
+import {
+  Account, Attachment, Budget, Category, CategoryRule, CsvProfile, FilterPreset, Payee, Reconciliation, RecurringRule, Transaction,
+} from './types';
 import {
   initializeStorage,
   getTransactions,
+  getTransaction,
+  getTransactionsForAccount,
   getAccounts,
   getCategories,
   saveTransaction,
@@ -16,24 +21,101 @@ import {
   deleteAccount,
   saveCategory,
   deleteCategory,
+  purgeTransactions,
+  purgeAccounts,
+  purgeCategories,
   setTransactions,
+  setAccounts,
+  setCategories,
+  getBudgets,
+  saveBudget,
+  deleteBudget,
+  setBudgets,
+  getPayees,
+  savePayee,
+  setPayees,
+  getRecurringRules,
+  saveRecurringRule,
+  deleteRecurringRule,
+  getFilterPresets,
+  saveFilterPreset,
+  deleteFilterPreset,
+  getCategoryRules,
+  getDismissedDuplicates,
+  getCsvProfiles,
+  saveCsvProfile,
+  deleteCsvProfile,
+  saveDismissedDuplicates,
+  saveCategoryRule,
+  setCategoryRules,
+  deleteCategoryRule,
   computeAccountBalance,
   addPendingDelete,
   getPendingDeletes,
-  clearPendingDeletes,
-  getCurrency,
-  saveCurrency,
+  removePendingDeletes,
+  getBaseCurrency,
+  saveBaseCurrency,
+  getExchangeRates,
+  saveExchangeRates,
+  getSyncState,
+  savePushMark,
+  savePullCursor,
+  saveSyncBases,
+  getSyncConflicts,
+  setSyncConflicts,
+  getHistory,
+  saveHistory,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  getReconciliations,
+  setReconciliations,
+  SyncEntity,
 } from './storage';
 import { AccountWithBalance } from './types';
 import {
   upsertSupabaseUser,
   fetchRemoteTransactions,
+  fetchRemoteAccounts,
+  fetchRemoteCategories,
+  fetchRemoteBudgets,
+  fetchRemotePayees,
   pushTransaction,
   pushTransactionsBatch,
-  deleteRemoteTransaction,
+  pushAccountsBatch,
+  pushCategoriesBatch,
+  pushBudgetsBatch,
+  pushPayeesBatch,
   deleteRemoteTransactionsBatch,
-  mergeTransactions,
+  deleteRemoteAccountsBatch,
+  deleteRemoteCategoriesBatch,
+  deleteRemoteBudgetsBatch,
+  deleteRemotePayeesBatch,
 } from './supabase-sync';
+import { setSupabaseTokenProvider } from './supabase';
+import { dueOccurrences, occurrenceToTransaction } from './recurrence';
+import { keepLocalFiles, pendingUploads, withRemoteFiles } from './attachments';
+import { deleteAttachmentFiles, uploadAttachments } from './attachment-files';
+import { todayString } from './format';
+import { SYNC_PAGE_SIZE, SyncCursor, SyncPage, chunk, dirtySince, usableCursor } from './delta-sync';
+import {
+  ConflictResolution, SyncConflict, SyncRecord, reconcilePage, resolveConflict, updateConflicts,
+} from './conflicts';
+import {
+  HistoryEntry, HistoryStep, LedgerHistory, LedgerRecord, RecordChange, applyToList, attachmentsIn, emptyHistory,
+  groupChanges, recordEntry, redoStep, releasedAttachments, undoStep, withoutRecords,
+} from './history';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS, Trash, TrashEntity, deletedWithAccount, emptyTrash, expiredIds, placeRecord,
+  restoredRecord, splitDeleted, tombstone,
+} from './trash';
+import { ReassignMode, moveAccount, moveCategory } from './reassign';
+import { DuplicatePair, mergeDuplicate, pairKey } from './duplicates';
+import { clearedBalance, clearedStatusChanges, reconcileDifference, statusIn, withStatus } from './reconcile';
+import { INTEREST_CATEGORY_NAME, interestCategory, loanOwed, splitPayment } from './loans';
+import {
+  RateTable, DEFAULT_CURRENCY, accountCurrency, convertAmount, currencySymbol,
+  emptyRateTable, rebaseRates, transactionsInBase,
+} from './currency';
 
 // ─── State ───────────────────────────────────────────────────────────────────
 
@@ -41,78 +123,207 @@ interface AppState {
   transactions: Transaction[];
   accounts: Account[];
   categories: Category[];
+  budgets: Budget[];
+  payees: Payee[];
+  recurringRules: RecurringRule[];
+  filterPresets: FilterPreset[];
+  categoryRules: CategoryRule[];
+  dismissedDuplicates: string[]; // pairKey()s of pairs marked "not duplicates"
+  csvProfiles: CsvProfile[];
+  reconciliations: Reconciliation[];
+  syncConflicts: SyncConflict[];
+  history: LedgerHistory;
+  trash: Trash; // deleted records; the lists above hold live ones only
+  trashRetentionDays: number;
   loading: boolean;
-  currency: string;
+  storageError: string | null; // stored data could not be migrated; nothing is loaded
+  baseCurrency: string; // ISO code totals are converted to
+  currency: string; // display symbol of baseCurrency
+  exchangeRates: RateTable;
 }
 
 type AppAction =
-  | { type: 'SET_ALL'; transactions: Transaction[]; accounts: Account[]; categories: Category[]; currency: string }
+  | { type: 'SET_ALL'; transactions: Transaction[]; accounts: Account[]; categories: Category[]; budgets: Budget[]; payees: Payee[]; recurringRules: RecurringRule[]; filterPresets: FilterPreset[]; categoryRules: CategoryRule[]; dismissedDuplicates: string[]; csvProfiles: CsvProfile[]; reconciliations: Reconciliation[]; syncConflicts: SyncConflict[]; history: LedgerHistory; trashRetentionDays: number; baseCurrency: string; exchangeRates: RateTable }
   | { type: 'SET_LOADING'; loading: boolean }
-  | { type: 'SET_CURRENCY'; currency: string }
+  | { type: 'SET_STORAGE_ERROR'; error: string | null }
+  | { type: 'SET_BASE_CURRENCY'; baseCurrency: string; exchangeRates: RateTable }
+  | { type: 'SET_EXCHANGE_RATES'; exchangeRates: RateTable }
   | { type: 'SET_TRANSACTIONS'; transactions: Transaction[] }
+  | { type: 'SET_ACCOUNTS'; accounts: Account[] }
+  | { type: 'SET_CATEGORIES'; categories: Category[] }
+  | { type: 'SET_BUDGETS'; budgets: Budget[] }
+  | { type: 'SET_PAYEES'; payees: Payee[] }
+  | { type: 'SET_RECONCILIATIONS'; reconciliations: Reconciliation[] }
+  | { type: 'SET_SYNC_CONFLICTS'; conflicts: SyncConflict[] }
+  | { type: 'SET_HISTORY'; history: LedgerHistory }
+  | { type: 'SET_TRASH_RETENTION'; days: number }
   | { type: 'UPSERT_TRANSACTION'; transaction: Transaction }
-  | { type: 'DELETE_TRANSACTION'; id: string }
   | { type: 'UPSERT_ACCOUNT'; account: Account }
-  | { type: 'DELETE_ACCOUNT'; id: string }
   | { type: 'UPSERT_CATEGORY'; category: Category }
-  | { type: 'DELETE_CATEGORY'; id: string };
+  | { type: 'UPSERT_BUDGET'; budget: Budget }
+  | { type: 'DELETE_BUDGET'; id: string }
+  | { type: 'UPSERT_PAYEE'; payee: Payee }
+  | { type: 'SET_RECURRING_RULES'; rules: RecurringRule[] }
+  | { type: 'UPSERT_RECURRING_RULE'; rule: RecurringRule }
+  | { type: 'DELETE_RECURRING_RULE'; id: string }
+  | { type: 'UPSERT_FILTER_PRESET'; preset: FilterPreset }
+  | { type: 'DELETE_FILTER_PRESET'; id: string }
+  | { type: 'SET_CATEGORY_RULES'; rules: CategoryRule[] }
+  | { type: 'UPSERT_CATEGORY_RULE'; rule: CategoryRule }
+  | { type: 'DELETE_CATEGORY_RULE'; id: string }
+  | { type: 'SET_DISMISSED_DUPLICATES'; keys: string[] }
+  | { type: 'UPSERT_CSV_PROFILE'; profile: CsvProfile }
+  | { type: 'DELETE_CSV_PROFILE'; id: string };
 
 function reducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
-    case 'SET_ALL':
+    case 'SET_ALL': {
+      const transactions = splitDeleted(action.transactions);
+      const accounts = splitDeleted(action.accounts);
+      const categories = splitDeleted(action.categories);
       return {
         ...state,
-        transactions: action.transactions,
-        accounts: action.accounts,
-        categories: action.categories,
-        currency: action.currency,
+        transactions: transactions.live,
+        accounts: accounts.live,
+        categories: categories.live,
+        trash: { transactions: transactions.deleted, accounts: accounts.deleted, categories: categories.deleted },
+        trashRetentionDays: action.trashRetentionDays,
+        budgets: action.budgets,
+        payees: action.payees,
+        recurringRules: action.recurringRules,
+        filterPresets: action.filterPresets,
+        categoryRules: action.categoryRules,
+        dismissedDuplicates: action.dismissedDuplicates,
+        csvProfiles: action.csvProfiles,
+        reconciliations: action.reconciliations,
+        syncConflicts: action.syncConflicts,
+        history: action.history,
+        baseCurrency: action.baseCurrency,
+        currency: currencySymbol(action.baseCurrency),
+        exchangeRates: action.exchangeRates,
         loading: false,
+        storageError: null,
       };
-    case 'SET_CURRENCY':
-      return { ...state, currency: action.currency };
+    }
+    case 'SET_BASE_CURRENCY':
+      return {
+        ...state,
+        baseCurrency: action.baseCurrency,
+        currency: currencySymbol(action.baseCurrency),
+        exchangeRates: action.exchangeRates,
+      };
+    case 'SET_EXCHANGE_RATES':
+      return { ...state, exchangeRates: action.exchangeRates };
     case 'SET_LOADING':
       return { ...state, loading: action.loading };
-    case 'SET_TRANSACTIONS':
-      return { ...state, transactions: action.transactions };
+    case 'SET_STORAGE_ERROR':
+      return { ...state, storageError: action.error };
+    case 'SET_TRANSACTIONS': {
+      const { live, deleted } = splitDeleted(action.transactions);
+      return { ...state, transactions: live, trash: { ...state.trash, transactions: deleted } };
+    }
+    case 'SET_ACCOUNTS': {
+      const { live, deleted } = splitDeleted(action.accounts);
+      return { ...state, accounts: live, trash: { ...state.trash, accounts: deleted } };
+    }
+    case 'SET_CATEGORIES': {
+      const { live, deleted } = splitDeleted(action.categories);
+      return { ...state, categories: live, trash: { ...state.trash, categories: deleted } };
+    }
+    case 'SET_BUDGETS':
+      return { ...state, budgets: action.budgets };
+    case 'SET_PAYEES':
+      return { ...state, payees: action.payees };
+    case 'SET_RECONCILIATIONS':
+      return { ...state, reconciliations: action.reconciliations };
+    case 'SET_SYNC_CONFLICTS':
+      return { ...state, syncConflicts: action.conflicts };
+    case 'SET_HISTORY':
+      return { ...state, history: action.history };
+    case 'SET_TRASH_RETENTION':
+      return { ...state, trashRetentionDays: action.days };
     case 'UPSERT_TRANSACTION': {
-      const idx = state.transactions.findIndex(t => t.id === action.transaction.id);
+      const { live, deleted } = placeRecord(state.transactions, state.trash.transactions, action.transaction);
+      return { ...state, transactions: live, trash: { ...state.trash, transactions: deleted } };
+    }
+    case 'UPSERT_ACCOUNT': {
+      const { live, deleted } = placeRecord(state.accounts, state.trash.accounts, action.account);
+      return { ...state, accounts: live, trash: { ...state.trash, accounts: deleted } };
+    }
+    case 'UPSERT_CATEGORY': {
+      const { live, deleted } = placeRecord(state.categories, state.trash.categories, action.category);
+      return { ...state, categories: live, trash: { ...state.trash, categories: deleted } };
+    }
+    case 'UPSERT_BUDGET': {
+      const idx = state.budgets.findIndex(b => b.id === action.budget.id);
       if (idx >= 0) {
-        const updated = [...state.transactions];
-        updated[idx] = action.transaction;
-        return { ...state, transactions: updated };
+        const updated = [...state.budgets];
+        updated[idx] = action.budget;
+        return { ...state, budgets: updated };
       }
-      return { ...state, transactions: [...state.transactions, action.transaction] };
+      return { ...state, budgets: [...state.budgets, action.budget] };
     }
-    case 'DELETE_TRANSACTION':
-      return { ...state, transactions: state.transactions.filter(t => t.id !== action.id) };
-    case 'UPSERT_ACCOUNT': {
-      const idx = state.accounts.findIndex(a => a.id === action.account.id);
+    case 'DELETE_BUDGET':
+      return { ...state, budgets: state.budgets.filter(b => b.id !== action.id) };
+    case 'UPSERT_PAYEE': {
+      const idx = state.payees.findIndex(p => p.id === action.payee.id);
       if (idx >= 0) {
-        const updated = [...state.accounts];
-        updated[idx] = action.account;
-        return { ...state, accounts: updated };
+        const updated = [...state.payees];
+        updated[idx] = action.payee;
+        return { ...state, payees: updated };
       }
-      return { ...state, accounts: [...state.accounts, action.account] };
+      return { ...state, payees: [...state.payees, action.payee] };
     }
-    case 'DELETE_ACCOUNT':
-      return {
-        ...state,
-        accounts: state.accounts.filter(a => a.id !== action.id),
-        transactions: state.transactions.filter(
-          t => t.accountId !== action.id && t.toAccountId !== action.id
-        ),
-      };
-    case 'UPSERT_CATEGORY': {
-      const idx = state.categories.findIndex(c => c.id === action.category.id);
+    case 'SET_RECURRING_RULES':
+      return { ...state, recurringRules: action.rules };
+    case 'UPSERT_RECURRING_RULE': {
+      const idx = state.recurringRules.findIndex(r => r.id === action.rule.id);
+      if (idx >= 0) {
+        const updated = [...state.recurringRules];
+        updated[idx] = action.rule;
+        return { ...state, recurringRules: updated };
+      }
+      return { ...state, recurringRules: [...state.recurringRules, action.rule] };
+    }
+    case 'DELETE_RECURRING_RULE':
+      return { ...state, recurringRules: state.recurringRules.filter(r => r.id !== action.id) };
+    case 'UPSERT_FILTER_PRESET': {
+      const idx = state.filterPresets.findIndex(p => p.id === action.preset.id);
+      if (idx >= 0) {
+        const updated = [...state.filterPresets];
+        updated[idx] = action.preset;
+        return { ...state, filterPresets: updated };
+      }
+      return { ...state, filterPresets: [...state.filterPresets, action.preset] };
+    }
+    case 'DELETE_FILTER_PRESET':
+      return { ...state, filterPresets: state.filterPresets.filter(p => p.id !== action.id) };
+    case 'SET_CATEGORY_RULES':
+      return { ...state, categoryRules: action.rules };
+    case 'UPSERT_CATEGORY_RULE': {
+      const idx = state.categoryRules.findIndex(r => r.id === action.rule.id);
+      if (idx >= 0) {
+        const updated = [...state.categoryRules];
+        updated[idx] = action.rule;
+        return { ...state, categoryRules: updated };
+      }
+      return { ...state, categoryRules: [...state.categoryRules, action.rule] };
+    }
+    case 'DELETE_CATEGORY_RULE':
+      return { ...state, categoryRules: state.categoryRules.filter(r => r.id !== action.id) };
+    case 'SET_DISMISSED_DUPLICATES':
+      return { ...state, dismissedDuplicates: action.keys };
+    case 'UPSERT_CSV_PROFILE': {
+      const idx = state.csvProfiles.findIndex(p => p.id === action.profile.id);
       if (idx >= 0) {
-        const updated = [...state.categories];
-        updated[idx] = action.category;
-        return { ...state, categories: updated };
+        const updated = [...state.csvProfiles];
+        updated[idx] = action.profile;
+        return { ...state, csvProfiles: updated };
       }
-      return { ...state, categories: [...state.categories, action.category] };
+      return { ...state, csvProfiles: [...state.csvProfiles, action.profile] };
     }
-    case 'DELETE_CATEGORY':
-      return { ...state, categories: state.categories.filter(c => c.id !== action.id) };
+    case 'DELETE_CSV_PROFILE':
+      return { ...state, csvProfiles: state.csvProfiles.filter(p => p.id !== action.id) };
     default:
       return state;
   }
@@ -123,6 +334,10 @@ function reducer(state: AppState, action: AppAction): AppState {
 interface AppContextValue {
   state: AppState;
   accountsWithBalance: AccountWithBalance[];
+  /** Transactions with amounts converted to the base currency, for totals and charts. */
+  baseTransactions: Transaction[];
+  /** Currencies in use that have no exchange rate to the base currency. */
+  missingRates: string[];
   addTransaction: (tx: Transaction) => Promise<void>;
   updateTransaction: (tx: Transaction) => Promise<void>;
   removeTransaction: (id: string) => Promise<void>;
@@ -132,7 +347,88 @@ interface AppContextValue {
   addCategory: (category: Category) => Promise<void>;
   updateCategory: (category: Category) => Promise<void>;
   removeCategory: (id: string) => Promise<void>;
-  setCurrency: (symbol: string) => Promise<void>;
+  addBudget: (budget: Budget) => Promise<void>;
+  updateBudget: (budget: Budget) => Promise<void>;
+  removeBudget: (id: string) => Promise<void>;
+  addPayee: (payee: Payee) => Promise<void>;
+  updatePayee: (payee: Payee) => Promise<void>;
+  /** Deletes a payee; its transactions and recurring rules keep everything else. */
+  removePayee: (id: string) => Promise<void>;
+  addRecurringRule: (rule: RecurringRule) => Promise<void>;
+  updateRecurringRule: (rule: RecurringRule) => Promise<void>;
+  removeRecurringRule: (id: string) => Promise<void>;
+  addFilterPreset: (preset: FilterPreset) => Promise<void>;
+  updateFilterPreset: (preset: FilterPreset) => Promise<void>;
+  removeFilterPreset: (id: string) => Promise<void>;
+  addCategoryRule: (rule: CategoryRule) => Promise<void>;
+  updateCategoryRule: (rule: CategoryRule) => Promise<void>;
+  removeCategoryRule: (id: string) => Promise<void>;
+  /** Saves the run order of the categorization rules, first to last. */
+  reorderCategoryRules: (ids: string[]) => Promise<void>;
+  /**
+   * Settles likely duplicates as one undoable step: 'merge' folds what only
+   * the duplicate has into the kept transaction, 'discard' leaves it as is;
+   * either way the duplicate goes to the trash.
+   */
+  resolveDuplicates: (pairs: DuplicatePair[], mode: 'merge' | 'discard') => Promise<void>;
+  /** Stops offering these pairs as duplicates. */
+  dismissDuplicates: (pairs: DuplicatePair[]) => Promise<void>;
+  addCsvProfile: (profile: CsvProfile) => Promise<void>;
+  updateCsvProfile: (profile: CsvProfile) => Promise<void>;
+  removeCsvProfile: (id: string) => Promise<void>;
+  /** Marks exactly `clearedIds` as cleared among the account's unreconciled transactions. */
+  saveClearedTransactions: (accountId: string, clearedIds: string[]) => Promise<void>;
+  /**
+   * Reconciles the account against a statement: the cleared transactions
+   * become reconciled and a Reconciliation is recorded, as one undoable step.
+   * With `adjustmentCategoryId`, a difference left over is posted as a
+   * transaction in that category. Returns the reconciliation.
+   */
+  reconcileAccount: (
+    accountId: string,
+    statement: { date: string; balance: number },
+    clearedIds: string[],
+    adjustmentCategoryId?: string,
+  ) => Promise<Reconciliation | null>;
+  /** Unlocks a reconciliation's transactions (back to cleared) and trashes its adjustment. */
+  undoReconciliation: (id: string) => Promise<void>;
+  /**
+   * Records a loan payment between the loan and `otherAccountId`: a transfer
+   * of the whole payment plus the interest part in the loan account, as one
+   * undoable step. Defaults to the scheduled payment; returns the split, or
+   * null when nothing is owed.
+   */
+  recordLoanPayment: (
+    loanId: string,
+    otherAccountId: string,
+    date: string,
+    amount?: number,
+  ) => Promise<{ payment: number; interest: number; principal: number } | null>;
+  setBaseCurrency: (code: string) => Promise<void>;
+  setExchangeRates: (table: RateTable) => Promise<void>;
+  /** Settles a sync conflict with the whole local or remote copy, or a per-field pick. */
+  resolveSyncConflict: (key: string, resolution: ConflictResolution) => Promise<void>;
+  /** Reverts the latest recorded ledger change; returns its label, or null with nothing to undo. */
+  undo: () => Promise<string | null>;
+  /** Re-applies the most recently undone change; returns its label, or null with nothing to redo. */
+  redo: () => Promise<string | null>;
+  /**
+   * Deletes a category after moving its transactions and rules to `targetId`;
+   * 'merge' also adds its budgets to the target's.
+   */
+  reassignCategory: (id: string, targetId: string, mode: ReassignMode) => Promise<void>;
+  /**
+   * Deletes an account after moving its transactions and rules to `targetId`;
+   * 'merge' also adds its opening balance to the target's.
+   */
+  reassignAccount: (id: string, targetId: string, mode: ReassignMode) => Promise<void>;
+  /** Takes a record out of the trash, with whatever it needs to show up again. */
+  restoreFromTrash: (entity: TrashEntity, id: string) => Promise<void>;
+  /** Deletes trashed records for good; an account takes its trashed transactions with it. */
+  purgeFromTrash: (entity: TrashEntity, ids: string[]) => Promise<void>;
+  clearTrash: () => Promise<void>;
+  /** Days before trashed records are purged; 0 keeps them until purged by hand. */
+  setTrashRetention: (days: number) => Promise<void>;
   refresh: () => Promise<void>;
 }
 
@@ -141,6 +437,265 @@ const AppContext = createContext<AppContextValue | null>(null);
 // Minimum ms between two background syncs (2 minutes)
 const SYNC_COOLDOWN_MS = 2 * 60 * 1000;
 
+// ─── Remote deletes ──────────────────────────────────────────────────────────
+
+function deleteRemoteBatch(entity: SyncEntity, ids: string[], sbUserId: string): Promise<void> {
+  switch (entity) {
+    case 'transactions': return deleteRemoteTransactionsBatch(ids, sbUserId);
+    case 'accounts': return deleteRemoteAccountsBatch(ids, sbUserId);
+    case 'categories': return deleteRemoteCategoriesBatch(ids, sbUserId);
+    case 'budgets': return deleteRemoteBudgetsBatch(ids);
+    case 'payees': return deleteRemotePayeesBatch(ids);
+  }
+}
+
+/** Flushes one pending-deletes queue; throws (keeping the queue) on network error. */
+async function flushPendingDeletes(entity: SyncEntity, sbUserId: string): Promise<void> {
+  const pending = await getPendingDeletes(entity);
+  if (pending.length === 0) return;
+  await deleteRemoteBatch(entity, pending, sbUserId);
+  await removePendingDeletes(pending, entity);
+}
+
+/**
+ * Queues the deletes so performSync can flush them even if offline right now,
+ * then tries immediately; on success the IDs are dropped from the queue.
+ */
+async function queueRemoteDelete(entity: SyncEntity, ids: string[], sbUserId: string): Promise<void> {
+  if (ids.length === 0) return;
+  for (const id of ids) await addPendingDelete(id, entity);
+
+  deleteRemoteBatch(entity, ids, sbUserId)
+    .then(() => removePendingDeletes(ids, entity))
+    .catch(e => console.warn(`[AppContext] delete ${entity}→supabase (queued for retry):`, e));
+}
+
+// ─── Delta sync ──────────────────────────────────────────────────────────────
+
+async function conflictedIds(entity: SyncEntity): Promise<Set<string>> {
+  const open = await getSyncConflicts();
+  return new Set(open.filter(c => c.entity === entity).map(c => c.local.id));
+}
+
+/**
+ * Pushes the records saved since the last successful push, in batches, then
+ * moves the mark to `startedAt`. A failed batch throws before the mark moves,
+ * so the next sync pushes the same records again. Records in conflict wait
+ * for the user's pick.
+ */
+async function pushChanges<T extends SyncRecord>(
+  entity: SyncEntity,
+  sbUserId: string,
+  records: T[],
+  startedAt: string,
+  push: (batch: T[]) => Promise<void>,
+): Promise<void> {
+  const { pushedAt } = await getSyncState(sbUserId);
+  const conflicted = await conflictedIds(entity);
+  const dirty = dirtySince(records, pushedAt[entity]).filter(r => !conflicted.has(r.id));
+  for (const batch of chunk(dirty, SYNC_PAGE_SIZE)) {
+    await push(batch);
+    await saveSyncBases(sbUserId, entity, Object.fromEntries(batch.map(r => [r.id, r.updatedAt ?? r.createdAt])));
+  }
+  await savePushMark(sbUserId, entity, startedAt);
+}
+
+/**
+ * Pulls remote rows changed after the stored cursor, a page at a time, and
+ * reconciles each page with the local records (see conflicts.ts). Each page is
+ * saved before the cursor moves past it, so an interrupted pull resumes where
+ * it stopped.
+ */
+async function pullChanges<T extends SyncRecord>(
+  entity: SyncEntity,
+  sbUserId: string,
+  fetchPage: (sbUserId: string, since: SyncCursor | null, limit: number) => Promise<SyncPage<T>>,
+  read: () => Promise<T[]>,
+  write: (merged: T[], local: T[]) => Promise<void>,
+): Promise<void> {
+  let since = usableCursor((await getSyncState(sbUserId)).pulled[entity]);
+  for (;;) {
+    const { records: page, next } = await fetchPage(sbUserId, since, SYNC_PAGE_SIZE);
+    if (page.length === 0 || !next) return;
+
+    const [local, syncState, open] = await Promise.all([read(), getSyncState(sbUserId), getSyncConflicts()]);
+    const { merged, bases, conflicts } = reconcilePage(
+      local, page, syncState.bases[entity] ?? {}, await conflictedIds(entity),
+    );
+    await write(merged, local);
+    await saveSyncBases(sbUserId, entity, bases);
+    await setSyncConflicts(updateConflicts(open, entity, page.map(r => r.id), conflicts, new Date().toISOString()));
+
+    since = next;
+    await savePullCursor(sbUserId, entity, since);
+    if (page.length < SYNC_PAGE_SIZE) return;
+  }
+}
+
+// ─── Undo history ────────────────────────────────────────────────────────────
+
+// History updates read, change and save the whole history; run them one at a time
+let historyQueue: Promise<unknown> = Promise.resolve();
+
+function serialHistory<R>(op: () => Promise<R>): Promise<R> {
+  const next = historyQueue.then(op, op);
+  historyQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Appends an entry to the stored history and returns the new history.
+ * Attachment files that only discarded entries referenced are deleted.
+ */
+function recordHistory(label: string, changes: RecordChange[], destructive = false): Promise<LedgerHistory> {
+  return serialHistory(async () => {
+    const entry: HistoryEntry = {
+      id: String(UUID.v4()), label, at: new Date().toISOString(), destructive, changes,
+    };
+    const { history, discarded } = recordEntry(await getHistory(), entry);
+    await saveHistory(history);
+    if (discarded.length > 0) {
+      deleteAttachmentFiles(releasedAttachments(attachmentsIn(discarded), history, await getTransactions()));
+    }
+    return history;
+  });
+}
+
+// ─── Trash ───────────────────────────────────────────────────────────────────
+
+const TRASH_ENTITIES: TrashEntity[] = ['transactions', 'accounts', 'categories'];
+
+/**
+ * Removes trashed records for good, along with the trashed transactions of
+ * purged accounts, the history entries that could bring any of them back, and
+ * attachment files nothing refers to any more. Live records in `ids` are left
+ * alone. Returns what was purged, for the remote delete.
+ */
+async function purgeTrashed(ids: Partial<Record<TrashEntity, string[]>>): Promise<Record<TrashEntity, string[]>> {
+  const [transactions, accounts, categories] = await Promise.all([getTransactions(), getAccounts(), getCategories()]);
+  const trashed = <T extends { id: string; deletedAt?: string }>(list: T[], wanted: string[] = []) =>
+    list.filter(r => r.deletedAt && wanted.includes(r.id));
+
+  const purgedAccounts = trashed(accounts, ids.accounts);
+  const purgedCategories = trashed(categories, ids.categories);
+  const accountIds = new Set(purgedAccounts.map(a => a.id));
+  const purgedTx = transactions.filter(t => t.deletedAt && (
+    ids.transactions?.includes(t.id)
+    || accountIds.has(t.accountId) || (t.toAccountId !== undefined && accountIds.has(t.toAccountId))
+  ));
+  const purged: Record<TrashEntity, string[]> = {
+    transactions: purgedTx.map(t => t.id),
+    accounts: purgedAccounts.map(a => a.id),
+    categories: purgedCategories.map(c => c.id),
+  };
+
+  await purgeTransactions(purged.transactions);
+  await purgeAccounts(purged.accounts);
+  await purgeCategories(purged.categories);
+  await forgetPurged(purged, purgedTx.flatMap(t => t.attachments ?? []));
+  return purged;
+}
+
+/**
+ * Drops the history entries that could bring purged records back, then the
+ * attachment files nothing refers to any more. Run once the records are gone.
+ */
+function forgetPurged(purged: Partial<Record<TrashEntity, string[]>>, attachments: Attachment[]): Promise<void> {
+  return serialHistory(async () => {
+    let history = await getHistory();
+    const discarded: HistoryEntry[] = [];
+    for (const entity of TRASH_ENTITIES) {
+      const result = withoutRecords(history, entity, purged[entity] ?? []);
+      history = result.history;
+      discarded.push(...result.discarded);
+    }
+    await saveHistory(history);
+    const candidates = [...attachments, ...attachmentsIn(discarded)];
+    deleteAttachmentFiles(releasedAttachments(candidates, history, await getTransactions()));
+  });
+}
+
+/** Forgets the records of a pulled page that were purged on another device (see forgetPurged). */
+async function forgetPulledPurges<T extends { id: string; purgedAt?: string; attachments?: Attachment[] }>(
+  entity: TrashEntity,
+  merged: T[],
+  local: T[],
+): Promise<void> {
+  const ids = new Set(merged.filter(r => r.purgedAt).map(r => r.id));
+  if (ids.size === 0) return;
+  await forgetPurged({ [entity]: [...ids] }, local.filter(r => ids.has(r.id)).flatMap(r => r.attachments ?? []));
+}
+
+/**
+ * Purges what has been in the trash longer than `retentionDays`. The remote
+ * copies are tombstoned by the next sync's pending-deletes flush; the purge
+ * then reaches every device, even one that restored or edited the record
+ * before it (see reconcilePage).
+ */
+async function purgeExpiredTrash(retentionDays: number): Promise<void> {
+  const [transactions, accounts, categories] = await Promise.all([getTransactions(), getAccounts(), getCategories()]);
+  const now = new Date();
+  const purged = await purgeTrashed({
+    transactions: expiredIds(transactions, retentionDays, now),
+    accounts: expiredIds(accounts, retentionDays, now),
+    categories: expiredIds(categories, retentionDays, now),
+  });
+  for (const entity of TRASH_ENTITIES) {
+    for (const id of purged[entity]) await addPendingDelete(id, entity);
+  }
+}
+
+// ─── Recurring transactions ──────────────────────────────────────────────────
+
+/** Deterministic per (rule, date), so an occurrence can never be generated twice. */
+function occurrenceId(ruleId: string, date: string): string {
+  return String(UUID.v5(`${ruleId}:${date}`, UUID.URL));
+}
+
+/**
+ * Every due occurrence that is not stored yet as a new transaction, and each
+ * rule with its `lastGeneratedDate` advanced past them. Saves nothing.
+ */
+async function dueRecurringTransactions(today: string): Promise<{ created: Transaction[]; advanced: RecurringRule[] }> {
+  const [rules, existing] = await Promise.all([getRecurringRules(), getTransactions()]);
+  const existingIds = new Set(existing.map(t => t.id));
+  const now = new Date().toISOString();
+  const created: Transaction[] = [];
+  const advanced: RecurringRule[] = [];
+
+  for (const rule of rules) {
+    const due = dueOccurrences(rule, today);
+    if (due.length === 0) continue;
+    for (const occ of due) {
+      const id = occurrenceId(rule.id, occ.date);
+      if (!existingIds.has(id)) created.push(occurrenceToTransaction(rule, occ, id, now));
+    }
+    advanced.push({ ...rule, lastGeneratedDate: due[due.length - 1].date, updatedAt: now });
+  }
+  return { created, advanced };
+}
+
+/**
+ * Uploads attachment files that are not in remote storage yet — for the given
+ * transactions, or all of them. Returns the updated transaction list, or null
+ * when nothing was uploaded.
+ */
+async function uploadPendingAttachments(ids?: string[]): Promise<Transaction[] | null> {
+  const pending = (await getTransactions())
+    .filter(t => !ids || ids.includes(t.id))
+    .flatMap(pendingUploads);
+  if (pending.length === 0) return null;
+
+  const uploads = await uploadAttachments(pending);
+  if (uploads.size === 0) return null;
+
+  // Re-read: the user may have edited the transaction while files were uploading
+  const now = new Date().toISOString();
+  const updated = (await getTransactions()).map(t => withRemoteFiles(t, uploads, now));
+  await setTransactions(updated);
+  return updated;
+}
+
 // ─── Provider ────────────────────────────────────────────────────────────────
 
 export function AppProvider({ children }: { children: React.ReactNode }) {
@@ -148,11 +703,26 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     transactions: [],
     accounts: [],
     categories: [],
+    budgets: [],
+    payees: [],
+    recurringRules: [],
+    filterPresets: [],
+    categoryRules: [],
+    dismissedDuplicates: [],
+    csvProfiles: [],
+    reconciliations: [],
+    syncConflicts: [],
+    history: emptyHistory(),
+    trash: emptyTrash(),
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
     loading: true,
-    currency: '$',
+    storageError: null,
+    baseCurrency: DEFAULT_CURRENCY,
+    currency: currencySymbol(DEFAULT_CURRENCY),
+    exchangeRates: emptyRateTable(DEFAULT_CURRENCY),
   });
 
-  const { isLoaded: authLoaded, userId } = useAuth();
+  const { isLoaded: authLoaded, userId, getToken } = useAuth();
   const { user } = useUser();
 
   // Supabase UUID once the user is synced
@@ -165,14 +735,41 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   // ── Load from local storage ──────────────────────────────────────────────
 
   const loadAll = useCallback(async () => {
-    await initializeStorage();
-    const [transactions, accounts, categories, currency] = await Promise.all([
+    // Stays loading on failure, so sync never starts on data at the old version
+    try {
+      await initializeStorage();
+    } catch (e) {
+      dispatch({ type: 'SET_STORAGE_ERROR', error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    const trashRetentionDays = await getTrashRetentionDays();
+    await purgeExpiredTrash(trashRetentionDays);
+
+    const [
+      transactions, accounts, categories, budgets, payees, recurringRules, filterPresets, categoryRules, dismissedDuplicates,
+      csvProfiles, reconciliations, syncConflicts, history, baseCurrency, exchangeRates,
+    ] = await Promise.all([
       getTransactions(),
       getAccounts(),
       getCategories(),
-      getCurrency(),
+      getBudgets(),
+      getPayees(),
+      getRecurringRules(),
+      getFilterPresets(),
+      getCategoryRules(),
+      getDismissedDuplicates(),
+      getCsvProfiles(),
+      getReconciliations(),
+      getSyncConflicts(),
+      getHistory(),
+      getBaseCurrency(),
+      getExchangeRates(),
     ]);
-    dispatch({ type: 'SET_ALL', transactions, accounts, categories, currency });
+    dispatch({
+      type: 'SET_ALL',
+      transactions, accounts, categories, budgets, payees, recurringRules, filterPresets, categoryRules, dismissedDuplicates,
+      csvProfiles, reconciliations, syncConflicts, history, trashRetentionDays, baseCurrency, exchangeRates,
+    });
   }, []);
 
   useEffect(() => {
@@ -182,37 +779,83 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   // ── Core sync function ───────────────────────────────────────────────────
 
   /**
-   * Full sync with Supabase:
-   *  1. Push all local transactions (covers offline adds / edits)
-   *  2. Flush the pending-deletes queue (throws on network error → queue is kept for retry)
-   *  3. Fetch remote + merge (last-write-wins) + persist locally
+   * Delta sync with Supabase:
+   *  1. Flush the pending-deletes queues (throws on network error → queues are kept for retry)
+   *  2. Pull rows changed remotely since the last sync and reconcile them; edits that
+   *     collide with a local edit become sync conflicts instead of overwriting it
+   *  3. Push records changed locally since the last sync, except those in conflict
+   * Pulling before pushing lets step 2 see the other device's edit before this one
+   * replaces it. Marks and cursors only move after a step succeeds.
    */
   const performSync = useCallback(async (sbUserId: string) => {
     if (isSyncingRef.current) return;
     isSyncingRef.current = true;
     try {
-      const [localTx, categories, accounts] = await Promise.all([
+      // 0. Upload attachments added offline, so the pushed rows reference them
+      await uploadPendingAttachments();
+
+      // 1. Flush pending deletes — if this throws (network error) we stop here
+      //    and the queues stay intact for the next sync attempt.
+      await flushPendingDeletes('transactions', sbUserId);
+      await flushPendingDeletes('accounts', sbUserId);
+      await flushPendingDeletes('categories', sbUserId);
+      await flushPendingDeletes('budgets', sbUserId);
+      await flushPendingDeletes('payees', sbUserId);
+
+      // 2. Pull remote changes into the latest local copy
+      // A pulled purge removes the record, like purging it here
+      await pullChanges('accounts', sbUserId, fetchRemoteAccounts, getAccounts, async (merged, local) => {
+        const accounts = merged.filter(a => !a.purgedAt);
+        await setAccounts(accounts);
+        dispatch({ type: 'SET_ACCOUNTS', accounts });
+        await forgetPulledPurges('accounts', merged, local);
+      });
+      await pullChanges('categories', sbUserId, fetchRemoteCategories, getCategories, async (merged, local) => {
+        const categories = merged.filter(c => !c.purgedAt);
+        await setCategories(categories);
+        dispatch({ type: 'SET_CATEGORIES', categories });
+        await forgetPulledPurges('categories', merged, local);
+      });
+      // Budgets and payees have no trash: a pulled tombstone removes the record
+      await pullChanges('budgets', sbUserId, fetchRemoteBudgets, getBudgets, async merged => {
+        const budgets = merged.filter(b => !b.deletedAt);
+        await setBudgets(budgets);
+        dispatch({ type: 'SET_BUDGETS', budgets });
+      });
+      await pullChanges('payees', sbUserId, fetchRemotePayees, getPayees, async merged => {
+        const payees = merged.filter(p => !p.deletedAt);
+        await setPayees(payees);
+        dispatch({ type: 'SET_PAYEES', payees });
+      });
+      await pullChanges('transactions', sbUserId, fetchRemoteTransactions, getTransactions, async (merged, local) => {
+        // Attachments keep their local file on this device even when the remote row wins
+        const localById = new Map(local.map(t => [t.id, t]));
+        const transactions = merged.filter(t => !t.purgedAt).map(t => keepLocalFiles(t, localById.get(t.id)));
+        await setTransactions(transactions);
+        dispatch({ type: 'SET_TRANSACTIONS', transactions });
+        await forgetPulledPurges('transactions', merged, local);
+      });
+      dispatch({ type: 'SET_SYNC_CONFLICTS', conflicts: await getSyncConflicts() });
+
+      // 3. Push local changes; anything saved from here on is dirty for the next sync
+      const startedAt = new Date().toISOString();
+      const [localTx, categories, accounts, budgets, payees] = await Promise.all([
         getTransactions(),
         getCategories(),
         getAccounts(),
+        getBudgets(),
+        getPayees(),
       ]);
-
-      // 1. Push local transactions (handles offline adds / edits)
-      await pushTransactionsBatch(localTx, sbUserId, categories, accounts);
-
-      // 2. Flush pending deletes — if this throws (network error) we stop here
-      //    and the queue stays intact for the next sync attempt.
-      const pendingDeletes = await getPendingDeletes();
-      if (pendingDeletes.length > 0) {
-        await deleteRemoteTransactionsBatch(pendingDeletes);
-        await clearPendingDeletes();
-      }
-
-      // 3. Fetch remote + merge + save
-      const remoteTx = await fetchRemoteTransactions(sbUserId);
-      const merged = mergeTransactions(localTx, remoteTx);
-      await setTransactions(merged);
-      dispatch({ type: 'SET_TRANSACTIONS', transactions: merged });
+      await pushChanges('accounts', sbUserId, accounts, startedAt,
+        batch => pushAccountsBatch(batch, sbUserId));
+      await pushChanges('categories', sbUserId, categories, startedAt,
+        batch => pushCategoriesBatch(batch, sbUserId));
+      await pushChanges('budgets', sbUserId, budgets, startedAt,
+        batch => pushBudgetsBatch(batch, sbUserId));
+      await pushChanges('payees', sbUserId, payees, startedAt,
+        batch => pushPayeesBatch(batch, sbUserId));
+      await pushChanges('transactions', sbUserId, localTx, startedAt,
+        batch => pushTransactionsBatch(batch, sbUserId, categories, accounts));
 
       lastSyncAtRef.current = Date.now();
     } finally {
@@ -229,6 +872,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     if (sbUserIdRef.current) return;
 
     const initialSync = async () => {
+      setSupabaseTokenProvider(() => getToken());
       const sbUserId = await upsertSupabaseUser(
         userId,
         user.fullName ?? null,
@@ -242,111 +886,882 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     };
 
     initialSync().catch(e => console.warn('[AppContext] initial sync error:', e));
-  }, [authLoaded, userId, user, state.loading, performSync]);
-
-  // ── Re-sync when app comes to foreground (catches offline changes) ───────
-
-  useEffect(() => {
-    const sub = AppState.addEventListener('change', nextState => {
-      if (nextState !== 'active') return;
-      const sbId = sbUserIdRef.current;
-      if (!sbId) return;
-      if (Date.now() - lastSyncAtRef.current < SYNC_COOLDOWN_MS) return;
-      performSync(sbId).catch(e => console.warn('[AppContext] foreground sync error:', e));
-    });
-    return () => sub.remove();
-  }, [performSync]);
+  }, [authLoaded, userId, user, state.loading, performSync, getToken]);
 
   // ── Computed ─────────────────────────────────────────────────────────────
 
-  const accountsWithBalance: AccountWithBalance[] = state.accounts.map(acc => ({
-    ...acc,
-    balance: computeAccountBalance(acc, state.transactions),
-  }));
+  const accountsWithBalance: AccountWithBalance[] = state.accounts.map(acc => {
+    const balance = computeAccountBalance(acc, state.transactions);
+    return {
+      ...acc,
+      balance,
+      balanceInBase: convertAmount(
+        balance, accountCurrency(acc, state.baseCurrency), state.baseCurrency, state.exchangeRates,
+      ),
+    };
+  });
+
+  const { transactions: baseTransactions, missing: missingRates } = useMemo(
+    () => transactionsInBase(state.transactions, state.accounts, state.baseCurrency, state.exchangeRates),
+    [state.transactions, state.accounts, state.baseCurrency, state.exchangeRates],
+  );
 
   // ── Mutations ────────────────────────────────────────────────────────────
 
+  /** Adds an entry to the undo history. */
+  const record = useCallback(async (label: string, changes: RecordChange[], destructive = false) => {
+    dispatch({ type: 'SET_HISTORY', history: await recordHistory(label, changes, destructive) });
+  }, []);
+
+  /** Uploads the transaction's new attachments (if any), then pushes it. */
+  const pushWithAttachments = useCallback(async (tx: Transaction, sbId: string) => {
+    let latest = tx;
+    if (pendingUploads(tx).length > 0) {
+      const updated = await uploadPendingAttachments([tx.id]);
+      if (updated) {
+        dispatch({ type: 'SET_TRANSACTIONS', transactions: updated });
+        latest = updated.find(t => t.id === tx.id) ?? tx;
+      }
+    }
+    const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
+    await pushTransaction(latest, sbId, categories, accounts);
+  }, []);
+
   const addTransaction = useCallback(async (tx: Transaction) => {
     await saveTransaction(tx);
     dispatch({ type: 'UPSERT_TRANSACTION', transaction: tx });
+    await record('Transaction added', [{ entity: 'transactions', before: null, after: tx }]);
     const sbId = sbUserIdRef.current;
     if (sbId) {
-      const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
       // Fire-and-forget; if offline, next performSync pushes it via pushTransactionsBatch
-      pushTransaction(tx, sbId, categories, accounts)
+      pushWithAttachments(tx, sbId)
         .catch(e => console.warn('[AppContext] add→supabase error:', e));
     }
-  }, []);
+  }, [pushWithAttachments, record]);
 
   const updateTransaction = useCallback(async (tx: Transaction) => {
+    // Files of removed attachments stay until the edit can no longer be undone
+    const previous = await getTransaction(tx.id);
     await saveTransaction(tx);
     dispatch({ type: 'UPSERT_TRANSACTION', transaction: tx });
+    await record('Transaction edited', [{ entity: 'transactions', before: previous ?? null, after: tx }]);
     const sbId = sbUserIdRef.current;
     if (sbId) {
-      const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
-      pushTransaction(tx, sbId, categories, accounts)
+      pushWithAttachments(tx, sbId)
         .catch(e => console.warn('[AppContext] update→supabase error:', e));
     }
-  }, []);
+  }, [pushWithAttachments, record]);
 
   const removeTransaction = useCallback(async (id: string) => {
-    // Local delete is always immediate
-    await deleteTransaction(id);
-    dispatch({ type: 'DELETE_TRANSACTION', id });
+    // Moves it to the trash; the tombstone syncs like an edit
+    const previous = await getTransaction(id);
+    const deleted = await deleteTransaction(id);
+    if (!previous || !deleted || previous.deletedAt) return;
+    dispatch({ type: 'UPSERT_TRANSACTION', transaction: deleted });
+    await record('Transaction deleted', [{ entity: 'transactions', before: previous, after: deleted }], true);
 
     const sbId = sbUserIdRef.current;
     if (!sbId) return; // guest mode — local only
 
-    // Queue the delete so performSync can flush it even if offline right now
-    await addPendingDelete(id);
-
-    // Also try immediately; if it succeeds, remove from queue
-    deleteRemoteTransaction(id)
-      .then(async () => {
-        const ids = await getPendingDeletes();
-        const remaining = ids.filter(i => i !== id);
-        await clearPendingDeletes();
-        // Re-add any other pending deletes that were in the queue
-        for (const remaining_id of remaining) {
-          await addPendingDelete(remaining_id);
-        }
-      })
-      .catch(e => console.warn('[AppContext] delete→supabase (queued for retry):', e));
-  }, []);
+    const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
+    pushTransaction(deleted, sbId, categories, accounts)
+      .catch(e => console.warn('[AppContext] delete→supabase error:', e));
+  }, [record]);
 
   const addAccount = useCallback(async (account: Account) => {
     await saveAccount(account);
     dispatch({ type: 'UPSERT_ACCOUNT', account });
-  }, []);
+    await record('Account added', [{ entity: 'accounts', before: null, after: account }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      // Fire-and-forget; if offline, next performSync pushes it via pushAccountsBatch
+      pushAccountsBatch([account], sbId)
+        .catch(e => console.warn('[AppContext] add account→supabase error:', e));
+    }
+  }, [record]);
 
   const updateAccount = useCallback(async (account: Account) => {
+    const previous = (await getAccounts()).find(a => a.id === account.id);
     await saveAccount(account);
     dispatch({ type: 'UPSERT_ACCOUNT', account });
-  }, []);
+    await record('Account edited', [{ entity: 'accounts', before: previous ?? null, after: account }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushAccountsBatch([account], sbId)
+        .catch(e => console.warn('[AppContext] update account→supabase error:', e));
+    }
+  }, [record]);
 
   const removeAccount = useCallback(async (id: string) => {
-    await deleteAccount(id);
-    dispatch({ type: 'DELETE_ACCOUNT', id });
-  }, []);
+    // deleteAccount trashes the linked transactions with the account and drops
+    // the rules that would post to it — one undo restores all of them
+    const [account, linkedTx, linkedRules] = await Promise.all([
+      getAccounts().then(list => list.find(a => a.id === id)),
+      getTransactionsForAccount(id).then(list => list.filter(t => !t.deletedAt)),
+      getRecurringRules().then(list => list.filter(r => r.accountId === id || r.toAccountId === id)),
+    ]);
+    if (!account || account.deletedAt) return;
+    const deletedAt = new Date().toISOString();
+    await deleteAccount(id, deletedAt);
+    const deletedAccount = tombstone(account, deletedAt);
+    const deletedTx = linkedTx.map(t => tombstone(t, deletedAt));
+
+    const [transactions, rules] = await Promise.all([getTransactions(), getRecurringRules()]);
+    dispatch({ type: 'UPSERT_ACCOUNT', account: deletedAccount });
+    dispatch({ type: 'SET_TRANSACTIONS', transactions });
+    dispatch({ type: 'SET_RECURRING_RULES', rules });
+    await record('Account deleted', [
+      { entity: 'accounts', before: account, after: deletedAccount },
+      ...linkedTx.map((t, i) => ({ entity: 'transactions' as const, before: t, after: deletedTx[i] })),
+      ...linkedRules.map(r => ({ entity: 'recurringRules' as const, before: r, after: null })),
+    ], true);
+
+    const sbId = sbUserIdRef.current;
+    if (!sbId) return;
+
+    (async () => {
+      await pushAccountsBatch([deletedAccount], sbId);
+      if (deletedTx.length === 0) return;
+      const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
+      await pushTransactionsBatch(deletedTx, sbId, categories, accounts);
+    })().catch(e => console.warn('[AppContext] delete account→supabase error:', e));
+  }, [record]);
 
   const addCategory = useCallback(async (category: Category) => {
     await saveCategory(category);
     dispatch({ type: 'UPSERT_CATEGORY', category });
-  }, []);
+    await record('Category added', [{ entity: 'categories', before: null, after: category }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushCategoriesBatch([category], sbId)
+        .catch(e => console.warn('[AppContext] add category→supabase error:', e));
+    }
+  }, [record]);
 
   const updateCategory = useCallback(async (category: Category) => {
+    const previous = (await getCategories()).find(c => c.id === category.id);
     await saveCategory(category);
     dispatch({ type: 'UPSERT_CATEGORY', category });
-  }, []);
+    await record('Category edited', [{ entity: 'categories', before: previous ?? null, after: category }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushCategoriesBatch([category], sbId)
+        .catch(e => console.warn('[AppContext] update category→supabase error:', e));
+    }
+  }, [record]);
 
   const removeCategory = useCallback(async (id: string) => {
-    await deleteCategory(id);
-    dispatch({ type: 'DELETE_CATEGORY', id });
+    const previous = (await getCategories()).find(c => c.id === id);
+    const deleted = await deleteCategory(id);
+    if (!previous || !deleted || previous.deletedAt) return;
+    dispatch({ type: 'UPSERT_CATEGORY', category: deleted });
+    await record('Category deleted', [{ entity: 'categories', before: previous, after: deleted }], true);
+
+    const sbId = sbUserIdRef.current;
+    if (!sbId) return;
+
+    pushCategoriesBatch([deleted], sbId)
+      .catch(e => console.warn('[AppContext] delete category→supabase error:', e));
+  }, [record]);
+
+  const addBudget = useCallback(async (budget: Budget) => {
+    await saveBudget(budget);
+    dispatch({ type: 'UPSERT_BUDGET', budget });
+    await record('Budget added', [{ entity: 'budgets', before: null, after: budget }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushBudgetsBatch([budget], sbId)
+        .catch(e => console.warn('[AppContext] add budget→supabase error:', e));
+    }
+  }, [record]);
+
+  const updateBudget = useCallback(async (budget: Budget) => {
+    const previous = (await getBudgets()).find(b => b.id === budget.id);
+    await saveBudget(budget);
+    dispatch({ type: 'UPSERT_BUDGET', budget });
+    await record('Budget edited', [{ entity: 'budgets', before: previous ?? null, after: budget }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushBudgetsBatch([budget], sbId)
+        .catch(e => console.warn('[AppContext] update budget→supabase error:', e));
+    }
+  }, [record]);
+
+  const removeBudget = useCallback(async (id: string) => {
+    const previous = (await getBudgets()).find(b => b.id === id);
+    await deleteBudget(id);
+    dispatch({ type: 'DELETE_BUDGET', id });
+    if (previous) {
+      await record('Budget deleted', [{ entity: 'budgets', before: previous, after: null }], true);
+    }
+
+    const sbId = sbUserIdRef.current;
+    if (!sbId) return;
+
+    await queueRemoteDelete('budgets', [id], sbId);
+  }, [record]);
+
+  const addPayee = useCallback(async (payee: Payee) => {
+    await savePayee(payee);
+    dispatch({ type: 'UPSERT_PAYEE', payee });
+    await record('Payee added', [{ entity: 'payees', before: null, after: payee }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushPayeesBatch([payee], sbId)
+        .catch(e => console.warn('[AppContext] add payee→supabase error:', e));
+    }
+  }, [record]);
+
+  const updatePayee = useCallback(async (payee: Payee) => {
+    const previous = (await getPayees()).find(p => p.id === payee.id);
+    await savePayee(payee);
+    dispatch({ type: 'UPSERT_PAYEE', payee });
+    await record('Payee edited', [{ entity: 'payees', before: previous ?? null, after: payee }]);
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      pushPayeesBatch([payee], sbId)
+        .catch(e => console.warn('[AppContext] update payee→supabase error:', e));
+    }
+  }, [record]);
+
+  /**
+   * Posts due recurring transactions (e.g. after midnight) through
+   * addTransaction like any other new one, then advances the rules. The
+   * rule's payee, category and tags were filled in when it was saved.
+   */
+  const generateDueTransactions = useCallback(async () => {
+    const { created, advanced } = await dueRecurringTransactions(todayString());
+    // Transactions first: if we stop in between, the deterministic IDs dedupe the retry
+    for (const tx of created) await addTransaction(tx);
+    if (advanced.length === 0) return;
+    for (const rule of advanced) await saveRecurringRule(rule);
+    dispatch({ type: 'SET_RECURRING_RULES', rules: await getRecurringRules() });
+  }, [addTransaction]);
+
+  const addRecurringRule = useCallback(async (rule: RecurringRule) => {
+    await saveRecurringRule(rule);
+    dispatch({ type: 'UPSERT_RECURRING_RULE', rule });
+    // A rule starting today (or in the past) posts its first transactions right away
+    await generateDueTransactions();
+  }, [generateDueTransactions]);
+
+  const updateRecurringRule = useCallback(async (rule: RecurringRule) => {
+    await saveRecurringRule(rule);
+    dispatch({ type: 'UPSERT_RECURRING_RULE', rule });
+    await generateDueTransactions();
+  }, [generateDueTransactions]);
+
+  const removeRecurringRule = useCallback(async (id: string) => {
+    // Already-generated transactions are kept; only future occurrences stop
+    await deleteRecurringRule(id);
+    dispatch({ type: 'DELETE_RECURRING_RULE', id });
+  }, []);
+
+  const addFilterPreset = useCallback(async (preset: FilterPreset) => {
+    await saveFilterPreset(preset);
+    dispatch({ type: 'UPSERT_FILTER_PRESET', preset });
+  }, []);
+
+  const updateFilterPreset = useCallback(async (preset: FilterPreset) => {
+    await saveFilterPreset(preset);
+    dispatch({ type: 'UPSERT_FILTER_PRESET', preset });
+  }, []);
+
+  const removeFilterPreset = useCallback(async (id: string) => {
+    await deleteFilterPreset(id);
+    dispatch({ type: 'DELETE_FILTER_PRESET', id });
+  }, []);
+
+  const addCategoryRule = useCallback(async (rule: CategoryRule) => {
+    await saveCategoryRule(rule);
+    dispatch({ type: 'UPSERT_CATEGORY_RULE', rule });
+  }, []);
+
+  const updateCategoryRule = useCallback(async (rule: CategoryRule) => {
+    await saveCategoryRule(rule);
+    dispatch({ type: 'UPSERT_CATEGORY_RULE', rule });
+  }, []);
+
+  const removeCategoryRule = useCallback(async (id: string) => {
+    await deleteCategoryRule(id);
+    dispatch({ type: 'DELETE_CATEGORY_RULE', id });
+  }, []);
+
+  const reorderCategoryRules = useCallback(async (ids: string[]) => {
+    const now = new Date().toISOString();
+    const rules = (await getCategoryRules()).map(r => {
+      const sortOrder = ids.indexOf(r.id);
+      return sortOrder >= 0 && sortOrder !== r.sortOrder ? { ...r, sortOrder, updatedAt: now } : r;
+    });
+    await setCategoryRules(rules);
+    dispatch({ type: 'SET_CATEGORY_RULES', rules });
+  }, []);
+
+  const addCsvProfile = useCallback(async (profile: CsvProfile) => {
+    await saveCsvProfile(profile);
+    dispatch({ type: 'UPSERT_CSV_PROFILE', profile });
   }, []);
 
-  const setCurrency = useCallback(async (symbol: string) => {
-    await saveCurrency(symbol);
-    dispatch({ type: 'SET_CURRENCY', currency: symbol });
+  const updateCsvProfile = useCallback(async (profile: CsvProfile) => {
+    await saveCsvProfile(profile);
+    dispatch({ type: 'UPSERT_CSV_PROFILE', profile });
+  }, []);
+
+  const removeCsvProfile = useCallback(async (id: string) => {
+    await deleteCsvProfile(id);
+    dispatch({ type: 'DELETE_CSV_PROFILE', id });
+  }, []);
+
+  /** Points categorization rules at `to` instead of `from` (rules are not part of undo history). */
+  const retargetCategoryRules = useCallback(async (
+    field: 'categoryId' | 'accountId', from: string, to: string,
+  ) => {
+    const now = new Date().toISOString();
+    let changed = false;
+    const rules = (await getCategoryRules()).map(r => {
+      if (field === 'categoryId' && r.categoryId === from) {
+        changed = true;
+        return { ...r, categoryId: to, updatedAt: now };
+      }
+      if (field === 'accountId' && r.conditions.accountId === from) {
+        changed = true;
+        return { ...r, conditions: { ...r.conditions, accountId: to }, updatedAt: now };
+      }
+      return r;
+    });
+    if (!changed) return;
+    await setCategoryRules(rules);
+    dispatch({ type: 'SET_CATEGORY_RULES', rules });
+  }, []);
+
+  const setBaseCurrency = useCallback(async (code: string) => {
+    // Keep the rate table quoted in the base currency so the editor shows "1 X = n base"
+    const exchangeRates = rebaseRates(await getExchangeRates(), code);
+    await saveBaseCurrency(code);
+    await saveExchangeRates(exchangeRates);
+    dispatch({ type: 'SET_BASE_CURRENCY', baseCurrency: code, exchangeRates });
+  }, []);
+
+  const setExchangeRates = useCallback(async (table: RateTable) => {
+    await saveExchangeRates(table);
+    dispatch({ type: 'SET_EXCHANGE_RATES', exchangeRates: table });
+  }, []);
+
+  const resolveSyncConflict = useCallback(async (key: string, resolution: ConflictResolution) => {
+    const open = await getSyncConflicts();
+    const conflict = open.find(c => c.key === key);
+    if (!conflict) return;
+
+    // Edits made here since the conflict was detected belong to the local side
+    const readers: Record<SyncEntity, () => Promise<SyncRecord[]>> = {
+      transactions: getTransactions, accounts: getAccounts, categories: getCategories, budgets: getBudgets,
+      payees: getPayees,
+    };
+    const current = (await readers[conflict.entity]()).find(r => r.id === conflict.local.id);
+    const resolved = resolveConflict({ ...conflict, local: current ?? conflict.local }, resolution, new Date().toISOString());
+    // The resolved record is based on the remote copy, so the next pull does not flag it again
+    const sbId = sbUserIdRef.current;
+    if (sbId) {
+      await saveSyncBases(sbId, conflict.entity, {
+        [conflict.remote.id]: conflict.remote.updatedAt ?? conflict.remote.createdAt,
+      });
+    }
+    const remaining = open.filter(c => c.key !== key);
+    await setSyncConflicts(remaining);
+    dispatch({ type: 'SET_SYNC_CONFLICTS', conflicts: remaining });
+
+    switch (conflict.entity) {
+      case 'transactions':
+        await updateTransaction(keepLocalFiles(resolved as Transaction, current as Transaction | undefined));
+        break;
+      case 'accounts': await updateAccount(resolved as Account); break;
+      case 'categories': await updateCategory(resolved as Category); break;
+      case 'budgets': {
+        if (!(resolved as Budget).deletedAt) { await updateBudget(resolved as Budget); break; }
+        const budgets = (await getBudgets()).filter(b => b.id !== resolved.id);
+        await setBudgets(budgets);
+        dispatch({ type: 'SET_BUDGETS', budgets });
+        break;
+      }
+      case 'payees': {
+        if (!(resolved as Payee).deletedAt) { await updatePayee(resolved as Payee); break; }
+        const payees = (await getPayees()).filter(p => p.id !== resolved.id);
+        await setPayees(payees);
+        dispatch({ type: 'SET_PAYEES', payees });
+        break;
+      }
+    }
+  }, [updateTransaction, updateAccount, updateCategory, updateBudget, updatePayee]);
+
+  // ── Catch up on recurring transactions once loaded ──────────────────────
+
+  useEffect(() => {
+    if (state.loading) return;
+    generateDueTransactions().catch(e => console.warn('[AppContext] recurring error:', e));
+  }, [state.loading, generateDueTransactions]);
+
+  // ── Re-sync when app comes to foreground (catches offline changes) ───────
+
+  useEffect(() => {
+    if (state.loading) return; // includes data that failed to migrate
+    const sub = AppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') return;
+      generateDueTransactions()
+        .then(() => {
+          const sbId = sbUserIdRef.current;
+          if (!sbId) return;
+          if (Date.now() - lastSyncAtRef.current < SYNC_COOLDOWN_MS) return;
+          return performSync(sbId);
+        })
+        .catch(e => console.warn('[AppContext] foreground sync error:', e));
+    });
+    return () => sub.remove();
+  }, [state.loading, performSync, generateDueTransactions]);
+
+  // ── Undo / redo ──────────────────────────────────────────────────────────
+
+  /**
+   * Writes the records of an undo or redo step. Restored records get a fresh
+   * `updatedAt` so the next sync pushes them over the server copy, and are
+   * taken out of the pending-deletes queue so a queued delete cannot remove
+   * them again. Records the step deletes go through the queue as usual.
+   */
+  const applyChanges = useCallback(async (changes: RecordChange[]) => {
+    const now = new Date().toISOString();
+    const groups = groupChanges(changes);
+    const stamped = <T extends LedgerRecord>(records: LedgerRecord[] = []) =>
+      records.map(r => ({ ...r, updatedAt: now })) as T[];
+
+    const savedTx = stamped<Transaction>(groups.transactions?.save);
+    const savedAccounts = stamped<Account>(groups.accounts?.save);
+    const savedCategories = stamped<Category>(groups.categories?.save);
+    const savedBudgets = stamped<Budget>(groups.budgets?.save);
+    const savedPayees = stamped<Payee>(groups.payees?.save);
+    const savedRules = stamped<RecurringRule>(groups.recurringRules?.save);
+    const savedReconciliations = stamped<Reconciliation>(groups.reconciliations?.save);
+
+    if (groups.accounts) {
+      const accounts = applyToList(await getAccounts(), savedAccounts, groups.accounts.remove);
+      await setAccounts(accounts);
+      dispatch({ type: 'SET_ACCOUNTS', accounts });
+    }
+    if (groups.categories) {
+      const categories = applyToList(await getCategories(), savedCategories, groups.categories.remove);
+      await setCategories(categories);
+      dispatch({ type: 'SET_CATEGORIES', categories });
+    }
+    if (groups.budgets) {
+      const budgets = applyToList(await getBudgets(), savedBudgets, groups.budgets.remove);
+      await setBudgets(budgets);
+      dispatch({ type: 'SET_BUDGETS', budgets });
+    }
+    if (groups.payees) {
+      const payees = applyToList(await getPayees(), savedPayees, groups.payees.remove);
+      await setPayees(payees);
+      dispatch({ type: 'SET_PAYEES', payees });
+    }
+    if (groups.recurringRules) {
+      for (const rule of savedRules) await saveRecurringRule(rule);
+      for (const id of groups.recurringRules.remove) await deleteRecurringRule(id);
+      dispatch({ type: 'SET_RECURRING_RULES', rules: await getRecurringRules() });
+    }
+    if (groups.reconciliations) {
+      const reconciliations = applyToList(
+        await getReconciliations(), savedReconciliations, groups.reconciliations.remove,
+      );
+      await setReconciliations(reconciliations);
+      dispatch({ type: 'SET_RECONCILIATIONS', reconciliations });
+    }
+    if (groups.transactions) {
+      for (const tx of savedTx) await saveTransaction(tx);
+      await purgeTransactions(groups.transactions.remove);
+      dispatch({ type: 'SET_TRANSACTIONS', transactions: await getTransactions() });
+    }
+
+    const restored: [SyncEntity, SyncRecord[]][] = [
+      ['accounts', savedAccounts], ['categories', savedCategories], ['budgets', savedBudgets],
+      ['payees', savedPayees], ['transactions', savedTx],
+    ];
+    for (const [entity, records] of restored) {
+      if (records.length > 0) await removePendingDeletes(records.map(r => r.id), entity);
+    }
+
+    const sbId = sbUserIdRef.current;
+    if (!sbId) return;
+
+    // Fire-and-forget in dependency order; if offline, the next performSync pushes them
+    (async () => {
+      if (savedAccounts.length > 0) await pushAccountsBatch(savedAccounts, sbId);
+      if (savedCategories.length > 0) await pushCategoriesBatch(savedCategories, sbId);
+      if (savedBudgets.length > 0) await pushBudgetsBatch(savedBudgets, sbId);
+      if (savedPayees.length > 0) await pushPayeesBatch(savedPayees, sbId);
+      if (savedTx.length > 0) {
+        const [categories, accounts] = await Promise.all([getCategories(), getAccounts()]);
+        await pushTransactionsBatch(savedTx, sbId, categories, accounts);
+      }
+    })().catch(e => console.warn('[AppContext] undo→supabase error:', e));
+
+    await queueRemoteDelete('transactions', groups.transactions?.remove ?? [], sbId);
+    await queueRemoteDelete('budgets', groups.budgets?.remove ?? [], sbId);
+    await queueRemoteDelete('payees', groups.payees?.remove ?? [], sbId);
+    await queueRemoteDelete('categories', groups.categories?.remove ?? [], sbId);
+    await queueRemoteDelete('accounts', groups.accounts?.remove ?? [], sbId);
+  }, []);
+
+  const stepHistory = useCallback((step: (history: LedgerHistory) => HistoryStep | null) =>
+    serialHistory(async () => {
+      const next = step(await getHistory());
+      if (!next) return null;
+      await applyChanges(next.changes);
+      await saveHistory(next.history);
+      dispatch({ type: 'SET_HISTORY', history: next.history });
+      return next.entry.label;
+    }), [applyChanges]);
+
+  const undo = useCallback(() => stepHistory(undoStep), [stepHistory]);
+  const redo = useCallback(() => stepHistory(redoStep), [stepHistory]);
+
+  // ── Reassign before delete ───────────────────────────────────────────────
+
+  /** Moves what uses category `id` to `targetId` and trashes it, as one undoable step. */
+  const reassignCategory = useCallback(async (id: string, targetId: string, mode: ReassignMode) => {
+    const [categories, transactions, budgets, recurringRules] = await Promise.all([
+      getCategories(), getTransactions(), getBudgets(), getRecurringRules(),
+    ]);
+    const from = categories.find(c => c.id === id && !c.deletedAt);
+    const to = categories.find(c => c.id === targetId && !c.deletedAt);
+    if (!from || !to || from.id === to.id) return;
+
+    const live = transactions.filter(t => !t.deletedAt);
+    const changes = moveCategory(from, to, mode, { transactions: live, budgets, recurringRules }, new Date().toISOString());
+    await applyChanges(changes);
+    await record(mode === 'merge' ? `Category merged into ${to.name}` : 'Category deleted', changes, true);
+    await retargetCategoryRules('categoryId', from.id, to.id);
+  }, [applyChanges, record, retargetCategoryRules]);
+
+  /** Moves what uses account `id` to `targetId` and trashes it, as one undoable step. */
+  const reassignAccount = useCallback(async (id: string, targetId: string, mode: ReassignMode) => {
+    const [accounts, transactions, recurringRules] = await Promise.all([
+      getAccounts(), getTransactions(), getRecurringRules(),
+    ]);
+    const from = accounts.find(a => a.id === id && !a.deletedAt);
+    const to = accounts.find(a => a.id === targetId && !a.deletedAt);
+    if (!from || !to || from.id === to.id) return;
+
+    const live = transactions.filter(t => !t.deletedAt);
+    const changes = moveAccount(from, to, mode, { transactions: live, budgets: [], recurringRules }, new Date().toISOString());
+    await applyChanges(changes);
+    await record(mode === 'merge' ? `Account merged into ${to.name}` : 'Account deleted', changes, true);
+    await retargetCategoryRules('accountId', from.id, to.id);
+  }, [applyChanges, record, retargetCategoryRules]);
+
+  // ── Payees ───────────────────────────────────────────────────────────────
+
+  /** Deletes a payee and unlinks its transactions and rules, as one undoable step. */
+  const removePayee = useCallback(async (id: string) => {
+    const [payees, transactions, recurringRules] = await Promise.all([
+      getPayees(), getTransactions(), getRecurringRules(),
+    ]);
+    const payee = payees.find(p => p.id === id);
+    if (!payee) return;
+
+    const now = new Date().toISOString();
+    const unlinked = <T extends Transaction | RecurringRule>(r: T): T => {
+      const { payeeId: _, ...rest } = r;
+      return { ...rest, updatedAt: now } as T;
+    };
+    const changes: RecordChange[] = [
+      ...transactions.filter(t => t.payeeId === id)
+        .map(t => ({ entity: 'transactions' as const, before: t, after: unlinked(t) })),
+      ...recurringRules.filter(r => r.payeeId === id)
+        .map(r => ({ entity: 'recurringRules' as const, before: r, after: unlinked(r) })),
+      { entity: 'payees', before: payee, after: null },
+    ];
+    await applyChanges(changes);
+    await record('Payee deleted', changes, true);
+  }, [applyChanges, record]);
+
+  // ── Duplicates ───────────────────────────────────────────────────────────
+
+  const resolveDuplicates = useCallback(async (pairs: DuplicatePair[], mode: 'merge' | 'discard') => {
+    const now = new Date().toISOString();
+    const byId = new Map((await getTransactions()).map(t => [t.id, t]));
+    const kept = new Map<string, Transaction>();
+    const changes: RecordChange[] = [];
+    for (const pair of pairs) {
+      // Read both sides fresh; a transaction may be kept for several duplicates
+      const original = byId.get(pair.keep.id);
+      const duplicate = byId.get(pair.duplicate.id);
+      if (!original || original.deletedAt || !duplicate || duplicate.deletedAt || kept.has(duplicate.id)) continue;
+      const keep = kept.get(original.id) ?? original;
+      if (mode === 'merge') kept.set(keep.id, { ...mergeDuplicate(keep, duplicate), updatedAt: now });
+      const trashed = tombstone(duplicate, now);
+      changes.push({ entity: 'transactions', before: duplicate, after: trashed });
+      byId.set(duplicate.id, trashed);
+    }
+    for (const tx of kept.values()) {
+      changes.push({ entity: 'transactions', before: byId.get(tx.id)!, after: tx });
+    }
+    if (changes.length === 0) return;
+
+    await applyChanges(changes);
+    await record(mode === 'merge' ? 'Duplicates merged' : 'Duplicates discarded', changes, true);
+  }, [applyChanges, record]);
+
+  const dismissDuplicates = useCallback(async (pairs: DuplicatePair[]) => {
+    const keys = new Set(await getDismissedDuplicates());
+    for (const p of pairs) keys.add(pairKey(p.keep.id, p.duplicate.id));
+    await saveDismissedDuplicates([...keys]);
+    dispatch({ type: 'SET_DISMISSED_DUPLICATES', keys: [...keys] });
+  }, []);
+
+  // ── Reconciliation ───────────────────────────────────────────────────────
+
+  const saveClearedTransactions = useCallback(async (accountId: string, clearedIds: string[]) => {
+    const changes = clearedStatusChanges(await getTransactions(), accountId, new Set(clearedIds));
+    if (changes.length === 0) return;
+    await applyChanges(changes);
+    await record('Cleared transactions updated', changes);
+  }, [applyChanges, record]);
+
+  const reconcileAccount = useCallback(async (
+    accountId: string,
+    statement: { date: string; balance: number },
+    clearedIds: string[],
+    adjustmentCategoryId?: string,
+  ) => {
+    const [transactions, account] = await Promise.all([
+      getTransactions(),
+      getAccounts().then(list => list.find(a => a.id === accountId && !a.deletedAt)),
+    ]);
+    if (!account) return null;
+    const cleared = new Set(clearedIds);
+    const now = new Date().toISOString();
+    const changes: RecordChange[] = [];
+    const reconciledIds: string[] = [];
+    for (const tx of transactions) {
+      if (tx.deletedAt || !cleared.has(tx.id) || statusIn(tx, accountId) === 'reconciled') continue;
+      if (tx.accountId !== accountId && tx.toAccountId !== accountId) continue;
+      changes.push({ entity: 'transactions', before: tx, after: withStatus(tx, accountId, 'reconciled') });
+      reconciledIds.push(tx.id);
+    }
+    // Unticked transactions stop being cleared
+    changes.push(...clearedStatusChanges(transactions, accountId, cleared).filter(c => !cleared.has(c.before!.id)));
+
+    let adjustment: Transaction | undefined;
+    const difference = reconcileDifference(statement.balance, clearedBalance(account, transactions, cleared));
+    if (difference !== 0 && adjustmentCategoryId) {
+      adjustment = {
+        id: String(UUID.v4()),
+        type: difference > 0 ? 'income' : 'expense',
+        amount: Math.abs(difference),
+        categoryId: adjustmentCategoryId,
+        accountId,
+        date: statement.date,
+        note: 'Reconciliation adjustment',
+        status: 'reconciled',
+        createdAt: now,
+        updatedAt: now,
+      };
+      changes.push({ entity: 'transactions', before: null, after: adjustment });
+    }
+
+    const reconciliation: Reconciliation = {
+      id: String(UUID.v4()),
+      accountId,
+      statementDate: statement.date,
+      statementBalance: statement.balance,
+      transactionIds: adjustment ? [...reconciledIds, adjustment.id] : reconciledIds,
+      adjustmentId: adjustment?.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    changes.push({ entity: 'reconciliations', before: null, after: reconciliation });
+
+    await applyChanges(changes);
+    await record('Account reconciled', changes);
+    return reconciliation;
+  }, [applyChanges, record]);
+
+  const undoReconciliation = useCallback(async (id: string) => {
+    const [reconciliations, transactions] = await Promise.all([getReconciliations(), getTransactions()]);
+    const reconciliation = reconciliations.find(r => r.id === id);
+    if (!reconciliation) return;
+    const { accountId } = reconciliation;
+    const now = new Date().toISOString();
+    const ids = new Set(reconciliation.transactionIds);
+    const changes: RecordChange[] = [];
+    for (const tx of transactions) {
+      if (!ids.has(tx.id) || tx.deletedAt) continue;
+      if (tx.id === reconciliation.adjustmentId) {
+        changes.push({ entity: 'transactions', before: tx, after: tombstone(tx, now) });
+      } else if (statusIn(tx, accountId) === 'reconciled') {
+        changes.push({ entity: 'transactions', before: tx, after: withStatus(tx, accountId, 'cleared') });
+      }
+    }
+    changes.push({ entity: 'reconciliations', before: reconciliation, after: null });
+
+    await applyChanges(changes);
+    await record('Reconciliation undone', changes, true);
+  }, [applyChanges, record]);
+
+  // ── Loans ────────────────────────────────────────────────────────────────
+
+  const recordLoanPayment = useCallback(async (
+    loanId: string,
+    otherAccountId: string,
+    date: string,
+    amount?: number,
+  ) => {
+    const [loan, linked, categories] = await Promise.all([
+      getAccounts().then(list => list.find(a => a.id === loanId && !a.deletedAt)),
+      getTransactionsForAccount(loanId).then(list => list.filter(t => !t.deletedAt)),
+      getCategories(),
+    ]);
+    if (!loan?.loan) return null;
+    const owed = loanOwed(loan, computeAccountBalance(loan, linked));
+    if (owed <= 0) return null;
+    const split = splitPayment(loan.loan, owed, amount);
+    const lent = loan.loan.direction === 'lent';
+    const now = new Date().toISOString();
+    const changes: RecordChange[] = [];
+    // The loan's category may be in the trash or gone; book to an "Interest" one then
+    let category = interestCategory(loan.loan, categories);
+    if (!category) {
+      category = {
+        id: String(UUID.v4()),
+        name: INTEREST_CATEGORY_NAME,
+        type: lent ? 'income' : 'expense',
+        icon: '🏦',
+        color: '#78909C',
+        isDefault: false,
+        sortOrder: 99,
+        createdAt: now,
+        updatedAt: now,
+      };
+      changes.push({ entity: 'categories', before: null, after: category });
+    }
+    const categoryId = category.id;
+    // Money moves toward the loan when paying off a debt, away from it when being repaid
+    changes.push({
+      entity: 'transactions',
+      before: null,
+      after: {
+        id: String(UUID.v4()),
+        type: 'transfer',
+        amount: split.payment,
+        categoryId,
+        accountId: lent ? loanId : otherAccountId,
+        toAccountId: lent ? otherAccountId : loanId,
+        date,
+        note: `${loan.name} payment`,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    if (split.interest > 0) {
+      changes.push({
+        entity: 'transactions',
+        before: null,
+        after: {
+          id: String(UUID.v4()),
+          type: lent ? 'income' : 'expense',
+          amount: split.interest,
+          categoryId,
+          accountId: loanId,
+          date,
+          note: `${loan.name} interest`,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+    }
+
+    await applyChanges(changes);
+    await record('Loan payment recorded', changes);
+    return split;
+  }, [applyChanges, record]);
+
+  // ── Trash ────────────────────────────────────────────────────────────────
+
+  /**
+   * Brings a record back out of the trash. An account brings back the
+   * transactions deleted with it; a transaction brings back the account and
+   * category it points at if they are in the trash too.
+   */
+  const restoreFromTrash = useCallback(async (entity: TrashEntity, id: string) => {
+    const now = new Date().toISOString();
+    const [transactions, accounts, categories] = await Promise.all([getTransactions(), getAccounts(), getCategories()]);
+    const changes: RecordChange[] = [];
+    const restore = (e: TrashEntity, found: Transaction | Account | Category | undefined) => {
+      if (!found?.deletedAt || changes.some(c => c.entity === e && c.before?.id === found.id)) return;
+      changes.push({ entity: e, before: found, after: restoredRecord(found, now) });
+    };
+
+    if (entity === 'accounts') {
+      const account = accounts.find(a => a.id === id);
+      restore('accounts', account);
+      if (account?.deletedAt) {
+        for (const tx of deletedWithAccount(account, transactions)) restore('transactions', tx);
+      }
+    } else if (entity === 'categories') {
+      restore('categories', categories.find(c => c.id === id));
+    } else {
+      const tx = transactions.find(t => t.id === id);
+      if (tx?.deletedAt) {
+        restore('accounts', accounts.find(a => a.id === tx.accountId));
+        restore('accounts', accounts.find(a => a.id === tx.toAccountId));
+        restore('categories', categories.find(c => c.id === tx.categoryId));
+      }
+      restore('transactions', tx);
+    }
+    if (changes.length === 0) return;
+
+    await applyChanges(changes);
+    const label = { transactions: 'Transaction', accounts: 'Account', categories: 'Category' }[entity];
+    await record(`${label} restored`, changes);
+  }, [applyChanges, record]);
+
+  /** Deletes trashed records for good, here and on the server. */
+  const purgeFromTrash = useCallback(async (entity: TrashEntity, ids: string[]) => {
+    const purged = await purgeTrashed({ [entity]: ids });
+    const [transactions, accounts, categories, history] = await Promise.all([
+      getTransactions(), getAccounts(), getCategories(), getHistory(),
+    ]);
+    dispatch({ type: 'SET_TRANSACTIONS', transactions });
+    dispatch({ type: 'SET_ACCOUNTS', accounts });
+    dispatch({ type: 'SET_CATEGORIES', categories });
+    dispatch({ type: 'SET_HISTORY', history });
+
+    const sbId = sbUserIdRef.current;
+    if (!sbId) return;
+
+    // Transactions before the accounts and categories they reference
+    await queueRemoteDelete('transactions', purged.transactions, sbId);
+    await queueRemoteDelete('categories', purged.categories, sbId);
+    await queueRemoteDelete('accounts', purged.accounts, sbId);
+  }, []);
+
+  const clearTrash = useCallback(async () => {
+    const [transactions, accounts, categories] = await Promise.all([getTransactions(), getAccounts(), getCategories()]);
+    const trashedIds = (list: { id: string; deletedAt?: string }[]) => list.filter(r => r.deletedAt).map(r => r.id);
+    await purgeFromTrash('accounts', trashedIds(accounts));
+    await purgeFromTrash('categories', trashedIds(categories));
+    await purgeFromTrash('transactions', trashedIds(transactions));
+  }, [purgeFromTrash]);
+
+  const setTrashRetention = useCallback(async (days: number) => {
+    await saveTrashRetentionDays(days);
+    dispatch({ type: 'SET_TRASH_RETENTION', days });
+    // A shorter period applies right away
+    await purgeExpiredTrash(days);
+    const [transactions, accounts, categories, history] = await Promise.all([
+      getTransactions(), getAccounts(), getCategories(), getHistory(),
+    ]);
+    dispatch({ type: 'SET_TRANSACTIONS', transactions });
+    dispatch({ type: 'SET_ACCOUNTS', accounts });
+    dispatch({ type: 'SET_CATEGORIES', categories });
+    dispatch({ type: 'SET_HISTORY', history });
   }, []);
 
   return (
@@ -354,6 +1769,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       value={{
         state,
         accountsWithBalance,
+        baseTransactions,
+        missingRates,
         addTransaction,
         updateTransaction,
         removeTransaction,
@@ -363,7 +1780,42 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         addCategory,
         updateCategory,
         removeCategory,
-        setCurrency,
+        addBudget,
+        updateBudget,
+        removeBudget,
+        addPayee,
+        updatePayee,
+        removePayee,
+        addRecurringRule,
+        updateRecurringRule,
+        removeRecurringRule,
+        addFilterPreset,
+        updateFilterPreset,
+        removeFilterPreset,
+        addCategoryRule,
+        updateCategoryRule,
+        removeCategoryRule,
+        reorderCategoryRules,
+        resolveDuplicates,
+        dismissDuplicates,
+        addCsvProfile,
+        updateCsvProfile,
+        removeCsvProfile,
+        saveClearedTransactions,
+        reconcileAccount,
+        undoReconciliation,
+        recordLoanPayment,
+        setBaseCurrency,
+        setExchangeRates,
+        resolveSyncConflict,
+        undo,
+        redo,
+        reassignCategory,
+        reassignAccount,
+        restoreFromTrash,
+        purgeFromTrash,
+        clearTrash,
+        setTrashRetention,
         refresh: loadAll,
       }}
     >
@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import { Attachment } from './types';
+import { attachmentFileName } from './attachments';
+import { api } from './trpc';
+
+// ─── Local files ─────────────────────────────────────────────────────────────
+// Picked files are copied into the app's document directory so they survive
+// the picker's cache being cleared. Web has no file system; the picked blob URI
+// is kept as-is for the session and uploaded from there.
+
+function attachmentsDir(): Directory {
+  const dir = new Directory(Paths.document, 'attachments');
+  if (!dir.exists) dir.create({ idempotent: true, intermediates: true });
+  return dir;
+}
+
+/** Copies a picked file into app storage and returns its permanent URI. */
+export function storeAttachmentFile(sourceUri: string, attachment: Pick<Attachment, 'id' | 'name'>): string {
+  if (Platform.OS === 'web') return sourceUri;
+  const target = new File(attachmentsDir(), attachmentFileName(attachment));
+  if (target.exists) target.delete();
+  new File(sourceUri).copy(target);
+  return target.uri;
+}
+
+/** Deletes the local copies; missing files are ignored. */
+export function deleteAttachmentFiles(attachments: Attachment[]): void {
+  if (Platform.OS === 'web') return;
+  for (const a of attachments) {
+    if (!a.localUri) continue;
+    try {
+      const file = new File(a.localUri);
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.warn('[attachments] delete error:', e);
+    }
+  }
+}
+
+async function readBase64(uri: string): Promise<string> {
+  if (Platform.OS !== 'web') return new File(uri).base64();
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// ─── Upload ──────────────────────────────────────────────────────────────────
+
+/**
+ * Uploads the given attachments and returns the storage key and URL of each
+ * one that succeeded. A failed file is skipped and retried on the next sync.
+ */
+export async function uploadAttachments(
+  attachments: Attachment[],
+): Promise<Map<string, { key: string; url: string }>> {
+  const uploaded = new Map<string, { key: string; url: string }>();
+  for (const a of attachments) {
+    if (!a.localUri) continue;
+    try {
+      const base64 = await readBase64(a.localUri);
+      const result = await api.attachments.upload.mutate({
+        file: attachmentFileName(a),
+        contentType: a.mimeType,
+        base64,
+      });
+      uploaded.set(a.id, result);
+    } catch (e) {
+      console.warn('[attachments] upload error:', e);
+    }
+  }
+  return uploaded;
+}
@@ -0,0 +1,78 @@
+import { Attachment, Transaction } from './types';
+
+// Larger files are refused when picking; the upload goes through a base64 JSON body
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENT_MIME_TYPES = ['image/*', 'application/pdf'];
+
+export function isImageAttachment(attachment: Pick<Attachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/** URI to display or open: the local copy when this device has it, else the uploaded file. */
+export function attachmentUri(attachment: Attachment): string | undefined {
+  return attachment.localUri ?? attachment.remoteUrl;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** File name safe for both the local file system and storage keys. */
+export function safeFileName(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '');
+  return cleaned.slice(-80) || 'file';
+}
+
+/** File name of the attachment's copies, local and uploaded; the server picks the folder. */
+export function attachmentFileName(attachment: Pick<Attachment, 'id' | 'name'>): string {
+  return `${attachment.id}-${safeFileName(attachment.name)}`;
+}
+
+/** Attachments that exist on this device but have not been uploaded yet. */
+export function pendingUploads(tx: Transaction): Attachment[] {
+  return (tx.attachments ?? []).filter(a => !a.remoteKey && !!a.localUri);
+}
+
+/** Records finished uploads on `tx`; returns `tx` itself when none of them belong to it. */
+export function withRemoteFiles(
+  tx: Transaction,
+  uploads: Map<string, { key: string; url: string }>,
+  now: string,
+): Transaction {
+  if (!tx.attachments?.some(a => uploads.has(a.id))) return tx;
+  return {
+    ...tx,
+    attachments: tx.attachments.map(a => {
+      const upload = uploads.get(a.id);
+      return upload ? { ...a, remoteKey: upload.key, remoteUrl: upload.url } : a;
+    }),
+    updatedAt: now,
+  };
+}
+
+/** Attachments of `before` that are missing from `after` (removed while editing). */
+export function removedAttachments(before: Transaction | undefined, after: Transaction | undefined): Attachment[] {
+  const kept = new Set((after?.attachments ?? []).map(a => a.id));
+  return (before?.attachments ?? []).filter(a => !kept.has(a.id));
+}
+
+/**
+ * Restores device-only state on a transaction that may have come from the
+ * server: the local file URI of each attachment, plus attachments that have
+ * not been uploaded yet (the server never saw them, so it cannot have removed them).
+ */
+export function keepLocalFiles(merged: Transaction, local: Transaction | undefined): Transaction {
+  if (!local?.attachments?.length || merged === local) return merged;
+  const localById = new Map(local.attachments.map(a => [a.id, a]));
+  const attachments = (merged.attachments ?? []).map(a =>
+    a.localUri || !localById.get(a.id)?.localUri ? a : { ...a, localUri: localById.get(a.id)!.localUri },
+  );
+  const mergedIds = new Set(attachments.map(a => a.id));
+  for (const a of local.attachments) {
+    if (!a.remoteKey && !mergedIds.has(a.id)) attachments.push(a);
+  }
+  return { ...merged, attachments };
+}
@@ -0,0 +1,252 @@
+import { Account, Transaction } from './types';
+import { accountCurrency } from './currency';
+import { detectDecimalSeparator, parseAmountText } from './csv-mapping';
+
+// ─── Bank Statements ─────────────────────────────────────────────────────────
+// Parsers for the statement files banks export: OFX/QFX (Open Financial
+// Exchange, both the SGML 1.x and XML 2.x flavours) and ISO 20022 CAMT.053.
+// Every statement line carries the bank's own transaction id (the OFX FITID,
+// the CAMT account servicer reference), stored on the imported transaction as
+// `fitId` so importing an overlapping statement again skips what is already in.
+//
+// Both formats are picked apart with regular expressions rather than a DOM
+// parser, which React Native doesn't ship; only the handful of fields we map
+// are read.
+
+export type StatementFormat = 'ofx' | 'camt053';
+
+export interface StatementLine {
+  fitId: string;
+  date: string; // YYYY-MM-DD, the booking date
+  amount: number; // signed: negative is money out of the account
+  payee?: string; // the other party, when the bank names it
+  memo?: string;
+}
+
+/** A transaction in the file that was left out, and why. */
+export interface UnreadableLine {
+  entry: number; // 1-based position among the file's transactions
+  problem: string;
+}
+
+export interface BankStatement {
+  format: StatementFormat;
+  accountRef?: string; // account number or IBAN as given by the bank
+  currency?: string; // ISO code
+  lines: StatementLine[];
+  unreadable: UnreadableLine[];
+}
+
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text.slice(0, 2000);
+  if (/OFXHEADER\s*:|<\?OFX\b|<OFX>/i.test(head) || /<OFX>/i.test(text)) return 'ofx';
+  if (/camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt>/.test(text)) return 'camt053';
+  return null;
+}
+
+/** The statement in `text`, or null when it is neither OFX nor CAMT.053. */
+export function parseStatement(text: string): BankStatement | null {
+  switch (detectStatementFormat(text)) {
+    case 'ofx': return parseOfx(text);
+    case 'camt053': return parseCamt053(text);
+    default: return null;
+  }
+}
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Every `<tag>…</tag>` block in `text`. */
+function blocks(text: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(text.matchAll(re), m => m[1]);
+}
+
+/**
+ * The line's amount, or why the line can't be imported. Some banks write
+ * decimal commas ("-1.234,50"), even next to dotted amounts in the same file.
+ */
+function readLine(rawAmount: string | undefined, rawDate: string | undefined, date: string): number | string {
+  if (!rawAmount) return 'No amount';
+  const amount = parseAmountText(rawAmount, detectDecimalSeparator([rawAmount]));
+  if (amount === null) return `Amount "${rawAmount}" is not a number`;
+  if (!rawDate) return 'No date';
+  if (!date) return `Date "${rawDate}" can't be read`;
+  return amount;
+}
+
+// ─── OFX / QFX ───────────────────────────────────────────────────────────────
+
+/** Value of an OFX element; SGML files leave elements unclosed, so read to the next tag. */
+function ofxField(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = m ? decodeEntities(m[1]) : '';
+  return value || undefined;
+}
+
+/** "20260105120000.000[-5:EST]" → "2026-01-05". */
+function ofxDate(raw: string | undefined): string {
+  const m = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : '';
+}
+
+export function parseOfx(text: string): BankStatement {
+  const lines: StatementLine[] = [];
+  const unreadable: UnreadableLine[] = [];
+  const fallbacks = new Map<string, number>();
+  for (const [i, block] of blocks(text, 'STMTTRN').entries()) {
+    const rawAmount = ofxField(block, 'TRNAMT');
+    const rawDate = ofxField(block, 'DTPOSTED');
+    const date = ofxDate(rawDate);
+    const amount = readLine(rawAmount, rawDate, date);
+    if (typeof amount === 'string') {
+      unreadable.push({ entry: i + 1, problem: amount });
+      continue;
+    }
+    const name = ofxField(block, 'NAME') ?? ofxField(block, 'PAYEE');
+    const memo = ofxField(block, 'MEMO');
+    lines.push({
+      fitId: ofxField(block, 'FITID') ?? fallbackId(fallbacks, date, amount, name ?? memo),
+      date,
+      amount,
+      payee: name,
+      memo: memo && memo !== name ? memo : undefined,
+    });
+  }
+  return {
+    format: 'ofx',
+    accountRef: ofxField(text, 'ACCTID'),
+    currency: ofxField(text, 'CURDEF')?.toUpperCase(),
+    lines,
+    unreadable,
+  };
+}
+
+// ─── CAMT.053 ────────────────────────────────────────────────────────────────
+
+function xmlField(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`));
+  const value = m ? decodeEntities(m[1]) : '';
+  return value || undefined;
+}
+
+/** The first `<tag>` block, or '' when there is none. */
+function xmlBlock(text: string, tag: string): string {
+  return blocks(text, tag)[0] ?? '';
+}
+
+/** Name of the other party: who was paid for debits, who paid for credits. */
+function camtCounterparty(entry: string, debit: boolean): string | undefined {
+  const parties = xmlBlock(entry, 'RltdPties');
+  const party = xmlBlock(parties, debit ? 'Cdtr' : 'Dbtr');
+  return xmlField(party, 'Nm');
+}
+
+export function parseCamt053(text: string): BankStatement {
+  // Drop namespace prefixes ("<ns2:Ntry>") so the tag lookups stay simple
+  const xml = text.replace(/<(\/?)[\w-]+:/g, '<$1');
+  const stmt = xmlBlock(xml, 'Stmt');
+  const acct = xmlBlock(stmt, 'Acct');
+
+  const lines: StatementLine[] = [];
+  const unreadable: UnreadableLine[] = [];
+  const fallbacks = new Map<string, number>();
+  for (const [i, entry] of blocks(xml, 'Ntry').entries()) {
+    // Pending and informational entries may still change or disappear
+    const status = xmlField(entry, 'Sts') ?? xmlField(xmlBlock(entry, 'Sts'), 'Cd');
+    if (status && status !== 'BOOK') continue;
+
+    const debit = xmlField(entry, 'CdtDbtInd') === 'DBIT';
+    const rawAmount = xmlField(entry, 'Amt');
+    const bookingDate = xmlBlock(entry, 'BookgDt') || xmlBlock(entry, 'ValDt');
+    const rawDate = xmlField(bookingDate, 'Dt') ?? xmlField(bookingDate, 'DtTm');
+    const date = /^\d{4}-\d{2}-\d{2}/.test(rawDate ?? '') ? rawDate!.slice(0, 10) : '';
+    const value = readLine(rawAmount, rawDate, date);
+    if (typeof value === 'string') {
+      unreadable.push({ entry: i + 1, problem: value });
+      continue;
+    }
+    const amount = debit ? -Math.abs(value) : Math.abs(value);
+
+    const details = xmlBlock(entry, 'TxDtls');
+    const payee = camtCounterparty(details || entry, debit);
+    const memo = blocks(entry, 'Ustrd').map(decodeEntities).filter(Boolean).join(' ')
+      || xmlField(entry, 'AddtlNtryInf');
+    const endToEnd = xmlField(details, 'EndToEndId');
+    const fitId = xmlField(entry, 'AcctSvcrRef')
+      ?? xmlField(entry, 'NtryRef')
+      ?? xmlField(details, 'AcctSvcrRef')
+      ?? (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : undefined)
+      ?? fallbackId(fallbacks, date, amount, payee ?? memo);
+
+    lines.push({ fitId, date, amount, payee, memo: memo || undefined });
+  }
+
+  return {
+    format: 'camt053',
+    accountRef: xmlField(acct, 'IBAN') ?? xmlField(xmlBlock(acct, 'Othr'), 'Id'),
+    currency: xmlField(acct, 'Ccy'),
+    lines,
+    unreadable,
+  };
+}
+
+/**
+ * Stand-in id for banks that leave theirs out, stable across re-exports of the
+ * same statement. Identical lines in one file are numbered so none is lost.
+ */
+function fallbackId(seen: Map<string, number>, date: string, amount: number, text: string | undefined): string {
+  const base = `${date}|${amount.toFixed(2)}|${(text ?? '').toLowerCase()}`;
+  const n = (seen.get(base) ?? 0) + 1;
+  seen.set(base, n);
+  return n === 1 ? base : `${base}#${n}`;
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+/**
+ * Splits statement lines into those not imported into `accountId` yet and the
+ * number skipped because a transaction there (live or trashed) already has
+ * their id, or because the file lists the same id twice.
+ */
+export function splitNewLines(
+  lines: StatementLine[],
+  transactions: Pick<Transaction, 'accountId' | 'fitId'>[],
+  accountId: string,
+): { fresh: StatementLine[]; duplicates: number } {
+  const seen = new Set(transactions.filter(t => t.accountId === accountId && t.fitId).map(t => t.fitId!));
+  const fresh: StatementLine[] = [];
+  for (const line of lines) {
+    if (seen.has(line.fitId)) continue;
+    seen.add(line.fitId);
+    fresh.push(line);
+  }
+  return { fresh, duplicates: lines.length - fresh.length };
+}
+
+/**
+ * The account a statement most likely belongs to: one whose name contains the
+ * last four digits of the bank's account number, else the only account in the
+ * statement's currency.
+ */
+export function guessStatementAccount(
+  statement: BankStatement,
+  accounts: Account[],
+  baseCurrency: string,
+): Account | undefined {
+  const digits = statement.accountRef?.replace(/\D/g, '').slice(-4);
+  const byNumber = digits && digits.length === 4 ? accounts.find(a => a.name.includes(digits)) : undefined;
+  if (byNumber) return byNumber;
+  if (!statement.currency) return undefined;
+  const inCurrency = accounts.filter(a => accountCurrency(a, baseCurrency) === statement.currency);
+  return inCurrency.length === 1 ? inCurrency[0] : undefined;
+}
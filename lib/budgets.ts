@@ -0,0 +1,116 @@
+import { Budget, Category, Transaction } from './types';
+import { descendantIds } from './category-tree';
+import { navigateMonth } from './format';
+import { amountInCategory } from './splits';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BudgetStatus {
+  budget: Budget;
+  limit: number; // this month's amount
+  carriedOver: number; // unspent amount rolled in from earlier months
+  available: number; // limit + carriedOver
+  spent: number;
+  remaining: number; // available - spent (negative when over budget)
+  progress: number; // spent / available, 0..∞
+}
+
+// ─── Months ──────────────────────────────────────────────────────────────────
+
+/** 'YYYY-MM' key used by Budget.month. */
+export function monthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function parseMonthKey(key: string): { year: number; month: number } {
+  const [year, month] = key.split('-').map(Number);
+  return { year, month };
+}
+
+function previousMonthKey(key: string): string {
+  const { year, month } = parseMonthKey(key);
+  const prev = navigateMonth(year, month, -1);
+  return monthKey(prev.year, prev.month);
+}
+
+// ─── Lookup ──────────────────────────────────────────────────────────────────
+
+/**
+ * The budget entry in force for a category (null = overall) in `month`: the
+ * latest entry starting on or before it. A zero amount means "no budget".
+ */
+export function effectiveBudget(
+  budgets: Budget[],
+  categoryId: string | null,
+  month: string,
+): Budget | undefined {
+  let match: Budget | undefined;
+  for (const b of budgets) {
+    if (b.categoryId !== categoryId || b.month > month) continue;
+    if (!match || b.month > match.month) match = b;
+  }
+  return match && match.amount > 0 ? match : undefined;
+}
+
+/**
+ * Expense total for a category and its subcategories (or all expenses when
+ * categoryId is null) in `month`, so a budget on Food also covers Coffee.
+ */
+export function spentInMonth(
+  transactions: Transaction[],
+  categories: Pick<Category, 'id' | 'parentId'>[],
+  categoryId: string | null,
+  month: string,
+): number {
+  const ids = categoryId === null ? [] : [categoryId, ...descendantIds(categories, categoryId)];
+  let total = 0;
+  for (const t of transactions) {
+    if (t.type !== 'expense' || !t.date.startsWith(month)) continue;
+    total += categoryId === null ? t.amount : ids.reduce((sum, id) => sum + amountInCategory(t, id), 0);
+  }
+  return total;
+}
+
+// ─── Status ──────────────────────────────────────────────────────────────────
+
+/**
+ * Budget vs actual for one category (with its subcategories) or overall in a
+ * month. With rollover on, unspent money from each earlier budgeted month is
+ * carried forward; overspending is not deducted from the next month.
+ */
+export function computeBudgetStatus(
+  budgets: Budget[],
+  transactions: Transaction[],
+  categories: Pick<Category, 'id' | 'parentId'>[],
+  categoryId: string | null,
+  month: string,
+): BudgetStatus | null {
+  const budget = effectiveBudget(budgets, categoryId, month);
+  if (!budget) return null;
+
+  let carriedOver = 0;
+  if (budget.rollover) {
+    // Walk back through the unbroken run of budgeted months, then replay forwards
+    const chain: { month: string; limit: number }[] = [];
+    for (let m = previousMonthKey(month); ; m = previousMonthKey(m)) {
+      const prev = effectiveBudget(budgets, categoryId, m);
+      if (!prev || !prev.rollover) break;
+      chain.unshift({ month: m, limit: prev.amount });
+    }
+    for (const { month: m, limit } of chain) {
+      carriedOver = Math.max(0, limit + carriedOver - spentInMonth(transactions, categories, categoryId, m));
+    }
+  }
+
+  const spent = spentInMonth(transactions, categories, categoryId, month);
+  const available = budget.amount + carriedOver;
+  return {
+    budget,
+    limit: budget.amount,
+    carriedOver,
+    available,
+    spent,
+    remaining: available - spent,
+    progress: available > 0 ? spent / available : 0,
+  };
+}
@@ -0,0 +1,131 @@
+import { Category } from './types';
+
+// ─── Category hierarchy ──────────────────────────────────────────────────────
+// A category may sit under a parent of the same type (`parentId`), e.g.
+// Food > Coffee. Totals roll up: a parent's total includes its children's.
+// Transactions can use any category, parent or child. A category whose parent
+// is not in the list (e.g. moved to the trash) counts as top level.
+
+export const PATH_SEPARATOR = ' > ';
+
+type Node = Pick<Category, 'id' | 'parentId'>;
+
+function parentOf<T extends Node>(categories: T[], category: T): T | undefined {
+  return category.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+}
+
+/** Direct children of `parentId` (null = top level), in sort order. */
+export function childrenOf<T extends Node & Pick<Category, 'sortOrder'>>(categories: T[], parentId: string | null): T[] {
+  return categories
+    .filter(c => (parentId === null ? !isNested(categories, c) : c.parentId === parentId))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+/** True when the category sits under a parent that exists in `categories`. */
+export function isNested<T extends Node>(categories: T[], category: T): boolean {
+  return !!parentOf(categories, category);
+}
+
+/**
+ * The category and its ancestors, top level first. Stops at a missing parent
+ * or a cycle, so damaged data still resolves to something.
+ */
+export function ancestry<T extends Node>(categories: T[], id: string): T[] {
+  const chain: T[] = [];
+  let current = categories.find(c => c.id === id);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = parentOf(categories, current);
+  }
+  return chain;
+}
+
+/** Ids of every category below `id`, at any depth. */
+export function descendantIds(categories: Node[], id: string): Set<string> {
+  const found = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    for (const c of categories) {
+      if (c.parentId === parent && !found.has(c.id) && c.id !== id) {
+        found.add(c.id);
+        queue.push(c.id);
+      }
+    }
+  }
+  return found;
+}
+
+/** "Food > Coffee"; just the name for a top-level category. */
+export function categoryPath(categories: Pick<Category, 'id' | 'parentId' | 'name'>[], id: string): string {
+  return ancestry(categories, id).map(c => c.name).join(PATH_SEPARATOR);
+}
+
+/**
+ * The category a "Food > Coffee" path names, matched case-insensitively level
+ * by level. When the path goes deeper than the existing categories, the
+ * deepest match is returned; undefined when even the first level is unknown.
+ */
+export function findByPath<T extends Node & Pick<Category, 'name' | 'type' | 'sortOrder'>>(
+  categories: T[],
+  path: string,
+  type?: Category['type'],
+): T | undefined {
+  const names = path.split('>').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const pool = type ? categories.filter(c => c.type === type) : categories;
+  let match: T | undefined;
+  for (const name of names) {
+    const level = match ? childrenOf(pool, match.id) : childrenOf(pool, null);
+    const next = level.find(c => c.name.toLowerCase() === name)
+      // A flat name may also refer to a nested category directly
+      ?? (match ? undefined : pool.find(c => c.name.toLowerCase() === name));
+    if (!next) break;
+    match = next;
+  }
+  return match;
+}
+
+/**
+ * Which bucket `categoryId` counts towards when looking at the children of
+ * `parentId` (null = top level): the child it sits under, `parentId` itself
+ * for amounts booked directly on the parent, or null when it is not below
+ * `parentId` at all.
+ */
+export function rollUpTo(categories: Node[], categoryId: string, parentId: string | null): string | null {
+  const chain = ancestry(categories, categoryId);
+  if (chain.length === 0) return parentId === null ? categoryId : null; // unknown category
+  if (parentId === null) return chain[0].id;
+  const at = chain.findIndex(c => c.id === parentId);
+  if (at < 0) return null;
+  return chain[at + 1]?.id ?? parentId;
+}
+
+/** Categories in tree order (each parent followed by its children) with their depth. */
+export function flattenTree<T extends Node & Pick<Category, 'sortOrder'>>(categories: T[]): { category: T; depth: number }[] {
+  const out: { category: T; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const c of childrenOf(categories, parentId)) {
+      if (out.some(o => o.category.id === c.id)) continue; // cycle guard
+      out.push({ category: c, depth });
+      visit(c.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  // Categories caught in a parent cycle are unreachable from the top; list them last
+  for (const c of categories) {
+    if (!out.some(o => o.category.id === c.id)) out.push({ category: c, depth: 0 });
+  }
+  return out;
+}
+
+/** Categories `id` may be nested under: same type, not itself and not one of its descendants. */
+export function parentOptions<T extends Node & Pick<Category, 'type' | 'sortOrder'>>(
+  categories: T[],
+  id: string | null,
+  type: Category['type'],
+): T[] {
+  const excluded = id ? descendantIds(categories, id) : new Set<string>();
+  return flattenTree(categories.filter(c => c.type === type))
+    .map(o => o.category)
+    .filter(c => c.id !== id && !excluded.has(c.id));
+}
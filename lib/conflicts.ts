@@ -0,0 +1,148 @@
+import { Account, Budget, Category, Payee, Transaction } from './types';
+import type { SyncEntity } from './storage';
+
+// ─── Sync conflicts ──────────────────────────────────────────────────────────
+// Every synced record has a base revision on this device: the `updatedAt` of
+// the server copy it was last in step with (kept in the sync state, not on the
+// record, so forms that rebuild records cannot drop it). A pulled row that
+// changed since the base while the local copy also changed is a conflict: both
+// versions are kept until the user picks one.
+
+export type SyncRecord = Transaction | Account | Category | Budget | Payee;
+
+type Versioned = { id: string; createdAt: string; updatedAt?: string; purgedAt?: string };
+
+export interface SyncConflict {
+  key: string; // `${entity}:${id}`
+  entity: SyncEntity;
+  local: SyncRecord;
+  remote: SyncRecord;
+  detectedAt: string;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+/** Whole-record pick, or a pick per differing field (fields left out take the remote value). */
+export type ConflictResolution = ConflictChoice | Record<string, ConflictChoice>;
+
+export function conflictKey(entity: SyncEntity, id: string): string {
+  return `${entity}:${id}`;
+}
+
+const versionOf = (r: Versioned) => r.updatedAt ?? r.createdAt;
+
+// Timestamps are bookkeeping, not user data
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+/** Value as compared between devices; attachment file paths are device-specific. */
+function comparable(field: string, value: unknown): string {
+  if (field === 'attachments' && Array.isArray(value)) {
+    return JSON.stringify(value.map(({ localUri: _, ...a }) => a));
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** User-visible fields whose values differ between the two copies. */
+export function differingFields<T extends object>(local: T, remote: T): string[] {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  return Array.from(keys).filter(k =>
+    !IGNORED_FIELDS.has(k)
+    && comparable(k, (local as Record<string, unknown>)[k]) !== comparable(k, (remote as Record<string, unknown>)[k]),
+  );
+}
+
+export interface ReconcileResult<T> {
+  merged: T[];
+  bases: Record<string, string>; // updated base revisions, by id
+  conflicts: { local: T; remote: T }[];
+}
+
+/**
+ * Merges a page of pulled rows into the local records.
+ *  - Rows new to this device, or whose local copy is unchanged since its base, are taken.
+ *  - A remote row still at the base leaves the local edit in place (it is pushed next).
+ *  - When both sides changed and their fields differ, the local copy stays and
+ *    a conflict is reported. Records already in conflict stay in conflict.
+ *  - Records without a base (never synced with revisions) fall back to last-write-wins.
+ *  - A purge is taken over any local copy not edited since, conflict or not.
+ */
+export function reconcilePage<T extends Versioned>(
+  local: T[],
+  page: T[],
+  bases: Record<string, string>,
+  conflicted: Set<string>,
+): ReconcileResult<T> {
+  const byId = new Map(local.map(r => [r.id, r]));
+  const nextBases = { ...bases };
+  const conflicts: { local: T; remote: T }[] = [];
+
+  for (const remote of page) {
+    const mine = byId.get(remote.id);
+    const base = bases[remote.id];
+    const take = () => {
+      byId.set(remote.id, remote);
+      nextBases[remote.id] = versionOf(remote);
+    };
+
+    if (!mine || versionOf(mine) === versionOf(remote) || differingFields(mine, remote).length === 0) {
+      take();
+    } else if (remote.purgedAt) {
+      // An edit made after the purge is pushed and brings the record back
+      if (versionOf(remote) >= versionOf(mine)) take();
+      else nextBases[remote.id] = versionOf(remote);
+    } else if (conflicted.has(remote.id)) {
+      conflicts.push({ local: mine, remote });
+    } else if (base === undefined) {
+      if (versionOf(remote) >= versionOf(mine)) take();
+      else nextBases[remote.id] = versionOf(remote);
+    } else if (versionOf(remote) === base) {
+      // Remote unchanged since the base; the local edit wins and is pushed
+    } else if (versionOf(mine) === base) {
+      take();
+    } else {
+      conflicts.push({ local: mine, remote });
+    }
+  }
+
+  return { merged: Array.from(byId.values()), bases: nextBases, conflicts };
+}
+
+/**
+ * Replaces the open conflicts of `entity` for the records in a pulled page with
+ * the ones just detected; records of the page that merged cleanly are settled.
+ */
+export function updateConflicts(
+  open: SyncConflict[],
+  entity: SyncEntity,
+  pageIds: string[],
+  detected: { local: SyncRecord; remote: SyncRecord }[],
+  now: string,
+): SyncConflict[] {
+  const inPage = new Set(pageIds.map(id => conflictKey(entity, id)));
+  const previous = new Map(open.map(c => [c.key, c]));
+  return [
+    ...open.filter(c => !inPage.has(c.key)),
+    ...detected.map(({ local, remote }) => {
+      const key = conflictKey(entity, local.id);
+      return { key, entity, local, remote, detectedAt: previous.get(key)?.detectedAt ?? now };
+    }),
+  ];
+}
+
+/**
+ * The record that replaces both copies. It gets a fresh `updatedAt` unless the
+ * remote copy is taken as-is, so the choice is pushed on the next sync.
+ */
+export function resolveConflict(conflict: SyncConflict, resolution: ConflictResolution, now: string): SyncRecord {
+  if (resolution === 'remote') return conflict.remote;
+  if (resolution === 'local') return { ...conflict.local, updatedAt: now };
+
+  const resolved: Record<string, unknown> = { ...conflict.remote };
+  const local = conflict.local as unknown as Record<string, unknown>;
+  for (const [field, choice] of Object.entries(resolution)) {
+    if (choice !== 'local') continue;
+    if (local[field] === undefined) delete resolved[field];
+    else resolved[field] = local[field];
+  }
+  return { ...(resolved as unknown as SyncRecord), updatedAt: now };
+}
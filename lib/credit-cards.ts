@@ -0,0 +1,109 @@
+import { Account, Transaction } from './types';
+import { getDaysInMonth } from './format';
+import { accountCurrency } from './currency';
+import { addDays } from './recurrence';
+import { amountIn } from './reconcile';
+
+// ─── Credit cards ────────────────────────────────────────────────────────────
+// A card's balance is negative while money is owed on it. Charges are grouped
+// into statements that close on the same day every month; whatever was owed
+// at the last close is due on the following due day, less any payments made
+// since.
+
+export interface CardStatement {
+  start: string; // first day of the last closed period
+  end: string; // closing date
+  dueDate: string;
+  balance: number; // owed at closing; negative = in credit
+  paid: number; // payments and refunds since closing
+  amountDue: number; // what is left of the statement balance, never negative
+  newCharges: number; // spent since closing, due on the next statement
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** `day` of the given month, pulled back to the last day in short months. */
+function dayOfMonth(year: number, month: number, day: number): string {
+  return toDateString(year, month, Math.min(day, getDaysInMonth(year, month)));
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isCreditCard(account: Pick<Account, 'type'>): boolean {
+  return account.type === 'credit_card';
+}
+
+/** The latest closing date on or before `today`, for a statement closing on `closingDay`. */
+export function lastClosingDate(closingDay: number, today: string): string {
+  const [year, month] = today.split('-').map(Number);
+  const thisMonth = dayOfMonth(year, month, closingDay);
+  if (thisMonth <= today) return thisMonth;
+  return month === 1 ? dayOfMonth(year - 1, 12, closingDay) : dayOfMonth(year, month - 1, closingDay);
+}
+
+/** When a statement closing on `closingDate` is due: the next `dueDay` after it. */
+export function paymentDueDate(closingDate: string, dueDay: number): string {
+  const [year, month] = closingDate.split('-').map(Number);
+  const sameMonth = dayOfMonth(year, month, dueDay);
+  if (sameMonth > closingDate) return sameMonth;
+  return month === 12 ? dayOfMonth(year + 1, 1, dueDay) : dayOfMonth(year, month + 1, dueDay);
+}
+
+/** Account balance at the end of `date`. */
+export function balanceOn(account: Account, transactions: Transaction[], date: string): number {
+  let balance = account.initialBalance;
+  for (const tx of transactions) {
+    if (!tx.deletedAt && tx.date <= date) balance += amountIn(tx, account.id);
+  }
+  return roundCents(balance);
+}
+
+/**
+ * The card's last closed statement as of `today`, or null when no closing day
+ * is set. Without a due day, payment is due on the closing date.
+ */
+export function cardStatement(account: Account, transactions: Transaction[], today: string): CardStatement | null {
+  if (!account.closingDay) return null;
+  const end = lastClosingDate(account.closingDay, today);
+  const start = addDays(lastClosingDate(account.closingDay, addDays(end, -1)), 1);
+  let paid = 0;
+  let newCharges = 0;
+  for (const tx of transactions) {
+    if (tx.deletedAt || tx.date <= end || tx.date > today) continue;
+    const amount = amountIn(tx, account.id);
+    if (amount > 0) paid += amount;
+    else newCharges -= amount;
+  }
+  const balance = -balanceOn(account, transactions, end) || 0; // not -0 when settled
+  return {
+    start,
+    end,
+    dueDate: account.dueDay ? paymentDueDate(end, account.dueDay) : end,
+    balance,
+    paid: roundCents(paid),
+    amountDue: Math.max(0, roundCents(balance - paid)),
+    newCharges: roundCents(newCharges),
+  };
+}
+
+/** Credit left under the limit at `balance`, or null when the card has no limit. */
+export function availableCredit(account: Account, balance: number): number | null {
+  if (account.creditLimit === undefined) return null;
+  return roundCents(account.creditLimit + balance);
+}
+
+/**
+ * Where a card payment comes from by default: a bank account in the card's
+ * currency, else any other account in it that is not a card or a loan.
+ */
+export function defaultPaymentAccount(card: Account, accounts: Account[], baseCurrency: string): Account | undefined {
+  const currency = accountCurrency(card, baseCurrency);
+  const candidates = accounts.filter(a =>
+    a.id !== card.id && !a.deletedAt && !isCreditCard(a) && a.type !== 'loan'
+    && accountCurrency(a, baseCurrency) === currency);
+  return candidates.find(a => a.type === 'bank') ?? candidates[0];
+}
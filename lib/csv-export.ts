@@ -0,0 +1,63 @@
+import { Account, Category, Transaction } from './types';
+import { categoryLines, isSplit } from './splits';
+import { categoryPath } from './category-tree';
+import { formatTags } from './tags';
+
+// ─── CSV export ──────────────────────────────────────────────────────────────
+// One row per category line, so a spreadsheet can total by category. The lines
+// of a split transaction share its index, and the import's column mapping
+// (csv-mapping.ts) joins rows with the same index back into one transaction.
+
+const SHORT_MONTHS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+function formatExportTime(isoString: string): string {
+  const date = new Date(isoString);
+  const month = SHORT_MONTHS[date.getMonth()];
+  const day = String(date.getDate()).padStart(2, '0');
+  const year = date.getFullYear();
+  let hours = date.getHours();
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12 || 12;
+  return `${month} ${day}, ${year} ${hours}:${minutes} ${ampm}`;
+}
+
+// Always quote every field — guarantees commas inside values never break columns
+const q = (val: string | number): string => `"${String(val).replace(/"/g, '""')}"`;
+
+/** The CSV file for `transactions`, oldest first. */
+export function transactionsToCsv(transactions: Transaction[], accounts: Account[], categories: Category[]): string {
+  const sorted = [...transactions].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const header = [
+    q('index'), q('TIME'), q('TYPE'), q('AMOUNT'), q('CATEGORY'), q('ACCOUNT'), q('NOTES'), q('TAGS'), q('SPLIT NOTE'),
+  ].join(',');
+  const rows = sorted.flatMap((t, i) => {
+    const account = accounts.find(a => a.id === t.accountId);
+    const time = formatExportTime(t.createdAt);
+    const type =
+      t.type === 'expense' ? '(-) Expense' :
+      t.type === 'income' ? '(+) Income' :
+      '(=) Transfer';
+    return categoryLines(t).map(line => [
+      q(i + 1),
+      q(time),
+      q(type),
+      q(line.amount),
+      // Subcategories export as their path, e.g. "Food > Coffee"
+      q(categoryPath(categories, line.categoryId)),
+      q(account?.name ?? ''),
+      q(t.note ?? ''),
+      q(formatTags(t.tags)),
+      q(isSplit(t) ? line.note ?? '' : ''),
+    ].join(','));
+  });
+
+  // UTF-8 BOM (\ufeff) + CRLF line endings for proper Excel/Sheets recognition
+  return '\ufeff' + [header, ...rows].join('\r\n');
+}
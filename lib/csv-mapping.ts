@@ -0,0 +1,460 @@
+import { CsvField, CsvMapping, CsvProfile, TransactionType } from './types';
+
+// ─── CSV Column Mapping ──────────────────────────────────────────────────────
+// Reads CSV exports from other apps and banks: the separator, header row and
+// which column holds what are detected up front, then adjusted by the user
+// and saved as a profile for the next file with the same columns. Every row
+// is checked on its own; a row whose date or amount can't be read is reported
+// with the reason instead of being imported with a made-up value.
+
+export const CSV_FIELDS: { key: CsvField; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'debit', label: 'Money out' },
+  { key: 'credit', label: 'Money in' },
+  { key: 'type', label: 'Type' },
+  { key: 'payee', label: 'Payee' },
+  { key: 'note', label: 'Note' },
+  { key: 'category', label: 'Category' },
+  { key: 'account', label: 'Account' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'group', label: 'Split group' },
+  { key: 'splitNote', label: 'Split line note' },
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+/**
+ * Date patterns offered for the date column. YYYY/YY is the year, MM/M the
+ * month number, MMM its English name ("Feb", "February"), DD/D the day.
+ * Anything after the date (a time, say) is ignored.
+ */
+export const DATE_FORMATS = [
+  'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY', 'YYYY/MM/DD',
+  'YYYYMMDD', 'DD/MM/YY', 'MM/DD/YY', 'DD.MM.YY', 'MMM D, YYYY', 'D MMM YYYY',
+];
+
+/** One row read through a mapping. */
+export interface MappedRow {
+  date: string; // YYYY-MM-DD
+  type: TransactionType;
+  amount: number; // positive
+  category: string;
+  account: string;
+  payee: string;
+  note: string;
+  tags: string;
+  group?: string; // rows with the same value are the lines of one split transaction
+  splitNote?: string;
+  lines?: MappedLine[]; // set by groupSplitRows on a row joined from two or more
+}
+
+/** One category line of a split row. */
+export interface MappedLine {
+  category: string;
+  amount: number;
+  note: string;
+}
+
+export interface MappedResult {
+  line: number; // 1-based row number in the file
+  row?: MappedRow; // missing when the row has errors
+  errors: string[];
+}
+
+// ─── Splitting ───────────────────────────────────────────────────────────────
+
+/** Rows of cells; quoted cells may hold the delimiter, line breaks and "" for a quote. */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const src = text.replace(/^\ufeff/, '');
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(c => c !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/** The delimiter that splits the first lines into the most, and most even, columns. */
+export function detectDelimiter(text: string): string {
+  const head = text.split(/\r?\n/).slice(0, 30).join('\n');
+  let best = { value: ',', score: 0 };
+  for (const { value } of CSV_DELIMITERS) {
+    const counts = parseDelimited(head, value).map(r => r.length);
+    if (counts.length === 0) continue;
+    const widest = Math.max(...counts);
+    if (widest < 2) continue;
+    const even = counts.filter(n => n === widest).length / counts.length;
+    const score = even * widest;
+    if (score > best.score) best = { value, score };
+  }
+  return best.value;
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function formatRegExp(format: string): { re: RegExp; parts: string[] } {
+  const parts: string[] = [];
+  // Without separators ("YYYYMMDD") every number has its full width
+  const number = /[^A-Z]/.test(format) ? '(\\d{1,2})' : '(\\d{2})';
+  const body = format.replace(/YYYY|YY|MMM|MM|M|DD|D|\s+|[^A-Z\s]/g, token => {
+    switch (token) {
+      case 'YYYY': parts.push('Y'); return '(\\d{4})';
+      case 'YY': parts.push('y'); return '(\\d{2})';
+      case 'MMM': parts.push('N'); return '([A-Za-z]{3,})\\.?';
+      case 'MM': case 'M': parts.push('M'); return number;
+      case 'DD': case 'D': parts.push('D'); return number;
+      default:
+        if (/^\s+$/.test(token)) return '\\s+';
+        if (token === ',') return ',?';
+        return token.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  });
+  return { re: new RegExp(`^\\s*${body}(?:$|[T\\s,].*$)`), parts };
+}
+
+/** `raw` read with a DATE_FORMATS pattern as YYYY-MM-DD, or null when it doesn't fit. */
+export function parseDateWithFormat(raw: string, format: string): string | null {
+  const { re, parts } = formatRegExp(format);
+  const m = raw.match(re);
+  if (!m) return null;
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  parts.forEach((part, i) => {
+    const value = m[i + 1];
+    if (part === 'Y') year = Number(value);
+    else if (part === 'y') year = Number(value) + (Number(value) < 70 ? 2000 : 1900);
+    else if (part === 'N') month = MONTHS.indexOf(value.slice(0, 3).toLowerCase()) + 1;
+    else if (part === 'M') month = Number(value);
+    else day = Number(value);
+  });
+  if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= daysInMonth(year, month))) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The pattern most samples fit, so one mistyped date doesn't throw off the
+ * rest; day-first wins when both orders fit equally.
+ */
+export function detectDateFormat(samples: string[]): string | undefined {
+  const values = samples.filter(s => s.trim());
+  let best: { format?: string; fits: number } = { fits: 0 };
+  for (const format of DATE_FORMATS) {
+    const fits = values.filter(v => parseDateWithFormat(v, format) !== null).length;
+    if (fits > best.fits) best = { format, fits };
+  }
+  return best.format;
+}
+
+/**
+ * A signed number from an amount cell: currency symbols and spaces are
+ * dropped, the other separator is taken as thousands grouping, and
+ * "(12.50)" or "12.50-" read as negative. Null when it isn't a number.
+ */
+export function parseAmountText(raw: string, decimalSeparator: '.' | ','): number | null {
+  let s = raw.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1); }
+  if (s.endsWith('-')) { negative = true; s = s.slice(0, -1); }
+  s = s.replace(/[^\d.,+-]/g, '');
+  if (s.startsWith('-')) { negative = !negative; s = s.slice(1); }
+  else if (s.startsWith('+')) s = s.slice(1);
+  s = s.split(decimalSeparator === ',' ? '.' : ',').join('');
+  if (decimalSeparator === ',') s = s.replace(',', '.');
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(s)) return null;
+  const n = parseFloat(s);
+  return negative ? -n : n;
+}
+
+/** "," when the samples write cents after a comma ("12,50", "1.234,56"), else ".". */
+export function detectDecimalSeparator(samples: string[]): '.' | ',' {
+  let comma = 0;
+  let dot = 0;
+  for (const s of samples) {
+    const m = s.match(/([.,])\d{1,2}\D*$/);
+    if (m?.[1] === ',') comma++;
+    else if (m?.[1] === '.') dot++;
+  }
+  return comma > dot ? ',' : '.';
+}
+
+/** Transaction type named in a type cell ("(-) Expense", "Debit", "Deposit" …), or null. */
+export function parseTypeText(raw: string): TransactionType | null {
+  const s = raw.trim().toLowerCase();
+  if (!s) return null;
+  if (s.includes('transfer') || s.includes('(*)') || s.includes('(=)') || s.includes('→')) return 'transfer';
+  if (/income|credit|deposit|\(\+\)|^in$|^cr$|^\+$/.test(s)) return 'income';
+  if (/expense|debit|withdrawal|payment|purchase|\(-\)|^out$|^dr$|^-$/.test(s)) return 'expense';
+  return null;
+}
+
+// ─── Guessing a mapping ──────────────────────────────────────────────────────
+
+const FIELD_PATTERNS: [CsvField, RegExp][] = [
+  ['date', /\b(date|time|posted|datum|fecha|data|buchungstag)\b/],
+  ['type', /^((transaction )?type|kind|direction|dr\/cr|cr\/dr)$/],
+  ['debit', /\b(debit|withdrawals?|money out|paid out|outflow|spent)\b/],
+  ['credit', /\b(credit|deposits?|money in|paid in|inflow|received)\b/],
+  ['amount', /\b(amount|value|sum|betrag|importe|montant|total)\b/],
+  ['category', /\b(category|kategorie|categoria)\b/],
+  ['account', /\b(account|konto|wallet)\b/],
+  ['payee', /\b(payee|merchant|counterparty|beneficiary|recipient|name|empfänger)\b/],
+  ['group', /^(index|#|split group)$/],
+  ['splitNote', /^split (line )?note$/],
+  ['note', /\b(notes?|memo|description|details|narrative|reference|purpose|verwendungszweck|comments?)\b/],
+  ['tags', /\b(tags?|labels?)\b/],
+];
+
+// At most a currency code's worth of letters, so "Address line 2" is not an amount
+const looksLikeAmount = (s: string) =>
+  /\d/.test(s) && (s.match(/[A-Za-z]/g)?.length ?? 0) <= 3 && parseAmountText(s, detectDecimalSeparator([s])) !== null;
+const looksLikeDate = (s: string) => DATE_FORMATS.some(f => parseDateWithFormat(s, f) !== null);
+
+/**
+ * Index of the row with column names: the first of the opening rows with no
+ * numbers or dates in it, followed by a row that has some. -1 when the file
+ * starts with data.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  for (let i = 0; i < Math.min(rows.length - 1, 10); i++) {
+    const cells = rows[i].filter(Boolean);
+    if (cells.length < 2 || cells.some(c => looksLikeAmount(c) || looksLikeDate(c))) continue;
+    if (rows[i + 1].some(c => looksLikeAmount(c) || looksLikeDate(c))) return i;
+  }
+  return -1;
+}
+
+/** Column names, or "Column n" for files without a header row. */
+export function columnNames(rows: string[][], mapping: Pick<CsvMapping, 'headerRow'>): string[] {
+  const width = Math.max(0, ...rows.slice(mapping.headerRow + 1, mapping.headerRow + 51).map(r => r.length));
+  const header = mapping.headerRow >= 0 ? rows[mapping.headerRow] ?? [] : [];
+  return Array.from({ length: Math.max(width, header.length) }, (_, i) => header[i] || `Column ${i + 1}`);
+}
+
+/** Values of column `index` in the first data rows. */
+export function columnSamples(rows: string[][], headerRow: number, index: number, count = 20): string[] {
+  return rows.slice(headerRow + 1, headerRow + 1 + count).map(r => r[index] ?? '').filter(Boolean);
+}
+
+/** A starting mapping for `rows`: header names first, then what the values look like. */
+export function guessMapping(rows: string[][], delimiter: string): CsvMapping {
+  const headerRow = detectHeaderRow(rows);
+  const columns: Partial<Record<CsvField, number>> = {};
+  const taken = new Set<number>();
+  const assign = (field: CsvField, index: number) => {
+    columns[field] = index;
+    taken.add(index);
+  };
+
+  if (headerRow >= 0) {
+    const names = rows[headerRow].map(n => n.trim().toLowerCase());
+    for (const [field, re] of FIELD_PATTERNS) {
+      const index = names.findIndex((n, i) => !taken.has(i) && re.test(n));
+      if (index >= 0) assign(field, index);
+    }
+  }
+
+  const width = columnNames(rows, { headerRow }).length;
+  const samples = (i: number) => columnSamples(rows, headerRow, i);
+  const free = () => Array.from({ length: width }, (_, i) => i).filter(i => !taken.has(i) && samples(i).length > 0);
+  if (columns.date === undefined) {
+    const index = free().find(i => samples(i).every(looksLikeDate));
+    if (index !== undefined) assign('date', index);
+  }
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    const index = free().find(i => samples(i).every(looksLikeAmount));
+    if (index !== undefined) assign('amount', index);
+  }
+  if (columns.note === undefined && columns.payee === undefined) {
+    const index = free().find(i => samples(i).some(s => !looksLikeAmount(s)));
+    if (index !== undefined) assign('note', index);
+  }
+
+  const amountSamples = (['amount', 'debit', 'credit'] as const)
+    .flatMap(f => (columns[f] !== undefined ? samples(columns[f]!) : []));
+  return {
+    delimiter,
+    headerRow,
+    columns,
+    dateFormat: (columns.date !== undefined ? detectDateFormat(samples(columns.date)) : undefined) ?? DATE_FORMATS[0],
+    decimalSeparator: detectDecimalSeparator(amountSamples),
+    amountSign: 'expense-negative',
+  };
+}
+
+/** `columns` with `field` read from column `index` (or from none), one field per column. */
+export function assignColumn(
+  columns: CsvMapping['columns'],
+  index: number,
+  field: CsvField | null,
+): CsvMapping['columns'] {
+  const next: CsvMapping['columns'] = {};
+  for (const [key, value] of Object.entries(columns) as [CsvField, number][]) {
+    if (value !== index) next[key] = value;
+  }
+  if (!field) return next;
+  // One signed amount column or a money out / money in pair, not both
+  if (field === 'amount') { delete next.debit; delete next.credit; }
+  if (field === 'debit' || field === 'credit') delete next.amount;
+  next[field] = index;
+  return next;
+}
+
+/** What the mapping still needs before rows can be read, or null. */
+export function mappingProblem(mapping: CsvMapping): string | null {
+  const { columns } = mapping;
+  if (columns.date === undefined) return 'Choose the date column';
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    return 'Choose the amount column, or the money out and money in columns';
+  }
+  return null;
+}
+
+// ─── Reading rows ────────────────────────────────────────────────────────────
+
+function readRow(cells: string[], mapping: CsvMapping): { row?: MappedRow; errors: string[] } {
+  const { columns } = mapping;
+  const cell = (field: CsvField) => (columns[field] !== undefined ? cells[columns[field]!] ?? '' : '');
+  const errors: string[] = [];
+
+  const rawDate = cell('date');
+  const date = rawDate ? parseDateWithFormat(rawDate, mapping.dateFormat) : null;
+  if (!rawDate) errors.push('No date');
+  else if (!date) errors.push(`Date "${rawDate}" doesn't match ${mapping.dateFormat}`);
+
+  const readAmount = (field: CsvField): number | null | undefined => {
+    const raw = cell(field);
+    if (!raw) return undefined;
+    const value = parseAmountText(raw, mapping.decimalSeparator);
+    if (value === null) errors.push(`Amount "${raw}" is not a number`);
+    return value;
+  };
+
+  let signed: number | null | undefined;
+  let type: TransactionType | null = parseTypeText(cell('type'));
+  if (columns.amount !== undefined) {
+    signed = readAmount('amount');
+    if (signed === undefined) errors.push('No amount');
+    else if (signed === 0) errors.push('Amount is zero');
+  } else {
+    const out = readAmount('debit');
+    const into = readAmount('credit');
+    if (out === null || into === null) {
+      // already reported
+    } else if (!out && !into) {
+      errors.push(out === undefined && into === undefined ? 'No amount' : 'Amount is zero');
+    } else if (out && into) {
+      errors.push('Both money out and money in are filled');
+    } else if (out) {
+      signed = -Math.abs(out);
+      type = type ?? 'expense';
+    } else {
+      signed = Math.abs(into!);
+      type = type ?? 'income';
+    }
+  }
+
+  if (errors.length > 0 || !date || signed === null || signed === undefined) return { errors };
+  if (!type) {
+    const moneyOut = mapping.amountSign === 'expense-negative' ? signed < 0 : signed > 0;
+    type = moneyOut ? 'expense' : 'income';
+  }
+  return {
+    errors,
+    row: {
+      date,
+      type,
+      amount: Math.abs(signed),
+      category: cell('category'),
+      account: cell('account'),
+      payee: cell('payee'),
+      note: cell('note'),
+      tags: cell('tags'),
+      group: cell('group') || undefined,
+      splitNote: cell('splitNote') || undefined,
+    },
+  };
+}
+
+/**
+ * Every data row read through `mapping`. A type column decides the type when
+ * it names one; otherwise money out / money in, or the sign convention for a
+ * single amount column, does.
+ */
+export function mapRows(rows: string[][], mapping: CsvMapping): MappedResult[] {
+  return rows.slice(mapping.headerRow + 1).map((cells, i) => ({
+    line: mapping.headerRow + 2 + i,
+    ...readRow(cells, mapping),
+  }));
+}
+
+/**
+ * Joins rows that share a group value into one row with split lines, in the
+ * place of the first; the amounts add up. Rows without a group stay as they are.
+ */
+export function groupSplitRows(rows: MappedRow[]): MappedRow[] {
+  type Joined = MappedRow & { lines: MappedLine[] };
+  const joined: Joined[] = [];
+  const byGroup = new Map<string, Joined>();
+  for (const row of rows) {
+    const line = { category: row.category, amount: row.amount, note: row.splitNote ?? '' };
+    const first = row.group ? byGroup.get(row.group) : undefined;
+    if (first) {
+      first.lines.push(line);
+      first.amount = Math.round((first.amount + row.amount) * 100) / 100;
+      continue;
+    }
+    const copy = { ...row, lines: [line] };
+    if (row.group) byGroup.set(row.group, copy);
+    joined.push(copy);
+  }
+  return joined.map(({ lines, ...row }) => (lines.length > 1 ? { ...row, lines } : row));
+}
+
+// ─── Profiles ────────────────────────────────────────────────────────────────
+
+const headerSignature = (headers: string[]) => headers.map(h => h.trim().toLowerCase()).join('|');
+
+/** The saved profile made for files with these column names, if any. */
+export function findProfileForHeaders(profiles: CsvProfile[], headers: string[]): CsvProfile | undefined {
+  const signature = headerSignature(headers);
+  return profiles.find(p => p.headers && headerSignature(p.headers) === signature);
+}
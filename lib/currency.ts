@@ -0,0 +1,169 @@
+import { Account, Transaction } from './types';
+import { scaleSplits } from './splits';
+
+// ─── Currencies ──────────────────────────────────────────────────────────────
+
+export interface CurrencyInfo {
+  code: string; // ISO 4217
+  symbol: string;
+  label: string;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', symbol: '$',  label: 'US Dollar' },
+  { code: 'EUR', symbol: '€',  label: 'Euro' },
+  { code: 'GBP', symbol: '£',  label: 'British Pound' },
+  { code: 'INR', symbol: '₹',  label: 'Indian Rupee' },
+  { code: 'JPY', symbol: '¥',  label: 'Japanese Yen' },
+  { code: 'THB', symbol: '฿',  label: 'Thai Baht' },
+  { code: 'KRW', symbol: '₩',  label: 'South Korean Won' },
+  { code: 'NGN', symbol: '₦',  label: 'Nigerian Naira' },
+  { code: 'CAD', symbol: 'C$', label: 'Canadian Dollar' },
+  { code: 'AUD', symbol: 'A$', label: 'Australian Dollar' },
+  { code: 'CHF', symbol: 'Fr', label: 'Swiss Franc' },
+  { code: 'CNY', symbol: '元', label: 'Chinese Yuan' },
+];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/** Display symbol for an ISO code; unknown codes are shown as "XYZ ". */
+export function currencySymbol(code: string): string {
+  return CURRENCIES.find(c => c.code === code)?.symbol ?? `${code} `;
+}
+
+/** Maps the pre-multi-currency global symbol setting to an ISO code. */
+export function codeForSymbol(symbol: string): string {
+  return CURRENCIES.find(c => c.symbol === symbol)?.code ?? DEFAULT_CURRENCY;
+}
+
+export function accountCurrency(account: Account | undefined, baseCurrency: string): string {
+  return account?.currency ?? baseCurrency;
+}
+
+// ─── Rate Table ──────────────────────────────────────────────────────────────
+
+/**
+ * Exchange rates quoted against a pivot currency: 1 unit of `code` is worth
+ * `rates[code]` units of `pivot`. The pivot follows the base currency when it
+ * changes (see rebaseRates), so rates the user typed in stay readable.
+ */
+export interface RateTable {
+  pivot: string;
+  rates: Record<string, number>;
+  updatedAt: string;
+}
+
+export function emptyRateTable(pivot: string): RateTable {
+  return { pivot, rates: {}, updatedAt: new Date(0).toISOString() };
+}
+
+/** Value of one unit of `code` in pivot units, or null when unknown. */
+function unitValue(table: RateTable, code: string): number | null {
+  if (code === table.pivot) return 1;
+  const rate = table.rates[code];
+  return rate && rate > 0 ? rate : null;
+}
+
+/** Converts between two currencies; null when either rate is missing. */
+export function convertAmount(amount: number, from: string, to: string, table: RateTable): number | null {
+  if (from === to) return amount;
+  const fromValue = unitValue(table, from);
+  const toValue = unitValue(table, to);
+  if (fromValue === null || toValue === null) return null;
+  return (amount * fromValue) / toValue;
+}
+
+/** Re-quotes every rate against `pivot`. Returns the table unchanged if `pivot` has no rate. */
+export function rebaseRates(table: RateTable, pivot: string): RateTable {
+  if (table.pivot === pivot) return table;
+  const pivotValue = unitValue(table, pivot);
+  if (pivotValue === null) return table;
+
+  const rates: Record<string, number> = { [table.pivot]: 1 / pivotValue };
+  for (const [code, rate] of Object.entries(table.rates)) {
+    if (code !== pivot) rates[code] = rate / pivotValue;
+  }
+  return { pivot, rates, updatedAt: table.updatedAt };
+}
+
+/** Records "1 `code` = `value` `base`". */
+export function setRate(table: RateTable, code: string, value: number, base: string, now: string): RateTable {
+  const rebased = rebaseRates(table, base);
+  if (rebased.pivot === base) {
+    return { ...rebased, rates: { ...rebased.rates, [code]: value }, updatedAt: now };
+  }
+  // Base is not linked to the table yet; link it through `code` if we can
+  const codeValue = unitValue(rebased, code);
+  if (codeValue !== null) {
+    return { ...rebased, rates: { ...rebased.rates, [base]: codeValue / value }, updatedAt: now };
+  }
+  // Nothing connects the two — start a table quoted in the base currency
+  return { pivot: base, rates: { [code]: value }, updatedAt: now };
+}
+
+/**
+ * Parses pasted rates, one per line: "EUR,1.08", "EUR=1.08" or "EUR 1.08",
+ * each meaning 1 unit of that currency in the base currency. A JSON object
+ * ({"EUR": 1.08}) is accepted too.
+ */
+export function parseRates(text: string): { rates: Record<string, number>; errors: string[] } {
+  const rates: Record<string, number> = {};
+  const errors: string[] = [];
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      const obj = JSON.parse(trimmed) as Record<string, unknown>;
+      for (const [code, value] of Object.entries(obj)) {
+        const rate = Number(value);
+        if (/^[A-Za-z]{3}$/.test(code) && rate > 0) rates[code.toUpperCase()] = rate;
+        else errors.push(code);
+      }
+    } catch {
+      errors.push('Invalid JSON');
+    }
+    return { rates, errors };
+  }
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const match = line.trim().match(/^([A-Za-z]{3})\s*[,;=:\s]\s*([0-9]*\.?[0-9]+)$/);
+    if (match && parseFloat(match[2]) > 0) {
+      rates[match[1].toUpperCase()] = parseFloat(match[2]);
+    } else {
+      errors.push(line.trim());
+    }
+  }
+  return { rates, errors };
+}
+
+// ─── Conversion helpers ──────────────────────────────────────────────────────
+
+/**
+ * Copies of `transactions` with `amount` expressed in the base currency, for
+ * totals and charts. Amounts without a known rate are left as-is and their
+ * currency is reported in `missing`.
+ */
+export function transactionsInBase(
+  transactions: Transaction[],
+  accounts: Account[],
+  baseCurrency: string,
+  table: RateTable,
+): { transactions: Transaction[]; missing: string[] } {
+  const currencyById = new Map(accounts.map(a => [a.id, accountCurrency(a, baseCurrency)]));
+  const missing = new Set<string>();
+
+  const converted = transactions.map(t => {
+    const from = currencyById.get(t.accountId) ?? baseCurrency;
+    if (from === baseCurrency) return t;
+    const amount = convertAmount(t.amount, from, baseCurrency, table);
+    if (amount === null) {
+      missing.add(from);
+      return t;
+    }
+    const splits = t.splits && t.amount > 0 ? scaleSplits(t.splits, amount, amount / t.amount) : t.splits;
+    return { ...t, amount, splits };
+  });
+
+  return { transactions: converted, missing: Array.from(missing) };
+}
@@ -29,10 +29,16 @@ export const DEFAULT_INCOME_CATEGORIES: Omit<Category, 'createdAt'>[] = [
   { id: 'cat-other-income', name: 'Other Income', type: 'income', icon: '💰', color: '#FFCA28', isDefault: true, sortOrder: 6 },
 ];
 
+/**
+ * Seeds are stamped at the epoch rather than install time, so on a new
+ * device's first sync any edit or delete already on the server wins over them.
+ */
+export const SEED_CREATED_AT = new Date(0).toISOString();
+
 export const DEFAULT_CATEGORIES: Category[] = [
   ...DEFAULT_EXPENSE_CATEGORIES,
   ...DEFAULT_INCOME_CATEGORIES,
-].map(cat => ({ ...cat, createdAt: new Date().toISOString() }));
+].map(cat => ({ ...cat, createdAt: SEED_CREATED_AT }));
 
 // ─── Default Accounts ────────────────────────────────────────────────────────
 
@@ -44,7 +50,7 @@ export const DEFAULT_ACCOUNTS: Account[] = [
     initialBalance: 500,
     icon: '💵',
     color: '#4CAF50',
-    createdAt: new Date().toISOString(),
+    createdAt: SEED_CREATED_AT,
   },
   {
     id: 'acc-bank',
@@ -53,7 +59,7 @@ export const DEFAULT_ACCOUNTS: Account[] = [
     initialBalance: 2000,
     icon: '🏦',
     color: '#2196F3',
-    createdAt: new Date().toISOString(),
+    createdAt: SEED_CREATED_AT,
   },
   {
     id: 'acc-card',
@@ -62,7 +68,7 @@ export const DEFAULT_ACCOUNTS: Account[] = [
     initialBalance: 0,
     icon: '💳',
     color: '#9C27B0',
-    createdAt: new Date().toISOString(),
+    createdAt: SEED_CREATED_AT,
   },
 ];
 
@@ -0,0 +1,66 @@
+import type { SyncEntity } from './storage';
+
+// ─── Delta sync bookkeeping ──────────────────────────────────────────────────
+// performSync pushes only records changed since the last successful push and
+// pulls only remote rows changed after the last pulled one, a page at a time.
+
+/** Rows per push batch and per pulled page. */
+export const SYNC_PAGE_SIZE = 500;
+
+/**
+ * Position in a table's change feed, ordered by (syncedAt, id). `syncedAt` is
+ * stamped by the server on every write, unlike the device-set `updatedAt`, so
+ * an old edit pushed late still lands after every cursor handed out before it.
+ */
+export interface SyncCursor {
+  syncedAt: string;
+  id: string;
+}
+
+/** One page of a change feed and the cursor just past its last row. */
+export interface SyncPage<T> {
+  records: T[];
+  next: SyncCursor | null;
+}
+
+/** Per-user sync progress; a different signed-in user starts from scratch. */
+export interface SyncState {
+  userId: string;
+  pushedAt: Partial<Record<SyncEntity, string>>; // local time the last successful push started
+  pulled: Partial<Record<SyncEntity, SyncCursor>>; // newest remote row merged locally
+  bases: Partial<Record<SyncEntity, Record<string, string>>>; // base revision per record id (see conflicts.ts)
+}
+
+export function emptySyncState(userId: string): SyncState {
+  return { userId, pushedAt: {}, pulled: {}, bases: {} };
+}
+
+type Versioned = { id: string; createdAt: string; updatedAt?: string };
+
+const versionOf = (r: Versioned) => r.updatedAt ?? r.createdAt;
+
+/**
+ * Records saved at or after `mark`, i.e. not yet covered by a successful push.
+ * With no mark (first sync) everything is dirty. Equal timestamps count as
+ * dirty: pushing a row twice is harmless, skipping one is not.
+ */
+export function dirtySince<T extends Versioned>(records: T[], mark: string | undefined): T[] {
+  if (!mark) return records;
+  const markTime = Date.parse(mark);
+  return records.filter(r => Date.parse(versionOf(r)) >= markTime);
+}
+
+/** Splits `items` into consecutive batches of at most `size`. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+}
+
+/**
+ * The stored cursor, or null for one saved while the feed still paged on
+ * updatedAt; that table is pulled again from the start.
+ */
+export function usableCursor(cursor: Partial<SyncCursor> | undefined): SyncCursor | null {
+  return cursor?.syncedAt && cursor.id ? { syncedAt: cursor.syncedAt, id: cursor.id } : null;
+}
@@ -0,0 +1,197 @@
+import { Transaction } from './types';
+import { addTag } from './tags';
+
+// ─── Duplicate Detection ─────────────────────────────────────────────────────
+// Finds transactions that are probably the same real-world payment entered
+// twice: importing a file again, overlapping bank exports, or typing in what
+// was later imported. Two transactions are likely duplicates when they are on
+// the same account, of the same type and amount, dated within a few days of
+// each other, and their notes read alike. A shared bank id (`fitId`) settles
+// it either way.
+
+export interface DuplicateOptions {
+  maxDays: number; // dates at most this many days apart
+  minSimilarity: number; // 0–1, see textSimilarity
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = { maxDays: 3, minSimilarity: 0.5 };
+
+/** What the detector compares; import rows provide this before they become transactions. */
+export type DuplicateCandidate = Pick<Transaction, 'type' | 'amount' | 'accountId' | 'toAccountId' | 'date' | 'note' | 'fitId'>;
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (const word of text.split(' ')) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+      const gram = padded.slice(i, i + 2);
+      grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+  }
+  return grams;
+}
+
+/**
+ * How alike two notes read, from 0 to 1 (Dice coefficient over letter pairs,
+ * ignoring case and punctuation). Two empty notes count as alike; an empty
+ * one against a filled one scores the minimum similarity, since imports often
+ * leave the note out.
+ */
+export function textSimilarity(a: string | undefined, b: string | undefined, emptyScore = 0.5): number {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  if (!x && !y) return 1;
+  if (!x || !y) return emptyScore;
+  if (x === y) return 1;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, n] of gx) {
+    shared += Math.min(n, gy.get(gram) ?? 0);
+    total += n;
+  }
+  for (const n of gy.values()) total += n;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000;
+}
+
+export function isLikelyDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS,
+): boolean {
+  if (a.accountId !== b.accountId || a.type !== b.type) return false;
+  if (a.fitId && b.fitId) return a.fitId === b.fitId;
+  if (Math.round(a.amount * 100) !== Math.round(b.amount * 100)) return false;
+  if ((a.toAccountId ?? '') !== (b.toAccountId ?? '')) return false;
+  if (daysApart(a.date, b.date) > options.maxDays) return false;
+  return textSimilarity(a.note, b.note, options.minSimilarity) >= options.minSimilarity;
+}
+
+/** Transactions that may collide: same account, type and amount. */
+function groupKey(t: DuplicateCandidate): string {
+  return `${t.accountId}|${t.type}|${Math.round(t.amount * 100)}`;
+}
+
+/**
+ * The existing transaction each candidate most likely duplicates (closest
+ * date first), by candidate index. Used to flag rows in the import preview.
+ */
+export function findImportDuplicates(
+  candidates: DuplicateCandidate[],
+  existing: Transaction[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS,
+): Map<number, Transaction> {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of existing) {
+    if (t.deletedAt) continue;
+    const key = groupKey(t);
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+  const byFitId = new Map(existing.filter(t => t.fitId && !t.deletedAt).map(t => [`${t.accountId}|${t.fitId}`, t]));
+
+  const found = new Map<number, Transaction>();
+  candidates.forEach((c, i) => {
+    const sameId = c.fitId ? byFitId.get(`${c.accountId}|${c.fitId}`) : undefined;
+    const match = sameId ?? (groups.get(groupKey(c)) ?? [])
+      .filter(t => isLikelyDuplicate(c, t, options))
+      .sort((x, y) => daysApart(c.date, x.date) - daysApart(c.date, y.date))[0];
+    if (match) found.set(i, match);
+  });
+  return found;
+}
+
+// ─── Pairs in the ledger ─────────────────────────────────────────────────────
+
+export interface DuplicatePair {
+  keep: Transaction;
+  duplicate: Transaction;
+}
+
+/** Stable id of a pair, whichever side is kept; used to remember dismissed pairs. */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/** How much a transaction carries beyond the basics; the richer one of a pair is kept. */
+function richness(t: Transaction): number {
+  return (t.fitId ? 4 : 0)
+    + (t.splits?.length ? 2 : 0)
+    + (t.attachments?.length ? 2 : 0)
+    + (t.payeeId ? 1 : 0)
+    + (t.tags?.length ? 1 : 0)
+    + (t.note ? 1 : 0)
+    + (t.recurringRuleId ? 1 : 0);
+}
+
+/**
+ * Likely duplicate pairs among `transactions`, newest first. A transaction is
+ * offered as the duplicate of at most one other; the side kept is the one
+ * with more details, else the one entered first. Pairs in `dismissed` (see
+ * pairKey) are left out.
+ */
+export function findDuplicatePairs(
+  transactions: Transaction[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS,
+  dismissed: ReadonlySet<string> = new Set(),
+): DuplicatePair[] {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    if (t.deletedAt) continue;
+    const key = groupKey(t);
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  const pairs: DuplicatePair[] = [];
+  const used = new Set<string>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+    for (let i = 0; i < sorted.length; i++) {
+      const a = sorted[i];
+      for (let j = i + 1; j < sorted.length && !used.has(a.id); j++) {
+        const b = sorted[j];
+        if (daysApart(a.date, b.date) > options.maxDays) break;
+        if (used.has(b.id)) continue;
+        if (dismissed.has(pairKey(a.id, b.id)) || !isLikelyDuplicate(a, b, options)) continue;
+        const [keep, duplicate] = richness(b) > richness(a) || (richness(b) === richness(a) && b.createdAt < a.createdAt)
+          ? [b, a]
+          : [a, b];
+        pairs.push({ keep, duplicate });
+        used.add(duplicate.id);
+      }
+    }
+  }
+  return pairs.sort((x, y) => y.keep.date.localeCompare(x.keep.date) || x.keep.id.localeCompare(y.keep.id));
+}
+
+/**
+ * `keep` with what only `duplicate` has filled in: note, payee, bank id,
+ * recurring rule, and the union of tags and attachments. Category, amount and
+ * date stay as they are on `keep`.
+ */
+export function mergeDuplicate(keep: Transaction, duplicate: Transaction): Transaction {
+  const tags = (duplicate.tags ?? []).reduce(addTag, keep.tags ?? []);
+  const attachmentIds = new Set((keep.attachments ?? []).map(a => a.id));
+  const attachments = [
+    ...(keep.attachments ?? []),
+    ...(duplicate.attachments ?? []).filter(a => !attachmentIds.has(a.id)),
+  ];
+  return {
+    ...keep,
+    note: keep.note || duplicate.note,
+    payeeId: keep.payeeId ?? duplicate.payeeId,
+    fitId: keep.fitId ?? duplicate.fitId,
+    recurringRuleId: keep.recurringRuleId ?? duplicate.recurringRuleId,
+    tags: tags.length > 0 ? tags : undefined,
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
@@ -0,0 +1,152 @@
+import { Account, Attachment, Budget, Category, Payee, Reconciliation, RecurringRule, Transaction } from './types';
+
+// ─── Undo history ────────────────────────────────────────────────────────────
+// Each ledger mutation is recorded as the records it touched, before and after.
+// Undo writes the `before` copies back (deleting records that did not exist),
+// redo writes the `after` copies. An account deletion is one entry holding the
+// account plus the transactions and rules it took with it, so a single undo
+// brings all of them back.
+
+export type HistoryEntity =
+  | 'transactions' | 'accounts' | 'categories' | 'budgets' | 'recurringRules' | 'payees' | 'reconciliations';
+
+export type LedgerRecord = Transaction | Account | Category | Budget | RecurringRule | Payee | Reconciliation;
+
+export interface RecordChange {
+  entity: HistoryEntity;
+  before: LedgerRecord | null; // null = the record was created
+  after: LedgerRecord | null; // null = the record was deleted
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // what happened, e.g. "Transaction deleted"
+  at: string;
+  destructive: boolean; // offered in the undo snackbar
+  changes: RecordChange[];
+}
+
+export interface LedgerHistory {
+  undo: HistoryEntry[]; // oldest first
+  redo: HistoryEntry[]; // most recently undone last
+}
+
+/** Entries kept across restarts; older ones are dropped. */
+export const MAX_HISTORY = 50;
+
+export function emptyHistory(): LedgerHistory {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Adds a new entry. Anything that could be redone is discarded, as are the
+ * oldest entries beyond MAX_HISTORY; both are returned so the caller can
+ * release what only they referenced.
+ */
+export function recordEntry(
+  history: LedgerHistory,
+  entry: HistoryEntry,
+): { history: LedgerHistory; discarded: HistoryEntry[] } {
+  const undo = [...history.undo, entry];
+  const overflow = undo.splice(0, Math.max(0, undo.length - MAX_HISTORY));
+  return { history: { undo, redo: [] }, discarded: [...overflow, ...history.redo] };
+}
+
+export type HistoryStep = { entry: HistoryEntry; changes: RecordChange[]; history: LedgerHistory };
+
+/** The latest entry, the changes that revert it, and the history with it moved to redo. */
+export function undoStep(history: LedgerHistory): HistoryStep | null {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    changes: invertChanges(entry.changes),
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] },
+  };
+}
+
+/** The most recently undone entry, its changes, and the history with it moved back to undo. */
+export function redoStep(history: LedgerHistory): HistoryStep | null {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    changes: entry.changes,
+    history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+  };
+}
+
+/** Changes that take the records back, applied in reverse order. */
+export function invertChanges(changes: RecordChange[]): RecordChange[] {
+  return changes.map(c => ({ entity: c.entity, before: c.after, after: c.before })).reverse();
+}
+
+/** Per entity, the records to save and the ids to delete. */
+export function groupChanges(
+  changes: RecordChange[],
+): Partial<Record<HistoryEntity, { save: LedgerRecord[]; remove: string[] }>> {
+  const groups: Partial<Record<HistoryEntity, { save: LedgerRecord[]; remove: string[] }>> = {};
+  for (const change of changes) {
+    const group = (groups[change.entity] ??= { save: [], remove: [] });
+    if (change.after) group.save.push(change.after);
+    else if (change.before) group.remove.push(change.before.id);
+  }
+  return groups;
+}
+
+/** `list` with `save` upserted by id and `remove` taken out. */
+export function applyToList<T extends { id: string }>(list: T[], save: T[], remove: string[]): T[] {
+  const removed = new Set(remove);
+  const saved = new Map(save.map(r => [r.id, r]));
+  const next = list.filter(r => !removed.has(r.id)).map(r => saved.get(r.id) ?? r);
+  const present = new Set(next.map(r => r.id));
+  return [...next, ...save.filter(r => !present.has(r.id) && !removed.has(r.id))];
+}
+
+/**
+ * Drops the entries that touch any of `ids` in `entity`, for records that were
+ * purged: undoing or redoing those entries would bring them back.
+ */
+export function withoutRecords(
+  history: LedgerHistory,
+  entity: HistoryEntity,
+  ids: string[],
+): { history: LedgerHistory; discarded: HistoryEntry[] } {
+  const purged = new Set(ids);
+  const touches = (e: HistoryEntry) => e.changes.some(c =>
+    c.entity === entity && purged.has((c.before ?? c.after)!.id));
+  return {
+    history: { undo: history.undo.filter(e => !touches(e)), redo: history.redo.filter(e => !touches(e)) },
+    discarded: [...history.undo, ...history.redo].filter(touches),
+  };
+}
+
+/** Attachments on the transactions the entries recorded. */
+export function attachmentsIn(entries: HistoryEntry[]): Attachment[] {
+  return entries.flatMap(e => e.changes)
+    .filter(c => c.entity === 'transactions')
+    .flatMap(c => [c.before, c.after])
+    .flatMap(r => (r as Transaction | null)?.attachments ?? []);
+}
+
+/**
+ * The `candidates` whose files nothing refers to any more: no stored
+ * transaction and no history entry. Files of a deleted or edited-away
+ * attachment are kept while an undo could bring the attachment back, and
+ * freed once it no longer can.
+ */
+export function releasedAttachments(
+  candidates: Attachment[],
+  history: LedgerHistory,
+  stored: Transaction[],
+): Attachment[] {
+  const inUse = new Set([
+    ...stored.flatMap(t => t.attachments ?? []),
+    ...attachmentsIn([...history.undo, ...history.redo]),
+  ].map(a => a.id));
+  const released = new Map<string, Attachment>();
+  for (const a of candidates) {
+    if (!inUse.has(a.id)) released.set(a.id, a);
+  }
+  return Array.from(released.values());
+}
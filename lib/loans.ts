@@ -0,0 +1,138 @@
+import { Account, Category, LoanFrequency, LoanTerms } from './types';
+import { addDays, addMonths } from './recurrence';
+
+// ─── Loans ───────────────────────────────────────────────────────────────────
+// A loan account holds what is still owed: negative when borrowed, positive
+// when lent. Each payment is a transfer of the full amount between the loan
+// and a bank account, plus an interest transaction in the loan account, so
+// only the principal part brings the balance down.
+
+export const LOAN_FREQUENCIES: { key: LoanFrequency; label: string; perYear: number }[] = [
+  { key: 'weekly', label: 'Weekly', perYear: 52 },
+  { key: 'biweekly', label: 'Every 2 weeks', perYear: 26 },
+  { key: 'monthly', label: 'Monthly', perYear: 12 },
+  { key: 'yearly', label: 'Yearly', perYear: 1 },
+];
+
+// Interest is booked here when the loan's own category is gone
+export const INTEREST_CATEGORY_NAME = 'Interest';
+
+export interface AmortizationRow {
+  number: number; // 1-based
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // still owed after this payment
+}
+
+// Stops projections that never pay off from looping forever
+const MAX_PAYMENTS = 5000;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Where a loan's interest is booked: the category picked for it while it is
+ * out of the trash, else a live "Interest" category of the right type.
+ * Undefined when there is neither, for the caller to create one.
+ */
+export function interestCategory<T extends Pick<Category, 'id' | 'name' | 'type' | 'deletedAt'>>(
+  terms: Pick<LoanTerms, 'direction' | 'interestCategoryId'>,
+  categories: T[],
+): T | undefined {
+  const type = terms.direction === 'lent' ? 'income' : 'expense';
+  const live = categories.filter(c => c.type === type && !c.deletedAt);
+  return live.find(c => c.id === terms.interestCategoryId)
+    ?? live.find(c => c.name.trim().toLowerCase() === INTEREST_CATEGORY_NAME.toLowerCase());
+}
+
+/** Interest rate per payment period, as a fraction. */
+export function periodRate(terms: Pick<LoanTerms, 'annualRate' | 'frequency'>): number {
+  const perYear = LOAN_FREQUENCIES.find(f => f.key === terms.frequency)?.perYear ?? 12;
+  return terms.annualRate / 100 / perYear;
+}
+
+/**
+ * The fixed payment that clears `principal` over the term, interest included.
+ * Rounded up to the cent, so the last payment comes out a little smaller
+ * rather than leaving an extra one.
+ */
+export function paymentAmount(terms: LoanTerms): number {
+  const r = periodRate(terms);
+  const n = Math.max(1, terms.payments);
+  const exact = r === 0 ? terms.principal / n : terms.principal * r / (1 - Math.pow(1 + r, -n));
+  // Float noise below a hundredth of a cent must not round up a whole cent
+  return Math.ceil(Math.round(exact * 1e6) / 1e4) / 100;
+}
+
+/** Date of the n-th (0-based) scheduled payment. */
+export function paymentDate(terms: Pick<LoanTerms, 'firstPaymentDate' | 'frequency'>, n: number): string {
+  switch (terms.frequency) {
+    case 'weekly': return addDays(terms.firstPaymentDate, 7 * n);
+    case 'biweekly': return addDays(terms.firstPaymentDate, 14 * n);
+    case 'yearly': return addMonths(terms.firstPaymentDate, 12 * n);
+    default: return addMonths(terms.firstPaymentDate, n);
+  }
+}
+
+/**
+ * How a payment on `owed` divides: interest for the period first, the rest
+ * off the principal. The last payment shrinks to what is left.
+ */
+export function splitPayment(
+  terms: LoanTerms,
+  owed: number,
+  payment = paymentAmount(terms),
+): { payment: number; interest: number; principal: number } {
+  const interest = Math.min(roundCents(Math.max(0, owed) * periodRate(terms)), payment);
+  const principal = roundCents(Math.min(Math.max(0, payment - interest), Math.max(0, owed)));
+  return { payment: roundCents(interest + principal), interest, principal };
+}
+
+/** The schedule over the whole term, as agreed. */
+export function amortizationSchedule(terms: LoanTerms): AmortizationRow[] {
+  const payment = paymentAmount(terms);
+  const rows: AmortizationRow[] = [];
+  let owed = terms.principal;
+  for (let i = 0; i < terms.payments && owed > 0; i++) {
+    // The last payment also settles what rounding left over
+    const last = i === terms.payments - 1;
+    const split = splitPayment(terms, owed, last ? Infinity : payment);
+    owed = roundCents(owed - split.principal);
+    rows.push({ number: i + 1, date: paymentDate(terms, i), ...split, balance: owed });
+  }
+  return rows;
+}
+
+/** What is still owed on a loan account with `balance`, as a positive amount. */
+export function loanOwed(account: Pick<Account, 'loan'>, balance: number): number {
+  const owed = account.loan?.direction === 'lent' ? balance : -balance;
+  return Math.max(0, roundCents(owed));
+}
+
+/**
+ * When the loan is paid off if the scheduled payment keeps coming from the
+ * first payment date on or after `today`. Null when a payment does not even
+ * cover the interest.
+ */
+export function payoffProjection(
+  terms: LoanTerms,
+  owed: number,
+  today: string,
+): { paymentsLeft: number; payoffDate: string } | null {
+  if (owed <= 0) return { paymentsLeft: 0, payoffDate: today };
+  let next = 0;
+  while (paymentDate(terms, next) < today && next < MAX_PAYMENTS) next++;
+  const payment = paymentAmount(terms);
+  let left = owed;
+  let count = 0;
+  while (left > 0) {
+    const { principal } = splitPayment(terms, left, payment);
+    if (principal <= 0 || count >= MAX_PAYMENTS) return null;
+    left = roundCents(left - principal);
+    count++;
+  }
+  return { paymentsLeft: count, payoffDate: paymentDate(terms, next + count - 1) };
+}
@@ -0,0 +1,175 @@
+import { Account, Transaction } from './types';
+import { codeForSymbol } from './currency';
+import { IndexDefinitions, KeyValueStore, createRecordStore } from './record-store';
+
+// ─── Local storage migrations ────────────────────────────────────────────────
+// The stored layout has a version number. Each migration upgrades the data by
+// one version and runs once, in order, before the app loads anything. Keys are
+// spelled out here rather than shared with storage.ts: a migration describes
+// the layout as it was at that version and must not change when storage.ts does.
+//
+// Historical versions:
+//   1  every entity is one JSON array; currency is a single display symbol
+//   2  accounts carry an ISO currency and the base currency is stored as a code
+//   3  transactions are individual records with month/account/category indexes
+
+/** The subset of the AsyncStorage API migrations need. */
+export interface MigrationStorage extends KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface Migration {
+  version: number; // version the data is at once this migration has run
+  description: string;
+  up(kv: MigrationStorage): Promise<void>;
+}
+
+export const SCHEMA_VERSION_KEY = 'mymoney_schema_version';
+const BACKUP_KEY = 'mymoney_migration_backup'; // copies live under `${BACKUP_KEY}:<key>`
+const APP_KEY_PREFIX = 'mymoney_';
+
+/** Indexes kept on stored transactions; storage.ts opens its store with the same ones. */
+export const TRANSACTION_INDEXES: IndexDefinitions<Transaction> = {
+  month: t => [t.date.slice(0, 7)],
+  account: t => [t.accountId, t.toAccountId],
+  category: t => [t.categoryId, ...(t.splits ?? []).map(s => s.categoryId)],
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Store the base currency as an ISO code and give every account a currency',
+    async up(kv) {
+      let base = await kv.getItem('mymoney_base_currency');
+      if (!base) {
+        base = codeForSymbol((await kv.getItem('mymoney_currency')) ?? '$');
+        await kv.setItem('mymoney_base_currency', base);
+      }
+      const raw = await kv.getItem('mymoney_accounts');
+      if (!raw) return;
+      const accounts: Account[] = JSON.parse(raw);
+      await kv.setItem(
+        'mymoney_accounts',
+        JSON.stringify(accounts.map(a => (a.currency ? a : { ...a, currency: base }))),
+      );
+    },
+  },
+  {
+    version: 3,
+    description: 'Move transactions out of the single JSON array into indexed records',
+    async up(kv) {
+      const raw = await kv.getItem('mymoney_transactions');
+      if (raw === null) return;
+      await createRecordStore<Transaction>(kv, 'transactions', TRANSACTION_INDEXES).replaceAll(JSON.parse(raw));
+      await kv.removeItem('mymoney_transactions');
+    },
+  },
+];
+
+/** Version of the layout this build reads and writes. */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Data saved before versioning existed is at version 1. */
+export async function getSchemaVersion(kv: MigrationStorage): Promise<number> {
+  const raw = await kv.getItem(SCHEMA_VERSION_KEY);
+  return raw ? Number(raw) : 1;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  error?: unknown; // set when the backup or a migration failed; the data is as it was
+}
+
+/**
+ * Runs the migrations newer than the stored version. Every app key is backed
+ * up first, each to its own key so no single value outgrows the platform's
+ * per-item limit. If the backup cannot be written nothing is migrated; if a
+ * migration throws, the backup is restored. Either way the data stays at its
+ * old version, to be retried on the next launch. A backup left behind by a run
+ * that was interrupted (the app was killed mid-migration) is restored before
+ * starting over; if that fails, it is kept for the next launch.
+ */
+export async function migrateStorage(
+  kv: MigrationStorage,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<MigrationResult> {
+  try {
+    const leftover = await readBackup(kv);
+    if (leftover) await restoreBackup(kv, leftover);
+    else await dropBackup(kv); // copies from a backup that was never completed
+  } catch (error) {
+    const at = await getSchemaVersion(kv);
+    return { from: at, to: at, error };
+  }
+
+  const from = await getSchemaVersion(kv);
+  const pending = migrations.filter(m => m.version > from).sort((a, b) => a.version - b.version);
+  if (pending.length === 0) return { from, to: from };
+
+  let backup: [string, string][];
+  try {
+    backup = await writeBackup(kv);
+  } catch (error) {
+    await dropBackup(kv).catch(() => undefined);
+    return { from, to: from, error };
+  }
+  try {
+    for (const migration of pending) await migration.up(kv);
+  } catch (error) {
+    await restoreBackup(kv, backup);
+    return { from, to: from, error };
+  }
+
+  const to = pending[pending.length - 1].version;
+  await kv.setItem(SCHEMA_VERSION_KEY, String(to));
+  await dropBackup(kv);
+  return { from, to };
+}
+
+const backupKeyOf = (key: string) => `${BACKUP_KEY}:${key}`;
+
+async function appKeys(kv: MigrationStorage): Promise<string[]> {
+  return (await kv.getAllKeys()).filter(k => k.startsWith(APP_KEY_PREFIX) && !k.startsWith(BACKUP_KEY));
+}
+
+async function snapshot(kv: MigrationStorage): Promise<[string, string][]> {
+  const pairs = await kv.multiGet(await appKeys(kv));
+  return pairs.flatMap(([key, value]) => (value === null ? [] : [[key, value] as [string, string]]));
+}
+
+/** Copies each key, then lists them under BACKUP_KEY; the list marks the backup complete. */
+async function writeBackup(kv: MigrationStorage): Promise<[string, string][]> {
+  const backup = await snapshot(kv);
+  if (backup.length > 0) await kv.multiSet(backup.map(([key, value]) => [backupKeyOf(key), value]));
+  await kv.setItem(BACKUP_KEY, JSON.stringify(backup.map(([key]) => key)));
+  return backup;
+}
+
+/** The completed backup, if one was left behind. */
+async function readBackup(kv: MigrationStorage): Promise<[string, string][] | null> {
+  const raw = await kv.getItem(BACKUP_KEY);
+  if (raw === null) return null;
+  const listed: (string | [string, string])[] = JSON.parse(raw);
+  // Older builds kept the whole backup in this one value
+  if (listed.every(entry => Array.isArray(entry))) return listed as [string, string][];
+  const keys = listed as string[];
+  const copies = await kv.multiGet(keys.map(backupKeyOf));
+  return copies.map(([, value], i) => [keys[i], value ?? '']);
+}
+
+async function dropBackup(kv: MigrationStorage): Promise<void> {
+  const keys = (await kv.getAllKeys()).filter(k => k.startsWith(BACKUP_KEY));
+  if (keys.length > 0) await kv.multiRemove(keys);
+}
+
+/** Puts every app key back as it was in `backup`, removing keys created since. */
+async function restoreBackup(kv: MigrationStorage, backup: [string, string][]): Promise<void> {
+  const keep = new Set(backup.map(([key]) => key));
+  const created = (await appKeys(kv)).filter(k => !keep.has(k));
+  if (created.length > 0) await kv.multiRemove(created);
+  if (backup.length > 0) await kv.multiSet(backup);
+  await dropBackup(kv);
+}
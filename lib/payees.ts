@@ -0,0 +1,136 @@
+import { Payee, Transaction } from './types';
+
+// ─── Payees ──────────────────────────────────────────────────────────────────
+// Who a transaction was paid to (or received from), kept apart from the
+// free-text note. A payee's usual category and account are learned from the
+// transactions already booked with it, so picking it pre-fills the form.
+// Transfers never carry a payee.
+
+/** Trims and collapses whitespace. */
+export function normalizePayeeName(raw: string): string {
+  return raw.replace(/\s+/g, ' ').trim();
+}
+
+/** The payee with this name, ignoring case and extra spaces. */
+export function findPayeeByName(payees: Payee[], name: string): Payee | undefined {
+  const wanted = normalizePayeeName(name).toLowerCase();
+  if (!wanted) return undefined;
+  return payees.find(p => normalizePayeeName(p.name).toLowerCase() === wanted);
+}
+
+/** Number of transactions booked with each payee. */
+export function payeeUseCounts(transactions: Pick<Transaction, 'payeeId'>[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    if (t.payeeId) counts.set(t.payeeId, (counts.get(t.payeeId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Payees to offer while typing `input`: names starting with it first, then
+ * names containing it, each group most used first. Nothing for empty input.
+ */
+export function suggestPayees(
+  payees: Payee[],
+  transactions: Pick<Transaction, 'payeeId'>[],
+  input: string,
+  limit = 5,
+): Payee[] {
+  const text = normalizePayeeName(input).toLowerCase();
+  if (!text) return [];
+  const counts = payeeUseCounts(transactions);
+  const byUse = (a: Payee, b: Payee) => (counts.get(b.id) ?? 0) - (counts.get(a.id) ?? 0) || a.name.localeCompare(b.name);
+  const starts = payees.filter(p => p.name.toLowerCase().startsWith(text)).sort(byUse);
+  const contains = payees
+    .filter(p => !p.name.toLowerCase().startsWith(text) && p.name.toLowerCase().includes(text))
+    .sort(byUse);
+  return [...starts, ...contains].slice(0, limit);
+}
+
+// ─── Learned defaults ────────────────────────────────────────────────────────
+
+export interface PayeeDefaults {
+  type?: 'expense' | 'income';
+  categoryId?: string;
+  accountId?: string;
+}
+
+/** The value seen most often; ties go to the one used most recently. */
+function mostUsed(uses: { value: string; date: string }[]): string | undefined {
+  const stats = new Map<string, { count: number; last: string }>();
+  for (const u of uses) {
+    const s = stats.get(u.value);
+    if (s) {
+      s.count++;
+      if (u.date > s.last) s.last = u.date;
+    } else {
+      stats.set(u.value, { count: 1, last: u.date });
+    }
+  }
+  let best: string | undefined;
+  let bestStats: { count: number; last: string } | undefined;
+  for (const [value, s] of stats) {
+    if (!bestStats || s.count > bestStats.count || (s.count === bestStats.count && s.last > bestStats.last)) {
+      best = value;
+      bestStats = s;
+    }
+  }
+  return best;
+}
+
+/**
+ * What a new transaction with the payee most likely looks like: its usual
+ * type, and the category and account used most with that type. Empty when
+ * the payee has no history yet.
+ */
+export function payeeDefaults(payeeId: string, transactions: Transaction[]): PayeeDefaults {
+  const history = transactions.filter(t => t.payeeId === payeeId && t.type !== 'transfer' && !t.deletedAt);
+  const type = mostUsed(history.map(t => ({ value: t.type, date: t.date }))) as PayeeDefaults['type'];
+  if (!type) return {};
+  const ofType = history.filter(t => t.type === type);
+  return {
+    type,
+    categoryId: mostUsed(ofType.map(t => ({ value: t.categoryId, date: t.date }))),
+    accountId: mostUsed(ofType.map(t => ({ value: t.accountId, date: t.date }))),
+  };
+}
+
+// ─── Totals ──────────────────────────────────────────────────────────────────
+
+export interface PayeeTotal {
+  payee: Payee;
+  spent: number;
+  received: number;
+  count: number;
+  lastDate: string;
+}
+
+/**
+ * Spending and income per payee for transactions dated within
+ * `fromDate`–`toDate` (inclusive; either bound may be left out), biggest
+ * spend first. Payees without transactions in the range are left out.
+ */
+export function payeeTotals(
+  transactions: Transaction[],
+  payees: Payee[],
+  range: { fromDate?: string; toDate?: string } = {},
+): PayeeTotal[] {
+  const byId = new Map(payees.map(p => [p.id, p]));
+  const totals = new Map<string, PayeeTotal>();
+  for (const t of transactions) {
+    if (!t.payeeId || t.type === 'transfer') continue;
+    if (range.fromDate && t.date < range.fromDate) continue;
+    if (range.toDate && t.date > range.toDate) continue;
+    const payee = byId.get(t.payeeId);
+    if (!payee) continue;
+    const entry = totals.get(payee.id) ?? { payee, spent: 0, received: 0, count: 0, lastDate: t.date };
+    if (t.type === 'expense') entry.spent += t.amount;
+    else entry.received += t.amount;
+    entry.count++;
+    if (t.date > entry.lastDate) entry.lastDate = t.date;
+    totals.set(payee.id, entry);
+  }
+  return Array.from(totals.values())
+    .sort((a, b) => b.spent - a.spent || b.received - a.received || a.payee.name.localeCompare(b.payee.name));
+}
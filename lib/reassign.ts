@@ -0,0 +1,203 @@
+import { Account, Budget, Category, RecurringRule, Transaction, TransactionSplit } from './types';
+import { RecordChange } from './history';
+import { effectiveBudget } from './budgets';
+import { isSplit, primaryCategory } from './splits';
+import { tombstone } from './trash';
+
+// ─── Reassign before delete ──────────────────────────────────────────────────
+// Deleting a category or account that is still in use first moves what uses it
+// to another one of the same kind, so no transaction is left pointing at a
+// record in the trash and Analyse keeps its history.
+//
+// "reassign" moves the transactions and recurring rules and trashes the
+// source. "merge" also combines the rest: a category's budgets are added to the
+// target's, an account's opening balance is added to the target's so the
+// merged balance is the sum of both.
+
+export type ReassignMode = 'reassign' | 'merge';
+
+export interface Usage {
+  transactions: number;
+  budgets: number;
+  rules: number;
+}
+
+/** Live records the changes are computed from. */
+export interface Ledger {
+  transactions: Transaction[];
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+}
+
+export function categoryUsage(categoryId: string, ledger: Ledger): Usage {
+  return {
+    transactions: ledger.transactions.filter(t => usesCategory(t, categoryId)).length,
+    budgets: ledger.budgets.filter(b => b.categoryId === categoryId).length,
+    rules: ledger.recurringRules.filter(r => usesCategory(r, categoryId)).length,
+  };
+}
+
+export function accountUsage(accountId: string, ledger: Ledger): Usage {
+  return {
+    transactions: ledger.transactions.filter(t => usesAccount(t, accountId)).length,
+    budgets: 0,
+    rules: ledger.recurringRules.filter(r => usesAccount(r, accountId)).length,
+  };
+}
+
+/** e.g. "12 transactions, 1 budget and 2 recurring rules"; empty when nothing uses it. */
+export function describeUsage(usage: Usage): string {
+  const parts = [
+    plural(usage.transactions, 'transaction'),
+    plural(usage.budgets, 'budget'),
+    plural(usage.rules, 'recurring rule'),
+  ].filter(Boolean);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts.join('');
+}
+
+function plural(count: number, noun: string): string {
+  return count === 0 ? '' : `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// ─── Categories ──────────────────────────────────────────────────────────────
+
+type CategoryTemplate = Pick<Transaction, 'categoryId' | 'splits'>;
+
+function usesCategory(record: CategoryTemplate, categoryId: string): boolean {
+  return isSplit(record) ? record.splits!.some(s => s.categoryId === categoryId) : record.categoryId === categoryId;
+}
+
+/** Split lines with `from` relabelled as `to`; lines that now share a category are combined. */
+function relabelLines(splits: TransactionSplit[], from: string, to: string): TransactionSplit[] {
+  const lines: TransactionSplit[] = [];
+  for (const s of splits) {
+    const categoryId = s.categoryId === from ? to : s.categoryId;
+    const same = lines.find(l => l.categoryId === categoryId);
+    if (!same) {
+      lines.push({ ...s, categoryId });
+      continue;
+    }
+    same.amount += s.amount;
+    if (s.note) same.note = same.note ? `${same.note}; ${s.note}` : s.note;
+  }
+  return lines;
+}
+
+function withCategory<T extends CategoryTemplate>(record: T, from: string, to: string): T {
+  if (!isSplit(record)) return { ...record, categoryId: to };
+  const lines = relabelLines(record.splits!, from, to);
+  if (lines.length > 1) return { ...record, splits: lines, categoryId: primaryCategory(lines) };
+  const { splits: _, ...rest } = record;
+  return { ...rest, categoryId: to } as T;
+}
+
+/**
+ * Budgets that give `to` the limits of both categories: for every month either
+ * one has an entry, the sum of what is in force for each. Replaces the
+ * entries of both.
+ */
+function mergedBudgets(budgets: Budget[], from: string, to: string, at: string): RecordChange[] {
+  const source = budgets.filter(b => b.categoryId === from);
+  const target = budgets.filter(b => b.categoryId === to);
+  const months = Array.from(new Set([...source, ...target].map(b => b.month))).sort();
+  const changes: RecordChange[] = [];
+  for (const month of months) {
+    const ours = effectiveBudget(source, from, month);
+    const theirs = effectiveBudget(target, to, month);
+    const amount = (ours?.amount ?? 0) + (theirs?.amount ?? 0);
+    const rollover = theirs?.rollover ?? ours?.rollover ?? false;
+    const existing = target.find(b => b.month === month);
+    const moved = source.find(b => b.month === month);
+    if (!existing) {
+      // Only the source has an entry this month — it becomes the target's
+      changes.push({ entity: 'budgets', before: moved!, after: { ...moved!, categoryId: to, amount, rollover, updatedAt: at } });
+      continue;
+    }
+    if (existing.amount !== amount || existing.rollover !== rollover) {
+      changes.push({ entity: 'budgets', before: existing, after: { ...existing, amount, rollover, updatedAt: at } });
+    }
+    if (moved) changes.push({ entity: 'budgets', before: moved, after: null });
+  }
+  return changes;
+}
+
+/**
+ * Moves everything that uses category `from` to `to`, then trashes `from`.
+ * Returns the changes as one undoable step.
+ */
+export function moveCategory(
+  from: Category,
+  to: Category,
+  mode: ReassignMode,
+  ledger: Ledger,
+  at: string,
+): RecordChange[] {
+  const changes: RecordChange[] = [];
+  for (const t of ledger.transactions) {
+    if (!usesCategory(t, from.id)) continue;
+    changes.push({ entity: 'transactions', before: t, after: { ...withCategory(t, from.id, to.id), updatedAt: at } });
+  }
+  for (const r of ledger.recurringRules) {
+    if (!usesCategory(r, from.id)) continue;
+    changes.push({ entity: 'recurringRules', before: r, after: { ...withCategory(r, from.id, to.id), updatedAt: at } });
+  }
+  if (mode === 'merge') changes.push(...mergedBudgets(ledger.budgets, from.id, to.id, at));
+  changes.push({ entity: 'categories', before: from, after: tombstone(from, at) });
+  return changes;
+}
+
+// ─── Accounts ────────────────────────────────────────────────────────────────
+
+type AccountTemplate = Pick<Transaction, 'accountId' | 'toAccountId'>;
+
+function usesAccount(record: AccountTemplate, accountId: string): boolean {
+  return record.accountId === accountId || record.toAccountId === accountId;
+}
+
+function withAccount<T extends AccountTemplate>(record: T, from: string, to: string): T {
+  return {
+    ...record,
+    accountId: record.accountId === from ? to : record.accountId,
+    toAccountId: record.toAccountId === from ? to : record.toAccountId,
+  };
+}
+
+/**
+ * Moves the transactions and recurring rules of account `from` to `to`, then
+ * trashes `from`. Both accounts must hold the same currency. Transfers between
+ * the two would become transfers to itself, so those transactions are trashed
+ * with the account and those rules removed.
+ */
+export function moveAccount(
+  from: Account,
+  to: Account,
+  mode: ReassignMode,
+  ledger: Ledger,
+  at: string,
+): RecordChange[] {
+  const changes: RecordChange[] = [];
+  if (mode === 'merge') {
+    changes.push({
+      entity: 'accounts',
+      before: to,
+      after: { ...to, initialBalance: to.initialBalance + from.initialBalance, updatedAt: at },
+    });
+  }
+  for (const t of ledger.transactions) {
+    if (!usesAccount(t, from.id)) continue;
+    const moved = withAccount(t, from.id, to.id);
+    const after = moved.toAccountId === moved.accountId ? tombstone(t, at) : { ...moved, updatedAt: at };
+    changes.push({ entity: 'transactions', before: t, after });
+  }
+  for (const r of ledger.recurringRules) {
+    if (!usesAccount(r, from.id)) continue;
+    const moved = withAccount(r, from.id, to.id);
+    changes.push({
+      entity: 'recurringRules',
+      before: r,
+      after: moved.toAccountId === moved.accountId ? null : { ...moved, updatedAt: at },
+    });
+  }
+  changes.push({ entity: 'accounts', before: from, after: tombstone(from, at) });
+  return changes;
+}
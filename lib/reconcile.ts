@@ -0,0 +1,135 @@
+import { Account, Reconciliation, Transaction, TransactionStatus } from './types';
+import { RecordChange } from './history';
+
+// ─── Reconciliation ──────────────────────────────────────────────────────────
+// Matching an account against a bank statement. Transactions the bank has
+// booked are ticked off as cleared; once the cleared balance equals the
+// statement's closing balance, they become reconciled and are locked against
+// edits. A transfer is cleared separately on each side, since the two
+// accounts' statements book it on their own dates.
+
+/** Where `tx` stands in `accountId`; undefined = not cleared, or not in that account. */
+export function statusIn(tx: Transaction, accountId: string): TransactionStatus | undefined {
+  if (tx.accountId === accountId) return tx.status;
+  if (tx.toAccountId === accountId) return tx.toStatus;
+  return undefined;
+}
+
+/** `tx` with its status in `accountId` set; undefined clears it. */
+export function withStatus(tx: Transaction, accountId: string, status: TransactionStatus | undefined): Transaction {
+  if (tx.accountId === accountId) return { ...tx, status };
+  if (tx.toAccountId === accountId) return { ...tx, toStatus: status };
+  return tx;
+}
+
+/** Reconciled in either of its accounts. */
+export function isReconciled(tx: Transaction): boolean {
+  return tx.status === 'reconciled' || tx.toStatus === 'reconciled';
+}
+
+/** How much `tx` changes the balance of `accountId`, in that account's currency. */
+export function amountIn(tx: Transaction, accountId: string): number {
+  let amount = 0;
+  if (tx.accountId === accountId) amount += tx.type === 'income' ? tx.amount : -tx.amount;
+  if (tx.type === 'transfer' && tx.toAccountId === accountId) amount += tx.toAmount ?? tx.amount;
+  return amount;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Opening balance plus everything already reconciled: where the next statement starts. */
+export function reconciledBalance(account: Account, transactions: Transaction[]): number {
+  let balance = account.initialBalance;
+  for (const tx of transactions) {
+    if (!tx.deletedAt && statusIn(tx, account.id) === 'reconciled') balance += amountIn(tx, account.id);
+  }
+  return roundCents(balance);
+}
+
+/**
+ * Transactions to tick off against a statement closing on `statementDate`:
+ * those in the account not reconciled yet, dated up to the closing date, plus
+ * any later ones already marked cleared. Oldest first.
+ */
+export function reconcileCandidates(
+  transactions: Transaction[],
+  accountId: string,
+  statementDate: string,
+): Transaction[] {
+  return transactions
+    .filter(tx => {
+      if (tx.deletedAt || (tx.accountId !== accountId && tx.toAccountId !== accountId)) return false;
+      const status = statusIn(tx, accountId);
+      return status !== 'reconciled' && (tx.date <= statementDate || status === 'cleared');
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** The reconciled balance plus the transactions in `clearedIds`. */
+export function clearedBalance(
+  account: Account,
+  transactions: Transaction[],
+  clearedIds: ReadonlySet<string>,
+): number {
+  let balance = reconciledBalance(account, transactions);
+  for (const tx of transactions) {
+    if (tx.deletedAt || !clearedIds.has(tx.id) || statusIn(tx, account.id) === 'reconciled') continue;
+    balance += amountIn(tx, account.id);
+  }
+  return roundCents(balance);
+}
+
+/**
+ * Changes that leave exactly the transactions in `cleared` marked cleared
+ * among the account's unreconciled ones, for the undo history.
+ */
+export function clearedStatusChanges(
+  transactions: Transaction[],
+  accountId: string,
+  cleared: ReadonlySet<string>,
+): RecordChange[] {
+  return transactions.flatMap((tx): RecordChange[] => {
+    if (tx.deletedAt || (tx.accountId !== accountId && tx.toAccountId !== accountId)) return [];
+    const status = statusIn(tx, accountId);
+    const wanted = cleared.has(tx.id) ? 'cleared' : undefined;
+    if (status === 'reconciled' || status === wanted) return [];
+    return [{ entity: 'transactions', before: tx, after: withStatus(tx, accountId, wanted) }];
+  });
+}
+
+/** What is still unaccounted for: statement balance minus cleared balance, to the cent. */
+export function reconcileDifference(statementBalance: number, cleared: number): number {
+  return roundCents(statementBalance - cleared);
+}
+
+/** The account's reconciliations, latest statement first. */
+export function reconciliationsFor(reconciliations: Reconciliation[], accountId: string): Reconciliation[] {
+  return reconciliations
+    .filter(r => r.accountId === accountId)
+    .sort((a, b) => b.statementDate.localeCompare(a.statementDate) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * `after` with the statuses of `before` carried over, for an edit. A side
+ * keeps its status only while it moves the same account by the same amount;
+ * otherwise the bank line it was matched to no longer fits.
+ */
+export function carryStatus(before: Transaction, after: Transaction): Transaction {
+  const keep = (accountId: string | undefined, status: TransactionStatus | undefined) =>
+    accountId && status && amountIn(before, accountId) === amountIn(after, accountId) ? status : undefined;
+  return {
+    ...after,
+    status: after.accountId === before.accountId ? keep(before.accountId, before.status) : undefined,
+    toStatus: after.toAccountId === before.toAccountId ? keep(before.toAccountId, before.toStatus) : undefined,
+  };
+}
+
+/**
+ * `before` after an edit form saves `edits`. Fields the form doesn't show
+ * (the bank's fitId, the recurring rule) are kept; statuses as in carryStatus.
+ */
+export function withEdits(before: Transaction, edits: Partial<Transaction>): Transaction {
+  return carryStatus(before, { ...before, ...edits, id: before.id, createdAt: before.createdAt });
+}
@@ -0,0 +1,152 @@
+// ─── Record store ────────────────────────────────────────────────────────────
+// Keeps each record under its own key instead of one JSON array, so saving a
+// record writes that record plus a few small index entries. Secondary indexes
+// map a value (a month, an account id, …) to the ids of the records that have
+// it, one key per value:
+//
+//   mymoney_rec:<store>:<id>             → the record
+//   mymoney_idx:<store>:<index>:<value>  → ids of records with that value
+//
+// The key-value backend is passed in (AsyncStorage in the app) so the store
+// can be tested without native modules.
+
+/** The subset of the AsyncStorage API the store needs. */
+export interface KeyValueStore {
+  getAllKeys(): Promise<readonly string[]>;
+  multiGet(keys: readonly string[]): Promise<readonly (readonly [string, string | null])[]>;
+  multiSet(pairs: [string, string][]): Promise<void>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+/** Index name → the values a record is filed under (empty or undefined values are skipped). */
+export type IndexDefinitions<T> = Record<string, (record: T) => (string | undefined)[]>;
+
+export interface RecordStore<T extends { id: string }> {
+  all(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  /** Records filed under `value` in `index`. */
+  where(index: string, value: string): Promise<T[]>;
+  put(record: T): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  /** Makes the store hold exactly `records`, writing only the ones that changed. */
+  replaceAll(records: T[]): Promise<void>;
+}
+
+export function recordKeyPrefix(name: string): string {
+  return `mymoney_rec:${name}:`;
+}
+
+export function createRecordStore<T extends { id: string }>(
+  kv: KeyValueStore,
+  name: string,
+  indexes: IndexDefinitions<T>,
+): RecordStore<T> {
+  const prefix = recordKeyPrefix(name);
+  const recordKey = (id: string) => prefix + id;
+  const indexKey = (index: string, value: string) => `mymoney_idx:${name}:${index}:${value}`;
+
+  // Writes are read-modify-write on shared index keys; run one operation at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  function serial<R>(op: () => Promise<R>): Promise<R> {
+    const next = queue.then(op, op);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  function indexKeysOf(record: T): Set<string> {
+    const keys = new Set<string>();
+    for (const [index, valuesOf] of Object.entries(indexes)) {
+      for (const value of valuesOf(record)) {
+        if (value) keys.add(indexKey(index, value));
+      }
+    }
+    return keys;
+  }
+
+  async function readMany(ids: string[]): Promise<T[]> {
+    if (ids.length === 0) return [];
+    const pairs = await kv.multiGet(ids.map(recordKey));
+    return pairs.flatMap(([, raw]) => (raw ? [JSON.parse(raw) as T] : []));
+  }
+
+  async function allIds(): Promise<string[]> {
+    return (await kv.getAllKeys()).filter(k => k.startsWith(prefix)).map(k => k.slice(prefix.length));
+  }
+
+  /** Adds (or removes) ids in the given index keys; emptied keys are deleted. */
+  async function patchIndexes(changes: Map<string, string[]>, mode: 'add' | 'remove'): Promise<void> {
+    if (changes.size === 0) return;
+    const current = await kv.multiGet(Array.from(changes.keys()));
+    const toSet: [string, string][] = [];
+    const toRemove: string[] = [];
+    for (const [key, raw] of current) {
+      const ids = new Set<string>(raw ? JSON.parse(raw) : []);
+      for (const id of changes.get(key)!) {
+        if (mode === 'add') ids.add(id);
+        else ids.delete(id);
+      }
+      if (ids.size > 0) toSet.push([key, JSON.stringify(Array.from(ids))]);
+      else toRemove.push(key);
+    }
+    if (toSet.length > 0) await kv.multiSet(toSet);
+    if (toRemove.length > 0) await kv.multiRemove(toRemove);
+  }
+
+  /**
+   * Saves `records` and deletes `removeIds`. Index additions are written before
+   * the records and removals after them, so an interrupted write can leave an
+   * extra index entry (filtered out by `where`) but never an unindexed record.
+   */
+  async function write(records: T[], removeIds: string[]): Promise<void> {
+    if (records.length === 0 && removeIds.length === 0) return;
+    const previous = new Map(
+      (await readMany([...records.map(r => r.id), ...removeIds])).map(r => [r.id, r]),
+    );
+    const added = new Map<string, string[]>();
+    const removed = new Map<string, string[]>();
+    const note = (changes: Map<string, string[]>, key: string, id: string) => {
+      changes.set(key, [...(changes.get(key) ?? []), id]);
+    };
+
+    for (const record of records) {
+      const before = previous.has(record.id) ? indexKeysOf(previous.get(record.id)!) : new Set<string>();
+      const after = indexKeysOf(record);
+      for (const key of after) if (!before.has(key)) note(added, key, record.id);
+      for (const key of before) if (!after.has(key)) note(removed, key, record.id);
+    }
+    for (const id of removeIds) {
+      const record = previous.get(id);
+      if (record) for (const key of indexKeysOf(record)) note(removed, key, id);
+    }
+
+    await patchIndexes(added, 'add');
+    if (records.length > 0) await kv.multiSet(records.map(r => [recordKey(r.id), JSON.stringify(r)]));
+    if (removeIds.length > 0) await kv.multiRemove(removeIds.map(recordKey));
+    await patchIndexes(removed, 'remove');
+  }
+
+  return {
+    all: () => serial(async () => readMany(await allIds())),
+
+    get: id => serial(async () => (await readMany([id]))[0]),
+
+    where: (index, value) => serial(async () => {
+      const key = indexKey(index, value);
+      const [[, raw]] = await kv.multiGet([key]);
+      const records = await readMany(raw ? JSON.parse(raw) : []);
+      return records.filter(r => indexKeysOf(r).has(key));
+    }),
+
+    put: record => serial(() => write([record], [])),
+
+    remove: ids => serial(() => write([], ids)),
+
+    replaceAll: records => serial(async () => {
+      const existing = new Map((await readMany(await allIds())).map(r => [r.id, JSON.stringify(r)]));
+      const keep = new Set(records.map(r => r.id));
+      const changed = records.filter(r => existing.get(r.id) !== JSON.stringify(r));
+      const removed = Array.from(existing.keys()).filter(id => !keep.has(id));
+      await write(changed, removed);
+    }),
+  };
+}
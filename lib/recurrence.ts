@@ -0,0 +1,175 @@
+import { RecurringOverride, RecurringRule, Transaction } from './types';
+import { getDaysInMonth } from './format';
+import { scaleSplits } from './splits';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RecurringOccurrence {
+  date: string;
+  amount: number;
+  note?: string;
+}
+
+// ─── Date helpers ────────────────────────────────────────────────────────────
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Adds days to a YYYY-MM-DD string (UTC math, so DST never shifts the day). */
+export function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return toDateString(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+/**
+ * Adds months, clamping to the last day of the target month so a series that
+ * starts on the 31st lands on Feb 28/29, then back on the 31st in March.
+ */
+export function addMonths(dateStr: string, months: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const total = (m - 1) + months;
+  const year = y + Math.floor(total / 12);
+  const month = ((total % 12) + 12) % 12 + 1;
+  return toDateString(year, month, Math.min(d, getDaysInMonth(year, month)));
+}
+
+// ─── Schedule ────────────────────────────────────────────────────────────────
+
+/** Date of the n-th (0-based) occurrence, ignoring end date / count / skips. */
+export function nthOccurrence(rule: RecurringRule, n: number): string {
+  const step = n * Math.max(1, rule.interval);
+  switch (rule.frequency) {
+    case 'daily': return addDays(rule.startDate, step);
+    case 'weekly': return addDays(rule.startDate, step * 7);
+    case 'monthly': return addMonths(rule.startDate, step);
+    case 'yearly': return addMonths(rule.startDate, step * 12);
+  }
+}
+
+/**
+ * All occurrence dates in [from, to] (inclusive), honouring `endDate` and
+ * `count`. Skipped dates are included — they still count towards `count`.
+ */
+export function occurrencesBetween(rule: RecurringRule, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    if (rule.count !== undefined && n >= rule.count) break;
+    const date = nthOccurrence(rule, n);
+    if (date > to) break;
+    if (rule.endDate && date > rule.endDate) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/** Applies skips and single-occurrence overrides to a scheduled date. */
+function resolveOccurrence(rule: RecurringRule, date: string): RecurringOccurrence | null {
+  if (rule.skipDates.includes(date)) return null;
+  const override = rule.overrides.find(o => o.date === date);
+  return {
+    date,
+    amount: override?.amount ?? rule.amount,
+    note: override?.note ?? rule.note,
+  };
+}
+
+/**
+ * Occurrences that are due (on or before `today`) but have not been turned
+ * into transactions yet, i.e. everything after `lastGeneratedDate`.
+ */
+export function dueOccurrences(rule: RecurringRule, today: string): RecurringOccurrence[] {
+  const from = rule.lastGeneratedDate ? addDays(rule.lastGeneratedDate, 1) : rule.startDate;
+  if (from > today) return [];
+  return occurrencesBetween(rule, from, today)
+    .map(date => resolveOccurrence(rule, date))
+    .filter((o): o is RecurringOccurrence => o !== null);
+}
+
+/**
+ * The rule with one occurrence changed, replacing any earlier change to it.
+ * Values equal to the rule's own are left out, so a change back to them
+ * removes the override.
+ */
+export function withOverride(rule: RecurringRule, change: RecurringOverride): RecurringRule {
+  const override: RecurringOverride = {
+    date: change.date,
+    amount: change.amount !== rule.amount ? change.amount : undefined,
+    note: change.note !== rule.note ? change.note : undefined,
+  };
+  const others = rule.overrides.filter(o => o.date !== change.date);
+  const changed = override.amount !== undefined || override.note !== undefined;
+  return { ...rule, overrides: changed ? [...others, override] : others };
+}
+
+/** First non-skipped occurrence strictly after `after`, or null once the series has ended. */
+export function nextOccurrence(rule: RecurringRule, after: string): RecurringOccurrence | null {
+  for (let n = 0; ; n++) {
+    if (rule.count !== undefined && n >= rule.count) return null;
+    const date = nthOccurrence(rule, n);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (date <= after) continue;
+    const occ = resolveOccurrence(rule, date);
+    if (occ) return occ;
+  }
+}
+
+/** A rule is active while it still has occurrences left to generate. */
+export function isRuleActive(rule: RecurringRule): boolean {
+  const cursor = rule.lastGeneratedDate ?? addDays(rule.startDate, -1);
+  return nextOccurrence(rule, cursor) !== null;
+}
+
+// ─── Presentation ────────────────────────────────────────────────────────────
+
+const UNITS: Record<RecurringRule['frequency'], string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+/** e.g. "Every month", "Every 2 weeks · 12 times", "Every day · until 2026-12-31" */
+export function describeRecurrence(rule: Pick<RecurringRule, 'frequency' | 'interval' | 'endDate' | 'count'>): string {
+  const unit = UNITS[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  if (rule.count !== undefined) text += ` · ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  else if (rule.endDate) text += ` · until ${rule.endDate}`;
+  return text;
+}
+
+// ─── Materialisation ─────────────────────────────────────────────────────────
+
+export function occurrenceToTransaction(
+  rule: RecurringRule,
+  occ: RecurringOccurrence,
+  id: string,
+  now: string,
+): Transaction {
+  // A rule without an amount (saved by hand or by an older build) has no rate to scale by
+  const rate = rule.amount > 0 ? occ.amount / rule.amount : 1;
+  return {
+    id,
+    type: rule.type,
+    amount: occ.amount,
+    categoryId: rule.categoryId,
+    accountId: rule.accountId,
+    toAccountId: rule.type === 'transfer' ? rule.toAccountId : undefined,
+    // an overridden amount scales the received side by the same rate
+    toAmount: rule.type === 'transfer' && rule.toAmount !== undefined
+      ? rule.toAmount * rate
+      : undefined,
+    // ...and the split lines proportionally
+    splits: rule.type !== 'transfer' && rule.splits
+      ? (occ.amount === rule.amount ? rule.splits : scaleSplits(rule.splits, occ.amount, rate))
+      : undefined,
+    date: occ.date,
+    note: occ.note || undefined, // an override may clear the rule's note
+    tags: rule.tags,
+    payeeId: rule.payeeId,
+    recurringRuleId: rule.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
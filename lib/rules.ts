@@ -0,0 +1,136 @@
+import { Category, CategoryRule, Payee, RuleConditions, Transaction } from './types';
+import { addTag } from './tags';
+
+// ─── Categorization Rules ────────────────────────────────────────────────────
+// User-defined "if … then …" rules that pick a category and add tags, used on
+// import and when entering a transaction by hand. Rules run in `sortOrder` and
+// the first enabled rule whose conditions all hold wins. Transfers are never
+// categorized by rules.
+//
+// Note and payee patterns are case-insensitive and match anywhere in the text;
+// "*" stands for any run of characters, so "amzn*mktp" matches
+// "AMZN Mktp US*2K4". A rule without any condition matches nothing.
+
+/** The parts of a transaction rules look at. */
+export interface RuleInput {
+  type: Transaction['type'];
+  amount: number;
+  accountId: string;
+  note?: string;
+  payeeName?: string;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(escaped, 'i');
+}
+
+/** True when `text` contains `pattern` (see above). Blank patterns match anything. */
+export function patternMatches(pattern: string, text: string): boolean {
+  if (!pattern.trim()) return true;
+  return patternToRegExp(pattern).test(text);
+}
+
+export function hasConditions(conditions: RuleConditions): boolean {
+  return !!conditions.type
+    || !!conditions.note?.trim()
+    || !!conditions.payee?.trim()
+    || conditions.minAmount !== undefined
+    || conditions.maxAmount !== undefined
+    || !!conditions.accountId;
+}
+
+export function ruleMatches(rule: Pick<CategoryRule, 'conditions'>, input: RuleInput): boolean {
+  const c = rule.conditions;
+  if (input.type === 'transfer' || !hasConditions(c)) return false;
+  if (c.type && c.type !== input.type) return false;
+  if (c.accountId && c.accountId !== input.accountId) return false;
+  if (c.minAmount !== undefined && input.amount < c.minAmount) return false;
+  if (c.maxAmount !== undefined && input.amount > c.maxAmount) return false;
+  if (c.note?.trim() && !patternMatches(c.note, input.note ?? '')) return false;
+  if (c.payee?.trim() && !patternMatches(c.payee, input.payeeName ?? '')) return false;
+  return true;
+}
+
+/** Enabled rules in the order they run. */
+export function orderedRules(rules: CategoryRule[]): CategoryRule[] {
+  return rules
+    .filter(r => r.enabled)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** The rule that decides `input`, if any. */
+export function findMatchingRule(rules: CategoryRule[], input: RuleInput): CategoryRule | undefined {
+  return orderedRules(rules).find(r => ruleMatches(r, input));
+}
+
+/**
+ * `tx` with the rule's category and tags applied. Split transactions keep
+ * their lines and only get the tags.
+ */
+export function applyRule<T extends Pick<Transaction, 'categoryId' | 'tags' | 'splits'>>(rule: CategoryRule, tx: T): T {
+  const tags = (rule.tags ?? []).reduce(addTag, tx.tags ?? []);
+  return {
+    ...tx,
+    categoryId: rule.categoryId && !tx.splits?.length ? rule.categoryId : tx.categoryId,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+}
+
+/**
+ * The category the rule sets on a `type` transaction, if it still exists and
+ * is of that type (a rule without a type condition may match both).
+ */
+export function ruleCategory(
+  rule: CategoryRule,
+  type: Transaction['type'],
+  categories: Category[],
+): Category | undefined {
+  if (!rule.categoryId) return undefined;
+  return categories.find(c => c.id === rule.categoryId && c.type === type && !c.deletedAt);
+}
+
+/** What a transaction looks like to the rules. */
+export function ruleInput(tx: Transaction, payees: Payee[]): RuleInput {
+  return {
+    type: tx.type,
+    amount: tx.amount,
+    accountId: tx.accountId,
+    note: tx.note,
+    payeeName: tx.payeeId ? payees.find(p => p.id === tx.payeeId)?.name : undefined,
+  };
+}
+
+// ─── Preview ─────────────────────────────────────────────────────────────────
+
+export interface RulePreview {
+  /** Past transactions the rule matches, newest first. */
+  matches: Transaction[];
+  /** How many of them the rule would move to another category. */
+  recategorized: number;
+}
+
+/** Tests a (possibly unsaved) rule against existing transactions. */
+export function previewRule(rule: CategoryRule, transactions: Transaction[], payees: Payee[]): RulePreview {
+  const matches = transactions
+    .filter(t => !t.deletedAt && ruleMatches(rule, ruleInput(t, payees)))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  const recategorized = rule.categoryId
+    ? matches.filter(t => !t.splits?.length && t.categoryId !== rule.categoryId).length
+    : 0;
+  return { matches, recategorized };
+}
+
+/** Why the rule can't be saved, or null when it can. */
+export function validateRule(rule: Pick<CategoryRule, 'name' | 'conditions' | 'categoryId' | 'tags'>): string | null {
+  if (!rule.name.trim()) return 'Please enter a name';
+  if (!hasConditions(rule.conditions)) return 'Add at least one condition';
+  const { minAmount, maxAmount } = rule.conditions;
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    return 'The minimum amount is above the maximum';
+  }
+  if (!rule.categoryId && !rule.tags?.length) return 'Choose a category or tags to set';
+  return null;
+}
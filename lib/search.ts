@@ -0,0 +1,122 @@
+import { Account, Category, Payee, Transaction, TransactionFilter } from './types';
+import { getDaysInMonth, getMonthYear, navigateMonth } from './format';
+import { categoryLines, hasCategory } from './splits';
+import { descendantIds } from './category-tree';
+import { hasTag } from './tags';
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+export function emptyFilter(): TransactionFilter {
+  return { query: '', types: [], accountIds: [], categoryIds: [] };
+}
+
+/** True when the filter would match every transaction. */
+export function isFilterEmpty(filter: TransactionFilter): boolean {
+  return !filter.query.trim()
+    && filter.types.length === 0
+    && filter.accountIds.length === 0
+    && filter.categoryIds.length === 0
+    && !filter.tags?.length
+    && filter.minAmount === undefined
+    && filter.maxAmount === undefined
+    && !filter.fromDate
+    && !filter.toDate;
+}
+
+/** Number of filter groups in use (the search text is not counted). */
+export function activeFilterCount(filter: TransactionFilter): number {
+  return [
+    filter.types.length > 0,
+    filter.accountIds.length > 0,
+    filter.categoryIds.length > 0,
+    !!filter.tags?.length,
+    filter.minAmount !== undefined || filter.maxAmount !== undefined,
+    !!filter.fromDate || !!filter.toDate,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Transactions matching every part of `filter`, newest first. The search text
+ * is split into words and each word must appear in the note, payee, category
+ * name, account name or tags (case-insensitive); split lines count with their own
+ * category and note. A category filter also matches its subcategories. Amounts
+ * are compared in the account's own currency.
+ */
+export function filterTransactions(
+  transactions: Transaction[],
+  filter: TransactionFilter,
+  categories: Category[],
+  accounts: Account[],
+  payees: Payee[] = [],
+): Transaction[] {
+  const payeeName = new Map(payees.map(p => [p.id, p.name.toLowerCase()]));
+  const categoryName = new Map(categories.map(c => [c.id, c.name.toLowerCase()]));
+  const accountName = new Map(accounts.map(a => [a.id, a.name.toLowerCase()]));
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const categoryIds = filter.categoryIds.flatMap(id => [id, ...descendantIds(categories, id)]);
+
+  const matches = (t: Transaction): boolean => {
+    if (filter.types.length > 0 && !filter.types.includes(t.type)) return false;
+    if (filter.accountIds.length > 0
+      && !filter.accountIds.includes(t.accountId)
+      && !(t.toAccountId && filter.accountIds.includes(t.toAccountId))) return false;
+    if (categoryIds.length > 0 && !categoryIds.some(id => hasCategory(t, id))) return false;
+    if (filter.tags?.length && !filter.tags.some(tag => hasTag(t, tag))) return false;
+    if (filter.minAmount !== undefined && t.amount < filter.minAmount) return false;
+    if (filter.maxAmount !== undefined && t.amount > filter.maxAmount) return false;
+    if (filter.fromDate && t.date < filter.fromDate) return false;
+    if (filter.toDate && t.date > filter.toDate) return false;
+
+    if (words.length > 0) {
+      const haystack = [
+        t.note?.toLowerCase() ?? '',
+        t.payeeId ? payeeName.get(t.payeeId) ?? '' : '',
+        ...(t.type === 'transfer' ? [] : categoryLines(t).flatMap(line => [
+          categoryName.get(line.categoryId) ?? '',
+          line.note?.toLowerCase() ?? '',
+        ])),
+        accountName.get(t.accountId) ?? '',
+        t.toAccountId ? accountName.get(t.toAccountId) ?? '' : '',
+        ...(t.tags ?? []).map(tag => tag.toLowerCase()),
+      ].join(' ');
+      if (!words.every(w => haystack.includes(w))) return false;
+    }
+    return true;
+  };
+
+  return transactions
+    .filter(matches)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+// ─── Date Ranges ─────────────────────────────────────────────────────────────
+
+export type DateRangePreset = 'this-month' | 'last-month' | 'this-year' | 'last-year';
+
+export const DATE_RANGE_PRESETS: { key: DateRangePreset; label: string }[] = [
+  { key: 'this-month', label: 'This month' },
+  { key: 'last-month', label: 'Last month' },
+  { key: 'this-year', label: 'This year' },
+  { key: 'last-year', label: 'Last year' },
+];
+
+/** Inclusive YYYY-MM-DD bounds of a quick date range, relative to `today`. */
+export function dateRange(preset: DateRangePreset, today: string): { fromDate: string; toDate: string } {
+  const { year, month } = getMonthYear(today);
+  const monthRange = (y: number, m: number) => {
+    const mm = String(m).padStart(2, '0');
+    return { fromDate: `${y}-${mm}-01`, toDate: `${y}-${mm}-${String(getDaysInMonth(y, m)).padStart(2, '0')}` };
+  };
+  switch (preset) {
+    case 'this-month':
+      return monthRange(year, month);
+    case 'last-month': {
+      const prev = navigateMonth(year, month, -1);
+      return monthRange(prev.year, prev.month);
+    }
+    case 'this-year':
+      return { fromDate: `${year}-01-01`, toDate: `${year}-12-31` };
+    case 'last-year':
+      return { fromDate: `${year - 1}-01-01`, toDate: `${year - 1}-12-31` };
+  }
+}
@@ -0,0 +1,60 @@
+import { Transaction, TransactionSplit } from './types';
+
+// Amounts are compared in cents so 0.1 + 0.2 lines still match a 0.30 total
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/** True when the transaction is divided into two or more category lines. */
+export function isSplit(tx: Pick<Transaction, 'splits'>): boolean {
+  return !!tx.splits && tx.splits.length > 1;
+}
+
+/**
+ * The (category, amount) lines a transaction contributes to category totals:
+ * its split lines, or a single line for the whole amount.
+ */
+export function categoryLines(tx: Transaction): TransactionSplit[] {
+  return isSplit(tx) ? tx.splits! : [{ categoryId: tx.categoryId, amount: tx.amount, note: tx.note }];
+}
+
+/** Amount of `tx` attributed to one category (0 when it does not touch it). */
+export function amountInCategory(tx: Transaction, categoryId: string): number {
+  if (!isSplit(tx)) return tx.categoryId === categoryId ? tx.amount : 0;
+  return tx.splits!.reduce((sum, s) => (s.categoryId === categoryId ? sum + s.amount : sum), 0);
+}
+
+export function hasCategory(tx: Transaction, categoryId: string): boolean {
+  return isSplit(tx) ? tx.splits!.some(s => s.categoryId === categoryId) : tx.categoryId === categoryId;
+}
+
+/** Unallocated amount (total minus the lines); negative when the lines exceed the total. */
+export function splitRemainder(total: number, splits: Pick<TransactionSplit, 'amount'>[]): number {
+  return (toCents(total) - splits.reduce((sum, s) => sum + toCents(s.amount), 0)) / 100;
+}
+
+/** Returns an error message, or null when the lines are valid for `total`. */
+export function validateSplits(total: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(s => !s.categoryId)) return 'Every line needs a category';
+  if (splits.some(s => !(s.amount > 0))) return 'Every line needs an amount';
+  const remainder = splitRemainder(total, splits);
+  if (remainder !== 0) {
+    return remainder > 0
+      ? `Lines are ${remainder.toFixed(2)} short of the total`
+      : `Lines exceed the total by ${(-remainder).toFixed(2)}`;
+  }
+  return null;
+}
+
+/** Category to store in `Transaction.categoryId` for a split: the largest line's. */
+export function primaryCategory(splits: TransactionSplit[]): string {
+  return splits.reduce((best, s) => (s.amount > best.amount ? s : best), splits[0]).categoryId;
+}
+
+/** Scales every line by `factor` (currency conversion), keeping the sum exact. */
+export function scaleSplits(splits: TransactionSplit[], total: number, factor: number): TransactionSplit[] {
+  const scaled = splits.map(s => ({ ...s, amount: s.amount * factor }));
+  // Give any rounding drift to the last line
+  const drift = total - scaled.reduce((sum, s) => sum + s.amount, 0);
+  scaled[scaled.length - 1].amount += drift;
+  return scaled;
+}
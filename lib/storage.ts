@@ -1,30 +1,89 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Account, Category, Transaction } from './types';
+import {
+  Account, Budget, Category, CategoryRule, CsvProfile, FilterPreset, Payee, Reconciliation, RecurringRule, Transaction,
+} from './types';
 import { DEFAULT_ACCOUNTS, DEFAULT_CATEGORIES } from './defaults';
+import { RateTable, codeForSymbol, emptyRateTable } from './currency';
+import { SyncCursor, SyncState, emptySyncState } from './delta-sync';
+import { SyncConflict } from './conflicts';
+import { LedgerHistory, emptyHistory } from './history';
+import { DEFAULT_TRASH_RETENTION_DAYS, tombstone } from './trash';
+import { createRecordStore } from './record-store';
+import { SCHEMA_VERSION, SCHEMA_VERSION_KEY, TRANSACTION_INDEXES, migrateStorage } from './migrations';
 
 const KEYS = {
-  TRANSACTIONS: 'mymoney_transactions',
   ACCOUNTS: 'mymoney_accounts',
   CATEGORIES: 'mymoney_categories',
   INITIALIZED: 'mymoney_initialized',
   PENDING_DELETES: 'mymoney_pending_deletes',
-  CURRENCY: 'mymoney_currency',
+  PENDING_ACCOUNT_DELETES: 'mymoney_pending_deletes_accounts',
+  PENDING_CATEGORY_DELETES: 'mymoney_pending_deletes_categories',
+  CURRENCY: 'mymoney_currency', // legacy display symbol, read once to seed BASE_CURRENCY
+  BASE_CURRENCY: 'mymoney_base_currency',
+  EXCHANGE_RATES: 'mymoney_exchange_rates',
+  RECURRING_RULES: 'mymoney_recurring_rules',
+  BUDGETS: 'mymoney_budgets',
+  PENDING_BUDGET_DELETES: 'mymoney_pending_deletes_budgets',
+  PAYEES: 'mymoney_payees',
+  PENDING_PAYEE_DELETES: 'mymoney_pending_deletes_payees',
+  FILTER_PRESETS: 'mymoney_filter_presets',
+  CATEGORY_RULES: 'mymoney_category_rules',
+  DISMISSED_DUPLICATES: 'mymoney_dismissed_duplicates',
+  CSV_PROFILES: 'mymoney_csv_profiles',
+  RECONCILIATIONS: 'mymoney_reconciliations',
+  SYNC_STATE: 'mymoney_sync_state',
+  SYNC_CONFLICTS: 'mymoney_sync_conflicts',
+  HISTORY: 'mymoney_history',
+  TRASH_RETENTION_DAYS: 'mymoney_trash_retention_days',
+};
+
+/** Record kinds that are mirrored to Supabase. */
+export type SyncEntity = 'transactions' | 'accounts' | 'categories' | 'budgets' | 'payees';
+
+const PENDING_DELETE_KEYS: Record<SyncEntity, string> = {
+  transactions: KEYS.PENDING_DELETES,
+  accounts: KEYS.PENDING_ACCOUNT_DELETES,
+  categories: KEYS.PENDING_CATEGORY_DELETES,
+  budgets: KEYS.PENDING_BUDGET_DELETES,
+  payees: KEYS.PENDING_PAYEE_DELETES,
 };
 
 // ─── Initialization ──────────────────────────────────────────────────────────
 
+/**
+ * Seeds a first install, or brings stored data up to SCHEMA_VERSION. Throws
+ * when the data can't be migrated: nothing may read or write it until a later
+ * launch succeeds, or a save would land on the old layout or over the backup.
+ */
 export async function initializeStorage(): Promise<void> {
   const initialized = await AsyncStorage.getItem(KEYS.INITIALIZED);
   if (initialized) {
+    const result = await migrateStorage(AsyncStorage);
+    if (result.error) {
+      console.warn(`[storage] migration from v${result.from} failed, data left at that version:`, result.error);
+      const reason = result.error instanceof Error ? result.error.message : String(result.error);
+      throw new Error(`Your data could not be upgraded from version ${result.from} (${reason}).`);
+    }
     // Merge any new default categories added since first install
     await mergeDefaultCategories();
-    return;
+  } else {
+    await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(DEFAULT_ACCOUNTS));
+    await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(DEFAULT_CATEGORIES));
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+    await AsyncStorage.setItem(KEYS.INITIALIZED, 'true');
   }
+  await backfillAccountCurrencies();
+}
 
-  await AsyncStorage.setItem(KEYS.TRANSACTIONS, JSON.stringify([]));
-  await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(DEFAULT_ACCOUNTS));
-  await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(DEFAULT_CATEGORIES));
-  await AsyncStorage.setItem(KEYS.INITIALIZED, 'true');
+/** Accounts pulled from devices that predate multi-currency arrive without one; they use the base currency. */
+async function backfillAccountCurrencies(): Promise<void> {
+  const accounts = await getAccounts();
+  if (accounts.every(a => a.currency)) return;
+  const base = await getBaseCurrency();
+  await AsyncStorage.setItem(
+    KEYS.ACCOUNTS,
+    JSON.stringify(accounts.map(a => (a.currency ? a : { ...a, currency: base }))),
+  );
 }
 
 /** Adds any DEFAULT_CATEGORIES that are missing from storage (by id). */
@@ -38,32 +97,55 @@ async function mergeDefaultCategories(): Promise<void> {
 }
 
 // ─── Transactions ────────────────────────────────────────────────────────────
+// Stored one record per key with indexes by month, account and category, so a
+// save touches a single record and screens can load a slice without the rest.
+
+const transactionStore = createRecordStore<Transaction>(AsyncStorage, 'transactions', TRANSACTION_INDEXES);
 
 export async function getTransactions(): Promise<Transaction[]> {
-  const raw = await AsyncStorage.getItem(KEYS.TRANSACTIONS);
-  return raw ? JSON.parse(raw) : [];
+  return transactionStore.all();
+}
+
+export async function getTransaction(id: string): Promise<Transaction | undefined> {
+  return transactionStore.get(id);
+}
+
+/** Transactions dated in `month` (YYYY-MM). */
+export async function getTransactionsByMonth(month: string): Promise<Transaction[]> {
+  return transactionStore.where('month', month);
+}
+
+/** Transactions from or to the account. */
+export async function getTransactionsForAccount(accountId: string): Promise<Transaction[]> {
+  return transactionStore.where('account', accountId);
+}
+
+/** Transactions in the category, including split lines assigned to it. */
+export async function getTransactionsForCategory(categoryId: string): Promise<Transaction[]> {
+  return transactionStore.where('category', categoryId);
 }
 
 export async function saveTransaction(transaction: Transaction): Promise<void> {
-  const transactions = await getTransactions();
-  const existing = transactions.findIndex(t => t.id === transaction.id);
-  if (existing >= 0) {
-    transactions[existing] = transaction;
-  } else {
-    transactions.push(transaction);
-  }
-  await AsyncStorage.setItem(KEYS.TRANSACTIONS, JSON.stringify(transactions));
+  await transactionStore.put(transaction);
+}
+
+/** Moves the transaction to the trash and returns its tombstone. */
+export async function deleteTransaction(id: string, deletedAt = new Date().toISOString()): Promise<Transaction | undefined> {
+  const transaction = await transactionStore.get(id);
+  if (!transaction || transaction.deletedAt) return transaction;
+  const deleted = tombstone(transaction, deletedAt);
+  await transactionStore.put(deleted);
+  return deleted;
 }
 
-export async function deleteTransaction(id: string): Promise<void> {
-  const transactions = await getTransactions();
-  const filtered = transactions.filter(t => t.id !== id);
-  await AsyncStorage.setItem(KEYS.TRANSACTIONS, JSON.stringify(filtered));
+/** Removes transactions for good (emptying the trash, or undoing an add). */
+export async function purgeTransactions(ids: string[]): Promise<void> {
+  await transactionStore.remove(ids);
 }
 
 /** Bulk-replace the entire transactions list (used when syncing from Supabase). */
 export async function setTransactions(transactions: Transaction[]): Promise<void> {
-  await AsyncStorage.setItem(KEYS.TRANSACTIONS, JSON.stringify(transactions));
+  await transactionStore.replaceAll(transactions);
 }
 
 // ─── Accounts ────────────────────────────────────────────────────────────────
@@ -84,17 +166,36 @@ export async function saveAccount(account: Account): Promise<void> {
   await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(accounts));
 }
 
-export async function deleteAccount(id: string): Promise<void> {
+/**
+ * Moves the account and every transaction linked to it to the trash, all with
+ * the same `deletedAt` so they can be restored together.
+ */
+export async function deleteAccount(id: string, deletedAt = new Date().toISOString()): Promise<void> {
   const accounts = await getAccounts();
-  const filtered = accounts.filter(a => a.id !== id);
-  await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(filtered));
+  await AsyncStorage.setItem(
+    KEYS.ACCOUNTS,
+    JSON.stringify(accounts.map(a => (a.id === id && !a.deletedAt ? tombstone(a, deletedAt) : a))),
+  );
+
+  const linked = (await getTransactionsForAccount(id)).filter(t => !t.deletedAt);
+  for (const t of linked) await transactionStore.put(tombstone(t, deletedAt));
 
-  // Also delete all transactions linked to this account
-  const transactions = await getTransactions();
-  const filteredTx = transactions.filter(
-    t => t.accountId !== id && t.toAccountId !== id
+  // ...and stop any recurring rules that would post to it
+  const rules = await getRecurringRules();
+  const filteredRules = rules.filter(
+    r => r.accountId !== id && r.toAccountId !== id
   );
-  await AsyncStorage.setItem(KEYS.TRANSACTIONS, JSON.stringify(filteredTx));
+  await AsyncStorage.setItem(KEYS.RECURRING_RULES, JSON.stringify(filteredRules));
+}
+
+export async function purgeAccounts(ids: string[]): Promise<void> {
+  const accounts = await getAccounts();
+  await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(accounts.filter(a => !ids.includes(a.id))));
+}
+
+/** Bulk-replace the entire accounts list (used when syncing from Supabase). */
+export async function setAccounts(accounts: Account[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.ACCOUNTS, JSON.stringify(accounts));
 }
 
 // ─── Categories ──────────────────────────────────────────────────────────────
@@ -115,39 +216,328 @@ export async function saveCategory(category: Category): Promise<void> {
   await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(categories));
 }
 
-export async function deleteCategory(id: string): Promise<void> {
+/** Moves the category to the trash; its transactions keep pointing at it. */
+export async function deleteCategory(id: string, deletedAt = new Date().toISOString()): Promise<Category | undefined> {
   const categories = await getCategories();
-  const filtered = categories.filter(c => c.id !== id);
-  await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(filtered));
+  const category = categories.find(c => c.id === id);
+  if (!category || category.deletedAt) return category;
+  const deleted = tombstone(category, deletedAt);
+  await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(categories.map(c => (c.id === id ? deleted : c))));
+  return deleted;
+}
+
+export async function purgeCategories(ids: string[]): Promise<void> {
+  const categories = await getCategories();
+  await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(categories.filter(c => !ids.includes(c.id))));
+}
+
+/** Bulk-replace the entire categories list (used when syncing from Supabase). */
+export async function setCategories(categories: Category[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.CATEGORIES, JSON.stringify(categories));
+}
+
+// ─── Budgets ─────────────────────────────────────────────────────────────────
+
+export async function getBudgets(): Promise<Budget[]> {
+  const raw = await AsyncStorage.getItem(KEYS.BUDGETS);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveBudget(budget: Budget): Promise<void> {
+  const budgets = await getBudgets();
+  const existing = budgets.findIndex(b => b.id === budget.id);
+  if (existing >= 0) {
+    budgets[existing] = budget;
+  } else {
+    budgets.push(budget);
+  }
+  await AsyncStorage.setItem(KEYS.BUDGETS, JSON.stringify(budgets));
+}
+
+export async function deleteBudget(id: string): Promise<void> {
+  const budgets = await getBudgets();
+  const filtered = budgets.filter(b => b.id !== id);
+  await AsyncStorage.setItem(KEYS.BUDGETS, JSON.stringify(filtered));
+}
+
+/** Bulk-replace the entire budgets list (used when syncing from Supabase). */
+export async function setBudgets(budgets: Budget[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.BUDGETS, JSON.stringify(budgets));
+}
+
+// ─── Payees ──────────────────────────────────────────────────────────────────
+
+export async function getPayees(): Promise<Payee[]> {
+  const raw = await AsyncStorage.getItem(KEYS.PAYEES);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function savePayee(payee: Payee): Promise<void> {
+  const payees = await getPayees();
+  const existing = payees.findIndex(p => p.id === payee.id);
+  if (existing >= 0) {
+    payees[existing] = payee;
+  } else {
+    payees.push(payee);
+  }
+  await AsyncStorage.setItem(KEYS.PAYEES, JSON.stringify(payees));
+}
+
+/** Bulk-replace the entire payees list (used when syncing from Supabase). */
+export async function setPayees(payees: Payee[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.PAYEES, JSON.stringify(payees));
+}
+
+// ─── Recurring Rules ─────────────────────────────────────────────────────────
+
+export async function getRecurringRules(): Promise<RecurringRule[]> {
+  const raw = await AsyncStorage.getItem(KEYS.RECURRING_RULES);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveRecurringRule(rule: RecurringRule): Promise<void> {
+  const rules = await getRecurringRules();
+  const existing = rules.findIndex(r => r.id === rule.id);
+  if (existing >= 0) {
+    rules[existing] = rule;
+  } else {
+    rules.push(rule);
+  }
+  await AsyncStorage.setItem(KEYS.RECURRING_RULES, JSON.stringify(rules));
+}
+
+export async function deleteRecurringRule(id: string): Promise<void> {
+  const rules = await getRecurringRules();
+  const filtered = rules.filter(r => r.id !== id);
+  await AsyncStorage.setItem(KEYS.RECURRING_RULES, JSON.stringify(filtered));
+}
+
+// ─── Filter Presets ──────────────────────────────────────────────────────────
+// Saved searches; device-local, not synced.
+
+export async function getFilterPresets(): Promise<FilterPreset[]> {
+  const raw = await AsyncStorage.getItem(KEYS.FILTER_PRESETS);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveFilterPreset(preset: FilterPreset): Promise<void> {
+  const presets = await getFilterPresets();
+  const existing = presets.findIndex(p => p.id === preset.id);
+  if (existing >= 0) {
+    presets[existing] = preset;
+  } else {
+    presets.push(preset);
+  }
+  await AsyncStorage.setItem(KEYS.FILTER_PRESETS, JSON.stringify(presets));
+}
+
+export async function deleteFilterPreset(id: string): Promise<void> {
+  const presets = await getFilterPresets();
+  const filtered = presets.filter(p => p.id !== id);
+  await AsyncStorage.setItem(KEYS.FILTER_PRESETS, JSON.stringify(filtered));
+}
+
+// ─── Categorization Rules ────────────────────────────────────────────────────
+// Device-local, not synced, like saved searches.
+
+export async function getCategoryRules(): Promise<CategoryRule[]> {
+  const raw = await AsyncStorage.getItem(KEYS.CATEGORY_RULES);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveCategoryRule(rule: CategoryRule): Promise<void> {
+  const rules = await getCategoryRules();
+  const existing = rules.findIndex(r => r.id === rule.id);
+  if (existing >= 0) {
+    rules[existing] = rule;
+  } else {
+    rules.push(rule);
+  }
+  await AsyncStorage.setItem(KEYS.CATEGORY_RULES, JSON.stringify(rules));
+}
+
+export async function setCategoryRules(rules: CategoryRule[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.CATEGORY_RULES, JSON.stringify(rules));
+}
+
+export async function deleteCategoryRule(id: string): Promise<void> {
+  const rules = await getCategoryRules();
+  const filtered = rules.filter(r => r.id !== id);
+  await AsyncStorage.setItem(KEYS.CATEGORY_RULES, JSON.stringify(filtered));
+}
+
+// ─── CSV Import Profiles ─────────────────────────────────────────────────────
+// Saved column mappings (see csv-mapping.ts); device-local, not synced.
+
+export async function getCsvProfiles(): Promise<CsvProfile[]> {
+  const raw = await AsyncStorage.getItem(KEYS.CSV_PROFILES);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveCsvProfile(profile: CsvProfile): Promise<void> {
+  const profiles = await getCsvProfiles();
+  const existing = profiles.findIndex(p => p.id === profile.id);
+  if (existing >= 0) {
+    profiles[existing] = profile;
+  } else {
+    profiles.push(profile);
+  }
+  await AsyncStorage.setItem(KEYS.CSV_PROFILES, JSON.stringify(profiles));
+}
+
+export async function deleteCsvProfile(id: string): Promise<void> {
+  const profiles = await getCsvProfiles();
+  const filtered = profiles.filter(p => p.id !== id);
+  await AsyncStorage.setItem(KEYS.CSV_PROFILES, JSON.stringify(filtered));
+}
+
+// ─── Reconciliations ─────────────────────────────────────────────────────────
+// Statements accounts were reconciled against (see reconcile.ts); device-local,
+// not synced. The reconciled status itself syncs with the transactions.
+
+export async function getReconciliations(): Promise<Reconciliation[]> {
+  const raw = await AsyncStorage.getItem(KEYS.RECONCILIATIONS);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function setReconciliations(reconciliations: Reconciliation[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.RECONCILIATIONS, JSON.stringify(reconciliations));
+}
+
+// ─── Dismissed Duplicates ────────────────────────────────────────────────────
+// Pairs the user marked as "not duplicates" (see duplicates.ts pairKey);
+// device-local, not synced.
+
+export async function getDismissedDuplicates(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(KEYS.DISMISSED_DUPLICATES);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function saveDismissedDuplicates(keys: string[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.DISMISSED_DUPLICATES, JSON.stringify(keys));
 }
 
 // ─── Pending Deletes Queue (for offline → Supabase sync) ─────────────────────
+// One queue per entity; transactions keep the original key for compatibility.
 
-export async function getPendingDeletes(): Promise<string[]> {
-  const raw = await AsyncStorage.getItem(KEYS.PENDING_DELETES);
+export async function getPendingDeletes(entity: SyncEntity = 'transactions'): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(PENDING_DELETE_KEYS[entity]);
   return raw ? JSON.parse(raw) : [];
 }
 
-export async function addPendingDelete(id: string): Promise<void> {
-  const ids = await getPendingDeletes();
+export async function addPendingDelete(id: string, entity: SyncEntity = 'transactions'): Promise<void> {
+  const ids = await getPendingDeletes(entity);
   if (!ids.includes(id)) {
-    await AsyncStorage.setItem(KEYS.PENDING_DELETES, JSON.stringify([...ids, id]));
+    await AsyncStorage.setItem(PENDING_DELETE_KEYS[entity], JSON.stringify([...ids, id]));
+  }
+}
+
+/** Drops the given IDs from the queue, keeping any others that are still pending. */
+export async function removePendingDeletes(ids: string[], entity: SyncEntity = 'transactions'): Promise<void> {
+  const pending = await getPendingDeletes(entity);
+  const remaining = pending.filter(i => !ids.includes(i));
+  if (remaining.length === pending.length) return;
+  if (remaining.length === 0) {
+    await AsyncStorage.removeItem(PENDING_DELETE_KEYS[entity]);
+  } else {
+    await AsyncStorage.setItem(PENDING_DELETE_KEYS[entity], JSON.stringify(remaining));
+  }
+}
+
+export async function clearPendingDeletes(entity: SyncEntity = 'transactions'): Promise<void> {
+  await AsyncStorage.removeItem(PENDING_DELETE_KEYS[entity]);
+}
+
+// ─── Sync Progress ───────────────────────────────────────────────────────────
+
+/** Delta-sync marks for `userId`; empty (full sync) for a first sync or another user. */
+export async function getSyncState(userId: string): Promise<SyncState> {
+  const raw = await AsyncStorage.getItem(KEYS.SYNC_STATE);
+  const state: SyncState | null = raw ? JSON.parse(raw) : null;
+  return state?.userId === userId ? { ...emptySyncState(userId), ...state } : emptySyncState(userId);
+}
+
+export async function savePushMark(userId: string, entity: SyncEntity, startedAt: string): Promise<void> {
+  const state = await getSyncState(userId);
+  state.pushedAt[entity] = startedAt;
+  await AsyncStorage.setItem(KEYS.SYNC_STATE, JSON.stringify(state));
+}
+
+export async function savePullCursor(userId: string, entity: SyncEntity, cursor: SyncCursor): Promise<void> {
+  const state = await getSyncState(userId);
+  state.pulled[entity] = cursor;
+  await AsyncStorage.setItem(KEYS.SYNC_STATE, JSON.stringify(state));
+}
+
+/** Records the server revision each record is now in step with. */
+export async function saveSyncBases(
+  userId: string,
+  entity: SyncEntity,
+  bases: Record<string, string>,
+): Promise<void> {
+  const state = await getSyncState(userId);
+  state.bases[entity] = { ...state.bases[entity], ...bases };
+  await AsyncStorage.setItem(KEYS.SYNC_STATE, JSON.stringify(state));
+}
+
+// Edits that collided with another device's; kept until the user resolves them.
+
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const raw = await AsyncStorage.getItem(KEYS.SYNC_CONFLICTS);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function setSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) {
+    await AsyncStorage.removeItem(KEYS.SYNC_CONFLICTS);
+  } else {
+    await AsyncStorage.setItem(KEYS.SYNC_CONFLICTS, JSON.stringify(conflicts));
   }
 }
 
-export async function clearPendingDeletes(): Promise<void> {
-  await AsyncStorage.removeItem(KEYS.PENDING_DELETES);
+// ─── Undo history ────────────────────────────────────────────────────────────
+
+export async function getHistory(): Promise<LedgerHistory> {
+  const raw = await AsyncStorage.getItem(KEYS.HISTORY);
+  return raw ? JSON.parse(raw) : emptyHistory();
+}
+
+export async function saveHistory(history: LedgerHistory): Promise<void> {
+  await AsyncStorage.setItem(KEYS.HISTORY, JSON.stringify(history));
+}
+
+// ─── Trash ───────────────────────────────────────────────────────────────────
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const raw = await AsyncStorage.getItem(KEYS.TRASH_RETENTION_DAYS);
+  return raw !== null ? Number(raw) : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function saveTrashRetentionDays(days: number): Promise<void> {
+  await AsyncStorage.setItem(KEYS.TRASH_RETENTION_DAYS, String(days));
 }
 
 // ─── Currency ─────────────────────────────────────────────────────────────────
 
-export async function getCurrency(): Promise<string> {
-  const raw = await AsyncStorage.getItem(KEYS.CURRENCY);
-  return raw ?? '$';
+/** ISO code that totals are converted to; seeded from the old global symbol. */
+export async function getBaseCurrency(): Promise<string> {
+  const code = await AsyncStorage.getItem(KEYS.BASE_CURRENCY);
+  if (code) return code;
+  const legacySymbol = await AsyncStorage.getItem(KEYS.CURRENCY);
+  return codeForSymbol(legacySymbol ?? '$');
+}
+
+export async function saveBaseCurrency(code: string): Promise<void> {
+  await AsyncStorage.setItem(KEYS.BASE_CURRENCY, code);
+}
+
+export async function getExchangeRates(): Promise<RateTable> {
+  const raw = await AsyncStorage.getItem(KEYS.EXCHANGE_RATES);
+  return raw ? JSON.parse(raw) : emptyRateTable(await getBaseCurrency());
 }
 
-export async function saveCurrency(symbol: string): Promise<void> {
-  await AsyncStorage.setItem(KEYS.CURRENCY, symbol);
+export async function saveExchangeRates(table: RateTable): Promise<void> {
+  await AsyncStorage.setItem(KEYS.EXCHANGE_RATES, JSON.stringify(table));
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -164,7 +554,7 @@ export function computeAccountBalance(
       balance += tx.amount;
     } else if (tx.type === 'transfer') {
       if (tx.accountId === account.id) balance -= tx.amount;
-      if (tx.toAccountId === account.id) balance += tx.amount;
+      if (tx.toAccountId === account.id) balance += tx.toAmount ?? tx.amount;
     }
   }
   return balance;
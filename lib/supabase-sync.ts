@@ -1,5 +1,6 @@
 import { getSupabase } from './supabase';
-import { Account, Category, Transaction } from './types';
+import { Account, Budget, Category, LoanTerms, Payee, Transaction } from './types';
+import { SyncCursor, SyncPage } from './delta-sync';
 
 // ─── Row types (Supabase column names) ───────────────────────────────────────
 
@@ -13,10 +14,112 @@ interface SbTransaction {
   account_id: string | null;
   account_name: string | null;
   to_account_id: string | null;
+  to_amount: number | null;
+  splits: SbSplit[] | null; // jsonb; category_id above holds the largest line's category
+  attachments: SbAttachment[] | null; // jsonb; only uploaded files are listed
   note: string | null;
+  tags: string[] | null; // text[]
+  payee_id: string | null;
+  recurring_rule_id: string | null; // the RecurringRule that generated it
+  fit_id: string | null; // bank statement line id, for duplicate detection on import
+  status: string | null; // 'cleared' | 'reconciled' in account_id
+  to_status: string | null; // same, in to_account_id
   date: string;
   created_at: string;
   updated_at: string;
+  synced_at?: string; // stamped by the database on every write; never pushed
+  deleted_at: string | null; // trash tombstone
+  purged_at: string | null; // purge tombstone; only a later write clears it
+}
+
+interface SbSplit {
+  category_id: string;
+  category_name: string | null;
+  amount: number;
+  note: string | null;
+}
+
+interface SbAttachment {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  key: string;
+  url: string;
+  created_at: string;
+}
+
+// Accounts and categories are keyed by (user_id, id): the seeded defaults
+// ('acc-cash', 'cat-food', …) share the same IDs for every user.
+
+interface SbAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  type: string;
+  initial_balance: number;
+  icon: string;
+  color: string;
+  currency: string | null;
+  closing_day: number | null;
+  due_day: number | null;
+  credit_limit: number | null;
+  loan: SbLoan | null; // jsonb; loan accounts only
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  deleted_at: string | null; // trash tombstone
+  purged_at: string | null;
+}
+
+interface SbLoan {
+  direction: string;
+  principal: number;
+  annual_rate: number;
+  payments: number;
+  frequency: string;
+  first_payment_date: string;
+  interest_category_id: string | null;
+}
+
+interface SbCategory {
+  id: string;
+  user_id: string;
+  name: string;
+  type: string;
+  icon: string;
+  color: string;
+  parent_id: string | null;
+  is_default: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  deleted_at: string | null; // trash tombstone
+  purged_at: string | null;
+}
+
+interface SbBudget {
+  id: string;
+  user_id: string;
+  category_id: string | null;
+  month: string;
+  amount: number;
+  rollover: boolean;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  deleted_at: string | null; // delete tombstone
+}
+
+interface SbPayee {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  deleted_at: string | null; // delete tombstone
 }
 
 // ─── User ────────────────────────────────────────────────────────────────────
@@ -76,10 +179,37 @@ function toRow(
     account_id: tx.accountId,
     account_name: acc?.name ?? null,
     to_account_id: tx.toAccountId ?? null,
+    to_amount: tx.toAmount ?? null,
+    splits: tx.splits?.map(s => ({
+      category_id: s.categoryId,
+      category_name: categories.find(c => c.id === s.categoryId)?.name ?? null,
+      amount: s.amount,
+      note: s.note ?? null,
+    })) ?? null,
+    // Local file paths are device-specific; files not uploaded yet are added on a later push
+    attachments: tx.attachments
+      ?.filter(a => a.remoteKey && a.remoteUrl)
+      .map(a => ({
+        id: a.id,
+        name: a.name,
+        mime_type: a.mimeType,
+        size: a.size,
+        key: a.remoteKey!,
+        url: a.remoteUrl!,
+        created_at: a.createdAt,
+      })) ?? null,
     note: tx.note ?? null,
+    tags: tx.tags?.length ? tx.tags : null,
+    payee_id: tx.payeeId ?? null,
+    recurring_rule_id: tx.recurringRuleId ?? null,
+    fit_id: tx.fitId ?? null,
+    status: tx.status ?? null,
+    to_status: tx.toStatus ?? null,
     date: tx.date,
     created_at: tx.createdAt,
     updated_at: tx.updatedAt,
+    deleted_at: tx.deletedAt ?? null,
+    purged_at: null,
   };
 }
 
@@ -91,31 +221,221 @@ function fromRow(row: SbTransaction): Transaction {
     categoryId: row.category_id ?? '',
     accountId: row.account_id ?? '',
     toAccountId: row.to_account_id ?? undefined,
+    toAmount: row.to_amount != null ? Number(row.to_amount) : undefined,
+    splits: row.splits?.map(s => ({
+      categoryId: s.category_id,
+      amount: Number(s.amount),
+      note: s.note ?? undefined,
+    })),
+    attachments: row.attachments?.map(a => ({
+      id: a.id,
+      name: a.name,
+      mimeType: a.mime_type,
+      size: Number(a.size),
+      remoteKey: a.key,
+      remoteUrl: a.url,
+      createdAt: a.created_at,
+    })),
     note: row.note ?? undefined,
+    tags: row.tags?.length ? row.tags : undefined,
+    payeeId: row.payee_id ?? undefined,
+    recurringRuleId: row.recurring_rule_id ?? undefined,
+    fitId: row.fit_id ?? undefined,
+    status: (row.status ?? undefined) as Transaction['status'],
+    toStatus: (row.to_status ?? undefined) as Transaction['toStatus'],
     date: row.date,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+    purgedAt: row.purged_at ?? undefined,
   };
 }
 
-// ─── Transactions ────────────────────────────────────────────────────────────
+function accountToRow(acc: Account, userId: string): SbAccount {
+  return {
+    id: acc.id,
+    user_id: userId,
+    name: acc.name,
+    type: acc.type,
+    initial_balance: acc.initialBalance,
+    icon: acc.icon,
+    color: acc.color,
+    currency: acc.currency ?? null,
+    closing_day: acc.closingDay ?? null,
+    due_day: acc.dueDay ?? null,
+    credit_limit: acc.creditLimit ?? null,
+    loan: acc.loan ? {
+      direction: acc.loan.direction,
+      principal: acc.loan.principal,
+      annual_rate: acc.loan.annualRate,
+      payments: acc.loan.payments,
+      frequency: acc.loan.frequency,
+      first_payment_date: acc.loan.firstPaymentDate,
+      interest_category_id: acc.loan.interestCategoryId ?? null,
+    } : null,
+    created_at: acc.createdAt,
+    updated_at: acc.updatedAt ?? acc.createdAt,
+    deleted_at: acc.deletedAt ?? null,
+    purged_at: null,
+  };
+}
 
-export async function fetchRemoteTransactions(
+function accountFromRow(row: SbAccount): Account {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as Account['type'],
+    initialBalance: Number(row.initial_balance),
+    icon: row.icon,
+    color: row.color,
+    currency: row.currency ?? undefined,
+    closingDay: row.closing_day ?? undefined,
+    dueDay: row.due_day ?? undefined,
+    creditLimit: row.credit_limit != null ? Number(row.credit_limit) : undefined,
+    loan: row.loan ? {
+      direction: row.loan.direction as LoanTerms['direction'],
+      principal: Number(row.loan.principal),
+      annualRate: Number(row.loan.annual_rate),
+      payments: Number(row.loan.payments),
+      frequency: row.loan.frequency as LoanTerms['frequency'],
+      firstPaymentDate: row.loan.first_payment_date,
+      interestCategoryId: row.loan.interest_category_id ?? undefined,
+    } : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+    purgedAt: row.purged_at ?? undefined,
+  };
+}
+
+function categoryToRow(cat: Category, userId: string): SbCategory {
+  return {
+    id: cat.id,
+    user_id: userId,
+    name: cat.name,
+    type: cat.type,
+    icon: cat.icon,
+    color: cat.color,
+    parent_id: cat.parentId ?? null,
+    is_default: cat.isDefault,
+    sort_order: cat.sortOrder,
+    created_at: cat.createdAt,
+    updated_at: cat.updatedAt ?? cat.createdAt,
+    deleted_at: cat.deletedAt ?? null,
+    purged_at: null,
+  };
+}
+
+function categoryFromRow(row: SbCategory): Category {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as Category['type'],
+    icon: row.icon,
+    color: row.color,
+    parentId: row.parent_id ?? undefined,
+    isDefault: row.is_default,
+    sortOrder: Number(row.sort_order),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+    purgedAt: row.purged_at ?? undefined,
+  };
+}
+
+function budgetToRow(budget: Budget, userId: string): SbBudget {
+  return {
+    id: budget.id,
+    user_id: userId,
+    category_id: budget.categoryId,
+    month: budget.month,
+    amount: budget.amount,
+    rollover: budget.rollover,
+    created_at: budget.createdAt,
+    updated_at: budget.updatedAt,
+    deleted_at: budget.deletedAt ?? null,
+  };
+}
+
+function budgetFromRow(row: SbBudget): Budget {
+  return {
+    id: row.id,
+    categoryId: row.category_id,
+    month: row.month,
+    amount: Number(row.amount),
+    rollover: row.rollover,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  };
+}
+
+function payeeToRow(payee: Payee, userId: string): SbPayee {
+  return {
+    id: payee.id,
+    user_id: userId,
+    name: payee.name,
+    created_at: payee.createdAt,
+    updated_at: payee.updatedAt,
+    deleted_at: payee.deletedAt ?? null,
+  };
+}
+
+function payeeFromRow(row: SbPayee): Payee {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  };
+}
+
+// ─── Change feed ─────────────────────────────────────────────────────────────
+
+/**
+ * One page of the user's rows written after `since`, ordered by (synced_at, id)
+ * so the last row is the next cursor. `synced_at` comes from the database
+ * trigger in supabase/migrations, never from a device clock. Throws on error
+ * so the caller keeps its cursor and retries on the next sync.
+ */
+async function fetchChangedRows<Row extends { id: string; synced_at?: string }>(
+  table: string,
   supabaseUserId: string,
-): Promise<Transaction[]> {
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Row>> {
   const sb = getSupabase();
-  if (!sb) return [];
+  if (!sb) return { records: [], next: null };
 
-  const { data, error } = await sb
-    .from('transactions')
-    .select('*')
-    .eq('user_id', supabaseUserId);
-
-  if (error) {
-    console.warn('[supabase] fetchTransactions:', error.message);
-    return [];
+  let query = sb.from(table).select('*').eq('user_id', supabaseUserId);
+  if (since) {
+    const at = `"${since.syncedAt}"`;
+    query = query.or(`synced_at.gt.${at},and(synced_at.eq.${at},id.gt."${since.id}")`);
   }
-  return (data as SbTransaction[]).map(fromRow);
+  const { data, error } = await query
+    .order('synced_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`[supabase] fetch ${table} changes: ${error.message}`);
+  const rows = data as Row[];
+  const last = rows[rows.length - 1];
+  return { records: rows, next: last?.synced_at ? { syncedAt: last.synced_at, id: last.id } : null };
+}
+
+function mapPage<Row, T>(page: SyncPage<Row>, map: (row: Row) => T): SyncPage<T> {
+  return { records: page.records.map(map), next: page.next };
+}
+
+// ─── Transactions ────────────────────────────────────────────────────────────
+
+export async function fetchRemoteTransactions(
+  supabaseUserId: string,
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Transaction>> {
+  return mapPage(await fetchChangedRows<SbTransaction>('transactions', supabaseUserId, since, limit), fromRow);
 }
 
 export async function pushTransaction(
@@ -134,6 +454,7 @@ export async function pushTransaction(
   if (error) console.warn('[supabase] pushTransaction:', error.message);
 }
 
+/** Throws on error so performSync does not mark the batch as pushed. */
 export async function pushTransactionsBatch(
   transactions: Transaction[],
   supabaseUserId: string,
@@ -148,50 +469,166 @@ export async function pushTransactionsBatch(
     .from('transactions')
     .upsert(rows, { onConflict: 'id' });
 
-  if (error) console.warn('[supabase] pushTransactionsBatch:', error.message);
+  if (error) throw new Error(`[supabase] pushTransactionsBatch: ${error.message}`);
 }
 
-export async function deleteRemoteTransaction(id: string): Promise<void> {
+/**
+ * Tombstones the rows: other devices pull the purge from the change feed and
+ * drop their copies. Throws on error so the caller can skip clearing the
+ * pending-deletes queue and retry on next sync.
+ */
+export async function deleteRemoteTransactionsBatch(ids: string[], supabaseUserId: string): Promise<void> {
+  await purgeRows('transactions', ids, supabaseUserId);
+}
+
+async function purgeRows(table: string, ids: string[], supabaseUserId: string): Promise<void> {
   const sb = getSupabase();
-  if (!sb) return;
+  if (!sb || ids.length === 0) return;
+
+  // Default categories share their ids across users
+  const now = new Date().toISOString();
+  const { error } = await sb
+    .from(table)
+    .update({ purged_at: now, updated_at: now })
+    .eq('user_id', supabaseUserId)
+    .in('id', ids);
+  if (error) throw new Error(`[supabase] batch delete ${table}: ${error.message}`);
+}
+
+// ─── Accounts ────────────────────────────────────────────────────────────────
+
+export async function fetchRemoteAccounts(
+  supabaseUserId: string,
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Account>> {
+  return mapPage(await fetchChangedRows<SbAccount>('accounts', supabaseUserId, since, limit), accountFromRow);
+}
+
+/** Throws on error so performSync does not mark the batch as pushed. */
+export async function pushAccountsBatch(
+  accounts: Account[],
+  supabaseUserId: string,
+): Promise<void> {
+  const sb = getSupabase();
+  if (!sb || accounts.length === 0) return;
+
+  const rows = accounts.map(acc => accountToRow(acc, supabaseUserId));
+  const { error } = await sb
+    .from('accounts')
+    .upsert(rows, { onConflict: 'user_id,id' });
+
+  if (error) throw new Error(`[supabase] pushAccountsBatch: ${error.message}`);
+}
+
+/** Tombstones the rows, as deleteRemoteTransactionsBatch does. */
+export async function deleteRemoteAccountsBatch(ids: string[], supabaseUserId: string): Promise<void> {
+  await purgeRows('accounts', ids, supabaseUserId);
+}
 
-  const { error } = await sb.from('transactions').delete().eq('id', id);
-  if (error) console.warn('[supabase] deleteTransaction:', error.message);
+// ─── Categories ──────────────────────────────────────────────────────────────
+
+export async function fetchRemoteCategories(
+  supabaseUserId: string,
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Category>> {
+  return mapPage(await fetchChangedRows<SbCategory>('categories', supabaseUserId, since, limit), categoryFromRow);
+}
+
+/** Throws on error so performSync does not mark the batch as pushed. */
+export async function pushCategoriesBatch(
+  categories: Category[],
+  supabaseUserId: string,
+): Promise<void> {
+  const sb = getSupabase();
+  if (!sb || categories.length === 0) return;
+
+  const rows = categories.map(cat => categoryToRow(cat, supabaseUserId));
+  const { error } = await sb
+    .from('categories')
+    .upsert(rows, { onConflict: 'user_id,id' });
+
+  if (error) throw new Error(`[supabase] pushCategoriesBatch: ${error.message}`);
+}
+
+/** Tombstones the rows, as deleteRemoteTransactionsBatch does. */
+export async function deleteRemoteCategoriesBatch(ids: string[], supabaseUserId: string): Promise<void> {
+  await purgeRows('categories', ids, supabaseUserId);
+}
+
+// ─── Budgets ─────────────────────────────────────────────────────────────────
+
+export async function fetchRemoteBudgets(
+  supabaseUserId: string,
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Budget>> {
+  return mapPage(await fetchChangedRows<SbBudget>('budgets', supabaseUserId, since, limit), budgetFromRow);
+}
+
+/** Throws on error so performSync does not mark the batch as pushed. */
+export async function pushBudgetsBatch(
+  budgets: Budget[],
+  supabaseUserId: string,
+): Promise<void> {
+  const sb = getSupabase();
+  if (!sb || budgets.length === 0) return;
+
+  const rows = budgets.map(b => budgetToRow(b, supabaseUserId));
+  const { error } = await sb
+    .from('budgets')
+    .upsert(rows, { onConflict: 'id' });
+
+  if (error) throw new Error(`[supabase] pushBudgetsBatch: ${error.message}`);
 }
 
 /**
- * Batch-deletes transactions by IDs.
- * Throws on error so the caller can skip clearing the pending-deletes queue
- * and retry on next sync.
+ * Marks the rows deleted rather than removing them, so the delete reaches other
+ * devices through the change feed. Throws on error so the pending-deletes
+ * queue is kept for the next sync.
  */
-export async function deleteRemoteTransactionsBatch(ids: string[]): Promise<void> {
+export async function deleteRemoteBudgetsBatch(ids: string[]): Promise<void> {
   const sb = getSupabase();
   if (!sb || ids.length === 0) return;
 
-  const { error } = await sb.from('transactions').delete().in('id', ids);
-  if (error) throw new Error(`[supabase] batch delete: ${error.message}`);
+  const now = new Date().toISOString();
+  const { error } = await sb.from('budgets').update({ deleted_at: now, updated_at: now }).in('id', ids);
+  if (error) throw new Error(`[supabase] batch delete budgets: ${error.message}`);
 }
 
-// ─── Merge (last-write-wins by updatedAt) ────────────────────────────────────
+// ─── Payees ──────────────────────────────────────────────────────────────────
 
-/**
- * Merges local and remote transaction arrays.
- * For the same ID: the row with the newer `updatedAt` wins.
- */
-export function mergeTransactions(
-  local: Transaction[],
-  remote: Transaction[],
-): Transaction[] {
-  const map = new Map<string, Transaction>();
-
-  for (const tx of local) map.set(tx.id, tx);
-
-  for (const tx of remote) {
-    const existing = map.get(tx.id);
-    if (!existing || tx.updatedAt >= existing.updatedAt) {
-      map.set(tx.id, tx);
-    }
-  }
+export async function fetchRemotePayees(
+  supabaseUserId: string,
+  since: SyncCursor | null,
+  limit: number,
+): Promise<SyncPage<Payee>> {
+  return mapPage(await fetchChangedRows<SbPayee>('payees', supabaseUserId, since, limit), payeeFromRow);
+}
+
+/** Throws on error so performSync does not mark the batch as pushed. */
+export async function pushPayeesBatch(
+  payees: Payee[],
+  supabaseUserId: string,
+): Promise<void> {
+  const sb = getSupabase();
+  if (!sb || payees.length === 0) return;
+
+  const rows = payees.map(p => payeeToRow(p, supabaseUserId));
+  const { error } = await sb
+    .from('payees')
+    .upsert(rows, { onConflict: 'id' });
+
+  if (error) throw new Error(`[supabase] pushPayeesBatch: ${error.message}`);
+}
+
+/** Tombstones the rows, as deleteRemoteBudgetsBatch does. */
+export async function deleteRemotePayeesBatch(ids: string[]): Promise<void> {
+  const sb = getSupabase();
+  if (!sb || ids.length === 0) return;
 
-  return Array.from(map.values());
+  const now = new Date().toISOString();
+  const { error } = await sb.from('payees').update({ deleted_at: now, updated_at: now }).in('id', ids);
+  if (error) throw new Error(`[supabase] batch delete payees: ${error.message}`);
 }
@@ -1,6 +1,16 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 let _client: SupabaseClient | null = null;
+let _getToken: (() => Promise<string | null>) | null = null;
+
+/**
+ * Supplies the Clerk session token sent with every request. Supabase accepts
+ * Clerk tokens (third-party auth), and the row-level security policies in
+ * supabase/migrations only show a user their own rows.
+ */
+export function setSupabaseTokenProvider(getToken: (() => Promise<string | null>) | null): void {
+  _getToken = getToken;
+}
 
 /**
  * Returns the Supabase client, creating it lazily on first call.
@@ -14,6 +24,7 @@ export function getSupabase(): SupabaseClient | null {
 
   if (!_client) {
     _client = createClient(url, key, {
+      accessToken: async () => (await _getToken?.()) ?? null,
       auth: {
         persistSession: false,
         autoRefreshToken: false,
@@ -0,0 +1,112 @@
+import { Transaction, TransactionType } from './types';
+
+// ─── Tags ────────────────────────────────────────────────────────────────────
+// Free-form labels on a transaction ("Trip to Tokyo", "Tax deductible") that
+// cut across categories. Tags are compared case-insensitively; the spelling
+// stored is the one the user typed first.
+
+/** CSV cells hold all tags of a transaction separated by this. */
+export const TAG_SEPARATOR = '; ';
+
+/** Trims and collapses whitespace; a leading "#" is dropped. */
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+export function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export function hasTag(record: Pick<Transaction, 'tags'>, tag: string): boolean {
+  return !!record.tags?.some(t => sameTag(t, tag));
+}
+
+/** `tags` with `raw` appended, unless it is empty or already there. */
+export function addTag(tags: string[], raw: string): string[] {
+  const tag = normalizeTag(raw);
+  if (!tag || tags.some(t => sameTag(t, tag))) return tags;
+  return [...tags, tag];
+}
+
+export function removeTag(tags: string[], tag: string): string[] {
+  return tags.filter(t => !sameTag(t, tag));
+}
+
+/** Every tag in use, most used first, in the spelling seen first. */
+export function knownTags(transactions: Pick<Transaction, 'tags'>[]): string[] {
+  const uses = new Map<string, { tag: string; count: number }>();
+  for (const t of transactions) {
+    for (const tag of t.tags ?? []) {
+      const key = tag.toLowerCase();
+      const entry = uses.get(key);
+      if (entry) entry.count++;
+      else uses.set(key, { tag, count: 1 });
+    }
+  }
+  return Array.from(uses.values())
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .map(e => e.tag);
+}
+
+/**
+ * Known tags to offer while typing `input`: those starting with it first, then
+ * those containing it. Tags already on the transaction are left out.
+ */
+export function suggestTags(known: string[], input: string, selected: string[], limit = 6): string[] {
+  const text = normalizeTag(input).toLowerCase();
+  const open = known.filter(tag => !selected.some(s => sameTag(s, tag)));
+  if (!text) return open.slice(0, limit);
+  const starts = open.filter(tag => tag.toLowerCase().startsWith(text));
+  const contains = open.filter(tag => !tag.toLowerCase().startsWith(text) && tag.toLowerCase().includes(text));
+  return [...starts, ...contains].slice(0, limit);
+}
+
+// ─── Totals ──────────────────────────────────────────────────────────────────
+
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+/**
+ * Total per tag of the `type` transactions dated within `fromDate`–`toDate`
+ * (inclusive; either bound may be left out), largest first. A transaction with
+ * several tags counts towards each, so the totals may add up to more than the
+ * period's spending.
+ */
+export function tagTotals(
+  transactions: Transaction[],
+  type: TransactionType,
+  range: { fromDate?: string; toDate?: string } = {},
+): TagTotal[] {
+  // Label each tag the same way whatever the range
+  const spelling = new Map(knownTags(transactions).map(tag => [tag.toLowerCase(), tag]));
+  const totals = new Map<string, TagTotal>();
+  for (const t of transactions) {
+    if (t.type !== type || !t.tags?.length) continue;
+    if (range.fromDate && t.date < range.fromDate) continue;
+    if (range.toDate && t.date > range.toDate) continue;
+    for (const key of new Set(t.tags.map(tag => tag.toLowerCase()))) {
+      const entry = totals.get(key);
+      if (entry) {
+        entry.total += t.amount;
+        entry.count++;
+      } else {
+        totals.set(key, { tag: spelling.get(key) ?? key, total: t.amount, count: 1 });
+      }
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag));
+}
+
+// ─── CSV ─────────────────────────────────────────────────────────────────────
+
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).join(TAG_SEPARATOR);
+}
+
+/** Tags from a CSV cell, e.g. "Trip to Tokyo; Tax deductible". */
+export function parseTags(cell: string): string[] {
+  return cell.split(';').reduce<string[]>((tags, part) => addTag(tags, part), []);
+}
@@ -0,0 +1,96 @@
+import { Account, Category, Transaction } from './types';
+
+// ─── Trash ───────────────────────────────────────────────────────────────────
+// Deleting a transaction, account or category sets `deletedAt` instead of
+// removing the record. The tombstone syncs like any other edit, so other
+// devices move the record to their trash too. Records leave the trash when
+// restored, purged by the user, or purged once older than the retention period.
+
+export type TrashEntity = 'transactions' | 'accounts' | 'categories';
+
+export interface Trash {
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: Category[];
+}
+
+/** Days a deleted record is kept; 0 = until the trash is emptied. */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+type Deletable = { id: string; deletedAt?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function emptyTrash(): Trash {
+  return { transactions: [], accounts: [], categories: [] };
+}
+
+export function isDeleted(record: Deletable): boolean {
+  return !!record.deletedAt;
+}
+
+/** Splits stored records into live ones and tombstones. */
+export function splitDeleted<T extends Deletable>(records: T[]): { live: T[]; deleted: T[] } {
+  const live: T[] = [];
+  const deleted: T[] = [];
+  for (const r of records) (isDeleted(r) ? deleted : live).push(r);
+  return { live, deleted };
+}
+
+/** Upserts `record` into whichever of the two lists it belongs to, taking it out of the other. */
+export function placeRecord<T extends Deletable>(
+  live: T[],
+  deleted: T[],
+  record: T,
+): { live: T[]; deleted: T[] } {
+  const upsert = (list: T[]) => {
+    const idx = list.findIndex(r => r.id === record.id);
+    if (idx < 0) return [...list, record];
+    const next = [...list];
+    next[idx] = record;
+    return next;
+  };
+  const without = (list: T[]) => list.filter(r => r.id !== record.id);
+  return isDeleted(record)
+    ? { live: without(live), deleted: upsert(deleted) }
+    : { live: upsert(live), deleted: without(deleted) };
+}
+
+/** The record as a tombstone; `updatedAt` moves so the delete is pushed. */
+export function tombstone<T extends Deletable>(record: T, at: string): T {
+  return { ...record, deletedAt: at, updatedAt: at };
+}
+
+/** The record back out of the trash. */
+export function restoredRecord<T extends Deletable>(record: T, at: string): T {
+  const next = { ...record, updatedAt: at };
+  delete next.deletedAt;
+  return next;
+}
+
+/**
+ * Trashed transactions that went with the account: deleting an account trashes
+ * its transactions with the same timestamp, so they come back (or are purged)
+ * together. Ones deleted on their own earlier stay where they are.
+ */
+export function deletedWithAccount(account: Account, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t =>
+    t.deletedAt === account.deletedAt && (t.accountId === account.id || t.toAccountId === account.id),
+  );
+}
+
+/** Whole days until a trashed record is purged, or null when kept indefinitely. */
+export function daysUntilPurge(record: Deletable, retentionDays: number, now: Date): number | null {
+  if (retentionDays <= 0 || !record.deletedAt) return null;
+  const purgeAt = Date.parse(record.deletedAt) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
+
+/** Ids of tombstones older than the retention period. */
+export function expiredIds(records: Deletable[], retentionDays: number, now: Date): string[] {
+  if (retentionDays <= 0) return [];
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return records.filter(r => r.deletedAt && Date.parse(r.deletedAt) <= cutoff).map(r => r.id);
+}
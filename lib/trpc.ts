@@ -1,5 +1,5 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { httpBatchLink } from "@trpc/client";
+import { createTRPCClient as createVanillaClient, httpBatchLink } from "@trpc/client";
 import superjson from "superjson";
 import type { AppRouter } from "@/server/routers";
 import { getApiBaseUrl } from "@/constants/oauth";
@@ -14,29 +14,37 @@ import * as Auth from "@/lib/_core/auth";
  */
 export const trpc = createTRPCReact<AppRouter>();
 
+function createLinks() {
+  return [
+    httpBatchLink({
+      url: `${getApiBaseUrl()}/api/trpc`,
+      // tRPC v11: transformer MUST be inside httpBatchLink, not at root
+      transformer: superjson,
+      async headers() {
+        const token = await Auth.getSessionToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+      // Custom fetch to include credentials for cookie-based auth
+      fetch(url, options) {
+        return fetch(url, {
+          ...options,
+          credentials: "include",
+        });
+      },
+    }),
+  ];
+}
+
 /**
  * Creates the tRPC client with proper configuration.
  * Call this once in your app's root layout.
  */
 export function createTRPCClient() {
-  return trpc.createClient({
-    links: [
-      httpBatchLink({
-        url: `${getApiBaseUrl()}/api/trpc`,
-        // tRPC v11: transformer MUST be inside httpBatchLink, not at root
-        transformer: superjson,
-        async headers() {
-          const token = await Auth.getSessionToken();
-          return token ? { Authorization: `Bearer ${token}` } : {};
-        },
-        // Custom fetch to include credentials for cookie-based auth
-        fetch(url, options) {
-          return fetch(url, {
-            ...options,
-            credentials: "include",
-          });
-        },
-      }),
-    ],
-  });
+  return trpc.createClient({ links: createLinks() });
 }
+
+/**
+ * Plain (non-React) client for calls made outside components, e.g. from
+ * AppContext while syncing.
+ */
+export const api = createVanillaClient<AppRouter>({ links: createLinks() });
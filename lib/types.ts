@@ -2,7 +2,10 @@
 
 export type TransactionType = 'expense' | 'income' | 'transfer';
 
-export type AccountType = 'cash' | 'bank' | 'credit_card' | 'savings' | 'investment' | 'other';
+export type AccountType = 'cash' | 'bank' | 'credit_card' | 'savings' | 'investment' | 'loan' | 'other';
+
+/** Where a transaction stands against the bank's records; missing = not cleared yet (see reconcile.ts). */
+export type TransactionStatus = 'cleared' | 'reconciled';
 
 export interface Transaction {
   id: string;
@@ -11,10 +14,44 @@ export interface Transaction {
   categoryId: string;
   accountId: string;
   toAccountId?: string; // for transfers
+  toAmount?: number; // transfers between currencies: amount received, in the destination account's currency
   date: string; // ISO date string YYYY-MM-DD
   note?: string;
+  payeeId?: string; // who was paid, or who paid (see payees.ts)
+  recurringRuleId?: string; // set on transactions generated from a RecurringRule
+  splits?: TransactionSplit[]; // income/expense only; when present, categoryId is the largest line's
+  attachments?: Attachment[]; // receipts and other proof of purchase
+  tags?: string[]; // free-form labels across categories (see tags.ts)
+  fitId?: string; // the bank's id for the line it was imported from (see bank-statements.ts)
+  status?: TransactionStatus; // in accountId
+  toStatus?: TransactionStatus; // in toAccountId, for transfers
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string; // set while in the trash (see trash.ts)
+  purgedAt?: string; // only on rows pulled after a purge elsewhere; never stored
+}
+
+/**
+ * A file attached to a transaction. The file itself lives in the app's document
+ * directory (`localUri`, device-only) and, once uploaded, in remote storage
+ * (`remoteKey` / `remoteUrl`, synced with the transaction).
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  localUri?: string;
+  remoteKey?: string;
+  remoteUrl?: string;
+  createdAt: string;
+}
+
+/** One category line of a split transaction; the lines add up to the transaction amount. */
+export interface TransactionSplit {
+  categoryId: string;
+  amount: number;
+  note?: string;
 }
 
 export interface Account {
@@ -24,7 +61,28 @@ export interface Account {
   initialBalance: number;
   icon: string;
   color: string;
+  currency?: string; // ISO 4217; missing on accounts created before multi-currency (= base currency)
+  closingDay?: number; // credit cards: day of the month the statement closes (see credit-cards.ts)
+  dueDay?: number; // credit cards: day of the month payment is due
+  creditLimit?: number; // credit cards
+  loan?: LoanTerms; // loan accounts
   createdAt: string;
+  updatedAt?: string; // missing on accounts saved before sync existed
+  deletedAt?: string; // set while in the trash
+  purgedAt?: string; // only on rows pulled after a purge elsewhere; never stored
+}
+
+export type LoanFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+/** What a loan account was agreed on; its balance is what is still owed (see loans.ts). */
+export interface LoanTerms {
+  direction: 'borrowed' | 'lent';
+  principal: number;
+  annualRate: number; // percent, e.g. 6.5
+  payments: number; // the term, as a number of payments
+  frequency: LoanFrequency;
+  firstPaymentDate: string; // YYYY-MM-DD
+  interestCategoryId?: string; // borrowed: an expense category, lent: an income one
 }
 
 export interface Category {
@@ -33,15 +91,86 @@ export interface Category {
   type: 'expense' | 'income';
   icon: string;
   color: string;
+  parentId?: string; // nested under another category of the same type (see category-tree.ts)
   isDefault: boolean;
   sortOrder: number;
   createdAt: string;
+  updatedAt?: string; // missing on categories saved before sync existed
+  deletedAt?: string; // set while in the trash
+  purgedAt?: string; // only on rows pulled after a purge elsewhere; never stored
+}
+
+/** A merchant or person transactions are paid to or received from. */
+export interface Payee {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string; // only on rows pulled after a delete elsewhere; never stored
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringOverride {
+  date: string; // the occurrence being changed, YYYY-MM-DD
+  amount?: number;
+  note?: string;
+}
+
+export interface RecurringRule {
+  id: string;
+  // template for the generated transactions
+  type: TransactionType;
+  amount: number;
+  categoryId: string;
+  accountId: string;
+  toAccountId?: string;
+  toAmount?: number; // received amount, for transfers between currencies
+  splits?: TransactionSplit[];
+  note?: string;
+  tags?: string[];
+  payeeId?: string;
+  // schedule
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days / weeks / months / years
+  startDate: string; // first occurrence, YYYY-MM-DD
+  endDate?: string; // last allowed occurrence (inclusive)
+  count?: number; // total occurrences, including skipped ones
+  skipDates: string[];
+  overrides: RecurringOverride[];
+  lastGeneratedDate?: string; // newest occurrence already turned into a transaction
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A statement an account was reconciled against; its transactions are locked. */
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string; // YYYY-MM-DD, the statement's closing date
+  statementBalance: number; // closing balance, in the account's currency
+  transactionIds: string[]; // reconciled by this statement
+  adjustmentId?: string; // transaction posted for a difference left over
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Budget {
+  id: string;
+  categoryId: string | null; // null = overall limit across all expenses
+  month: string; // YYYY-MM the limit starts in; applies until a later entry replaces it
+  amount: number; // 0 = no budget from this month on
+  rollover: boolean; // carry unspent money into the next month
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string; // only on rows pulled after a delete elsewhere; never stored
 }
 
 // ─── Derived / Computed ─────────────────────────────────────────────────────
 
 export interface AccountWithBalance extends Account {
-  balance: number; // computed from initial + transactions
+  balance: number; // computed from initial + transactions, in the account's currency
+  balanceInBase: number | null; // null when no exchange rate is known
 }
 
 export interface CategoryWithTotal extends Category {
@@ -58,6 +187,76 @@ export interface TransactionFormData {
   categoryId: string;
   accountId: string;
   toAccountId?: string;
+  toAmount?: string;
   date: string;
   note: string;
 }
+
+export interface TransactionFilter {
+  query: string; // matched against note, category and account names
+  types: TransactionType[]; // empty = all
+  accountIds: string[]; // empty = all; transfers match on either side
+  categoryIds: string[]; // empty = all
+  tags?: string[]; // empty or missing = all; a transaction matches with any of them
+  minAmount?: number;
+  maxAmount?: number;
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: TransactionFilter;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What a categorization rule looks at; every condition given must hold. */
+export interface RuleConditions {
+  type?: 'expense' | 'income'; // missing = both
+  note?: string; // pattern, see rules.ts
+  payee?: string; // pattern, see rules.ts
+  minAmount?: number; // in the account's own currency, inclusive
+  maxAmount?: number;
+  accountId?: string;
+}
+
+/** Sets the category and/or adds tags on transactions matching its conditions. */
+export interface CategoryRule {
+  id: string;
+  name: string;
+  conditions: RuleConditions;
+  categoryId?: string;
+  tags?: string[];
+  enabled: boolean;
+  sortOrder: number; // lower runs first; the first matching rule wins
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What a CSV column is imported as (see csv-mapping.ts). */
+export type CsvField =
+  | 'date' | 'type' | 'amount' | 'debit' | 'credit' | 'category' | 'account' | 'payee' | 'note' | 'tags'
+  | 'group' | 'splitNote';
+
+/** How to read one CSV layout. */
+export interface CsvMapping {
+  delimiter: string;
+  headerRow: number; // index of the row with column names; rows above it are skipped. -1 = no header
+  columns: Partial<Record<CsvField, number>>; // column index per field
+  dateFormat: string; // pattern such as "DD/MM/YYYY", see csv-mapping.ts
+  decimalSeparator: '.' | ',';
+  // A single amount column without a recognizable type: which sign money out has
+  amountSign: 'expense-negative' | 'expense-positive';
+}
+
+/** A saved CSV mapping, picked again for files with the same column names. */
+export interface CsvProfile {
+  id: string;
+  name: string;
+  mapping: CsvMapping;
+  headers?: string[]; // column names of the file it was made for
+  createdAt: string;
+  updatedAt: string;
+}
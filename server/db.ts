@@ -1,7 +1,8 @@
-import { eq } from "drizzle-orm";
+import { and, asc, eq, getTableColumns, gt, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import { accounts, budgets, categories, InsertUser, payees, transactions, users } from "../drizzle/schema";
 import { ENV } from "./_core/env";
+import { isNewerThanStored, type ChangesCursor } from "./finance";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -89,4 +90,110 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-// TODO: add feature queries here as your schema grows.
+// ─── Finance ─────────────────────────────────────────────────────────────────
+// Every query is scoped to one user. Deletes leave tombstones so the changes
+// feed can report them; list and upsert treat tombstones as absent/older rows.
+
+export type SyncedTable = typeof accounts | typeof categories | typeof transactions | typeof budgets | typeof payees;
+
+/** A row as the mappers build it; the server sets the rest. */
+export type SyncedRowInput<T extends SyncedTable> =
+  Omit<T["$inferInsert"], "userId" | "deletedAt" | "syncedAt"> & { deletedAt?: Date | null };
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+export async function listSyncedRows<T extends SyncedTable>(
+  table: T,
+  userId: number,
+): Promise<T["$inferSelect"][]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(table as SyncedTable)
+    .where(and(eq(table.userId, userId), isNull(table.deletedAt)))
+    .orderBy(asc(table.id));
+}
+
+/**
+ * Inserts or replaces rows, last write wins: a row older than the stored copy
+ * (or its delete) is left alone and its id returned in `stale`. A row may carry
+ * its own `deletedAt` (budgets and payees, which have no trash) to arrive as a
+ * tombstone.
+ */
+export async function upsertSyncedRows<T extends SyncedTable>(
+  table: T,
+  userId: number,
+  rows: SyncedRowInput<T>[],
+): Promise<{ upserted: number; stale: string[] }> {
+  if (rows.length === 0) return { upserted: 0, stale: [] };
+  const db = await requireDb();
+
+  const stored = await db
+    .select({ id: table.id, updatedAt: table.updatedAt, deletedAt: table.deletedAt })
+    .from(table as SyncedTable)
+    .where(and(eq(table.userId, userId), inArray(table.id, rows.map(r => r.id))));
+  const storedById = new Map(stored.map(s => [s.id, s]));
+
+  const stale: string[] = [];
+  const fresh = rows.filter(r => {
+    if (isNewerThanStored(r.updatedAt, storedById.get(r.id))) return true;
+    stale.push(r.id);
+    return false;
+  });
+  if (fresh.length === 0) return { upserted: 0, stale };
+
+  // Every non-key column takes the incoming value; deletedAt resets to NULL unless sent
+  const syncedAt = new Date();
+  const updateSet: Record<string, SQL> = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (key === "userId" || key === "id") continue;
+    updateSet[key] = sql.raw(`values(\`${column.name}\`)`);
+  }
+  await db
+    .insert(table as SyncedTable)
+    .values(fresh.map(r => ({ deletedAt: null, ...r, userId, syncedAt })) as T["$inferInsert"][])
+    .onDuplicateKeyUpdate({ set: updateSet });
+
+  return { upserted: fresh.length, stale };
+}
+
+/** Marks rows deleted; returns how many live rows were affected. */
+export async function deleteSyncedRows(table: SyncedTable, userId: number, ids: string[]): Promise<number> {
+  const db = await requireDb();
+  const now = new Date();
+  const [result] = await db
+    .update(table)
+    .set({ deletedAt: now, syncedAt: now })
+    .where(and(eq(table.userId, userId), inArray(table.id, ids), isNull(table.deletedAt)));
+  return result.affectedRows;
+}
+
+/**
+ * One page of rows written after `cursor`, oldest first, tombstones included.
+ * Fetches one extra row to tell whether another page follows.
+ */
+export async function syncedRowsSince<T extends SyncedTable>(
+  table: T,
+  userId: number,
+  cursor: ChangesCursor | null,
+  limit: number,
+): Promise<{ rows: T["$inferSelect"][]; hasMore: boolean }> {
+  const db = await requireDb();
+  const after = cursor
+    ? or(
+        gt(table.syncedAt, cursor.syncedAt),
+        and(eq(table.syncedAt, cursor.syncedAt), gt(table.id, cursor.id)),
+      )
+    : undefined;
+  const rows = await db
+    .select()
+    .from(table as SyncedTable)
+    .where(and(eq(table.userId, userId), after))
+    .orderBy(asc(table.syncedAt), asc(table.id))
+    .limit(limit + 1);
+  return { rows: rows.slice(0, limit), hasMore: rows.length > limit };
+}
@@ -0,0 +1,360 @@
+import { z } from "zod";
+import type {
+  AccountRow,
+  BudgetRow,
+  CategoryRow,
+  InsertAccountRow,
+  InsertBudgetRow,
+  InsertCategoryRow,
+  InsertPayeeRow,
+  InsertTransactionRow,
+  PayeeRow,
+  StoredAttachment,
+  TransactionRow,
+} from "../drizzle/schema";
+import type { Account, Budget, Category, Payee, Transaction } from "../lib/types";
+
+// ─── Input schemas ───────────────────────────────────────────────────────────
+// These mirror the app's models in lib/types.ts. Device-only fields (an
+// attachment's localUri) are accepted and dropped when the row is stored.
+
+const id = z.string().min(1).max(64);
+const isoTimestamp = z.iso.datetime({ offset: true });
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const dayOfMonth = z.number().int().min(1).max(31);
+const clearStatus = z.enum(["cleared", "reconciled"]);
+
+const loanInput = z.object({
+  direction: z.enum(["borrowed", "lent"]),
+  principal: z.number().finite().positive(),
+  annualRate: z.number().finite().nonnegative(),
+  payments: z.number().int().positive(),
+  frequency: z.enum(["weekly", "biweekly", "monthly", "yearly"]),
+  firstPaymentDate: day,
+  interestCategoryId: id.optional(),
+});
+
+export const accountInput = z.object({
+  id,
+  name: z.string().min(1).max(255),
+  type: z.enum(["cash", "bank", "credit_card", "savings", "investment", "loan", "other"]),
+  initialBalance: z.number().finite(),
+  icon: z.string().max(64),
+  color: z.string().max(32),
+  currency: z.string().length(3).optional(),
+  closingDay: dayOfMonth.optional(),
+  dueDay: dayOfMonth.optional(),
+  creditLimit: z.number().finite().nonnegative().optional(),
+  loan: loanInput.optional(),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp.optional(),
+  deletedAt: isoTimestamp.optional(),
+});
+
+export const categoryInput = z.object({
+  id,
+  name: z.string().min(1).max(255),
+  type: z.enum(["expense", "income"]),
+  icon: z.string().max(64),
+  color: z.string().max(32),
+  parentId: id.optional(),
+  isDefault: z.boolean(),
+  sortOrder: z.number().int(),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp.optional(),
+  deletedAt: isoTimestamp.optional(),
+});
+
+const splitInput = z.object({
+  categoryId: id,
+  amount: z.number().finite(),
+  note: z.string().optional(),
+});
+
+const attachmentInput = z.object({
+  id,
+  name: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  localUri: z.string().optional(),
+  remoteKey: z.string().optional(),
+  remoteUrl: z.string().optional(),
+  createdAt: isoTimestamp,
+});
+
+export const transactionInput = z.object({
+  id,
+  type: z.enum(["expense", "income", "transfer"]),
+  amount: z.number().finite(),
+  categoryId: id,
+  accountId: id,
+  toAccountId: id.optional(),
+  toAmount: z.number().finite().optional(),
+  date: day,
+  note: z.string().optional(),
+  payeeId: id.optional(),
+  recurringRuleId: id.optional(),
+  splits: z.array(splitInput).optional(),
+  attachments: z.array(attachmentInput).optional(),
+  tags: z.array(z.string().min(1).max(64)).optional(),
+  fitId: z.string().min(1).max(255).optional(),
+  status: clearStatus.optional(),
+  toStatus: clearStatus.optional(),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp,
+  deletedAt: isoTimestamp.optional(),
+});
+
+export const budgetInput = z.object({
+  id,
+  categoryId: id.nullable(),
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  amount: z.number().finite().nonnegative(),
+  rollover: z.boolean(),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp,
+  deletedAt: isoTimestamp.optional(),
+});
+
+export const payeeInput = z.object({
+  id,
+  name: z.string().min(1).max(255),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp,
+  deletedAt: isoTimestamp.optional(),
+});
+
+/** Rows per upsert call; larger syncs are sent in several batches. */
+export const MAX_UPSERT_BATCH = 500;
+
+export const MAX_CHANGES_PAGE = 1000;
+
+export const changesInput = z.object({
+  cursor: z.string().nullish(),
+  limit: z.number().int().min(1).max(MAX_CHANGES_PAGE).default(500),
+});
+
+export const deleteInput = z.object({
+  ids: z.array(id).min(1).max(MAX_UPSERT_BATCH),
+});
+
+// ─── Row mapping ─────────────────────────────────────────────────────────────
+// Timestamps travel as ISO strings and are stored as DATETIME(3). Optional app
+// fields map to NULL and back to undefined, so a round trip is lossless. The
+// app's `deletedAt` (in the trash) is stored as `trashedAt`; the row's own
+// `deletedAt` is the sync tombstone. Budgets and payees have no trash, so their
+// `deletedAt` is the tombstone itself.
+
+/** Server-managed columns; set by the query helpers, not by the mappers. */
+type Managed = "userId" | "deletedAt" | "syncedAt";
+
+/** The same, for tables whose rows can arrive already deleted. */
+type ManagedTombstoned = Exclude<Managed, "deletedAt">;
+
+const toDate = (iso: string) => new Date(iso);
+const toIso = (date: Date) => date.toISOString();
+const toDateOrNull = (iso: string | undefined) => (iso ? toDate(iso) : null);
+const toIsoOrUndefined = (date: Date | null) => (date ? toIso(date) : undefined);
+
+export function toAccountRow(a: Account): Omit<InsertAccountRow, Managed> {
+  return {
+    id: a.id,
+    name: a.name,
+    type: a.type,
+    initialBalance: a.initialBalance,
+    icon: a.icon,
+    color: a.color,
+    currency: a.currency ?? null,
+    closingDay: a.closingDay ?? null,
+    dueDay: a.dueDay ?? null,
+    creditLimit: a.creditLimit ?? null,
+    loan: a.loan ?? null,
+    trashedAt: toDateOrNull(a.deletedAt),
+    createdAt: toDate(a.createdAt),
+    updatedAt: toDate(a.updatedAt ?? a.createdAt),
+  };
+}
+
+export function fromAccountRow(r: AccountRow): Account {
+  return {
+    id: r.id,
+    name: r.name,
+    type: r.type,
+    initialBalance: r.initialBalance,
+    icon: r.icon,
+    color: r.color,
+    currency: r.currency ?? undefined,
+    closingDay: r.closingDay ?? undefined,
+    dueDay: r.dueDay ?? undefined,
+    creditLimit: r.creditLimit ?? undefined,
+    loan: r.loan ?? undefined,
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+    deletedAt: toIsoOrUndefined(r.trashedAt),
+  };
+}
+
+export function toCategoryRow(c: Category): Omit<InsertCategoryRow, Managed> {
+  return {
+    id: c.id,
+    name: c.name,
+    type: c.type,
+    icon: c.icon,
+    color: c.color,
+    parentId: c.parentId ?? null,
+    isDefault: c.isDefault,
+    sortOrder: c.sortOrder,
+    trashedAt: toDateOrNull(c.deletedAt),
+    createdAt: toDate(c.createdAt),
+    updatedAt: toDate(c.updatedAt ?? c.createdAt),
+  };
+}
+
+export function fromCategoryRow(r: CategoryRow): Category {
+  return {
+    id: r.id,
+    name: r.name,
+    type: r.type,
+    icon: r.icon,
+    color: r.color,
+    parentId: r.parentId ?? undefined,
+    isDefault: r.isDefault,
+    sortOrder: r.sortOrder,
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+    deletedAt: toIsoOrUndefined(r.trashedAt),
+  };
+}
+
+export function toTransactionRow(t: Transaction): Omit<InsertTransactionRow, Managed> {
+  // Only uploaded files are stored; the rest exist on the source device alone
+  const attachments: StoredAttachment[] = (t.attachments ?? [])
+    .filter(a => !!a.remoteKey)
+    .map(a => ({
+      id: a.id,
+      name: a.name,
+      mimeType: a.mimeType,
+      size: a.size,
+      remoteKey: a.remoteKey!,
+      remoteUrl: a.remoteUrl,
+      createdAt: a.createdAt,
+    }));
+  return {
+    id: t.id,
+    type: t.type,
+    amount: t.amount,
+    categoryId: t.categoryId,
+    accountId: t.accountId,
+    toAccountId: t.toAccountId ?? null,
+    toAmount: t.toAmount ?? null,
+    date: t.date,
+    note: t.note ?? null,
+    payeeId: t.payeeId ?? null,
+    recurringRuleId: t.recurringRuleId ?? null,
+    splits: t.splits?.length ? t.splits : null,
+    attachments: attachments.length ? attachments : null,
+    tags: t.tags?.length ? t.tags : null,
+    fitId: t.fitId ?? null,
+    status: t.status ?? null,
+    toStatus: t.toStatus ?? null,
+    trashedAt: toDateOrNull(t.deletedAt),
+    createdAt: toDate(t.createdAt),
+    updatedAt: toDate(t.updatedAt),
+  };
+}
+
+export function fromTransactionRow(r: TransactionRow): Transaction {
+  return {
+    id: r.id,
+    type: r.type,
+    amount: r.amount,
+    categoryId: r.categoryId,
+    accountId: r.accountId,
+    toAccountId: r.toAccountId ?? undefined,
+    toAmount: r.toAmount ?? undefined,
+    date: r.date,
+    note: r.note ?? undefined,
+    payeeId: r.payeeId ?? undefined,
+    recurringRuleId: r.recurringRuleId ?? undefined,
+    splits: r.splits?.length ? r.splits : undefined,
+    attachments: r.attachments?.length ? r.attachments : undefined,
+    tags: r.tags?.length ? r.tags : undefined,
+    fitId: r.fitId ?? undefined,
+    status: r.status ?? undefined,
+    toStatus: r.toStatus ?? undefined,
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+    deletedAt: toIsoOrUndefined(r.trashedAt),
+  };
+}
+
+export function toBudgetRow(b: Budget): Omit<InsertBudgetRow, ManagedTombstoned> {
+  return {
+    id: b.id,
+    categoryId: b.categoryId,
+    month: b.month,
+    amount: b.amount,
+    rollover: b.rollover,
+    deletedAt: toDateOrNull(b.deletedAt),
+    createdAt: toDate(b.createdAt),
+    updatedAt: toDate(b.updatedAt),
+  };
+}
+
+export function fromBudgetRow(r: BudgetRow): Budget {
+  return {
+    id: r.id,
+    categoryId: r.categoryId,
+    month: r.month,
+    amount: r.amount,
+    rollover: r.rollover,
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+  };
+}
+
+export function toPayeeRow(p: Payee): Omit<InsertPayeeRow, ManagedTombstoned> {
+  return {
+    id: p.id,
+    name: p.name,
+    deletedAt: toDateOrNull(p.deletedAt),
+    createdAt: toDate(p.createdAt),
+    updatedAt: toDate(p.updatedAt),
+  };
+}
+
+export function fromPayeeRow(r: PayeeRow): Payee {
+  return {
+    id: r.id,
+    name: r.name,
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+  };
+}
+
+// ─── Changes cursor ──────────────────────────────────────────────────────────
+// The changes feed is ordered by (syncedAt, id). The cursor names the last row
+// a client has seen; it is opaque to the app.
+
+export type ChangesCursor = { syncedAt: Date; id: string };
+
+export function encodeCursor(cursor: ChangesCursor): string {
+  return `${cursor.syncedAt.getTime()}:${cursor.id}`;
+}
+
+/** Returns null for a missing or malformed cursor, which restarts the feed from the beginning. */
+export function decodeCursor(value: string | null | undefined): ChangesCursor | null {
+  const match = value?.match(/^(\d+):(.+)$/);
+  if (!match) return null;
+  return { syncedAt: new Date(Number(match[1])), id: match[2] };
+}
+
+/** Keeps a row unless the stored copy was changed or deleted more recently. */
+export function isNewerThanStored(
+  incomingUpdatedAt: Date,
+  stored: { updatedAt: Date; deletedAt: Date | null } | undefined,
+): boolean {
+  if (!stored) return true;
+  const storedAt = Math.max(stored.updatedAt.getTime(), stored.deletedAt?.getTime() ?? 0);
+  return incomingUpdatedAt.getTime() >= storedAt;
+}
@@ -1,7 +1,81 @@
 import { COOKIE_NAME } from "../shared/const.js";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import { storageGet, storagePut } from "./storage";
+import { z } from "zod";
+import { accounts, budgets, categories, payees, transactions } from "../drizzle/schema";
+import * as db from "./db";
+import {
+  MAX_UPSERT_BATCH,
+  accountInput,
+  budgetInput,
+  categoryInput,
+  changesInput,
+  decodeCursor,
+  deleteInput,
+  encodeCursor,
+  fromAccountRow,
+  fromBudgetRow,
+  fromCategoryRow,
+  fromPayeeRow,
+  fromTransactionRow,
+  payeeInput,
+  toAccountRow,
+  toBudgetRow,
+  toCategoryRow,
+  toPayeeRow,
+  toTransactionRow,
+  transactionInput,
+} from "./finance";
+
+// Base64 inflates by 4/3; this allows files up to 10 MB
+const MAX_ATTACHMENT_BASE64 = Math.ceil((10 * 1024 * 1024 * 4) / 3);
+
+// The app names each upload "<uuid>-<name>"; the server files it under the caller
+const attachmentFile = z.string().max(200).regex(/^[\w-][\w.-]*$/);
+
+/** Storage key of a receipt: under its owner's id, so nobody else can ask for it. */
+const attachmentKey = (userId: number, file: string) => `${userId}/attachments/${file}`;
+
+/**
+ * list / upsert / delete / changes for one synced finance table, scoped to the
+ * signed-in user. `changes` pages through everything written after a cursor,
+ * with deleted ids reported separately.
+ */
+function syncedRouter<T extends db.SyncedTable, Model extends { id: string }>(
+  table: T,
+  input: z.ZodType<Model>,
+  toRow: (model: Model) => db.SyncedRowInput<T>,
+  fromRow: (row: T["$inferSelect"]) => Model,
+) {
+  return router({
+    list: protectedProcedure.query(async ({ ctx }) =>
+      (await db.listSyncedRows(table, ctx.user.id)).map(fromRow),
+    ),
+    upsert: protectedProcedure
+      .input(z.array(input).max(MAX_UPSERT_BATCH))
+      .mutation(({ ctx, input: models }) =>
+        db.upsertSyncedRows(table, ctx.user.id, models.map(toRow)),
+      ),
+    delete: protectedProcedure
+      .input(deleteInput)
+      .mutation(async ({ ctx, input: { ids } }) => ({
+        deleted: await db.deleteSyncedRows(table, ctx.user.id, ids),
+      })),
+    changes: protectedProcedure.input(changesInput).query(async ({ ctx, input: { cursor, limit } }) => {
+      const { rows, hasMore } = await db.syncedRowsSince(table, ctx.user.id, decodeCursor(cursor), limit);
+      const last = rows[rows.length - 1];
+      return {
+        changed: rows.filter(r => !r.deletedAt).map(fromRow),
+        deleted: rows.filter(r => !!r.deletedAt).map(r => r.id),
+        cursor: last ? encodeCursor(last) : (cursor ?? null),
+        hasMore,
+      };
+    }),
+  });
+}
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -17,12 +91,38 @@ export const appRouter = router({
     }),
   }),
 
-  // TODO: add feature routers here, e.g.
-  // todo: router({
-  //   list: protectedProcedure.query(({ ctx }) =>
-  //     db.getUserTodos(ctx.user.id)
-  //   ),
-  // }),
+  // Transaction receipts, stored per user
+  attachments: router({
+    upload: protectedProcedure
+      .input(
+        z.object({
+          file: attachmentFile,
+          contentType: z.string().min(1),
+          base64: z.string().min(1).max(MAX_ATTACHMENT_BASE64),
+        }),
+      )
+      .mutation(({ ctx, input }) =>
+        storagePut(attachmentKey(ctx.user.id, input.file), Buffer.from(input.base64, "base64"), input.contentType),
+      ),
+    url: protectedProcedure
+      .input(z.object({ key: z.string() }))
+      .query(({ ctx, input }) => {
+        const folder = attachmentKey(ctx.user.id, "");
+        if (!input.key.startsWith(folder) || !attachmentFile.safeParse(input.key.slice(folder.length)).success) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not your attachment" });
+        }
+        return storageGet(input.key);
+      }),
+  }),
+
+  // Finance data for signed-in users; an alternative to syncing through Supabase
+  finance: router({
+    accounts: syncedRouter(accounts, accountInput, toAccountRow, fromAccountRow),
+    categories: syncedRouter(categories, categoryInput, toCategoryRow, fromCategoryRow),
+    transactions: syncedRouter(transactions, transactionInput, toTransactionRow, fromTransactionRow),
+    budgets: syncedRouter(budgets, budgetInput, toBudgetRow, fromBudgetRow),
+    payees: syncedRouter(payees, payeeInput, toPayeeRow, fromPayeeRow),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,130 @@
+-- Tables the app syncs through (lib/supabase-sync.ts). Devices sign in with
+-- Clerk and Supabase accepts Clerk session tokens (third-party auth), so
+-- auth.jwt()->>'sub' is the Clerk user id: every row is visible to its owner
+-- only. Later migrations add the change feed and the tombstones.
+--
+-- Timestamps the app writes are stored as text: the app compares them as the
+-- exact ISO strings it saved (conflicts.ts), which timestamptz would reformat.
+
+create table if not exists public.users (
+  id           uuid primary key default gen_random_uuid(),
+  clerk_id     text not null unique,
+  full_name    text,
+  email        text,
+  avatar_url   text,
+  last_sign_in timestamptz,
+  created_at   timestamptz not null default now()
+);
+
+-- The signed-in user's row; security definer so policies can read users under RLS
+create or replace function public.current_user_id() returns uuid
+language sql stable security definer set search_path = public as $$
+  select id from public.users where clerk_id = auth.jwt()->>'sub'
+$$;
+
+-- Default accounts and categories have the same ids for every user
+create table if not exists public.accounts (
+  id              text not null,
+  user_id         uuid not null references public.users (id) on delete cascade,
+  name            text not null,
+  type            text not null,
+  initial_balance numeric not null default 0,
+  icon            text not null,
+  color           text not null,
+  currency        text,
+  closing_day     smallint,
+  due_day         smallint,
+  credit_limit    numeric,
+  loan            jsonb,
+  created_at      text not null,
+  updated_at      text not null,
+  deleted_at      text,
+  constraint accounts_user_id_id_key unique (user_id, id)
+);
+
+create table if not exists public.categories (
+  id         text not null,
+  user_id    uuid not null references public.users (id) on delete cascade,
+  name       text not null,
+  type       text not null,
+  icon       text not null,
+  color      text not null,
+  parent_id  text,
+  is_default boolean not null default false,
+  sort_order integer not null default 0,
+  created_at text not null,
+  updated_at text not null,
+  deleted_at text,
+  constraint categories_user_id_id_key unique (user_id, id)
+);
+
+create table if not exists public.transactions (
+  id            text primary key,
+  user_id       uuid not null references public.users (id) on delete cascade,
+  type          text not null,
+  amount        numeric not null,
+  category_id   text,
+  category_name text,
+  account_id    text,
+  account_name  text,
+  to_account_id text,
+  to_amount     numeric,
+  splits        jsonb,
+  attachments   jsonb,
+  note          text,
+  tags          text[],
+  payee_id      text,
+  fit_id        text,
+  status        text,
+  to_status     text,
+  date          text not null,
+  created_at    text not null,
+  updated_at    text not null,
+  deleted_at    text
+);
+
+create table if not exists public.budgets (
+  id          text primary key,
+  user_id     uuid not null references public.users (id) on delete cascade,
+  category_id text,
+  month       text not null,
+  amount      numeric not null,
+  rollover    boolean not null default false,
+  created_at  text not null,
+  updated_at  text not null
+);
+
+create table if not exists public.payees (
+  id         text primary key,
+  user_id    uuid not null references public.users (id) on delete cascade,
+  name       text not null,
+  created_at text not null,
+  updated_at text not null
+);
+
+create index if not exists transactions_user_idx on public.transactions (user_id);
+create index if not exists budgets_user_idx      on public.budgets (user_id);
+create index if not exists payees_user_idx       on public.payees (user_id);
+
+-- ─── Row-level security ──────────────────────────────────────────────────────
+
+alter table public.users        enable row level security;
+alter table public.accounts     enable row level security;
+alter table public.categories   enable row level security;
+alter table public.transactions enable row level security;
+alter table public.budgets      enable row level security;
+alter table public.payees       enable row level security;
+
+create policy users_own_row on public.users for all to authenticated
+  using (clerk_id = auth.jwt()->>'sub') with check (clerk_id = auth.jwt()->>'sub');
+
+create policy accounts_owner on public.accounts for all to authenticated
+  using (user_id = public.current_user_id()) with check (user_id = public.current_user_id());
+create policy categories_owner on public.categories for all to authenticated
+  using (user_id = public.current_user_id()) with check (user_id = public.current_user_id());
+create policy transactions_owner on public.transactions for all to authenticated
+  using (user_id = public.current_user_id()) with check (user_id = public.current_user_id());
+create policy budgets_owner on public.budgets for all to authenticated
+  using (user_id = public.current_user_id()) with check (user_id = public.current_user_id());
+create policy payees_owner on public.payees for all to authenticated
+  using (user_id = public.current_user_id()) with check (user_id = public.current_user_id());
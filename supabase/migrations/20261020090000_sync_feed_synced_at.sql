@@ -0,0 +1,35 @@
+-- Server-assigned position in each table's change feed, for delta sync
+-- (fetchChangedRows in lib/supabase-sync.ts). Devices page on synced_at rather
+-- than their own updated_at, so an edit made offline and pushed late is still
+-- pulled by every device that synced in the meantime.
+
+create or replace function public.stamp_synced_at() returns trigger
+language plpgsql as $$
+begin
+  new.synced_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+alter table public.transactions add column if not exists synced_at timestamptz not null default clock_timestamp();
+alter table public.accounts     add column if not exists synced_at timestamptz not null default clock_timestamp();
+alter table public.categories   add column if not exists synced_at timestamptz not null default clock_timestamp();
+alter table public.budgets      add column if not exists synced_at timestamptz not null default clock_timestamp();
+alter table public.payees       add column if not exists synced_at timestamptz not null default clock_timestamp();
+
+create trigger transactions_synced_at before insert or update on public.transactions
+  for each row execute function public.stamp_synced_at();
+create trigger accounts_synced_at before insert or update on public.accounts
+  for each row execute function public.stamp_synced_at();
+create trigger categories_synced_at before insert or update on public.categories
+  for each row execute function public.stamp_synced_at();
+create trigger budgets_synced_at before insert or update on public.budgets
+  for each row execute function public.stamp_synced_at();
+create trigger payees_synced_at before insert or update on public.payees
+  for each row execute function public.stamp_synced_at();
+
+create index if not exists transactions_user_synced_idx on public.transactions (user_id, synced_at, id);
+create index if not exists accounts_user_synced_idx     on public.accounts (user_id, synced_at, id);
+create index if not exists categories_user_synced_idx   on public.categories (user_id, synced_at, id);
+create index if not exists budgets_user_synced_idx      on public.budgets (user_id, synced_at, id);
+create index if not exists payees_user_synced_idx       on public.payees (user_id, synced_at, id);
@@ -0,0 +1,6 @@
+-- Budgets and payees are tombstoned instead of deleted (deleteRemoteBudgetsBatch
+-- and deleteRemotePayeesBatch), so other devices pull the delete from the
+-- change feed like any other write.
+
+alter table public.budgets add column if not exists deleted_at timestamptz;
+alter table public.payees  add column if not exists deleted_at timestamptz;
@@ -0,0 +1,3 @@
+-- Transactions generated from a recurring rule keep its id on every device.
+
+alter table public.transactions add column if not exists recurring_rule_id text;
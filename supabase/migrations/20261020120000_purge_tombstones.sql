@@ -0,0 +1,7 @@
+-- Purged transactions, accounts and categories are tombstoned with purged_at
+-- instead of deleted (deleteRemoteTransactionsBatch and friends), so other
+-- devices pull the purge from the change feed. deleted_at stays the trash.
+
+alter table public.transactions add column if not exists purged_at timestamptz;
+alter table public.accounts     add column if not exists purged_at timestamptz;
+alter table public.categories   add column if not exists purged_at timestamptz;
@@ -0,0 +1,20 @@
+-- A purge is final. Pushes send purged_at = null, so a device that has not
+-- pulled the purge yet would clear it with its older copy of the row; only a
+-- write stamped after the purge (a redo of an undone add) may bring it back.
+
+create or replace function public.keep_purged_at() returns trigger
+language plpgsql as $$
+begin
+  if old.purged_at is not null and new.purged_at is null and new.updated_at::timestamptz <= old.purged_at then
+    new.purged_at := old.purged_at;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger transactions_keep_purged_at before update on public.transactions
+  for each row execute function public.keep_purged_at();
+create trigger accounts_keep_purged_at before update on public.accounts
+  for each row execute function public.keep_purged_at();
+create trigger categories_keep_purged_at before update on public.categories
+  for each row execute function public.keep_purged_at();
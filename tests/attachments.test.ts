@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentFileName, formatFileSize, keepLocalFiles, pendingUploads, removedAttachments,
+  safeFileName, withRemoteFiles,
+} from '../lib/attachments';
+import { Attachment, Transaction } from '../lib/types';
+
+const NOW = '2026-05-01T00:00:00.000Z';
+const LATER = '2026-05-02T00:00:00.000Z';
+
+function file(id: string, extra: Partial<Attachment> = {}): Attachment {
+  return { id, name: `${id}.jpg`, mimeType: 'image/jpeg', size: 2048, createdAt: NOW, ...extra };
+}
+
+function tx(attachments?: Attachment[]): Transaction {
+  return {
+    id: 'tx-1', type: 'expense', amount: 12, categoryId: 'cat-food', accountId: 'acc-cash',
+    date: '2026-05-01', attachments, createdAt: NOW, updatedAt: NOW,
+  };
+}
+
+// ─── Naming ──────────────────────────────────────────────────────────────────
+
+describe('safeFileName', () => {
+  it('replaces unsafe characters and keeps the extension', () => {
+    expect(safeFileName('Café receipt (1).JPG')).toBe('Caf_receipt_1_.JPG');
+    expect(safeFileName('../../etc/passwd')).toBe('.._.._etc_passwd');
+    expect(safeFileName('???')).toBe('file');
+  });
+});
+
+describe('attachmentFileName', () => {
+  it('prefixes the attachment id to the safe name', () => {
+    expect(attachmentFileName({ id: 'abc', name: 'my receipt.pdf' })).toBe('abc-my_receipt.pdf');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('picks a readable unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(3.5 * 1024 * 1024)).toBe('3.5 MB');
+  });
+});
+
+// ─── Upload bookkeeping ──────────────────────────────────────────────────────
+
+describe('pendingUploads', () => {
+  it('returns local files without a storage key', () => {
+    const t = tx([
+      file('new', { localUri: 'file:///a' }),
+      file('done', { localUri: 'file:///b', remoteKey: 'k', remoteUrl: 'https://x/k' }),
+      file('elsewhere', { remoteKey: 'k2', remoteUrl: 'https://x/k2' }),
+    ]);
+    expect(pendingUploads(t).map(a => a.id)).toEqual(['new']);
+    expect(pendingUploads(tx())).toEqual([]);
+  });
+});
+
+describe('withRemoteFiles', () => {
+  it('records the key and URL and bumps updatedAt', () => {
+    const t = tx([file('a', { localUri: 'file:///a' }), file('b', { localUri: 'file:///b' })]);
+    const next = withRemoteFiles(t, new Map([['a', { key: 'k/a', url: 'https://x/k/a' }]]), LATER);
+    expect(next.updatedAt).toBe(LATER);
+    expect(next.attachments![0]).toMatchObject({ remoteKey: 'k/a', remoteUrl: 'https://x/k/a', localUri: 'file:///a' });
+    expect(next.attachments![1].remoteKey).toBeUndefined();
+  });
+
+  it('returns the same transaction when no upload belongs to it', () => {
+    const t = tx([file('a')]);
+    expect(withRemoteFiles(t, new Map([['z', { key: 'k', url: 'u' }]]), LATER)).toBe(t);
+  });
+});
+
+describe('removedAttachments', () => {
+  it('lists attachments dropped by an edit', () => {
+    const before = tx([file('a'), file('b')]);
+    expect(removedAttachments(before, tx([file('b')])).map(a => a.id)).toEqual(['a']);
+    expect(removedAttachments(before, undefined).map(a => a.id)).toEqual(['a', 'b']);
+    expect(removedAttachments(undefined, before)).toEqual([]);
+  });
+});
+
+// ─── Merge ───────────────────────────────────────────────────────────────────
+
+describe('keepLocalFiles', () => {
+  it('restores local URIs on the remote copy', () => {
+    const remote = tx([file('a', { remoteKey: 'k', remoteUrl: 'https://x/k' })]);
+    const local = tx([file('a', { localUri: 'file:///a', remoteKey: 'k', remoteUrl: 'https://x/k' })]);
+    expect(keepLocalFiles(remote, local).attachments![0].localUri).toBe('file:///a');
+  });
+
+  it('keeps attachments that were never uploaded', () => {
+    const remote = tx([file('a', { remoteKey: 'k' })]);
+    const local = tx([file('a', { remoteKey: 'k' }), file('b', { localUri: 'file:///b' })]);
+    expect(keepLocalFiles(remote, local).attachments!.map(a => a.id)).toEqual(['a', 'b']);
+  });
+
+  it('drops uploaded attachments the server no longer has', () => {
+    const remote = tx([]);
+    const local = tx([file('a', { localUri: 'file:///a', remoteKey: 'k' })]);
+    expect(keepLocalFiles(remote, local).attachments).toEqual([]);
+  });
+
+  it('leaves transactions without local attachments alone', () => {
+    const remote = tx([file('a', { remoteKey: 'k' })]);
+    expect(keepLocalFiles(remote, tx())).toBe(remote);
+    expect(keepLocalFiles(remote, undefined)).toBe(remote);
+  });
+});
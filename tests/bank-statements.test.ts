@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectStatementFormat, guessStatementAccount, parseCamt053, parseOfx, parseStatement, splitNewLines,
+} from '../lib/bank-statements';
+import { Account } from '../lib/types';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>usd
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260105120000.000[-5:EST]
+<TRNAMT>-4,75
+<FITID>2026010501
+<NAME>STARBUCKS #1234
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260131
+<TRNAMT>2500.00
+<FITID>2026013101
+<NAME>ACME PAYROLL
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>EUR</CURDEF>
+<CCACCTFROM><ACCTID>4111XXXXXXXX9876</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260210</DTPOSTED><TRNAMT>-19.99</TRNAMT><NAME>Books &amp; More</NAME></STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260210</DTPOSTED><TRNAMT>-19.99</TRNAMT><NAME>Books &amp; More</NAME></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+<BkToCstmrStmt>
+<Stmt>
+  <Id>STMT-1</Id>
+  <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+  <Ntry>
+    <NtryRef>N1</NtryRef>
+    <Amt Ccy="EUR">12.50</Amt>
+    <CdtDbtInd>DBIT</CdtDbtInd>
+    <Sts>BOOK</Sts>
+    <BookgDt><Dt>2026-03-02</Dt></BookgDt>
+    <AcctSvcrRef>REF-0001</AcctSvcrRef>
+    <NtryDtls><TxDtls>
+      <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+      <RltdPties><Dbtr><Nm>Me</Nm></Dbtr><Cdtr><Nm>Bakery Müller</Nm></Cdtr></RltdPties>
+      <RmtInf><Ustrd>Bread and</Ustrd><Ustrd>coffee</Ustrd></RmtInf>
+    </TxDtls></NtryDtls>
+  </Ntry>
+  <Ntry>
+    <Amt Ccy="EUR">1000.00</Amt>
+    <CdtDbtInd>CRDT</CdtDbtInd>
+    <Sts><Cd>BOOK</Cd></Sts>
+    <BookgDt><DtTm>2026-03-03T08:00:00</DtTm></BookgDt>
+    <NtryDtls><TxDtls>
+      <Refs><EndToEndId>E2E-77</EndToEndId></Refs>
+      <RltdPties><Dbtr><Nm>Employer GmbH</Nm></Dbtr></RltdPties>
+    </TxDtls></NtryDtls>
+  </Ntry>
+  <Ntry>
+    <Amt Ccy="EUR">5.00</Amt>
+    <CdtDbtInd>DBIT</CdtDbtInd>
+    <Sts>PDNG</Sts>
+    <BookgDt><Dt>2026-03-04</Dt></BookgDt>
+  </Ntry>
+</Stmt>
+</BkToCstmrStmt>
+</Document>`;
+
+describe('detectStatementFormat', () => {
+  it('recognizes OFX in both flavours and CAMT.053, and nothing else', () => {
+    expect(detectStatementFormat(OFX_SGML)).toBe('ofx');
+    expect(detectStatementFormat(OFX_XML)).toBe('ofx');
+    expect(detectStatementFormat(CAMT)).toBe('camt053');
+    expect(detectStatementFormat('TIME,TYPE,AMOUNT\n')).toBeNull();
+    expect(parseStatement('TIME,TYPE,AMOUNT\n')).toBeNull();
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads unclosed SGML elements', () => {
+    const s = parseOfx(OFX_SGML);
+    expect(s).toMatchObject({ accountRef: '000123456789', currency: 'USD' });
+    expect(s.lines).toEqual([
+      { fitId: '2026010501', date: '2026-01-05', amount: -4.75, payee: 'STARBUCKS #1234', memo: 'Card purchase' },
+      { fitId: '2026013101', date: '2026-01-31', amount: 2500, payee: 'ACME PAYROLL', memo: undefined },
+    ]);
+  });
+
+  it('reads XML files and numbers identical lines that lack a FITID', () => {
+    const s = parseOfx(OFX_XML);
+    expect(s.accountRef).toBe('4111XXXXXXXX9876');
+    expect(s.lines.map(l => l.payee)).toEqual(['Books & More', 'Books & More']);
+    expect(s.lines[0].fitId).not.toBe(s.lines[1].fitId);
+    expect(parseOfx(OFX_XML).lines.map(l => l.fitId)).toEqual(s.lines.map(l => l.fitId));
+  });
+
+  it('reads amounts with grouping separators in either style', () => {
+    const amounts = ['-1,234.56', '-1.234,50', '1 000,00', '12'];
+    const text = amounts.map(a => `<STMTTRN><DTPOSTED>20260210<TRNAMT>${a}<FITID>${a}</STMTTRN>`).join('\n');
+    expect(parseOfx(text).lines.map(l => l.amount)).toEqual([-1234.56, -1234.5, 1000, 12]);
+  });
+
+  it('lists the transactions it leaves out, and why', () => {
+    const text = [
+      '<STMTTRN><DTPOSTED>20260210<TRNAMT>-5.00<FITID>a</STMTTRN>',
+      '<STMTTRN><DTPOSTED>20260210<TRNAMT>n/a<FITID>b</STMTTRN>',
+      '<STMTTRN><TRNAMT>-5.00<FITID>c</STMTTRN>',
+      '<STMTTRN><DTPOSTED>soon<TRNAMT>-5.00<FITID>d</STMTTRN>',
+      '<STMTTRN><DTPOSTED>20260210<FITID>e</STMTTRN>',
+    ].join('\n');
+    const s = parseOfx(text);
+    expect(s.lines.map(l => l.fitId)).toEqual(['a']);
+    expect(s.unreadable).toEqual([
+      { entry: 2, problem: 'Amount "n/a" is not a number' },
+      { entry: 3, problem: 'No date' },
+      { entry: 4, problem: 'Date "soon" can\'t be read' },
+      { entry: 5, problem: 'No amount' },
+    ]);
+  });
+});
+
+describe('parseCamt053', () => {
+  it('maps booked entries with their reference, counterparty and remittance text', () => {
+    const s = parseCamt053(CAMT);
+    expect(s).toMatchObject({ accountRef: 'DE89370400440532013000', currency: 'EUR' });
+    expect(s.lines).toEqual([
+      { fitId: 'REF-0001', date: '2026-03-02', amount: -12.5, payee: 'Bakery Müller', memo: 'Bread and coffee' },
+      { fitId: 'E2E-77', date: '2026-03-03', amount: 1000, payee: 'Employer GmbH', memo: undefined },
+    ]);
+  });
+
+  it('ignores namespace prefixes', () => {
+    const prefixed = CAMT.replace(/<(\/?)(?!\?)/g, '<$1ns2:');
+    expect(parseCamt053(prefixed).lines.map(l => l.fitId)).toEqual(['REF-0001', 'E2E-77']);
+  });
+
+  it('reports booked entries it can\'t read but not pending ones', () => {
+    const broken = CAMT.replace('<Dt>2026-03-02</Dt>', '<Dt>02.03.2026</Dt>').replace('<Dt>2026-03-04</Dt>', '<Dt></Dt>');
+    const s = parseCamt053(broken);
+    expect(s.lines.map(l => l.fitId)).toEqual(['E2E-77']);
+    expect(s.unreadable).toEqual([{ entry: 1, problem: 'Date "02.03.2026" can\'t be read' }]);
+  });
+});
+
+describe('splitNewLines', () => {
+  it('skips ids already imported into the account or repeated in the file', () => {
+    const { lines } = parseOfx(OFX_SGML);
+    const existing = [
+      { accountId: 'checking', fitId: '2026010501' },
+      { accountId: 'savings', fitId: '2026013101' },
+    ];
+    const result = splitNewLines([...lines, lines[1]], existing, 'checking');
+    expect(result.fresh.map(l => l.fitId)).toEqual(['2026013101']);
+    expect(result.duplicates).toBe(2);
+  });
+});
+
+describe('guessStatementAccount', () => {
+  const NOW = '2026-01-01T00:00:00.000Z';
+  const account = (id: string, name: string, currency?: string): Account => ({
+    id, name, type: 'bank', initialBalance: 0, icon: '🏦', color: '#000', currency, createdAt: NOW,
+  });
+
+  it('matches the last four digits of the account number, then a unique currency', () => {
+    const accounts = [account('a', 'Checking 6789'), account('b', 'Visa 9876', 'EUR'), account('c', 'Cash')];
+    expect(guessStatementAccount(parseOfx(OFX_SGML), accounts, 'USD')?.id).toBe('a');
+    expect(guessStatementAccount(parseCamt053(CAMT), accounts, 'USD')?.id).toBe('b');
+    expect(guessStatementAccount(parseCamt053(CAMT), accounts, 'EUR')).toBeUndefined();
+  });
+});
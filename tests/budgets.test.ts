@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { computeBudgetStatus, effectiveBudget } from '../lib/budgets';
+import { Budget, Transaction } from '../lib/types';
+
+function budget(overrides: Partial<Budget>): Budget {
+  return {
+    id: 'b1',
+    categoryId: 'cat-food',
+    month: '2026-01',
+    amount: 100,
+    rollover: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function expense(date: string, amount: number, categoryId = 'cat-food'): Transaction {
+  return {
+    id: `${date}-${amount}-${categoryId}`,
+    type: 'expense',
+    amount,
+    categoryId,
+    accountId: 'acc-cash',
+    date,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+describe('effectiveBudget', () => {
+  it('carries an entry forward until a later one replaces it', () => {
+    const budgets = [budget({ id: 'jan' }), budget({ id: 'apr', month: '2026-04', amount: 150 })];
+    expect(effectiveBudget(budgets, 'cat-food', '2025-12')).toBeUndefined();
+    expect(effectiveBudget(budgets, 'cat-food', '2026-03')?.id).toBe('jan');
+    expect(effectiveBudget(budgets, 'cat-food', '2026-06')?.id).toBe('apr');
+  });
+
+  it('treats a zero amount as no budget', () => {
+    const budgets = [budget({ id: 'jan' }), budget({ id: 'stop', month: '2026-03', amount: 0 })];
+    expect(effectiveBudget(budgets, 'cat-food', '2026-03')).toBeUndefined();
+  });
+});
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+
+describe('computeBudgetStatus', () => {
+  const txs = [
+    expense('2026-01-05', 60),
+    expense('2026-02-10', 130),
+    expense('2026-03-02', 20),
+    expense('2026-03-03', 500, 'cat-money'),
+  ];
+
+  it('compares spending against the limit', () => {
+    const status = computeBudgetStatus([budget({})], txs, [], 'cat-food', '2026-02');
+    expect(status).toMatchObject({ spent: 130, available: 100, remaining: -30, carriedOver: 0 });
+  });
+
+  it('rolls unspent money forward but never carries a deficit', () => {
+    const budgets = [budget({ rollover: true })];
+    // Jan: 40 left → Feb has 140, spends 130 → Mar carries 10
+    expect(computeBudgetStatus(budgets, txs, [], 'cat-food', '2026-02')?.available).toBe(140);
+    expect(computeBudgetStatus(budgets, txs, [], 'cat-food', '2026-03')?.carriedOver).toBe(10);
+  });
+
+  it('counts spending in subcategories towards the parent\'s budget', () => {
+    const categories = [
+      { id: 'cat-food' }, { id: 'cat-coffee', parentId: 'cat-food' }, { id: 'cat-beans', parentId: 'cat-coffee' },
+    ];
+    const spending = [...txs, expense('2026-02-12', 4, 'cat-coffee'), expense('2026-02-20', 6, 'cat-beans')];
+    expect(computeBudgetStatus([budget({})], spending, categories, 'cat-food', '2026-02')?.spent).toBe(140);
+    expect(computeBudgetStatus([budget({ categoryId: 'cat-coffee' })], spending, categories, 'cat-coffee', '2026-02')?.spent)
+      .toBe(10);
+  });
+
+  it('counts every expense for an overall budget', () => {
+    const status = computeBudgetStatus([budget({ categoryId: null, amount: 1000 })], txs, [], null, '2026-03');
+    expect(status?.spent).toBe(520);
+  });
+});
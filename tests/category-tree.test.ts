@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ancestry, categoryPath, childrenOf, descendantIds, findByPath, flattenTree, parentOptions, rollUpTo,
+} from '../lib/category-tree';
+import { Category } from '../lib/types';
+
+const NOW = '2026-05-01T00:00:00.000Z';
+
+const cat = (id: string, name: string, sortOrder: number, parentId?: string, type: Category['type'] = 'expense'): Category => ({
+  id, name, type, icon: '🏷️', color: '#000', isDefault: false, sortOrder, createdAt: NOW, parentId,
+});
+
+const categories = [
+  cat('food', 'Food', 1),
+  cat('coffee', 'Coffee', 2, 'food'),
+  cat('groceries', 'Groceries', 1, 'food'),
+  cat('espresso', 'Espresso', 1, 'coffee'),
+  cat('transport', 'Transport', 2),
+  cat('orphan', 'Orphan', 3, 'trashed-parent'),
+  cat('salary', 'Salary', 1, undefined, 'income'),
+];
+
+describe('tree shape', () => {
+  it('lists children in sort order; a missing parent counts as top level', () => {
+    expect(childrenOf(categories, 'food').map(c => c.id)).toEqual(['groceries', 'coffee']);
+    expect(childrenOf(categories, null).map(c => c.id)).toEqual(['food', 'salary', 'transport', 'orphan']);
+  });
+
+  it('walks ancestors and descendants', () => {
+    expect(ancestry(categories, 'espresso').map(c => c.id)).toEqual(['food', 'coffee', 'espresso']);
+    expect([...descendantIds(categories, 'food')].sort()).toEqual(['coffee', 'espresso', 'groceries']);
+  });
+
+  it('flattens parents before their children', () => {
+    const expense = categories.filter(c => c.type === 'expense');
+    expect(flattenTree(expense).map(o => `${o.depth}:${o.category.id}`)).toEqual([
+      '0:food', '1:groceries', '1:coffee', '2:espresso', '0:transport', '0:orphan',
+    ]);
+  });
+
+  it('survives a parent cycle', () => {
+    const looped = [cat('a', 'A', 1, 'b'), cat('b', 'B', 2, 'a')];
+    expect(ancestry(looped, 'a').map(c => c.id)).toEqual(['b', 'a']);
+    expect(flattenTree(looped).map(o => o.category.id)).toEqual(['a', 'b']);
+  });
+
+  it('offers parents of the same type, excluding the category and its descendants', () => {
+    expect(parentOptions(categories, 'coffee', 'expense').map(c => c.id)).toEqual(['food', 'groceries', 'transport', 'orphan']);
+    expect(parentOptions(categories, null, 'income').map(c => c.id)).toEqual(['salary']);
+  });
+});
+
+describe('paths', () => {
+  it('builds "Food > Coffee" paths', () => {
+    expect(categoryPath(categories, 'espresso')).toBe('Food > Coffee > Espresso');
+    expect(categoryPath(categories, 'transport')).toBe('Transport');
+    expect(categoryPath(categories, 'missing')).toBe('');
+  });
+
+  it('resolves paths level by level, falling back to the deepest match', () => {
+    expect(findByPath(categories, 'food > coffee')?.id).toBe('coffee');
+    expect(findByPath(categories, 'Food>Coffee>Espresso')?.id).toBe('espresso');
+    expect(findByPath(categories, 'Food > Tea')?.id).toBe('food');
+    expect(findByPath(categories, 'Groceries')?.id).toBe('groceries');
+    expect(findByPath(categories, 'Books > Comics')).toBeUndefined();
+    expect(findByPath(categories, 'Food', 'income')).toBeUndefined();
+  });
+});
+
+describe('rollUpTo', () => {
+  it('maps a category to its bucket at the level being viewed', () => {
+    expect(rollUpTo(categories, 'espresso', null)).toBe('food');
+    expect(rollUpTo(categories, 'espresso', 'food')).toBe('coffee');
+    expect(rollUpTo(categories, 'espresso', 'coffee')).toBe('espresso');
+    expect(rollUpTo(categories, 'food', 'food')).toBe('food');
+    expect(rollUpTo(categories, 'transport', 'food')).toBeNull();
+    expect(rollUpTo(categories, 'unknown', null)).toBe('unknown');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SyncConflict, conflictKey, differingFields, reconcilePage, resolveConflict, updateConflicts,
+} from '../lib/conflicts';
+import { DEFAULT_ACCOUNTS, DEFAULT_CATEGORIES } from '../lib/defaults';
+import { Transaction } from '../lib/types';
+
+const T0 = '2026-05-01T00:00:00.000Z'; // base revision
+const T1 = '2026-05-02T00:00:00.000Z';
+const T2 = '2026-05-03T00:00:00.000Z';
+const NOW = '2026-05-04T00:00:00.000Z';
+
+function tx(updatedAt: string, extra: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1', type: 'expense', amount: 10, categoryId: 'cat-food', accountId: 'acc-cash',
+    date: '2026-05-01', createdAt: T0, updatedAt, ...extra,
+  };
+}
+
+// ─── Field comparison ────────────────────────────────────────────────────────
+
+describe('differingFields', () => {
+  it('ignores timestamps and device-only file paths', () => {
+    const file = { id: 'f', name: 'a.jpg', mimeType: 'image/jpeg', size: 1, remoteKey: 'k', createdAt: T0 };
+    const a = tx(T1, { note: 'lunch', attachments: [{ ...file, localUri: 'file:///a' }] });
+    const b = tx(T2, { note: 'dinner', attachments: [file] });
+    expect(differingFields(a, b)).toEqual(['note']);
+  });
+
+  it('treats a missing field like an empty one', () => {
+    expect(differingFields(tx(T1, { note: undefined }), tx(T1))).toEqual([]);
+  });
+});
+
+// ─── Reconcile ───────────────────────────────────────────────────────────────
+
+describe('reconcilePage', () => {
+  const bases = { 'tx-1': T0 };
+
+  it('takes the remote row when the local copy is unchanged since the base', () => {
+    const r = reconcilePage([tx(T0)], [tx(T1, { amount: 12 })], bases, new Set());
+    expect(r.merged[0].amount).toBe(12);
+    expect(r.bases['tx-1']).toBe(T1);
+    expect(r.conflicts).toEqual([]);
+  });
+
+  it('keeps a local edit when the remote row is still at the base', () => {
+    const r = reconcilePage([tx(T1, { amount: 12 })], [tx(T0)], bases, new Set());
+    expect(r.merged[0].amount).toBe(12);
+    expect(r.bases['tx-1']).toBe(T0);
+  });
+
+  it('reports a conflict when both sides changed', () => {
+    const local = tx(T1, { amount: 12 });
+    const remote = tx(T2, { note: 'from phone' });
+    const r = reconcilePage([local], [remote], bases, new Set());
+    expect(r.merged[0]).toBe(local);
+    expect(r.conflicts).toEqual([{ local, remote }]);
+    expect(r.bases['tx-1']).toBe(T0);
+  });
+
+  it('does not flag identical edits', () => {
+    const r = reconcilePage([tx(T1, { amount: 12 })], [tx(T2, { amount: 12 })], bases, new Set());
+    expect(r.conflicts).toEqual([]);
+    expect(r.bases['tx-1']).toBe(T2);
+  });
+
+  it('keeps an open conflict open when the remote row changes again', () => {
+    const r = reconcilePage([tx(T1, { amount: 12 })], [tx(T2, { amount: 15 })], { 'tx-1': T1 }, new Set(['tx-1']));
+    expect(r.conflicts).toHaveLength(1);
+  });
+
+  it('falls back to last-write-wins without a base', () => {
+    const older = reconcilePage([tx(T2, { amount: 12 })], [tx(T1, { amount: 15 })], {}, new Set());
+    expect(older.merged[0].amount).toBe(12);
+    expect(older.bases['tx-1']).toBe(T1);
+    const newer = reconcilePage([tx(T1, { amount: 12 })], [tx(T2, { amount: 15 })], {}, new Set());
+    expect(newer.merged[0].amount).toBe(15);
+  });
+
+  it('lets a new device\'s seeds yield to defaults renamed or trashed on the server', () => {
+    const [cash] = DEFAULT_ACCOUNTS;
+    const [food] = DEFAULT_CATEGORIES;
+    const renamed = { ...cash, name: 'Wallet', updatedAt: T0 };
+    const trashed = { ...food, deletedAt: T0, updatedAt: T0 };
+    expect(reconcilePage(DEFAULT_ACCOUNTS, [renamed], {}, new Set()).merged[0]).toBe(renamed);
+    expect(reconcilePage(DEFAULT_CATEGORIES, [trashed], {}, new Set()).merged[0]).toBe(trashed);
+  });
+
+  it('takes a purge over local edits and open conflicts made before it', () => {
+    const purged = tx(T2, { purgedAt: T2 });
+    const edited = reconcilePage([tx(T1, { amount: 12 })], [purged], bases, new Set(['tx-1']));
+    expect(edited.merged[0]).toBe(purged);
+    expect(edited.conflicts).toEqual([]);
+
+    const later = tx(NOW, { amount: 12 });
+    const restored = reconcilePage([later], [purged], bases, new Set());
+    expect(restored.merged[0]).toBe(later);
+    expect(restored.conflicts).toEqual([]);
+  });
+
+  it('adds rows new to this device', () => {
+    const r = reconcilePage([], [tx(T1)], {}, new Set());
+    expect(r.merged).toHaveLength(1);
+    expect(r.bases['tx-1']).toBe(T1);
+  });
+});
+
+// ─── Conflict list ───────────────────────────────────────────────────────────
+
+describe('updateConflicts', () => {
+  const open: SyncConflict[] = [
+    { key: conflictKey('transactions', 'tx-1'), entity: 'transactions', local: tx(T1), remote: tx(T2), detectedAt: T1 },
+    { key: conflictKey('transactions', 'tx-2'), entity: 'transactions', local: tx(T1, { id: 'tx-2' }), remote: tx(T2, { id: 'tx-2' }), detectedAt: T1 },
+  ];
+
+  it('settles conflicts of the page that merged cleanly and keeps the rest', () => {
+    const next = updateConflicts(open, 'transactions', ['tx-1'], [], NOW);
+    expect(next.map(c => c.key)).toEqual(['transactions:tx-2']);
+  });
+
+  it('refreshes the remote copy but keeps the detection time', () => {
+    const remote = tx(NOW, { amount: 99 });
+    const next = updateConflicts(open, 'transactions', ['tx-1'], [{ local: tx(T1), remote }], NOW);
+    const updated = next.find(c => c.key === 'transactions:tx-1')!;
+    expect(updated.remote).toBe(remote);
+    expect(updated.detectedAt).toBe(T1);
+  });
+});
+
+describe('resolveConflict', () => {
+  const conflict: SyncConflict = {
+    key: 'transactions:tx-1',
+    entity: 'transactions',
+    local: tx(T1, { amount: 12, note: 'mine' }),
+    remote: tx(T2, { amount: 15, date: '2026-05-02' }),
+    detectedAt: T2,
+  };
+
+  it('takes the remote copy unchanged', () => {
+    expect(resolveConflict(conflict, 'remote', NOW)).toBe(conflict.remote);
+  });
+
+  it('re-stamps the local copy so it is pushed', () => {
+    expect(resolveConflict(conflict, 'local', NOW)).toEqual({ ...conflict.local, updatedAt: NOW });
+  });
+
+  it('merges field by field on top of the remote copy', () => {
+    const merged = resolveConflict(conflict, { amount: 'local', note: 'local', date: 'remote' }, NOW) as Transaction;
+    expect(merged).toMatchObject({ amount: 12, note: 'mine', date: '2026-05-02', updatedAt: NOW });
+  });
+
+  it('drops a field the chosen side does not have', () => {
+    const c = { ...conflict, local: tx(T1), remote: tx(T2, { note: 'theirs' }) };
+    expect(resolveConflict(c, { note: 'local' }, NOW)).not.toHaveProperty('note');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  availableCredit, cardStatement, defaultPaymentAccount, lastClosingDate, paymentDueDate,
+} from '../lib/credit-cards';
+import { Account, Transaction } from '../lib/types';
+
+const AT = '2026-01-01T00:00:00.000Z';
+
+const account = (id: string, extra: Partial<Account> = {}): Account => ({
+  id, name: id, type: 'bank', initialBalance: 0, icon: '🏦', color: '#000', createdAt: AT, ...extra,
+});
+
+const card = account('visa', { type: 'credit_card', closingDay: 20, dueDay: 15, creditLimit: 1000 });
+
+const tx = (id: string, date: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+  id, type: 'expense', amount, categoryId: 'food', accountId: 'visa', date, createdAt: AT, updatedAt: AT, ...extra,
+});
+
+describe('lastClosingDate / paymentDueDate', () => {
+  it('closes on the day, or the month\'s last day when it is shorter', () => {
+    expect(lastClosingDate(20, '2026-03-20')).toBe('2026-03-20');
+    expect(lastClosingDate(20, '2026-03-19')).toBe('2026-02-20');
+    expect(lastClosingDate(31, '2026-03-05')).toBe('2026-02-28');
+    expect(lastClosingDate(25, '2026-01-10')).toBe('2025-12-25');
+  });
+
+  it('falls due on the next due day after closing', () => {
+    expect(paymentDueDate('2026-03-20', 15)).toBe('2026-04-15');
+    expect(paymentDueDate('2026-03-05', 28)).toBe('2026-03-28');
+    expect(paymentDueDate('2025-12-25', 20)).toBe('2026-01-20');
+    expect(paymentDueDate('2026-01-20', 31)).toBe('2026-01-31');
+  });
+});
+
+describe('cardStatement', () => {
+  const transactions = [
+    tx('old', '2026-02-10', 100),
+    tx('march', '2026-03-01', 250.5),
+    tx('refund', '2026-03-05', 50.5, { type: 'income' }),
+    tx('after', '2026-03-22', 40),
+    tx('payment', '2026-03-25', 120, { type: 'transfer', accountId: 'checking', toAccountId: 'visa' }),
+    tx('future', '2026-04-02', 10),
+    tx('gone', '2026-03-10', 999, { deletedAt: AT }),
+  ];
+
+  it('totals the last closed period and nets payments made since', () => {
+    expect(cardStatement(card, transactions, '2026-03-28')).toEqual({
+      start: '2026-02-21',
+      end: '2026-03-20',
+      dueDate: '2026-04-15',
+      balance: 300,
+      paid: 120,
+      amountDue: 180,
+      newCharges: 40,
+    });
+  });
+
+  it('owes nothing once paid off or in credit, and needs a closing day', () => {
+    const overpaid = [...transactions, tx('extra', '2026-03-26', 500, { type: 'income' })];
+    expect(cardStatement(card, overpaid, '2026-03-28')?.amountDue).toBe(0);
+    expect(cardStatement({ ...card, initialBalance: 400 }, [], '2026-03-28')?.amountDue).toBe(0);
+    expect(cardStatement({ ...card, closingDay: undefined }, transactions, '2026-03-28')).toBeNull();
+  });
+});
+
+describe('availableCredit / defaultPaymentAccount', () => {
+  it('subtracts what is owed from the limit', () => {
+    expect(availableCredit(card, -250.25)).toBe(749.75);
+    expect(availableCredit({ ...card, creditLimit: undefined }, -250)).toBeNull();
+  });
+
+  it('pays from a bank account in the card\'s currency', () => {
+    const accounts = [
+      card,
+      account('car', { type: 'loan' }),
+      account('cash', { type: 'cash' }),
+      account('euro', { currency: 'EUR' }),
+      account('checking'),
+      account('other-card', { type: 'credit_card' }),
+    ];
+    expect(defaultPaymentAccount(card, accounts, 'USD')?.id).toBe('checking');
+    expect(defaultPaymentAccount(card, accounts.filter(a => a.id !== 'checking'), 'USD')?.id).toBe('cash');
+    expect(defaultPaymentAccount({ ...card, currency: 'GBP' }, accounts, 'USD')).toBeUndefined();
+  });
+});
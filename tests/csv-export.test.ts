@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { transactionsToCsv } from '../lib/csv-export';
+import { groupSplitRows, guessMapping, mapRows, parseDelimited } from '../lib/csv-mapping';
+import { Account, Category, Transaction } from '../lib/types';
+
+const AT = '2026-03-01T12:00:00.000Z';
+
+const accounts: Account[] = [
+  { id: 'card', name: 'Card', type: 'credit_card', initialBalance: 0, icon: '💳', color: '#000', createdAt: AT },
+];
+
+const category = (id: string, name: string, parentId?: string): Category => ({
+  id, name, type: 'expense', icon: '•', color: '#000', parentId, isDefault: false, sortOrder: 0, createdAt: AT,
+});
+const categories = [category('food', 'Food'), category('coffee', 'Coffee', 'food'), category('home', 'Home')];
+
+const tx = (id: string, extra: Partial<Transaction>): Transaction => ({
+  id, type: 'expense', amount: 0, categoryId: 'food', accountId: 'card', date: '2026-03-01',
+  createdAt: AT, updatedAt: AT, ...extra,
+});
+
+describe('transactionsToCsv', () => {
+  const transactions = [
+    tx('shop', {
+      amount: 42.5,
+      note: 'Weekly shop',
+      tags: ['errands'],
+      splits: [
+        { categoryId: 'food', amount: 30 },
+        { categoryId: 'home', amount: 8, note: 'soap, sponges' },
+        { categoryId: 'coffee', amount: 4.5 },
+      ],
+    }),
+    tx('lunch', { amount: 12, createdAt: '2026-03-02T12:00:00.000Z', note: 'Lunch' }),
+  ];
+
+  it('writes a row per split line under the transaction\'s index', () => {
+    const rows = parseDelimited(transactionsToCsv(transactions, accounts, categories), ',');
+    expect(rows[0]).toEqual(['index', 'TIME', 'TYPE', 'AMOUNT', 'CATEGORY', 'ACCOUNT', 'NOTES', 'TAGS', 'SPLIT NOTE']);
+    expect(rows.slice(1).map(r => [r[0], r[3], r[4], r[8]])).toEqual([
+      ['1', '30', 'Food', ''],
+      ['1', '8', 'Home', 'soap, sponges'],
+      ['1', '4.5', 'Food > Coffee', ''],
+      ['2', '12', 'Food', ''],
+    ]);
+  });
+
+  it('imports back as the same split transaction', () => {
+    const rows = parseDelimited(transactionsToCsv(transactions, accounts, categories), ',');
+    const imported = groupSplitRows(mapRows(rows, guessMapping(rows, ',')).map(r => r.row!));
+
+    expect(imported).toHaveLength(2);
+    expect(imported[0]).toMatchObject({
+      type: 'expense',
+      amount: 42.5,
+      account: 'Card',
+      note: 'Weekly shop',
+      tags: 'errands',
+      lines: [
+        { category: 'Food', amount: 30, note: '' },
+        { category: 'Home', amount: 8, note: 'soap, sponges' },
+        { category: 'Food > Coffee', amount: 4.5, note: '' },
+      ],
+    });
+    expect(imported[1]).toMatchObject({ amount: 12, category: 'Food', note: 'Lunch' });
+    expect(imported[1].lines).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignColumn, detectDateFormat, detectDelimiter, detectHeaderRow, findProfileForHeaders, guessMapping,
+  mapRows, parseAmountText, parseDateWithFormat, parseDelimited,
+} from '../lib/csv-mapping';
+import { CsvMapping, CsvProfile } from '../lib/types';
+
+const OWN_EXPORT = '﻿"index","TIME","TYPE","AMOUNT","CATEGORY","ACCOUNT","NOTES","TAGS"\r\n'
+  + '"1","Feb 01, 2026 9:18 PM","(-) Expense","6.5","Food","Card","Lunch, with ""Ann""","Trip"\r\n'
+  + '"2","Feb 27, 2026 11:36 PM","(+) Income","332.65","Salary","Card","",""\r\n';
+
+const BANK_EXPORT = [
+  'Account statement;Checking 1234',
+  '',
+  'Booking date;Payee;Purpose;Debit;Credit',
+  '03.01.2026;Bakery;Bread;-12,50;',
+  '05.01.2026;Employer;"Salary\nJanuary";;1.250,00',
+  '31.02.2026;Typo;;4,00;',
+  '06.01.2026;Broken;;abc;',
+].join('\n');
+
+describe('parseDelimited / detectDelimiter', () => {
+  it('handles quotes, escaped quotes, line breaks in cells and a BOM', () => {
+    const rows = parseDelimited(OWN_EXPORT, ',');
+    expect(rows).toHaveLength(3);
+    expect(rows[0][0]).toBe('index');
+    expect(rows[1][6]).toBe('Lunch, with "Ann"');
+    expect(parseDelimited(BANK_EXPORT, ';')[3][2]).toBe('Salary\nJanuary');
+  });
+
+  it('picks the separator that splits rows evenly', () => {
+    expect(detectDelimiter(OWN_EXPORT)).toBe(',');
+    expect(detectDelimiter(BANK_EXPORT)).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+  });
+});
+
+describe('parseDateWithFormat', () => {
+  it('reads patterns strictly and rejects impossible dates', () => {
+    expect(parseDateWithFormat('03.01.2026', 'DD.MM.YYYY')).toBe('2026-01-03');
+    expect(parseDateWithFormat('1/3/2026', 'MM/DD/YYYY')).toBe('2026-01-03');
+    expect(parseDateWithFormat('20260103', 'YYYYMMDD')).toBe('2026-01-03');
+    expect(parseDateWithFormat('Feb 01, 2026 9:18 PM', 'MMM D, YYYY')).toBe('2026-02-01');
+    expect(parseDateWithFormat('2026-01-03T10:00:00Z', 'YYYY-MM-DD')).toBe('2026-01-03');
+    expect(parseDateWithFormat('31.02.2026', 'DD.MM.YYYY')).toBeNull();
+    expect(parseDateWithFormat('01/03/2026', 'DD/MM/YY')).toBeNull();
+    expect(parseDateWithFormat('yesterday', 'YYYY-MM-DD')).toBeNull();
+  });
+
+  it('detects the format from samples, day first when both fit', () => {
+    expect(detectDateFormat(['12/31/2025', '01/02/2026'])).toBe('MM/DD/YYYY');
+    expect(detectDateFormat(['01/02/2026'])).toBe('DD/MM/YYYY');
+    expect(detectDateFormat(['nope'])).toBeUndefined();
+  });
+});
+
+describe('parseAmountText', () => {
+  it('handles decimal commas, grouping, symbols and negative notations', () => {
+    expect(parseAmountText('1.250,00', ',')).toBe(1250);
+    expect(parseAmountText('-12,50', ',')).toBe(-12.5);
+    expect(parseAmountText('$1,234.56', '.')).toBe(1234.56);
+    expect(parseAmountText('(7.00)', '.')).toBe(-7);
+    expect(parseAmountText('7.00-', '.')).toBe(-7);
+    expect(parseAmountText('€ 3', '.')).toBe(3);
+    expect(parseAmountText('abc', '.')).toBeNull();
+    expect(parseAmountText('', '.')).toBeNull();
+  });
+});
+
+describe('guessMapping', () => {
+  it('maps our own export by its header names', () => {
+    const rows = parseDelimited(OWN_EXPORT, ',');
+    const mapping = guessMapping(rows, ',');
+    expect(mapping).toMatchObject({
+      headerRow: 0,
+      columns: { date: 1, type: 2, amount: 3, category: 4, account: 5, note: 6, tags: 7 },
+      dateFormat: 'MMM D, YYYY',
+      decimalSeparator: '.',
+    });
+  });
+
+  it('skips preamble rows and detects debit/credit columns and decimal commas', () => {
+    const rows = parseDelimited(BANK_EXPORT, ';');
+    expect(detectHeaderRow(rows)).toBe(1);
+    expect(guessMapping(rows, ';')).toMatchObject({
+      headerRow: 1,
+      columns: { date: 0, payee: 1, note: 2, debit: 3, credit: 4 },
+      decimalSeparator: ',',
+    });
+  });
+
+  it('falls back to what the values look like without a header', () => {
+    const rows = parseDelimited('2026-01-03,Coffee,-3.20\n2026-01-04,Rent,-900.00', ',');
+    expect(guessMapping(rows, ',')).toMatchObject({
+      headerRow: -1,
+      columns: { date: 0, amount: 2, note: 1 },
+      dateFormat: 'YYYY-MM-DD',
+    });
+  });
+});
+
+describe('assignColumn', () => {
+  it('keeps one field per column and either one amount or a debit/credit pair', () => {
+    expect(assignColumn({ date: 0, amount: 1 }, 0, 'note')).toEqual({ amount: 1, note: 0 });
+    expect(assignColumn({ date: 0, amount: 1 }, 2, 'debit')).toEqual({ date: 0, debit: 2 });
+    expect(assignColumn({ date: 0, debit: 1, credit: 2 }, 3, 'amount')).toEqual({ date: 0, amount: 3 });
+    expect(assignColumn({ date: 0, note: 1 }, 1, null)).toEqual({ date: 0 });
+  });
+});
+
+describe('mapRows', () => {
+  it('reads types from a type column or from debit/credit, and reports bad rows', () => {
+    const rows = parseDelimited(BANK_EXPORT, ';');
+    const results = mapRows(rows, guessMapping(rows, ';'));
+    expect(results.map(r => r.line)).toEqual([3, 4, 5, 6]);
+    expect(results[0].row).toEqual({
+      date: '2026-01-03', type: 'expense', amount: 12.5, category: '', account: '', payee: 'Bakery', note: 'Bread', tags: '',
+    });
+    expect(results[1].row).toMatchObject({ type: 'income', amount: 1250, note: 'Salary\nJanuary' });
+    expect(results[2]).toEqual({ line: 5, errors: ['Date "31.02.2026" doesn\'t match DD.MM.YYYY'] });
+    expect(results[3].errors).toEqual(['Amount "abc" is not a number']);
+
+    const own = parseDelimited(OWN_EXPORT, ',');
+    expect(mapRows(own, guessMapping(own, ',')).map(r => r.row?.type)).toEqual(['expense', 'income']);
+  });
+
+  it('applies the sign convention to a single amount column', () => {
+    const rows = [['2026-01-03', '-5'], ['2026-01-04', '5'], ['2026-01-05', '0'], ['', '1']];
+    const mapping: CsvMapping = {
+      delimiter: ',', headerRow: -1, columns: { date: 0, amount: 1 },
+      dateFormat: 'YYYY-MM-DD', decimalSeparator: '.', amountSign: 'expense-positive',
+    };
+    const results = mapRows(rows, mapping);
+    expect(results.slice(0, 2).map(r => r.row?.type)).toEqual(['income', 'expense']);
+    expect(results[2].errors).toEqual(['Amount is zero']);
+    expect(results[3].errors).toEqual(['No date']);
+  });
+});
+
+describe('findProfileForHeaders', () => {
+  it('matches saved profiles by column names, ignoring case and spacing', () => {
+    const AT = '2026-01-01T00:00:00.000Z';
+    const profile: CsvProfile = {
+      id: 'p', name: 'My bank', headers: ['Date', 'Amount'], createdAt: AT, updatedAt: AT,
+      mapping: guessMapping([['Date', 'Amount'], ['2026-01-01', '1']], ','),
+    };
+    expect(findProfileForHeaders([profile], [' date', 'AMOUNT '])).toBe(profile);
+    expect(findProfileForHeaders([profile], ['Date', 'Value'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertAmount, emptyRateTable, parseRates, rebaseRates, setRate, transactionsInBase, RateTable,
+} from '../lib/currency';
+import { Account, Transaction } from '../lib/types';
+
+const NOW = '2026-05-01T00:00:00.000Z';
+
+const table: RateTable = { pivot: 'USD', rates: { EUR: 1.1, GBP: 1.25 }, updatedAt: NOW };
+
+// ─── Rate Table ──────────────────────────────────────────────────────────────
+
+describe('convertAmount', () => {
+  it('converts through the pivot', () => {
+    expect(convertAmount(10, 'EUR', 'USD', table)).toBeCloseTo(11);
+    expect(convertAmount(11, 'USD', 'EUR', table)).toBeCloseTo(10);
+    expect(convertAmount(10, 'GBP', 'EUR', table)).toBeCloseTo(12.5 / 1.1);
+  });
+
+  it('returns null when a rate is missing', () => {
+    expect(convertAmount(10, 'JPY', 'USD', table)).toBeNull();
+    expect(convertAmount(10, 'JPY', 'JPY', table)).toBe(10);
+  });
+});
+
+describe('rebaseRates', () => {
+  it('re-quotes against the new pivot without changing conversions', () => {
+    const rebased = rebaseRates(table, 'EUR');
+    expect(rebased.pivot).toBe('EUR');
+    expect(rebased.rates.USD).toBeCloseTo(1 / 1.1);
+    expect(rebased.rates.EUR).toBeUndefined();
+    expect(convertAmount(10, 'GBP', 'USD', rebased)).toBeCloseTo(12.5);
+  });
+
+  it('leaves the table alone when the pivot has no rate', () => {
+    expect(rebaseRates(table, 'JPY')).toBe(table);
+  });
+});
+
+describe('setRate', () => {
+  it('writes into a table quoted in the base currency', () => {
+    const next = setRate(table, 'JPY', 0.0065, 'USD', NOW);
+    expect(next.rates.JPY).toBe(0.0065);
+    expect(next.rates.EUR).toBe(1.1);
+  });
+
+  it('links a new base currency through the rated code', () => {
+    // 1 EUR = 160 JPY, with JPY not yet in the table
+    const next = setRate(table, 'EUR', 160, 'JPY', NOW);
+    expect(convertAmount(1, 'EUR', 'JPY', next)).toBeCloseTo(160);
+    expect(convertAmount(1.1, 'USD', 'JPY', next)).toBeCloseTo(160);
+  });
+
+  it('starts over when nothing connects the currencies', () => {
+    const next = setRate(emptyRateTable('USD'), 'EUR', 0.85, 'GBP', NOW);
+    expect(next).toEqual({ pivot: 'GBP', rates: { EUR: 0.85 }, updatedAt: NOW });
+  });
+});
+
+describe('parseRates', () => {
+  it('accepts several line formats and reports bad lines', () => {
+    const { rates, errors } = parseRates('EUR,1.08\ngbp = 1.27\nJPY 0.0065\n\nbogus line');
+    expect(rates).toEqual({ EUR: 1.08, GBP: 1.27, JPY: 0.0065 });
+    expect(errors).toEqual(['bogus line']);
+  });
+
+  it('accepts a JSON object', () => {
+    const { rates, errors } = parseRates('{"EUR": 1.08, "XX": 2, "GBP": "1.27"}');
+    expect(rates).toEqual({ EUR: 1.08, GBP: 1.27 });
+    expect(errors).toEqual(['XX']);
+  });
+});
+
+// ─── Conversion helpers ──────────────────────────────────────────────────────
+
+describe('transactionsInBase', () => {
+  function account(id: string, currency?: string): Account {
+    return { id, name: id, type: 'bank', initialBalance: 0, icon: '🏦', color: '#000', currency, createdAt: NOW };
+  }
+  const accounts = [account('acc-usd'), account('acc-eur', 'EUR'), account('acc-jpy', 'JPY')];
+
+  function tx(id: string, accountId: string, amount: number): Transaction {
+    return {
+      id, type: 'expense', amount, categoryId: 'cat-food', accountId,
+      date: '2026-05-01', createdAt: NOW, updatedAt: NOW,
+    };
+  }
+
+  it('converts foreign amounts and reports currencies without a rate', () => {
+    const { transactions, missing } = transactionsInBase(
+      [tx('a', 'acc-usd', 5), tx('b', 'acc-eur', 10), tx('c', 'acc-jpy', 1000)],
+      accounts,
+      'USD',
+      table,
+    );
+    expect(transactions.map(t => t.amount)).toEqual([5, expect.closeTo(11), 1000]);
+    expect(missing).toEqual(['JPY']);
+  });
+});
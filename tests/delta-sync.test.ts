@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { chunk, dirtySince, usableCursor } from '../lib/delta-sync';
+
+const rows = [
+  { id: 'a', createdAt: '2026-01-01T00:00:00.000Z' },
+  { id: 'b', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-03-01T00:00:00.000Z' },
+  { id: 'c', createdAt: '2026-02-01T00:00:00.000Z', updatedAt: '2026-02-01T00:00:00.000Z' },
+];
+
+describe('dirtySince', () => {
+  it('treats everything as dirty before the first push', () => {
+    expect(dirtySince(rows, undefined)).toBe(rows);
+  });
+
+  it('keeps records saved at or after the mark, falling back to createdAt', () => {
+    expect(dirtySince(rows, '2026-02-01T00:00:00.000Z').map(r => r.id)).toEqual(['b', 'c']);
+    expect(dirtySince(rows, '2026-04-01T00:00:00.000Z')).toEqual([]);
+  });
+
+  it('compares instants, not strings', () => {
+    const remote = [{ id: 'r', createdAt: '2026-02-01T01:00:00+01:00' }];
+    expect(dirtySince(remote, '2026-02-01T00:00:00.000Z')).toHaveLength(1);
+    expect(dirtySince(remote, '2026-02-01T00:00:00.001Z')).toHaveLength(0);
+  });
+});
+
+describe('chunk', () => {
+  it('splits into batches of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('usableCursor', () => {
+  it('drops cursors saved before the feed paged on syncedAt', () => {
+    expect(usableCursor({ syncedAt: '2026-02-01T00:00:00.000Z', id: 'c' })).toEqual({ syncedAt: '2026-02-01T00:00:00.000Z', id: 'c' });
+    expect(usableCursor({ updatedAt: '2026-02-01T00:00:00.000Z', id: 'c' } as never)).toBeNull();
+    expect(usableCursor(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicatePairs, findImportDuplicates, isLikelyDuplicate, mergeDuplicate, pairKey, textSimilarity,
+} from '../lib/duplicates';
+import { Transaction } from '../lib/types';
+
+const AT = '2026-06-01T00:00:00.000Z';
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 42.5,
+  categoryId: 'food',
+  accountId: 'checking',
+  date: '2026-06-10',
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+describe('textSimilarity', () => {
+  it('ignores case and punctuation and scores partial overlaps', () => {
+    expect(textSimilarity('Whole Foods #123', 'WHOLE FOODS 123')).toBe(1);
+    expect(textSimilarity('Whole Foods Market', 'Whole Foods')).toBeGreaterThan(0.6);
+    expect(textSimilarity('Rent', 'Gym membership')).toBeLessThan(0.2);
+    expect(textSimilarity('', undefined)).toBe(1);
+    expect(textSimilarity('', 'Coffee', 0.4)).toBe(0.4);
+  });
+});
+
+describe('isLikelyDuplicate', () => {
+  it('needs the same account, type and amount, close dates and similar notes', () => {
+    const a = tx('a', { note: 'Whole Foods' });
+    expect(isLikelyDuplicate(a, tx('b', { note: 'WHOLE FOODS MKT', date: '2026-06-12' }))).toBe(true);
+    expect(isLikelyDuplicate(a, tx('b', { note: 'Whole Foods', date: '2026-06-14' }))).toBe(false);
+    expect(isLikelyDuplicate(a, tx('b', { note: 'Whole Foods', accountId: 'card' }))).toBe(false);
+    expect(isLikelyDuplicate(a, tx('b', { note: 'Whole Foods', amount: 42.51 }))).toBe(false);
+    expect(isLikelyDuplicate(a, tx('b', { note: 'Electricity bill' }))).toBe(false);
+    expect(isLikelyDuplicate(a, tx('b'))).toBe(true);
+  });
+
+  it('lets bank ids decide when both sides have one', () => {
+    expect(isLikelyDuplicate(tx('a', { fitId: '1' }), tx('b', { fitId: '2' }))).toBe(false);
+    expect(isLikelyDuplicate(tx('a', { fitId: '1' }), tx('b', { fitId: '1', date: '2026-07-01' }))).toBe(true);
+  });
+});
+
+describe('findImportDuplicates', () => {
+  it('flags candidates by index against live transactions, closest date first', () => {
+    const existing = [
+      tx('far', { date: '2026-06-07' }),
+      tx('near', { date: '2026-06-09' }),
+      tx('gone', { date: '2026-06-20', deletedAt: AT }),
+    ];
+    const found = findImportDuplicates(
+      [tx('new1'), tx('new2', { date: '2026-06-20' }), tx('new3', { amount: 1 })],
+      existing,
+    );
+    expect([...found.keys()]).toEqual([0]);
+    expect(found.get(0)?.id).toBe('near');
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('keeps the richer side, offers each duplicate once and skips dismissed pairs', () => {
+    const transactions = [
+      tx('typed', { createdAt: '2026-06-10T09:00:00.000Z' }),
+      tx('imported', { fitId: 'F1', note: 'Whole Foods', date: '2026-06-11', createdAt: '2026-06-12T09:00:00.000Z' }),
+      tx('again', { date: '2026-06-11', createdAt: '2026-06-13T09:00:00.000Z' }),
+      tx('other', { amount: 9 }),
+    ];
+    expect(findDuplicatePairs(transactions).map(p => [p.keep.id, p.duplicate.id]))
+      .toEqual([['imported', 'typed'], ['imported', 'again']]);
+
+    const dismissed = new Set([pairKey('typed', 'imported')]);
+    expect(findDuplicatePairs(transactions, undefined, dismissed).map(p => [p.keep.id, p.duplicate.id]))
+      .toEqual([['typed', 'again']]);
+  });
+});
+
+describe('mergeDuplicate', () => {
+  it('fills in what only the duplicate has and unions tags and attachments', () => {
+    const file = { id: 'r1', name: 'receipt.jpg', mimeType: 'image/jpeg', size: 10, createdAt: AT };
+    const keep = tx('keep', { fitId: 'F1', tags: ['groceries'] });
+    const duplicate = tx('dup', { note: 'Whole Foods', payeeId: 'wf', tags: ['Groceries', 'weekly'], attachments: [file] });
+    expect(mergeDuplicate(keep, duplicate)).toEqual({
+      ...keep,
+      note: 'Whole Foods',
+      payeeId: 'wf',
+      tags: ['groceries', 'weekly'],
+      attachments: [file],
+    });
+  });
+});
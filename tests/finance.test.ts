@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import {
+  accountInput,
+  budgetInput,
+  categoryInput,
+  decodeCursor,
+  encodeCursor,
+  fromAccountRow,
+  fromCategoryRow,
+  fromPayeeRow,
+  fromTransactionRow,
+  isNewerThanStored,
+  payeeInput,
+  toAccountRow,
+  toBudgetRow,
+  toCategoryRow,
+  toPayeeRow,
+  toTransactionRow,
+  transactionInput,
+} from "../server/finance";
+import type { AccountRow, CategoryRow, PayeeRow, TransactionRow } from "../drizzle/schema";
+import type { Account, Budget, Category, Payee, Transaction } from "../lib/types";
+
+const NOW = "2026-05-01T10:00:00.000Z";
+const SYNCED = new Date("2026-05-02T00:00:00.000Z");
+
+function context(user: TrpcContext["user"]): TrpcContext {
+  return { user, req: { protocol: "https", headers: {} } as TrpcContext["req"], res: {} as TrpcContext["res"] };
+}
+
+const sampleUser: NonNullable<TrpcContext["user"]> = {
+  id: 7,
+  openId: "sample-user",
+  email: null,
+  name: null,
+  loginMethod: null,
+  role: "user",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastSignedIn: new Date(),
+};
+
+// ─── Row mapping ─────────────────────────────────────────────────────────────
+
+describe("transaction rows", () => {
+  const tx: Transaction = {
+    id: "tx-1",
+    type: "expense",
+    amount: 30,
+    categoryId: "cat-food",
+    accountId: "acc-cash",
+    date: "2026-05-01",
+    splits: [
+      { categoryId: "cat-food", amount: 20 },
+      { categoryId: "cat-home", amount: 10, note: "soap" },
+    ],
+    attachments: [
+      { id: "f1", name: "a.jpg", mimeType: "image/jpeg", size: 10, localUri: "file:///a", remoteKey: "k1", remoteUrl: "https://x/k1", createdAt: NOW },
+      { id: "f2", name: "b.jpg", mimeType: "image/jpeg", size: 10, localUri: "file:///b", createdAt: NOW },
+    ],
+    payeeId: "payee-1",
+    tags: ["work", "travel"],
+    fitId: "FIT-0042",
+    status: "reconciled",
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: NOW,
+  };
+
+  it("round-trips, keeping only uploaded attachments", () => {
+    const row: TransactionRow = { ...toTransactionRow(tx), userId: 7, deletedAt: null, syncedAt: SYNCED } as TransactionRow;
+    expect(row.note).toBeNull();
+    expect(fromTransactionRow(row)).toEqual({
+      ...tx,
+      attachments: [{ id: "f1", name: "a.jpg", mimeType: "image/jpeg", size: 10, remoteKey: "k1", remoteUrl: "https://x/k1", createdAt: NOW }],
+    });
+  });
+
+  it("keeps the trash apart from the sync tombstone", () => {
+    const row = toTransactionRow(tx);
+    expect(row.trashedAt).toEqual(new Date(NOW));
+    expect(row).not.toHaveProperty("deletedAt");
+  });
+
+  it("accepts every field the app saves", () => {
+    expect(transactionInput.parse(tx)).toEqual(tx);
+  });
+});
+
+describe("account rows", () => {
+  it("fills updatedAt for accounts saved before sync existed", () => {
+    const account: Account = { id: "acc-1", name: "Cash", type: "cash", initialBalance: 0, icon: "💵", color: "#000", createdAt: NOW };
+    const row: AccountRow = { ...toAccountRow(account), userId: 7, deletedAt: null, syncedAt: SYNCED } as AccountRow;
+    expect(fromAccountRow(row)).toEqual({ ...account, currency: undefined, updatedAt: NOW });
+  });
+
+  it("round-trips card and loan terms", () => {
+    const loan: Account = {
+      id: "acc-car", name: "Car loan", type: "loan", initialBalance: -10000, icon: "🚗", color: "#000", currency: "EUR",
+      loan: { direction: "borrowed", principal: 10000, annualRate: 6, payments: 12, frequency: "monthly", firstPaymentDate: "2026-01-31" },
+      createdAt: NOW, updatedAt: NOW,
+    };
+    const card: Account = { ...loan, id: "acc-visa", type: "credit_card", loan: undefined, closingDay: 20, dueDay: 15, creditLimit: 1000 };
+    for (const account of [loan, card]) {
+      expect(accountInput.parse(account)).toEqual(account);
+      const row = { ...toAccountRow(account), userId: 7, deletedAt: null, syncedAt: SYNCED } as AccountRow;
+      expect(fromAccountRow(row)).toEqual(account);
+    }
+  });
+});
+
+describe("category rows", () => {
+  it("round-trips the parent and the trash", () => {
+    const category: Category = {
+      id: "cat-coffee", name: "Coffee", type: "expense", icon: "☕", color: "#000", parentId: "cat-food",
+      isDefault: false, sortOrder: 3, createdAt: NOW, updatedAt: NOW, deletedAt: NOW,
+    };
+    expect(categoryInput.parse(category)).toEqual(category);
+    const row = { ...toCategoryRow(category), userId: 7, deletedAt: null, syncedAt: SYNCED } as CategoryRow;
+    expect(fromCategoryRow(row)).toEqual(category);
+  });
+});
+
+describe("budget and payee rows", () => {
+  it("store a delete sent with the row as its tombstone", () => {
+    const budget: Budget = {
+      id: "b-1", categoryId: null, month: "2026-05", amount: 900, rollover: true, createdAt: NOW, updatedAt: NOW, deletedAt: NOW,
+    };
+    expect(budgetInput.parse(budget)).toEqual(budget);
+    expect(toBudgetRow(budget).deletedAt).toEqual(new Date(NOW));
+
+    const payee: Payee = { id: "p-1", name: "Corner Shop", createdAt: NOW, updatedAt: NOW };
+    expect(payeeInput.parse(payee)).toEqual(payee);
+    expect(toPayeeRow(payee).deletedAt).toBeNull();
+    const row = { ...toPayeeRow(payee), userId: 7, syncedAt: SYNCED } as PayeeRow;
+    expect(fromPayeeRow(row)).toEqual(payee);
+  });
+});
+
+// ─── Sync helpers ────────────────────────────────────────────────────────────
+
+describe("changes cursor", () => {
+  it("round-trips, including ids with colons", () => {
+    const cursor = { syncedAt: SYNCED, id: "tx:1" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("restarts on a missing or malformed cursor", () => {
+    expect(decodeCursor(undefined)).toBeNull();
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+  });
+});
+
+describe("isNewerThanStored", () => {
+  const stored = { updatedAt: new Date("2026-05-01T00:00:00Z"), deletedAt: null };
+
+  it("accepts new rows and equal or newer edits", () => {
+    expect(isNewerThanStored(new Date("2026-04-01T00:00:00Z"), undefined)).toBe(true);
+    expect(isNewerThanStored(stored.updatedAt, stored)).toBe(true);
+    expect(isNewerThanStored(new Date("2026-04-30T00:00:00Z"), stored)).toBe(false);
+  });
+
+  it("does not resurrect a row deleted after the edit", () => {
+    const deleted = { ...stored, deletedAt: new Date("2026-05-03T00:00:00Z") };
+    expect(isNewerThanStored(new Date("2026-05-02T00:00:00Z"), deleted)).toBe(false);
+    expect(isNewerThanStored(new Date("2026-05-04T00:00:00Z"), deleted)).toBe(true);
+  });
+});
+
+// ─── Router ──────────────────────────────────────────────────────────────────
+
+describe("finance router", () => {
+  it("requires a signed-in user", async () => {
+    const caller = appRouter.createCaller(context(null));
+    await expect(caller.finance.transactions.list()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("validates rows before touching the database", async () => {
+    const caller = appRouter.createCaller(context(sampleUser));
+    const bad = { id: "tx-1", type: "refund", amount: 1, categoryId: "c", accountId: "a", date: "May 1", createdAt: NOW, updatedAt: NOW };
+    await expect(
+      caller.finance.transactions.upsert([bad as unknown as Transaction]),
+    ).rejects.toBeInstanceOf(TRPCError);
+    await expect(caller.finance.budgets.changes({ limit: 0 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(caller.finance.payees.upsert([{ id: "p-1", name: "", createdAt: NOW, updatedAt: NOW }]))
+      .rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
+
+describe("attachments router", () => {
+  it("requires a signed-in user", async () => {
+    const caller = appRouter.createCaller(context(null));
+    await expect(
+      caller.attachments.upload({ file: "abc-receipt.pdf", contentType: "application/pdf", base64: "AA==" }),
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(caller.attachments.url({ key: "7/attachments/abc-receipt.pdf" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("refuses keys outside the caller's folder", async () => {
+    const caller = appRouter.createCaller(context(sampleUser));
+    const others = [
+      "8/attachments/abc-receipt.pdf",
+      "7/attachments/../8/attachments/abc.pdf",
+      "7/attachments/..",
+      "user_7-attachments/abc.pdf",
+    ];
+    for (const key of others) {
+      await expect(caller.attachments.url({ key })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    }
+    await expect(
+      caller.attachments.upload({ file: "../abc.pdf", contentType: "application/pdf", base64: "AA==" }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
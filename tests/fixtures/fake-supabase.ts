@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ─── In-memory Supabase ──────────────────────────────────────────────────────
+// Just enough of the query builder for lib/supabase-sync: filtered, ordered
+// selects, upserts, updates and deletes. Like the synced_at trigger, every
+// write is stamped with a server clock that only moves forward.
+
+type Row = Record<string, unknown> & { id: string };
+
+const CURSOR_FILTER = /^(\w+)\.gt\."([^"]+)",and\(\1\.eq\."\2",id\.gt\."([^"]+)"\)$/;
+
+class FakeQuery implements PromiseLike<{ data: Row[] | null; error: null }> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: string[] = [];
+  private max = Infinity;
+  private deleting = false;
+  private changes: Record<string, unknown> | null = null;
+
+  constructor(private rows: Row[], private stamp: () => string) {}
+
+  select() { return this; }
+  delete() { this.deleting = true; return this; }
+  update(values: Record<string, unknown>) { this.changes = values; return this; }
+  eq(column: string, value: unknown) { this.filters.push(r => r[column] === value); return this; }
+  in(column: string, values: unknown[]) { this.filters.push(r => values.includes(r[column])); return this; }
+  order(column: string) { this.orders.push(column); return this; }
+  limit(count: number) { this.max = count; return this; }
+
+  /** Only the keyset cursor that fetchChangedRows sends. */
+  or(expression: string) {
+    const match = CURSOR_FILTER.exec(expression);
+    if (!match) throw new Error(`fake supabase: unsupported filter ${expression}`);
+    const [, column, at, id] = match;
+    this.filters.push(r => String(r[column]) > at || (r[column] === at && r.id > id));
+    return this;
+  }
+
+  upsert(input: Row | Row[], options: { onConflict: string }) {
+    const keys = options.onConflict.split(',');
+    for (const row of Array.isArray(input) ? input : [input]) {
+      const index = this.rows.findIndex(r => keys.every(k => r[k] === row[k]));
+      const written = { ...this.rows[index], ...row, synced_at: this.stamp() };
+      if (index >= 0) this.rows[index] = written;
+      else this.rows.push(written);
+    }
+    return Promise.resolve({ data: null, error: null });
+  }
+
+  then<A = { data: Row[] | null; error: null }, B = never>(
+    onFulfilled?: ((value: { data: Row[] | null; error: null }) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): PromiseLike<A | B> {
+    return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+  }
+
+  private run(): { data: Row[] | null; error: null } {
+    const matches = (row: Row) => this.filters.every(f => f(row));
+    if (this.changes) {
+      this.rows.forEach((row, i) => {
+        if (matches(row)) this.rows[i] = { ...row, ...this.changes, synced_at: this.stamp() };
+      });
+      return { data: null, error: null };
+    }
+    if (this.deleting) {
+      const kept = this.rows.filter(r => !matches(r));
+      this.rows.splice(0, this.rows.length, ...kept);
+      return { data: null, error: null };
+    }
+    const found = this.rows.filter(matches).sort((a, b) => {
+      for (const column of this.orders) {
+        if (a[column] === b[column]) continue;
+        return String(a[column]) < String(b[column]) ? -1 : 1;
+      }
+      return 0;
+    });
+    return { data: found.slice(0, this.max).map(r => ({ ...r })), error: null };
+  }
+}
+
+export function fakeSupabase(start = '2026-10-19T00:00:00.000Z') {
+  const tables = new Map<string, Row[]>();
+  let clock = Date.parse(start);
+  const stamp = () => new Date(++clock).toISOString();
+  const table = (name: string) => {
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+  const client = { from: (name: string) => new FakeQuery(table(name), stamp) };
+  return { client: client as unknown as SupabaseClient, table };
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HistoryEntry, MAX_HISTORY, RecordChange, applyToList, attachmentsIn, emptyHistory, groupChanges,
+  invertChanges, recordEntry, redoStep, releasedAttachments, undoStep, withoutRecords,
+} from '../lib/history';
+import { Attachment, Transaction } from '../lib/types';
+
+const tx = (id: string, amount: number, attachments?: Attachment[]): Transaction => ({
+  id,
+  type: 'expense',
+  amount,
+  categoryId: 'cat',
+  accountId: 'acc',
+  date: '2026-05-01',
+  attachments,
+  createdAt: '2026-05-01T00:00:00.000Z',
+  updatedAt: '2026-05-01T00:00:00.000Z',
+});
+
+const file = (id: string): Attachment => ({
+  id, name: `${id}.jpg`, mimeType: 'image/jpeg', size: 1, localUri: `file:///${id}.jpg`, createdAt: '2026-05-01T00:00:00.000Z',
+});
+
+const entry = (id: string, changes: RecordChange[] = []): HistoryEntry => ({
+  id, label: id, at: '2026-05-01T00:00:00.000Z', destructive: false, changes,
+});
+
+describe('recordEntry', () => {
+  it('appends and clears redo', () => {
+    const start = { undo: [entry('a')], redo: [entry('b')] };
+    const { history, discarded } = recordEntry(start, entry('c'));
+    expect(history.undo.map(e => e.id)).toEqual(['a', 'c']);
+    expect(history.redo).toEqual([]);
+    expect(discarded.map(e => e.id)).toEqual(['b']);
+  });
+
+  it('drops the oldest entries beyond the limit', () => {
+    let history = emptyHistory();
+    for (let i = 0; i < MAX_HISTORY; i++) history = recordEntry(history, entry(`e${i}`)).history;
+    const result = recordEntry(history, entry('new'));
+    expect(result.history.undo).toHaveLength(MAX_HISTORY);
+    expect(result.history.undo[0].id).toBe('e1');
+    expect(result.discarded.map(e => e.id)).toEqual(['e0']);
+  });
+});
+
+describe('undoStep / redoStep', () => {
+  const edit: RecordChange = { entity: 'transactions', before: tx('t', 1), after: tx('t', 2) };
+  const add: RecordChange = { entity: 'transactions', before: null, after: tx('u', 5) };
+
+  it('reverts the latest entry and moves it to redo', () => {
+    const step = undoStep({ undo: [entry('a'), entry('b', [edit, add])], redo: [] })!;
+    expect(step.entry.id).toBe('b');
+    expect(step.changes).toEqual([
+      { entity: 'transactions', before: tx('u', 5), after: null },
+      { entity: 'transactions', before: tx('t', 2), after: tx('t', 1) },
+    ]);
+    expect(step.history.undo.map(e => e.id)).toEqual(['a']);
+    expect(step.history.redo.map(e => e.id)).toEqual(['b']);
+  });
+
+  it('redo re-applies the undone entry', () => {
+    const step = redoStep({ undo: [], redo: [entry('b', [edit])] })!;
+    expect(step.changes).toEqual([edit]);
+    expect(step.history).toEqual({ undo: [entry('b', [edit])], redo: [] });
+  });
+
+  it('returns null with nothing to step', () => {
+    expect(undoStep(emptyHistory())).toBeNull();
+    expect(redoStep(emptyHistory())).toBeNull();
+  });
+
+  it('inverting twice gives the original changes', () => {
+    expect(invertChanges(invertChanges([edit, add]))).toEqual([edit, add]);
+  });
+});
+
+describe('groupChanges', () => {
+  it('collects records to save and ids to delete per entity', () => {
+    const groups = groupChanges([
+      { entity: 'accounts', before: null, after: { id: 'a1' } as never },
+      { entity: 'transactions', before: tx('t1', 1), after: null },
+      { entity: 'transactions', before: null, after: tx('t2', 1) },
+    ]);
+    expect(groups.accounts).toEqual({ save: [{ id: 'a1' }], remove: [] });
+    expect(groups.transactions).toEqual({ save: [tx('t2', 1)], remove: ['t1'] });
+    expect(groups.budgets).toBeUndefined();
+  });
+});
+
+describe('applyToList', () => {
+  it('upserts, removes and keeps order', () => {
+    const list = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }, { id: 'c', v: 1 }];
+    expect(applyToList(list, [{ id: 'b', v: 2 }, { id: 'd', v: 1 }], ['a'])).toEqual([
+      { id: 'b', v: 2 }, { id: 'c', v: 1 }, { id: 'd', v: 1 },
+    ]);
+  });
+});
+
+describe('withoutRecords', () => {
+  it('drops entries touching purged records from both stacks', () => {
+    const a = entry('a', [{ entity: 'transactions', before: tx('t1', 1), after: null }]);
+    const b = entry('b', [{ entity: 'transactions', before: null, after: tx('t2', 1) }]);
+    const c = entry('c', [{ entity: 'accounts', before: null, after: { id: 't1' } as never }]);
+    const { history, discarded } = withoutRecords({ undo: [a, c], redo: [b] }, 'transactions', ['t1', 't2']);
+    expect(history).toEqual({ undo: [c], redo: [] });
+    expect(discarded.map(e => e.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('releasedAttachments', () => {
+  it('frees files nothing else can bring back', () => {
+    const deleted = entry('del', [{ entity: 'transactions', before: tx('t1', 1, [file('f1'), file('f2')]), after: null }]);
+    const stillUndoable = entry('edit', [
+      { entity: 'transactions', before: tx('t2', 1, [file('f2')]), after: tx('t2', 1) },
+    ]);
+    const live = [tx('t3', 1, [file('f3')])];
+    expect(releasedAttachments(attachmentsIn([deleted]), { undo: [stillUndoable], redo: [] }, live).map(a => a.id)).toEqual(['f1']);
+  });
+
+  it('keeps files of records that are live again', () => {
+    const deleted = entry('del', [{ entity: 'transactions', before: tx('t1', 1, [file('f1')]), after: null }]);
+    expect(releasedAttachments(attachmentsIn([deleted]), emptyHistory(), [tx('t1', 1, [file('f1')])])).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amortizationSchedule, interestCategory, loanOwed, paymentAmount, paymentDate, payoffProjection, splitPayment,
+} from '../lib/loans';
+import { LoanTerms } from '../lib/types';
+
+const car: LoanTerms = {
+  direction: 'borrowed',
+  principal: 10000,
+  annualRate: 6,
+  payments: 12,
+  frequency: 'monthly',
+  firstPaymentDate: '2026-01-31',
+};
+
+describe('paymentAmount / paymentDate', () => {
+  it('pays off principal and interest in equal payments', () => {
+    expect(paymentAmount(car)).toBe(860.67);
+    expect(paymentAmount({ ...car, annualRate: 0 })).toBe(833.34);
+    expect(paymentAmount({ ...car, annualRate: 0, principal: 1200 })).toBe(100);
+  });
+
+  it('steps by the payment frequency, keeping month-end dates', () => {
+    expect(paymentDate(car, 1)).toBe('2026-02-28');
+    expect(paymentDate(car, 2)).toBe('2026-03-31');
+    expect(paymentDate({ ...car, frequency: 'biweekly' }, 2)).toBe('2026-02-28');
+    expect(paymentDate({ ...car, frequency: 'yearly' }, 1)).toBe('2027-01-31');
+  });
+});
+
+describe('amortizationSchedule', () => {
+  it('takes interest first and ends at zero owed', () => {
+    const rows = amortizationSchedule(car);
+    expect(rows).toHaveLength(12);
+    expect(rows[0]).toEqual({ number: 1, date: '2026-01-31', payment: 860.67, interest: 50, principal: 810.67, balance: 9189.33 });
+    expect(rows[11].balance).toBe(0);
+    const principal = rows.reduce((s, r) => s + r.principal, 0);
+    expect(Math.round(principal * 100) / 100).toBe(10000);
+  });
+});
+
+describe('splitPayment', () => {
+  it('shrinks the last payment to what is left, and pays interest before principal', () => {
+    expect(splitPayment(car, 100)).toEqual({ payment: 100.5, interest: 0.5, principal: 100 });
+    expect(splitPayment(car, 5000, 20)).toEqual({ payment: 20, interest: 20, principal: 0 });
+  });
+});
+
+describe('interestCategory', () => {
+  const categories = [
+    { id: 'bank', name: 'Bank fees', type: 'expense' as const, deletedAt: '2026-02-01T00:00:00.000Z' },
+    { id: 'interest', name: 'interest ', type: 'expense' as const },
+    { id: 'earned', name: 'Interest', type: 'income' as const },
+  ];
+
+  it('falls back from a trashed or missing category to an "Interest" one of the right type', () => {
+    expect(interestCategory({ ...car, interestCategoryId: 'bank' }, categories)?.id).toBe('interest');
+    expect(interestCategory({ ...car, direction: 'lent', interestCategoryId: 'gone' }, categories)?.id).toBe('earned');
+    expect(interestCategory({ ...car, interestCategoryId: 'bank' }, [categories[0]])).toBeUndefined();
+  });
+});
+
+describe('loanOwed / payoffProjection', () => {
+  it('reads what is owed from either side of the loan', () => {
+    expect(loanOwed({ loan: car }, -2500.5)).toBe(2500.5);
+    expect(loanOwed({ loan: { ...car, direction: 'lent' } }, 400)).toBe(400);
+    expect(loanOwed({ loan: car }, 10)).toBe(0);
+  });
+
+  it('counts the payments left from the next due date', () => {
+    expect(payoffProjection(car, 10000, '2026-01-15')).toEqual({ paymentsLeft: 12, payoffDate: '2026-12-31' });
+    expect(payoffProjection(car, 1700, '2026-06-01')).toEqual({ paymentsLeft: 2, payoffDate: '2026-07-31' });
+    expect(payoffProjection(car, 200000, '2026-01-15')).toBeNull(); // payments short of the interest
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIGRATIONS, Migration, MigrationStorage, SCHEMA_VERSION, SCHEMA_VERSION_KEY, TRANSACTION_INDEXES,
+  getSchemaVersion, migrateStorage,
+} from '../lib/migrations';
+import { createRecordStore } from '../lib/record-store';
+import { Account, Transaction } from '../lib/types';
+import v1 from './fixtures/storage-v1.json';
+import v2 from './fixtures/storage-v2.json';
+
+function memoryStorage(fixture: Record<string, unknown> = {}): MigrationStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>(
+    Object.entries(fixture).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]),
+  );
+  return {
+    data,
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => { data.set(key, value); },
+    removeItem: async key => { data.delete(key); },
+    getAllKeys: async () => Array.from(data.keys()),
+    multiGet: async keys => keys.map(k => [k, data.get(k) ?? null] as const),
+    multiSet: async pairs => { for (const [k, v] of pairs) data.set(k, v); },
+    multiRemove: async keys => { for (const k of keys) data.delete(k); },
+  };
+}
+
+const transactions = (kv: MigrationStorage) => createRecordStore<Transaction>(kv, 'transactions', TRANSACTION_INDEXES);
+const accounts = (kv: MigrationStorage & { data: Map<string, string> }): Account[] =>
+  JSON.parse(kv.data.get('mymoney_accounts')!);
+
+describe('MIGRATIONS', () => {
+  it('are numbered consecutively from 2', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 2));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length + 1);
+  });
+});
+
+describe('migrateStorage', () => {
+  it('upgrades version 1 data', async () => {
+    const kv = memoryStorage(v1);
+    expect(await getSchemaVersion(kv)).toBe(1);
+
+    expect(await migrateStorage(kv)).toEqual({ from: 1, to: SCHEMA_VERSION });
+    expect(kv.data.get(SCHEMA_VERSION_KEY)).toBe(String(SCHEMA_VERSION));
+
+    // v2: the display symbol becomes the base currency of every account
+    expect(kv.data.get('mymoney_base_currency')).toBe('EUR');
+    expect(accounts(kv).map(a => a.currency)).toEqual(['EUR', 'EUR']);
+
+    // v3: transactions are records, indexed
+    expect(kv.data.has('mymoney_transactions')).toBe(false);
+    const store = transactions(kv);
+    expect((await store.all()).map(t => t.id).sort()).toEqual(['tx-1', 'tx-2', 'tx-3']);
+    expect(await store.get('tx-1')).toEqual(v1.mymoney_transactions[0]);
+    expect((await store.where('month', '2025-03')).map(t => t.id).sort()).toEqual(['tx-1', 'tx-2']);
+    expect((await store.where('account', 'acc-cash')).map(t => t.id).sort()).toEqual(['tx-1', 'tx-3']);
+
+    // Unrelated keys are left alone
+    expect(kv.data.get('mymoney_pending_deletes')).toBe('["tx-0"]');
+    expect(kv.data.has('mymoney_migration_backup')).toBe(false);
+  });
+
+  it('upgrades version 2 data without touching what is already current', async () => {
+    const kv = memoryStorage(v2);
+    expect(await migrateStorage(kv)).toEqual({ from: 2, to: SCHEMA_VERSION });
+
+    expect(kv.data.get('mymoney_base_currency')).toBe('GBP');
+    expect(kv.data.get('mymoney_accounts')).toBe(JSON.stringify(v2.mymoney_accounts));
+
+    const store = transactions(kv);
+    expect((await store.all()).map(t => t.id).sort()).toEqual(['tx-1', 'tx-2']);
+    expect((await store.where('category', 'cat-travel')).map(t => t.id).sort()).toEqual(['tx-1', 'tx-2']);
+    expect((await store.where('account', 'acc-usd')).map(t => t.id).sort()).toEqual(['tx-1', 'tx-2']);
+  });
+
+  it('does nothing at the current version', async () => {
+    const kv = memoryStorage(v2);
+    await migrateStorage(kv);
+    const before = new Map(kv.data);
+    expect(await migrateStorage(kv)).toEqual({ from: SCHEMA_VERSION, to: SCHEMA_VERSION });
+    expect(kv.data).toEqual(before);
+  });
+
+  it('restores the backup when a migration fails', async () => {
+    const kv = memoryStorage(v1);
+    const before = new Map(kv.data);
+    const failing: Migration = {
+      version: SCHEMA_VERSION + 1,
+      description: 'broken',
+      async up(storage) {
+        await storage.setItem('mymoney_new_key', 'x');
+        throw new Error('boom');
+      },
+    };
+
+    const result = await migrateStorage(kv, [...MIGRATIONS, failing]);
+    expect(result.from).toBe(1);
+    expect(result.to).toBe(1);
+    expect((result.error as Error).message).toBe('boom');
+    expect(kv.data).toEqual(before);
+
+    // The next launch retries from the same version
+    expect(await migrateStorage(kv)).toEqual({ from: 1, to: SCHEMA_VERSION });
+  });
+
+  it('backs up each key separately and migrates nothing when the backup fails', async () => {
+    const kv = memoryStorage(v1);
+    const before = new Map(kv.data);
+    const multiSet = kv.multiSet;
+    kv.multiSet = async pairs => {
+      if (pairs.some(([k, v]) => k.startsWith('mymoney_migration_backup:') && v.length > 200)) {
+        throw new Error('Row too big to fit into CursorWindow');
+      }
+      return multiSet(pairs);
+    };
+
+    const result = await migrateStorage(kv);
+    expect(result).toMatchObject({ from: 1, to: 1 });
+    expect((result.error as Error).message).toMatch(/too big/);
+    expect(kv.data).toEqual(before);
+  });
+
+  it('restores a backup left by an interrupted run before migrating', async () => {
+    const kv = memoryStorage(v1);
+    const before = Array.from(kv.data.entries());
+    for (const [key, value] of before) kv.data.set(`mymoney_migration_backup:${key}`, value);
+    kv.data.set('mymoney_migration_backup', JSON.stringify(before.map(([key]) => key)));
+    kv.data.delete('mymoney_transactions'); // half-migrated
+    kv.data.set('mymoney_rec:transactions:tx-1', JSON.stringify(v1.mymoney_transactions[0]));
+
+    expect(await migrateStorage(kv)).toEqual({ from: 1, to: SCHEMA_VERSION });
+    expect((await transactions(kv).all())).toHaveLength(3);
+    expect(Array.from(kv.data.keys()).filter(k => k.startsWith('mymoney_migration_backup'))).toEqual([]);
+  });
+
+  it('keeps a leftover backup it fails to restore, and migrates nothing', async () => {
+    const kv = memoryStorage(v1);
+    const before = Array.from(kv.data.entries());
+    for (const [key, value] of before) kv.data.set(`mymoney_migration_backup:${key}`, value);
+    kv.data.set('mymoney_migration_backup', JSON.stringify(before.map(([key]) => key)));
+    const multiSet = kv.multiSet;
+    kv.multiSet = async () => { throw new Error('disk full'); };
+
+    const result = await migrateStorage(kv);
+    expect(result).toMatchObject({ from: 1, to: 1 });
+    expect((result.error as Error).message).toBe('disk full');
+    expect(kv.data.get('mymoney_migration_backup')).toBeDefined();
+
+    kv.multiSet = multiSet;
+    expect(await migrateStorage(kv)).toEqual({ from: 1, to: SCHEMA_VERSION });
+  });
+
+  it('restores a single-value backup left by an older build', async () => {
+    const kv = memoryStorage(v1);
+    kv.data.set('mymoney_migration_backup', JSON.stringify(Array.from(kv.data.entries())));
+    kv.data.delete('mymoney_transactions');
+
+    expect(await migrateStorage(kv)).toEqual({ from: 1, to: SCHEMA_VERSION });
+    expect((await transactions(kv).all())).toHaveLength(3);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPayeeByName, normalizePayeeName, payeeDefaults, payeeTotals, suggestPayees,
+} from '../lib/payees';
+import { Payee, Transaction } from '../lib/types';
+
+const AT = '2026-05-01T00:00:00.000Z';
+
+const payee = (id: string, name: string): Payee => ({ id, name, createdAt: AT, updatedAt: AT });
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'food',
+  accountId: 'card',
+  date: '2026-05-01',
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+const payees = [payee('sb', 'Starbucks'), payee('st', 'Steam'), payee('ab', 'Costa Star Café'), payee('emp', 'Employer')];
+
+describe('names', () => {
+  it('matches names ignoring case and spacing', () => {
+    expect(normalizePayeeName('  Star   bucks ')).toBe('Star bucks');
+    expect(findPayeeByName(payees, ' starbucks')?.id).toBe('sb');
+    expect(findPayeeByName(payees, '')).toBeUndefined();
+  });
+
+  it('suggests prefix matches first, most used first', () => {
+    const used = [tx('1', { payeeId: 'st' }), tx('2', { payeeId: 'st' }), tx('3', { payeeId: 'sb' })];
+    expect(suggestPayees(payees, used, 'st').map(p => p.id)).toEqual(['st', 'sb', 'ab']);
+    expect(suggestPayees(payees, used, 'STAR').map(p => p.id)).toEqual(['sb', 'ab']);
+    expect(suggestPayees(payees, used, ' ')).toEqual([]);
+  });
+});
+
+describe('payeeDefaults', () => {
+  it('learns the usual type, category and account', () => {
+    const history = [
+      tx('1', { payeeId: 'sb', categoryId: 'food', accountId: 'card', date: '2026-01-01' }),
+      tx('2', { payeeId: 'sb', categoryId: 'food', accountId: 'cash', date: '2026-02-01' }),
+      tx('3', { payeeId: 'sb', categoryId: 'snacks', accountId: 'card', date: '2026-03-01' }),
+      tx('4', { payeeId: 'sb', type: 'income', categoryId: 'refunds', accountId: 'bank', date: '2026-04-01' }),
+      tx('5', { payeeId: 'st', categoryId: 'games' }),
+    ];
+    expect(payeeDefaults('sb', history)).toEqual({ type: 'expense', categoryId: 'food', accountId: 'card' });
+  });
+
+  it('breaks ties with the most recent use and ignores trashed transactions', () => {
+    const history = [
+      tx('1', { payeeId: 'sb', categoryId: 'food', date: '2026-01-01' }),
+      tx('2', { payeeId: 'sb', categoryId: 'snacks', date: '2026-03-01' }),
+      tx('3', { payeeId: 'sb', categoryId: 'food', date: '2026-04-01', deletedAt: AT }),
+    ];
+    expect(payeeDefaults('sb', history).categoryId).toBe('snacks');
+    expect(payeeDefaults('emp', history)).toEqual({});
+  });
+});
+
+describe('payeeTotals', () => {
+  const transactions = [
+    tx('1', { payeeId: 'sb', amount: 5, date: '2026-03-10' }),
+    tx('2', { payeeId: 'sb', amount: 7, date: '2026-04-02' }),
+    tx('3', { payeeId: 'st', amount: 60, date: '2026-04-05' }),
+    tx('4', { payeeId: 'emp', type: 'income', amount: 3000, date: '2026-04-30' }),
+    tx('5', { amount: 99, date: '2026-04-06' }),
+  ];
+
+  it('totals spending and income per payee, biggest spend first', () => {
+    expect(payeeTotals(transactions, payees).map(t => [t.payee.id, t.spent, t.received, t.count, t.lastDate])).toEqual([
+      ['st', 60, 0, 1, '2026-04-05'],
+      ['sb', 12, 0, 2, '2026-04-02'],
+      ['emp', 0, 3000, 1, '2026-04-30'],
+    ]);
+  });
+
+  it('limits the totals to a date range', () => {
+    const april = payeeTotals(transactions, payees, { fromDate: '2026-04-01', toDate: '2026-04-30' });
+    expect(april.find(t => t.payee.id === 'sb')?.spent).toBe(7);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { accountUsage, categoryUsage, describeUsage, moveAccount, moveCategory } from '../lib/reassign';
+import { Account, Budget, Category, RecurringRule, Transaction } from '../lib/types';
+
+const AT = '2026-06-01T00:00:00.000Z';
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'food',
+  accountId: 'cash',
+  date: '2026-05-01',
+  createdAt: '2026-05-01T00:00:00.000Z',
+  updatedAt: '2026-05-01T00:00:00.000Z',
+  ...extra,
+});
+
+const category = (id: string): Category => ({
+  id, name: id, type: 'expense', icon: '🍔', color: '#000', isDefault: false, sortOrder: 0, createdAt: AT,
+});
+
+const account = (id: string, initialBalance: number): Account => ({
+  id, name: id, type: 'cash', initialBalance, icon: '💵', color: '#000', createdAt: AT,
+});
+
+const budget = (id: string, categoryId: string, month: string, amount: number): Budget => ({
+  id, categoryId, month, amount, rollover: false, createdAt: AT, updatedAt: AT,
+});
+
+const rule = (id: string, extra: Partial<RecurringRule> = {}): RecurringRule => ({
+  id,
+  type: 'expense',
+  amount: 5,
+  categoryId: 'food',
+  accountId: 'cash',
+  frequency: 'monthly',
+  interval: 1,
+  startDate: '2026-01-01',
+  skipDates: [],
+  overrides: [],
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+const afterOf = (changes: ReturnType<typeof moveCategory>, entity: string, id: string) =>
+  changes.find(c => c.entity === entity && (c.before ?? c.after)!.id === id)?.after;
+
+describe('usage', () => {
+  const ledger = {
+    transactions: [
+      tx('t1'),
+      tx('t2', { splits: [{ categoryId: 'rent', amount: 4 }, { categoryId: 'food', amount: 6 }], categoryId: 'food' }),
+      tx('t3', { categoryId: 'rent', accountId: 'bank', toAccountId: 'cash', type: 'transfer' }),
+    ],
+    budgets: [budget('b1', 'food', '2026-01', 100)],
+    recurringRules: [rule('r1')],
+  };
+
+  it('counts what uses a category, split lines included', () => {
+    expect(categoryUsage('food', ledger)).toEqual({ transactions: 2, budgets: 1, rules: 1 });
+    expect(categoryUsage('rent', ledger)).toEqual({ transactions: 2, budgets: 0, rules: 0 });
+  });
+
+  it('counts both sides of transfers for an account', () => {
+    expect(accountUsage('cash', ledger)).toEqual({ transactions: 3, budgets: 0, rules: 1 });
+  });
+
+  it('describes the counts', () => {
+    expect(describeUsage({ transactions: 12, budgets: 1, rules: 2 })).toBe('12 transactions, 1 budget and 2 recurring rules');
+    expect(describeUsage({ transactions: 1, budgets: 0, rules: 0 })).toBe('1 transaction');
+    expect(describeUsage({ transactions: 0, budgets: 0, rules: 0 })).toBe('');
+  });
+});
+
+describe('moveCategory', () => {
+  it('moves transactions and rules, combining split lines, and trashes the category', () => {
+    const ledger = {
+      transactions: [
+        tx('plain'),
+        tx('split', { splits: [{ categoryId: 'food', amount: 6 }, { categoryId: 'dining', amount: 4 }], categoryId: 'food' }),
+        tx('other', { categoryId: 'rent' }),
+      ],
+      budgets: [],
+      recurringRules: [rule('r1')],
+    };
+    const changes = moveCategory(category('food'), category('dining'), 'reassign', ledger, AT);
+
+    expect((afterOf(changes, 'transactions', 'plain') as Transaction).categoryId).toBe('dining');
+    const split = afterOf(changes, 'transactions', 'split') as Transaction;
+    expect(split.categoryId).toBe('dining');
+    expect(split.splits).toBeUndefined();
+    expect(afterOf(changes, 'transactions', 'other')).toBeUndefined();
+    expect((afterOf(changes, 'recurringRules', 'r1') as RecurringRule).categoryId).toBe('dining');
+    expect((afterOf(changes, 'categories', 'food') as Category).deletedAt).toBe(AT);
+  });
+
+  it('leaves budgets alone when reassigning', () => {
+    const ledger = { transactions: [], budgets: [budget('b1', 'food', '2026-01', 100)], recurringRules: [] };
+    const changes = moveCategory(category('food'), category('dining'), 'reassign', ledger, AT);
+    expect(changes.filter(c => c.entity === 'budgets')).toEqual([]);
+  });
+
+  it('adds the budgets together when merging', () => {
+    const ledger = {
+      transactions: [],
+      budgets: [
+        budget('f1', 'food', '2026-01', 100),
+        budget('f3', 'food', '2026-03', 150),
+        budget('d2', 'dining', '2026-02', 50),
+        budget('d3', 'dining', '2026-03', 60),
+      ],
+      recurringRules: [],
+    };
+    const changes = moveCategory(category('food'), category('dining'), 'merge', ledger, AT);
+
+    // January: only food had a limit, its entry becomes dining's
+    expect(afterOf(changes, 'budgets', 'f1')).toMatchObject({ categoryId: 'dining', month: '2026-01', amount: 100 });
+    // February: dining 50 + food's January 100 still in force
+    expect(afterOf(changes, 'budgets', 'd2')).toMatchObject({ amount: 150 });
+    // March: both have entries; dining's holds the sum, food's is removed
+    expect(afterOf(changes, 'budgets', 'd3')).toMatchObject({ amount: 210 });
+    expect(changes).toContainEqual({ entity: 'budgets', before: ledger.budgets[1], after: null });
+  });
+});
+
+describe('moveAccount', () => {
+  const ledger = {
+    transactions: [
+      tx('spend'),
+      tx('in', { type: 'transfer', accountId: 'bank', toAccountId: 'cash' }),
+      tx('between', { type: 'transfer', accountId: 'cash', toAccountId: 'wallet' }),
+      tx('elsewhere', { accountId: 'bank' }),
+    ],
+    budgets: [],
+    recurringRules: [rule('r1'), rule('r2', { type: 'transfer', accountId: 'wallet', toAccountId: 'cash' })],
+  };
+
+  it('moves transactions and rules and trashes self-transfers', () => {
+    const changes = moveAccount(account('cash', 20), account('wallet', 5), 'reassign', ledger, AT);
+    expect((afterOf(changes, 'transactions', 'spend') as Transaction).accountId).toBe('wallet');
+    expect((afterOf(changes, 'transactions', 'in') as Transaction).toAccountId).toBe('wallet');
+    expect((afterOf(changes, 'transactions', 'between') as Transaction).deletedAt).toBe(AT);
+    expect(afterOf(changes, 'transactions', 'elsewhere')).toBeUndefined();
+    expect((afterOf(changes, 'recurringRules', 'r1') as RecurringRule).accountId).toBe('wallet');
+    expect(afterOf(changes, 'recurringRules', 'r2')).toBeNull();
+    expect((afterOf(changes, 'accounts', 'cash') as Account).deletedAt).toBe(AT);
+    expect(changes.some(c => c.entity === 'accounts' && c.before?.id === 'wallet')).toBe(false);
+  });
+
+  it('carries the opening balance when merging', () => {
+    const changes = moveAccount(account('cash', 20), account('wallet', 5), 'merge', ledger, AT);
+    expect((afterOf(changes, 'accounts', 'wallet') as Account).initialBalance).toBe(25);
+  });
+});
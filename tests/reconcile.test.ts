@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amountIn, carryStatus, clearedBalance, clearedStatusChanges, isReconciled, reconcileCandidates, reconcileDifference,
+  reconciledBalance, reconciliationsFor, statusIn, withEdits, withStatus,
+} from '../lib/reconcile';
+import { Account, Reconciliation, Transaction } from '../lib/types';
+
+const AT = '2026-03-01T00:00:00.000Z';
+
+const checking: Account = {
+  id: 'checking', name: 'Checking', type: 'bank', initialBalance: 100, icon: '🏦', color: '#000', createdAt: AT,
+};
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'food',
+  accountId: 'checking',
+  date: '2026-03-05',
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+describe('statusIn / withStatus', () => {
+  it('tracks each side of a transfer on its own', () => {
+    const transfer = tx('t', { type: 'transfer', toAccountId: 'savings', status: 'cleared' });
+    expect(statusIn(transfer, 'checking')).toBe('cleared');
+    expect(statusIn(transfer, 'savings')).toBeUndefined();
+    const both = withStatus(transfer, 'savings', 'reconciled');
+    expect(both).toMatchObject({ status: 'cleared', toStatus: 'reconciled' });
+    expect(isReconciled(both)).toBe(true);
+    expect(withStatus(both, 'checking', undefined).status).toBeUndefined();
+    expect(withStatus(transfer, 'cash', 'cleared')).toBe(transfer);
+  });
+});
+
+describe('amountIn', () => {
+  it('signs amounts by direction and uses the received amount of a transfer', () => {
+    expect(amountIn(tx('e'), 'checking')).toBe(-10);
+    expect(amountIn(tx('i', { type: 'income' }), 'checking')).toBe(10);
+    const transfer = tx('t', { type: 'transfer', toAccountId: 'usd', toAmount: 11 });
+    expect(amountIn(transfer, 'checking')).toBe(-10);
+    expect(amountIn(transfer, 'usd')).toBe(11);
+    expect(amountIn(transfer, 'cash')).toBe(0);
+  });
+});
+
+describe('reconcileCandidates', () => {
+  it('offers unreconciled transactions up to the statement date, and later ones already cleared', () => {
+    const transactions = [
+      tx('late', { date: '2026-03-20' }),
+      tx('lateCleared', { date: '2026-03-21', status: 'cleared' }),
+      tx('done', { status: 'reconciled' }),
+      tx('gone', { deletedAt: AT }),
+      tx('other', { accountId: 'cash' }),
+      tx('incoming', { type: 'transfer', accountId: 'cash', toAccountId: 'checking', date: '2026-03-02' }),
+      tx('open'),
+    ];
+    expect(reconcileCandidates(transactions, 'checking', '2026-03-15').map(t => t.id))
+      .toEqual(['incoming', 'open', 'lateCleared']);
+  });
+});
+
+describe('clearedBalance / reconcileDifference', () => {
+  it('starts from the opening balance and what is already reconciled', () => {
+    const transactions = [
+      tx('done', { type: 'income', amount: 50.1, status: 'reconciled' }),
+      tx('a', { amount: 20.2 }),
+      tx('b', { amount: 5 }),
+      tx('goneButReconciled', { status: 'reconciled', deletedAt: AT }),
+    ];
+    expect(reconciledBalance(checking, transactions)).toBe(150.1);
+    const cleared = clearedBalance(checking, transactions, new Set(['a', 'done']));
+    expect(cleared).toBe(129.9);
+    expect(reconcileDifference(124.9, cleared)).toBe(-5);
+    expect(reconcileDifference(129.9, cleared)).toBe(0);
+  });
+});
+
+describe('clearedStatusChanges', () => {
+  it('ticks and unticks unreconciled transactions, leaving reconciled ones alone', () => {
+    const transactions = [
+      tx('tick'),
+      tx('untick', { status: 'cleared' }),
+      tx('keep', { status: 'cleared' }),
+      tx('locked', { status: 'reconciled' }),
+      tx('incoming', { type: 'transfer', accountId: 'cash', toAccountId: 'checking', status: 'cleared' }),
+    ];
+    const changes = clearedStatusChanges(transactions, 'checking', new Set(['tick', 'keep', 'locked', 'incoming']));
+    expect(changes.map(c => [c.before?.id, (c.after as Transaction).status, (c.after as Transaction).toStatus]))
+      .toEqual([['tick', 'cleared', undefined], ['untick', undefined, undefined], ['incoming', 'cleared', 'cleared']]);
+  });
+});
+
+describe('carryStatus', () => {
+  it('keeps a side\'s status only while its amount and account are unchanged', () => {
+    const before = tx('t', { type: 'transfer', toAccountId: 'savings', status: 'reconciled', toStatus: 'cleared' });
+    expect(carryStatus(before, { ...before, status: undefined, note: 'rent' }))
+      .toMatchObject({ status: 'reconciled', toStatus: 'cleared' });
+    expect(carryStatus(before, { ...before, toAmount: 12 })).toMatchObject({ status: 'reconciled', toStatus: undefined });
+    expect(carryStatus(before, { ...before, amount: 12, toAccountId: 'cash' }))
+      .toMatchObject({ status: undefined, toStatus: undefined });
+  });
+});
+
+describe('withEdits', () => {
+  it('keeps the bank id and recurring rule the form doesn\'t show', () => {
+    const before = tx('t', { fitId: 'FIT-1', recurringRuleId: 'rent', status: 'cleared', note: 'old' });
+    const after = withEdits(before, { note: undefined, payeeId: 'landlord', updatedAt: '2026-03-09T00:00:00.000Z' });
+    expect(after).toMatchObject({ id: 't', fitId: 'FIT-1', recurringRuleId: 'rent', status: 'cleared', payeeId: 'landlord' });
+    expect(after.note).toBeUndefined();
+    expect(withEdits(before, { amount: 12 }).status).toBeUndefined();
+  });
+});
+
+describe('reconciliationsFor', () => {
+  it('lists the account\'s statements, latest first', () => {
+    const rec = (id: string, accountId: string, statementDate: string): Reconciliation => ({
+      id, accountId, statementDate, statementBalance: 0, transactionIds: [], createdAt: AT, updatedAt: AT,
+    });
+    const list = [rec('jan', 'checking', '2026-01-31'), rec('x', 'cash', '2026-03-31'), rec('feb', 'checking', '2026-02-28')];
+    expect(reconciliationsFor(list, 'checking').map(r => r.id)).toEqual(['feb', 'jan']);
+  });
+});
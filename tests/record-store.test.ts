@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { KeyValueStore, createRecordStore } from '../lib/record-store';
+
+type Row = { id: string; month: string; tags: string[] };
+
+function memoryStore(): KeyValueStore & { data: Map<string, string>; writes: string[] } {
+  const data = new Map<string, string>();
+  const writes: string[] = [];
+  return {
+    data,
+    writes,
+    getAllKeys: async () => Array.from(data.keys()),
+    multiGet: async keys => keys.map(k => [k, data.get(k) ?? null] as const),
+    multiSet: async pairs => {
+      for (const [k, v] of pairs) {
+        data.set(k, v);
+        writes.push(k);
+      }
+    },
+    multiRemove: async keys => {
+      for (const k of keys) data.delete(k);
+    },
+  };
+}
+
+function rowStore(kv: KeyValueStore) {
+  return createRecordStore<Row>(kv, 'rows', {
+    month: r => [r.month],
+    tag: r => r.tags,
+  });
+}
+
+const ids = (rows: Row[]) => rows.map(r => r.id).sort();
+
+describe('createRecordStore', () => {
+  it('stores each record under its own key', async () => {
+    const kv = memoryStore();
+    const store = rowStore(kv);
+    await store.put({ id: 'a', month: '2026-01', tags: [] });
+    await store.put({ id: 'b', month: '2026-02', tags: [] });
+    expect(kv.data.has('mymoney_rec:rows:a')).toBe(true);
+    expect(kv.data.has('mymoney_rec:rows:b')).toBe(true);
+    expect(ids(await store.all())).toEqual(['a', 'b']);
+    expect((await store.get('a'))?.month).toBe('2026-01');
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('looks records up by index and follows edits', async () => {
+    const store = rowStore(memoryStore());
+    await store.put({ id: 'a', month: '2026-01', tags: ['x', 'y'] });
+    await store.put({ id: 'b', month: '2026-01', tags: ['y'] });
+    expect(ids(await store.where('month', '2026-01'))).toEqual(['a', 'b']);
+    expect(ids(await store.where('tag', 'y'))).toEqual(['a', 'b']);
+
+    await store.put({ id: 'a', month: '2026-02', tags: ['x'] });
+    expect(ids(await store.where('month', '2026-01'))).toEqual(['b']);
+    expect(ids(await store.where('month', '2026-02'))).toEqual(['a']);
+    expect(ids(await store.where('tag', 'y'))).toEqual(['b']);
+  });
+
+  it('removes records and drops emptied index keys', async () => {
+    const kv = memoryStore();
+    const store = rowStore(kv);
+    await store.put({ id: 'a', month: '2026-01', tags: ['x'] });
+    await store.remove(['a', 'missing']);
+    expect(await store.all()).toEqual([]);
+    expect(await store.where('tag', 'x')).toEqual([]);
+    expect(kv.data.size).toBe(0);
+  });
+
+  it('replaceAll writes only changed records', async () => {
+    const kv = memoryStore();
+    const store = rowStore(kv);
+    await store.replaceAll([
+      { id: 'a', month: '2026-01', tags: [] },
+      { id: 'b', month: '2026-01', tags: [] },
+    ]);
+    kv.writes.length = 0;
+
+    await store.replaceAll([
+      { id: 'a', month: '2026-01', tags: [] },
+      { id: 'c', month: '2026-03', tags: [] },
+    ]);
+    expect(kv.writes.filter(k => k.startsWith('mymoney_rec:'))).toEqual(['mymoney_rec:rows:c']);
+    expect(ids(await store.all())).toEqual(['a', 'c']);
+    expect(ids(await store.where('month', '2026-01'))).toEqual(['a']);
+  });
+
+  it('serializes concurrent writes to a shared index key', async () => {
+    const store = rowStore(memoryStore());
+    await Promise.all(
+      ['a', 'b', 'c', 'd'].map(id => store.put({ id, month: '2026-01', tags: [] })),
+    );
+    expect(ids(await store.where('month', '2026-01'))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('ignores stale index entries left by an interrupted write', async () => {
+    const kv = memoryStore();
+    const store = rowStore(kv);
+    await store.put({ id: 'a', month: '2026-02', tags: [] });
+    kv.data.set('mymoney_idx:rows:month:2026-01', JSON.stringify(['a']));
+    expect(await store.where('month', '2026-01')).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMonths, dueOccurrences, nextOccurrence, isRuleActive, describeRecurrence, occurrenceToTransaction, withOverride,
+} from '../lib/recurrence';
+import { RecurringRule } from '../lib/types';
+
+function makeRule(overrides: Partial<RecurringRule> = {}): RecurringRule {
+  return {
+    id: 'rule-1',
+    type: 'expense',
+    amount: 10,
+    categoryId: 'cat-food',
+    accountId: 'acc-cash',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: '2026-01-31',
+    skipDates: [],
+    overrides: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Date Math ────────────────────────────────────────────────────────────────
+
+describe('addMonths', () => {
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2028-01-31', 1)).toBe('2028-02-29');
+    expect(addMonths('2026-01-31', 2)).toBe('2026-03-31');
+  });
+
+  it('rolls over year boundaries', () => {
+    expect(addMonths('2026-11-15', 3)).toBe('2027-02-15');
+  });
+});
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+describe('dueOccurrences', () => {
+  it('returns every occurrence up to today on first run', () => {
+    const due = dueOccurrences(makeRule(), '2026-04-10');
+    expect(due.map(o => o.date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('resumes after lastGeneratedDate', () => {
+    const due = dueOccurrences(makeRule({ lastGeneratedDate: '2026-02-28' }), '2026-04-30');
+    expect(due.map(o => o.date)).toEqual(['2026-03-31', '2026-04-30']);
+  });
+
+  it('supports weekly intervals', () => {
+    const rule = makeRule({ frequency: 'weekly', interval: 2, startDate: '2026-01-01' });
+    expect(dueOccurrences(rule, '2026-02-01').map(o => o.date))
+      .toEqual(['2026-01-01', '2026-01-15', '2026-01-29']);
+  });
+
+  it('honours skips, overrides, count and endDate', () => {
+    const rule = makeRule({
+      frequency: 'daily',
+      startDate: '2026-03-01',
+      count: 4,
+      skipDates: ['2026-03-02'],
+      overrides: [{ date: '2026-03-03', amount: 99 }],
+    });
+    const due = dueOccurrences(rule, '2026-03-31');
+    // the skipped day still counts towards the 4 occurrences
+    expect(due.map(o => o.date)).toEqual(['2026-03-01', '2026-03-03', '2026-03-04']);
+    expect(due[1].amount).toBe(99);
+
+    const ended = makeRule({ frequency: 'daily', startDate: '2026-03-01', endDate: '2026-03-02' });
+    expect(dueOccurrences(ended, '2026-03-31')).toHaveLength(2);
+  });
+});
+
+describe('withOverride', () => {
+  it('changes one occurrence and drops the change once it matches the rule again', () => {
+    const rule = makeRule({ note: 'Rent', overrides: [{ date: '2026-02-28', amount: 5 }] });
+    const changed = withOverride(rule, { date: '2026-03-31', amount: 120, note: 'Rent' });
+    expect(changed.overrides).toEqual([{ date: '2026-02-28', amount: 5 }, { date: '2026-03-31', amount: 120, note: undefined }]);
+    expect(nextOccurrence(changed, '2026-03-01')).toEqual({ date: '2026-03-31', amount: 120, note: 'Rent' });
+    expect(withOverride(changed, { date: '2026-03-31', amount: rule.amount, note: 'Rent' }).overrides)
+      .toEqual([{ date: '2026-02-28', amount: 5 }]);
+  });
+});
+
+describe('nextOccurrence / isRuleActive', () => {
+  it('skips skipped dates and stops when the series ends', () => {
+    const rule = makeRule({ skipDates: ['2026-02-28'], count: 3 });
+    expect(nextOccurrence(rule, '2026-01-31')?.date).toBe('2026-03-31');
+    expect(nextOccurrence(rule, '2026-03-31')).toBeNull();
+    expect(isRuleActive({ ...rule, lastGeneratedDate: '2026-03-31' })).toBe(false);
+    expect(isRuleActive(rule)).toBe(true);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('formats interval and end', () => {
+    expect(describeRecurrence({ frequency: 'monthly', interval: 1 })).toBe('Every month');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, count: 12 })).toBe('Every 2 weeks · 12 times');
+    expect(describeRecurrence({ frequency: 'daily', interval: 1, endDate: '2026-12-31' })).toBe('Every day · until 2026-12-31');
+  });
+});
+
+describe('occurrenceToTransaction', () => {
+  const NOW = '2026-02-01T00:00:00.000Z';
+
+  it('scales the received side and split lines to an overridden amount', () => {
+    const transfer = makeRule({ type: 'transfer', toAccountId: 'acc-eur', toAmount: 9 });
+    expect(occurrenceToTransaction(transfer, { date: '2026-02-28', amount: 20 }, 'tx', NOW).toAmount).toBe(18);
+
+    const split = makeRule({ splits: [{ categoryId: 'a', amount: 6 }, { categoryId: 'b', amount: 4 }] });
+    expect(occurrenceToTransaction(split, { date: '2026-02-28', amount: 5 }, 'tx', NOW).splits!.map(s => s.amount))
+      .toEqual([3, 2]);
+  });
+
+  it('stays finite for a rule without an amount', () => {
+    const transfer = makeRule({ type: 'transfer', amount: 0, toAccountId: 'acc-eur', toAmount: 9 });
+    expect(occurrenceToTransaction(transfer, { date: '2026-02-28', amount: 20 }, 'tx', NOW).toAmount).toBe(9);
+
+    const split = makeRule({ amount: 0, splits: [{ categoryId: 'a', amount: 6 }, { categoryId: 'b', amount: 4 }] });
+    const lines = occurrenceToTransaction(split, { date: '2026-02-28', amount: 12 }, 'tx', NOW).splits!;
+    expect(lines.map(s => s.amount)).toEqual([6, 6]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyRule, findMatchingRule, patternMatches, previewRule, ruleMatches, validateRule,
+} from '../lib/rules';
+import { CategoryRule, Payee, Transaction } from '../lib/types';
+
+const AT = '2026-05-01T00:00:00.000Z';
+
+const rule = (id: string, extra: Partial<CategoryRule> = {}): CategoryRule => ({
+  id,
+  name: id,
+  conditions: {},
+  enabled: true,
+  sortOrder: 0,
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'other',
+  accountId: 'card',
+  date: '2026-05-01',
+  createdAt: AT,
+  updatedAt: AT,
+  ...extra,
+});
+
+const payees: Payee[] = [{ id: 'sb', name: 'Starbucks', createdAt: AT, updatedAt: AT }];
+
+describe('patternMatches', () => {
+  it('matches anywhere, ignoring case, with * as a wildcard', () => {
+    expect(patternMatches('uber', 'Trip UBER *Eats')).toBe(true);
+    expect(patternMatches('amzn*mktp', 'AMZN Mktp US*2K4')).toBe(true);
+    expect(patternMatches('a.c', 'abc')).toBe(false);
+    expect(patternMatches('  ', 'anything')).toBe(true);
+  });
+});
+
+describe('ruleMatches', () => {
+  it('requires every condition and never matches transfers or empty rules', () => {
+    const coffee = rule('coffee', { conditions: { payee: 'starbucks', maxAmount: 20, accountId: 'card' } });
+    const input = { type: 'expense' as const, amount: 5, accountId: 'card', payeeName: 'Starbucks Reserve' };
+    expect(ruleMatches(coffee, input)).toBe(true);
+    expect(ruleMatches(coffee, { ...input, amount: 25 })).toBe(false);
+    expect(ruleMatches(coffee, { ...input, accountId: 'cash' })).toBe(false);
+    expect(ruleMatches(coffee, { ...input, type: 'transfer' })).toBe(false);
+    expect(ruleMatches(rule('empty'), input)).toBe(false);
+  });
+
+  it('lets the first enabled rule in order win', () => {
+    const rules = [
+      rule('late', { sortOrder: 2, conditions: { note: 'uber' }, categoryId: 'transport' }),
+      rule('off', { sortOrder: 0, enabled: false, conditions: { note: 'uber' }, categoryId: 'other' }),
+      rule('early', { sortOrder: 1, conditions: { note: 'uber eats' }, categoryId: 'food' }),
+    ];
+    const input = { type: 'expense' as const, amount: 30, accountId: 'card' };
+    expect(findMatchingRule(rules, { ...input, note: 'Uber Eats order' })?.id).toBe('early');
+    expect(findMatchingRule(rules, { ...input, note: 'Uber trip' })?.id).toBe('late');
+    expect(findMatchingRule(rules, { ...input, note: 'Taxi' })).toBeUndefined();
+  });
+});
+
+describe('applyRule', () => {
+  it('sets the category and merges tags, leaving split lines alone', () => {
+    const r = rule('r', { categoryId: 'food', tags: ['Coffee', 'work'] });
+    expect(applyRule(r, tx('a', { tags: ['work'] }))).toMatchObject({ categoryId: 'food', tags: ['work', 'Coffee'] });
+    const split = tx('b', { splits: [{ categoryId: 'other', amount: 10 }] });
+    expect(applyRule(r, split).categoryId).toBe('other');
+  });
+});
+
+describe('previewRule', () => {
+  it('lists matching history and counts recategorized transactions', () => {
+    const r = rule('r', { conditions: { payee: 'starbucks' }, categoryId: 'food' });
+    const history = [
+      tx('old', { payeeId: 'sb', date: '2026-01-01' }),
+      tx('new', { payeeId: 'sb', categoryId: 'food', date: '2026-03-01' }),
+      tx('gone', { payeeId: 'sb', deletedAt: AT }),
+      tx('other'),
+    ];
+    const preview = previewRule(r, history, payees);
+    expect(preview.matches.map(t => t.id)).toEqual(['new', 'old']);
+    expect(preview.recategorized).toBe(1);
+  });
+});
+
+describe('validateRule', () => {
+  it('needs a name, a condition, a sane range and something to set', () => {
+    const base = { name: 'Coffee', conditions: { note: 'coffee' }, categoryId: 'food' };
+    expect(validateRule(base)).toBeNull();
+    expect(validateRule({ ...base, conditions: {} })).toMatch(/condition/);
+    expect(validateRule({ ...base, conditions: { minAmount: 10, maxAmount: 5 } })).toMatch(/minimum/);
+    expect(validateRule({ ...base, categoryId: undefined })).toMatch(/category or tags/);
+  });
+});
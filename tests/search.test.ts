@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activeFilterCount, dateRange, emptyFilter, filterTransactions, isFilterEmpty,
+} from '../lib/search';
+import { Account, Category, Transaction, TransactionFilter } from '../lib/types';
+
+const NOW = '2026-05-01T00:00:00.000Z';
+
+const categories: Category[] = [
+  { id: 'cat-transport', name: 'Transport', icon: '🚕', color: '#000', type: 'expense', isDefault: true, sortOrder: 1, createdAt: NOW },
+  { id: 'cat-food', name: 'Food', icon: '🍔', color: '#000', type: 'expense', isDefault: true, sortOrder: 2, createdAt: NOW },
+  { id: 'cat-salary', name: 'Salary', icon: '💼', color: '#000', type: 'income', isDefault: true, sortOrder: 1, createdAt: NOW },
+];
+
+const accounts: Account[] = [
+  { id: 'acc-card', name: 'Card', type: 'credit_card', initialBalance: 0, icon: '💳', color: '#000', createdAt: NOW },
+  { id: 'acc-cash', name: 'Cash', type: 'cash', initialBalance: 0, icon: '💵', color: '#000', createdAt: NOW },
+];
+
+function tx(id: string, overrides: Partial<Transaction>): Transaction {
+  return {
+    id, type: 'expense', amount: 10, categoryId: 'cat-food', accountId: 'acc-cash',
+    date: '2026-04-01', createdAt: NOW, updatedAt: NOW, ...overrides,
+  };
+}
+
+const transactions = [
+  tx('uber-1', { note: 'Uber to airport', categoryId: 'cat-transport', accountId: 'acc-card', amount: 45, date: '2025-03-02' }),
+  tx('uber-2', { note: 'uber home', categoryId: 'cat-transport', amount: 12, date: '2025-11-20' }),
+  tx('tv', { note: 'New TV', accountId: 'acc-card', amount: 650, date: '2026-02-14' }),
+  tx('salary', { type: 'income', categoryId: 'cat-salary', accountId: 'acc-card', amount: 3000, date: '2026-03-31' }),
+  tx('move', { type: 'transfer', accountId: 'acc-cash', toAccountId: 'acc-card', amount: 200, date: '2026-04-02' }),
+];
+
+function search(patch: Partial<TransactionFilter>): string[] {
+  return filterTransactions(transactions, { ...emptyFilter(), ...patch }, categories, accounts).map(t => t.id);
+}
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+describe('filterTransactions', () => {
+  it('matches every search word against note, category and account names', () => {
+    expect(search({ query: 'UBER' })).toEqual(['uber-2', 'uber-1']);
+    expect(search({ query: 'uber card' })).toEqual(['uber-1']);
+    expect(search({ query: 'transport' })).toEqual(['uber-2', 'uber-1']);
+  });
+
+  it('combines date, amount, type, account and category filters', () => {
+    expect(search({ query: 'uber', fromDate: '2025-01-01', toDate: '2025-12-31', maxAmount: 20 })).toEqual(['uber-2']);
+    expect(search({ minAmount: 200, accountIds: ['acc-card'], types: ['expense'] })).toEqual(['tv']);
+    expect(search({ categoryIds: ['cat-salary'] })).toEqual(['salary']);
+  });
+
+  it('matches transfers on either account', () => {
+    expect(search({ types: ['transfer'], accountIds: ['acc-card'] })).toEqual(['move']);
+  });
+
+  it('includes subcategories when filtering by a parent category', () => {
+    const coffee: Category = { ...categories[1], id: 'cat-coffee', name: 'Coffee', parentId: 'cat-food', isDefault: false };
+    const latte = tx('latte', { categoryId: 'cat-coffee', date: '2026-04-03' });
+    const found = filterTransactions([...transactions, latte], { ...emptyFilter(), categoryIds: ['cat-food'] }, [...categories, coffee], accounts);
+    expect(found.map(t => t.id)).toEqual(['latte', 'move', 'tv']);
+  });
+
+  it('filters by tag and finds tags in the search text', () => {
+    const trip = [
+      tx('sushi', { tags: ['Trip to Tokyo'], date: '2026-04-05' }),
+      tx('flight', { tags: ['trip to tokyo', 'Tax deductible'], categoryId: 'cat-transport', date: '2026-04-04' }),
+    ];
+    const all = [...transactions, ...trip];
+    const byTag = (tags: string[]) =>
+      filterTransactions(all, { ...emptyFilter(), tags }, categories, accounts).map(t => t.id);
+    expect(byTag(['Trip to Tokyo'])).toEqual(['sushi', 'flight']);
+    expect(byTag(['tax deductible'])).toEqual(['flight']);
+    expect(filterTransactions(all, { ...emptyFilter(), query: 'tokyo' }, categories, accounts).map(t => t.id))
+      .toEqual(['sushi', 'flight']);
+  });
+
+  it('finds payee names in the search text', () => {
+    const coffee = tx('coffee', { payeeId: 'payee-sb', date: '2026-04-06' });
+    const payees = [{ id: 'payee-sb', name: 'Starbucks', createdAt: NOW, updatedAt: NOW }];
+    const found = filterTransactions([...transactions, coffee], { ...emptyFilter(), query: 'starbucks' }, categories, accounts, payees);
+    expect(found.map(t => t.id)).toEqual(['coffee']);
+  });
+});
+
+describe('isFilterEmpty / activeFilterCount', () => {
+  it('ignores whitespace-only queries and counts filter groups', () => {
+    expect(isFilterEmpty({ ...emptyFilter(), query: '  ' })).toBe(true);
+    const filter = { ...emptyFilter(), query: 'x', types: ['expense' as const], minAmount: 1, maxAmount: 5 };
+    expect(isFilterEmpty(filter)).toBe(false);
+    expect(activeFilterCount(filter)).toBe(2);
+  });
+});
+
+// ─── Date Ranges ─────────────────────────────────────────────────────────────
+
+describe('dateRange', () => {
+  it('resolves quick ranges relative to today', () => {
+    expect(dateRange('this-month', '2028-02-10')).toEqual({ fromDate: '2028-02-01', toDate: '2028-02-29' });
+    expect(dateRange('last-month', '2026-01-15')).toEqual({ fromDate: '2025-12-01', toDate: '2025-12-31' });
+    expect(dateRange('last-year', '2026-06-01')).toEqual({ fromDate: '2025-01-01', toDate: '2025-12-31' });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amountInCategory, categoryLines, primaryCategory, scaleSplits, splitRemainder, validateSplits,
+} from '../lib/splits';
+import { spentInMonth } from '../lib/budgets';
+import { Transaction } from '../lib/types';
+
+const NOW = '2026-05-01T00:00:00.000Z';
+
+function tx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1', type: 'expense', amount: 60, categoryId: 'cat-food', accountId: 'acc-cash',
+    date: '2026-05-03', createdAt: NOW, updatedAt: NOW, ...overrides,
+  };
+}
+
+const receipt = tx({
+  splits: [
+    { categoryId: 'cat-food', amount: 35.5 },
+    { categoryId: 'cat-personal', amount: 14.3, note: 'shampoo' },
+    { categoryId: 'cat-pets', amount: 10.2 },
+  ],
+});
+
+describe('validateSplits', () => {
+  it('requires the lines to add up to the total, to the cent', () => {
+    expect(validateSplits(60, receipt.splits!)).toBeNull();
+    expect(validateSplits(0.3, [{ categoryId: 'a', amount: 0.1 }, { categoryId: 'b', amount: 0.2 }])).toBeNull();
+    expect(validateSplits(61, receipt.splits!)).toBe('Lines are 1.00 short of the total');
+    expect(validateSplits(59, receipt.splits!)).toBe('Lines exceed the total by 1.00');
+  });
+
+  it('rejects single lines, missing categories and empty amounts', () => {
+    expect(validateSplits(10, [{ categoryId: 'a', amount: 10 }])).toMatch(/two lines/);
+    expect(validateSplits(10, [{ categoryId: '', amount: 5 }, { categoryId: 'b', amount: 5 }])).toMatch(/category/);
+    expect(validateSplits(10, [{ categoryId: 'a', amount: 10 }, { categoryId: 'b', amount: 0 }])).toMatch(/amount/);
+    expect(splitRemainder(10, [{ amount: 2.5 }, { amount: 2.5 }])).toBe(5);
+  });
+});
+
+describe('category attribution', () => {
+  it('spreads a split across its line categories', () => {
+    expect(categoryLines(receipt).map(l => l.categoryId)).toEqual(['cat-food', 'cat-personal', 'cat-pets']);
+    expect(amountInCategory(receipt, 'cat-pets')).toBe(10.2);
+    expect(amountInCategory(receipt, 'cat-transport')).toBe(0);
+    expect(categoryLines(tx())).toEqual([{ categoryId: 'cat-food', amount: 60, note: undefined }]);
+    expect(primaryCategory(receipt.splits!)).toBe('cat-food');
+  });
+
+  it('counts only the matching lines towards a category budget', () => {
+    const transactions = [receipt, tx({ id: 'tx-2', amount: 5, categoryId: 'cat-pets' })];
+    expect(spentInMonth(transactions, [], 'cat-pets', '2026-05')).toBeCloseTo(15.2);
+    expect(spentInMonth(transactions, [], null, '2026-05')).toBe(65);
+  });
+});
+
+describe('scaleSplits', () => {
+  it('keeps the scaled lines summing to the new total', () => {
+    const scaled = scaleSplits(receipt.splits!, 20, 1 / 3);
+    expect(scaled.reduce((sum, s) => sum + s.amount, 0)).toBe(20);
+    expect(scaled[1].note).toBe('shampoo');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSupabase } from '../lib/supabase';
+import {
+  deleteRemoteAccountsBatch, deleteRemotePayeesBatch, fetchRemoteAccounts, fetchRemotePayees, fetchRemoteTransactions, pushAccountsBatch,
+  pushPayeesBatch, pushTransactionsBatch,
+} from '../lib/supabase-sync';
+import { Account, Transaction } from '../lib/types';
+import { fakeSupabase } from './fixtures/fake-supabase';
+
+vi.mock('../lib/supabase', () => ({ getSupabase: vi.fn() }));
+
+const USER = 'user-1';
+
+const account = (id: string, updatedAt: string, extra: Partial<Account> = {}): Account => ({
+  id, name: id, type: 'bank', initialBalance: 0, icon: '🏦', color: '#000',
+  createdAt: '2026-01-01T00:00:00.000Z', updatedAt, ...extra,
+});
+
+let server: ReturnType<typeof fakeSupabase>;
+
+beforeEach(() => {
+  server = fakeSupabase();
+  vi.mocked(getSupabase).mockReturnValue(server.client);
+});
+
+describe('change feed', () => {
+  it('pages by server write order, one row past the cursor at a time', async () => {
+    await pushAccountsBatch([account('b', '2026-10-01T00:00:00.000Z'), account('a', '2026-10-02T00:00:00.000Z')], USER);
+
+    const first = await fetchRemoteAccounts(USER, null, 1);
+    const second = await fetchRemoteAccounts(USER, first.next, 1);
+    const done = await fetchRemoteAccounts(USER, second.next, 1);
+
+    expect([...first.records, ...second.records].map(a => a.id)).toEqual(['b', 'a']);
+    expect(done).toEqual({ records: [], next: null });
+  });
+
+  it('still delivers an old edit pushed after another device has pulled', async () => {
+    // Device B syncs a newer change and advances its cursor past it
+    await pushAccountsBatch([account('checking', '2026-10-01T09:00:00.000Z')], USER);
+    await pushAccountsBatch([account('savings', '2026-10-18T12:00:00.000Z')], USER);
+    const pulled = await fetchRemoteAccounts(USER, null, 50);
+    expect(pulled.records).toHaveLength(2);
+
+    // Device A was offline and only now pushes an edit it made on the 10th
+    await pushAccountsBatch([account('checking', '2026-10-10T08:00:00.000Z', { name: 'Joint checking' })], USER);
+
+    const next = await fetchRemoteAccounts(USER, pulled.next, 50);
+    expect(next.records.map(a => [a.id, a.name])).toEqual([['checking', 'Joint checking']]);
+    expect(next.next!.syncedAt > pulled.next!.syncedAt).toBe(true);
+  });
+});
+
+describe('deletes', () => {
+  it('tombstones payees so devices past the row still pull the delete', async () => {
+    const at = '2026-10-01T00:00:00.000Z';
+    await pushPayeesBatch([{ id: 'p1', name: 'Grocer', createdAt: at, updatedAt: at }], USER);
+    const pulled = await fetchRemotePayees(USER, null, 50);
+
+    await deleteRemotePayeesBatch(['p1']);
+
+    const next = await fetchRemotePayees(USER, pulled.next, 50);
+    expect(next.records).toHaveLength(1);
+    expect(next.records[0].deletedAt).toBeTruthy();
+  });
+
+  it('tombstones purged accounts of this user only, apart from the trash', async () => {
+    await pushAccountsBatch([account('cash', '2026-10-01T00:00:00.000Z', { deletedAt: '2026-10-01T00:00:00.000Z' })], USER);
+    await pushAccountsBatch([account('cash', '2026-10-01T00:00:00.000Z')], 'user-2');
+    const pulled = await fetchRemoteAccounts(USER, null, 50);
+
+    await deleteRemoteAccountsBatch(['cash'], USER);
+
+    const next = await fetchRemoteAccounts(USER, pulled.next, 50);
+    expect(next.records).toHaveLength(1);
+    expect(next.records[0]).toMatchObject({ deletedAt: '2026-10-01T00:00:00.000Z', purgedAt: expect.any(String) });
+    expect((await fetchRemoteAccounts('user-2', null, 50)).records[0].purgedAt).toBeUndefined();
+  });
+});
+
+describe('transaction rows', () => {
+  it('keep the recurring rule they were generated from', async () => {
+    const at = '2026-10-01T00:00:00.000Z';
+    const rent: Transaction = {
+      id: 'tx-rent', type: 'expense', amount: 900, categoryId: 'cat-rent', accountId: 'acc-bank', date: '2026-10-01',
+      recurringRuleId: 'rule-rent', createdAt: at, updatedAt: at,
+    };
+    await pushTransactionsBatch([rent], USER, [], []);
+
+    const { records } = await fetchRemoteTransactions(USER, null, 50);
+    expect(records[0].recurringRuleId).toBe('rule-rent');
+  });
+});
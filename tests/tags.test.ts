@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTag, formatTags, knownTags, normalizeTag, parseTags, removeTag, suggestTags, tagTotals,
+} from '../lib/tags';
+import { Transaction } from '../lib/types';
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'food',
+  accountId: 'cash',
+  date: '2026-05-01',
+  createdAt: '2026-05-01T00:00:00.000Z',
+  updatedAt: '2026-05-01T00:00:00.000Z',
+  ...extra,
+});
+
+describe('editing tags', () => {
+  it('normalizes what is typed', () => {
+    expect(normalizeTag('  #Trip   to  Tokyo ')).toBe('Trip to Tokyo');
+  });
+
+  it('adds a tag once, whatever its case', () => {
+    let tags = addTag([], 'Wedding');
+    tags = addTag(tags, 'wedding');
+    tags = addTag(tags, '   ');
+    tags = addTag(tags, 'Tax deductible');
+    expect(tags).toEqual(['Wedding', 'Tax deductible']);
+    expect(removeTag(tags, 'WEDDING')).toEqual(['Tax deductible']);
+  });
+});
+
+describe('knownTags / suggestTags', () => {
+  const transactions = [
+    tx('a', { tags: ['Wedding'] }),
+    tx('b', { tags: ['wedding', 'Tax deductible'] }),
+    tx('c', { tags: ['Trip to Tokyo'] }),
+    tx('d'),
+  ];
+
+  it('lists tags by use, in the first spelling seen', () => {
+    expect(knownTags(transactions)).toEqual(['Wedding', 'Tax deductible', 'Trip to Tokyo']);
+  });
+
+  it('suggests prefix matches before other matches and skips selected tags', () => {
+    const known = knownTags(transactions);
+    expect(suggestTags(known, 't', [])).toEqual(['Tax deductible', 'Trip to Tokyo']);
+    expect(suggestTags(known, 'to', [])).toEqual(['Trip to Tokyo']);
+    expect(suggestTags(known, 'ding', ['tax deductible'])).toEqual(['Wedding']);
+    expect(suggestTags(known, '', ['Wedding'])).toEqual(['Tax deductible', 'Trip to Tokyo']);
+  });
+});
+
+describe('tagTotals', () => {
+  const transactions = [
+    tx('flight', { amount: 800, tags: ['Trip to Tokyo', 'Tax deductible'], date: '2026-03-20' }),
+    tx('sushi', { amount: 60, tags: ['trip to tokyo'], date: '2026-04-02' }),
+    tx('refund', { type: 'income', amount: 100, tags: ['Trip to Tokyo'], date: '2026-04-10' }),
+    tx('rent', { amount: 1000, date: '2026-04-01' }),
+  ];
+
+  it('totals each tag, counting multi-tagged transactions towards each', () => {
+    expect(tagTotals(transactions, 'expense')).toEqual([
+      { tag: 'Trip to Tokyo', total: 860, count: 2 },
+      { tag: 'Tax deductible', total: 800, count: 1 },
+    ]);
+  });
+
+  it('limits the totals to a date range', () => {
+    expect(tagTotals(transactions, 'expense', { fromDate: '2026-04-01', toDate: '2026-04-30' })).toEqual([
+      { tag: 'Trip to Tokyo', total: 60, count: 1 },
+    ]);
+    expect(tagTotals(transactions, 'income', { toDate: '2026-04-30' })).toEqual([
+      { tag: 'Trip to Tokyo', total: 100, count: 1 },
+    ]);
+  });
+});
+
+describe('CSV cells', () => {
+  it('round-trips tags through a cell', () => {
+    const tags = ['Trip to Tokyo', 'Tax deductible'];
+    expect(formatTags(tags)).toBe('Trip to Tokyo; Tax deductible');
+    expect(parseTags(formatTags(tags))).toEqual(tags);
+    expect(parseTags('')).toEqual([]);
+    expect(formatTags(undefined)).toBe('');
+  });
+});
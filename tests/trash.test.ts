@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  daysUntilPurge, deletedWithAccount, expiredIds, placeRecord, restoredRecord, splitDeleted, tombstone,
+} from '../lib/trash';
+import { Account, Transaction } from '../lib/types';
+
+const AT = '2026-05-10T12:00:00.000Z';
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: 'expense',
+  amount: 10,
+  categoryId: 'cat',
+  accountId: 'acc',
+  date: '2026-05-01',
+  createdAt: '2026-05-01T00:00:00.000Z',
+  updatedAt: '2026-05-01T00:00:00.000Z',
+  ...extra,
+});
+
+const account: Account = {
+  id: 'acc', name: 'Cash', type: 'cash', initialBalance: 0, icon: '💵', color: '#000', deletedAt: AT,
+} as Account;
+
+describe('tombstone / restoredRecord', () => {
+  it('marks the record deleted and moves updatedAt so it syncs', () => {
+    const deleted = tombstone(tx('t1'), AT);
+    expect(deleted.deletedAt).toBe(AT);
+    expect(deleted.updatedAt).toBe(AT);
+  });
+
+  it('restores without the tombstone', () => {
+    const restored = restoredRecord(tombstone(tx('t1'), AT), '2026-05-11T00:00:00.000Z');
+    expect('deletedAt' in restored).toBe(false);
+    expect(restored.updatedAt).toBe('2026-05-11T00:00:00.000Z');
+  });
+});
+
+describe('splitDeleted / placeRecord', () => {
+  it('separates live records from tombstones', () => {
+    const { live, deleted } = splitDeleted([tx('a'), tombstone(tx('b'), AT), tx('c')]);
+    expect(live.map(t => t.id)).toEqual(['a', 'c']);
+    expect(deleted.map(t => t.id)).toEqual(['b']);
+  });
+
+  it('moves a record between the lists as it is deleted and restored', () => {
+    let lists = placeRecord([tx('a'), tx('b')], [], tombstone(tx('a'), AT));
+    expect(lists.live.map(t => t.id)).toEqual(['b']);
+    expect(lists.deleted.map(t => t.id)).toEqual(['a']);
+
+    lists = placeRecord(lists.live, lists.deleted, tx('a', { amount: 5 }));
+    expect(lists.live.map(t => [t.id, t.amount])).toEqual([['b', 10], ['a', 5]]);
+    expect(lists.deleted).toEqual([]);
+  });
+});
+
+describe('deletedWithAccount', () => {
+  it('finds only the transactions trashed together with the account', () => {
+    const list = [
+      tx('same', { deletedAt: AT }),
+      tx('transfer-in', { accountId: 'other', toAccountId: 'acc', deletedAt: AT }),
+      tx('earlier', { deletedAt: '2026-05-01T00:00:00.000Z' }),
+      tx('elsewhere', { accountId: 'other', deletedAt: AT }),
+    ];
+    expect(deletedWithAccount(account, list).map(t => t.id)).toEqual(['same', 'transfer-in']);
+  });
+});
+
+describe('retention', () => {
+  const now = new Date('2026-05-20T12:00:00.000Z');
+
+  it('counts the days left before purging', () => {
+    expect(daysUntilPurge({ id: 'x', deletedAt: AT }, 30, now)).toBe(20);
+    expect(daysUntilPurge({ id: 'x', deletedAt: AT }, 7, now)).toBe(0);
+    expect(daysUntilPurge({ id: 'x', deletedAt: AT }, 0, now)).toBeNull();
+  });
+
+  it('picks tombstones older than the period', () => {
+    const records = [
+      { id: 'old', deletedAt: '2026-05-01T00:00:00.000Z' },
+      { id: 'recent', deletedAt: '2026-05-18T00:00:00.000Z' },
+      { id: 'live' },
+    ];
+    expect(expiredIds(records, 7, now)).toEqual(['old']);
+    expect(expiredIds(records, 0, now)).toEqual([]);
+  });
+});